@@ -8,12 +8,21 @@ import userRoutes from "./src/routes/userroutes.js";
 import communityroutes from "./src/routes/communityroutes.js";
 import globalpostroutes from "./src/routes/globalpostroutes.js";
 import communitymessageroutes from "./src/routes/communitymessageroutes.js";
+import savedroutes from "./src/routes/savedroutes.js";
 import http from "http";
 import { initsocket } from "./src/socket.js";
+import { startScheduler } from "./src/services/scheduler.js";
+import { backfillRankingScores } from "./src/services/ranking.js";
 
 dotenv.config();
 mongoose.connect(process.env.MONGO_URI)
-  .then(() => console.log("Mongo Connected"))
+  .then(() => {
+    console.log("Mongo Connected");
+    // publishes scheduled posts when they are due
+    startScheduler();
+    // hot/top scores for posts from before ranking existed
+    backfillRankingScores();
+  })
   .catch(err => console.error(err));
 
   
@@ -30,5 +39,6 @@ app.use("/user", userRoutes);
 app.use("/community", communityroutes);
 app.use("/globalpost", globalpostroutes);
 app.use("/communitypost", communitymessageroutes);
+app.use("/saved", savedroutes);
 const PORT = process.env.PORT || 5000;
 server.listen(PORT, () => console.log(`Server running on ${PORT}`));
@@ -4,16 +4,16 @@ import generateOTP from "../services/generateOTP.js";
 import { sendEmail } from "../services/sendEmail.js";
 import { uniqueNamesGenerator, adjectives, animals } from "unique-names-generator";
 import { v4 as uuidv4 } from "uuid";
-import jwt from "jsonwebtoken";
+import { consumeRefreshToken, issueTokens, revokeRefreshToken } from "../services/tokens.js";
 
 export const signin = async (req, res) => {
   const { email } = req.body;
   
   if (!email) 
-    return res.status(400).json({ message: "Email is required" });
+    return res.status(400).json({ message: "Email is required", code: "VALIDATION_FAILED", errors: { email: "Email is required" } });
 
   if (!email.endsWith("@cuchd.in"))
-    return res.status(400).json({ message: "Please use your CU college emailID" });
+    return res.status(400).json({ message: "Please use your CU college emailID", code: "VALIDATION_FAILED", errors: { email: "Use your @cuchd.in email" } });
 
   if (await OTP.findOne({ email }))
     return res.status(400).json({ message: "OTP already sent" });
@@ -31,9 +31,9 @@ export const verifyOtp = async (req, res) => {
     const { email, enteredOtp } = req.body;
 
     const otpEntry = await OTP.findOne({ email });
-    if (!otpEntry) return res.status(400).json({ message: "OTP expired" });
+    if (!otpEntry) return res.status(400).json({ message: "OTP expired", code: "OTP_EXPIRED" });
     if (otpEntry.otp !== enteredOtp)
-      return res.status(400).json({ message: "Invalid OTP" });
+      return res.status(400).json({ message: "Invalid OTP", code: "OTP_INVALID", errors: { enteredOtp: "Invalid OTP" } });
 
     
     let user = await User.findOne({ email });
@@ -59,13 +59,45 @@ export const verifyOtp = async (req, res) => {
     }
     
     await OTP.deleteOne({ email });
-    const token = jwt.sign(
-      { email: user.email, user_id: user.user_id },
-      process.env.JWT_SECRET,
-      { expiresIn: "1h" }
-    );
+    const { token, refreshToken } = await issueTokens(user);
 
-    res.json({ message: "OTP verified", user, token });
+    res.json({ message: "OTP verified", user, token, refreshToken });
+
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+export const refresh = async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken)
+      return res.status(400).json({ message: "Refresh token is required" });
+
+    const entry = await consumeRefreshToken(refreshToken);
+    if (!entry)
+      return res.status(401).json({ message: "Invalid refresh token", code: "REFRESH_TOKEN_INVALID" });
+
+    const user = await User.findOne({ user_id: entry.user_id });
+    if (!user)
+      return res.status(401).json({ message: "Invalid refresh token", code: "REFRESH_TOKEN_INVALID" });
+
+    const tokens = await issueTokens(user);
+    res.json({ message: "Token refreshed", ...tokens });
+
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ message: "Server error" });
+  }
+};
+
+export const logout = async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (refreshToken) await revokeRefreshToken(refreshToken);
+
+    res.json({ message: "Logged out" });
 
   } catch (err) {
     console.error(err);
@@ -1,4 +1,5 @@
 import CommunityMessage from "../models/communitymessageschema.js"
+import { MAX_COMMENT_LENGTH, tooLongError } from "../utils/contentLimits.js";
 
 export const getCommunityMessages = async( req , res)=>{
     const {community_id} = req.params;
@@ -49,6 +50,8 @@ export const commentCommunityMessage= async(req, res)=>{
     if(!comment){
     return  res.status(400).json({message: "comment cannot be empty"});
     }
+    const tooLong = tooLongError("comment", comment, MAX_COMMENT_LENGTH);
+    if (tooLong) return res.status(400).json(tooLong);
     const message = await CommunityMessage.findById(id);
     if(!message) return res.status(404).json({message: "Message not found"});
     const newComment= {
@@ -1,20 +1,37 @@
-import { GlobalPost } from "../models/globalPostSchema.js";
-import cloudinary from "../utils/cloudinary.js";
+import mongoose from "mongoose";
+import { GlobalPost, POST_CATEGORIES, editWindowMs } from "../models/globalPostSchema.js";
+import {
+  afterCursor,
+  afterScoreCursor,
+  decodeCursor,
+  decodeScoreCursor,
+  encodeCursor,
+  encodeScoreCursor,
+  parseLimit,
+} from "../utils/pagination.js";
+import { DEFAULT_TOP_PERIOD, SCORE_FIELDS, TOP_PERIODS, isFeedSort, isTopPeriod } from "../utils/ranking.js";
+import { extractHashtags, normalizeTag, trendingWindowMs } from "../utils/hashtags.js";
+import { isPollClosed } from "../utils/polls.js";
+import { isReviewSubject } from "../utils/reviews.js";
+import { keptImages, uploadImages, validateNewPost } from "../utils/postInput.js";
+import { MAX_COMMENT_LENGTH, MAX_POST_LENGTH, MAX_SEARCH_LENGTH, tooLongError } from "../utils/contentLimits.js";
+import { imageWarningsFor, parseWarnings, updatedImageWarnings } from "../utils/contentWarnings.js";
+
+// a post as sent to clients. The schema hides poll voters, so say whether the requester voted instead
+export const toClientPost = (post, userId) => {
+  const json = post.toJSON();
+  if (post.poll) json.poll.hasVoted = post.poll.voters.includes(userId);
+  return json;
+};
+
 export const createGlobalPost = async(req , res)=>{
     try{
-const { user_id, randomName, content} = req.body;
-if(!user_id || !randomName || !content){
-    return res.status(400).json({ message: "user_id, randomName and content are required." });
-}
-let imagesUrls = [];
-if (req.files && req.files.length > 0) {
-  for (const file of req.files) {
-    const result = await cloudinary.uploader.upload(file.path, {
-      folder: "blind_cu_posts",
-    });
-    imagesUrls.push(result.secure_url);
-  }
+const input = validateNewPost(req.body);
+if (input.error) {
+    return res.status(400).json(input.error);
 }
+const { user_id, randomName, content, category, poll, review, contentWarning } = input.fields;
+const imagesUrls = await uploadImages(req.files);
 // const uploads = req.files.map(file =>
 //   cloudinary.uploader.upload(file.path, { folder: "blind_cu_posts" })
 // );
@@ -26,10 +43,16 @@ const newPost = new GlobalPost({
     user_id,
     randomName,
     content,
-    images: imagesUrls||[]
+    category,
+    tags: extractHashtags(content),
+    poll,
+    review,
+    images: imagesUrls||[],
+    contentWarning,
+    imageWarnings: imageWarningsFor(imagesUrls || [], input.imageWarningLabels)
 });
 await newPost.save();
-res.status(201).json({ message: "Global post created successfully", post: newPost });
+res.status(201).json({ message: "Global post created successfully", post: toClientPost(newPost, user_id) });
     }
     catch(err){
         console.log(err);
@@ -39,8 +62,79 @@ res.status(201).json({ message: "Global post created successfully", post: newPos
 
 export const getglobalfeed =async(req , res)=>{
 try{
-const posts = await GlobalPost.find().sort({createdAt: -1});
-res.status(200).json({ posts });
+const { cursor, category, tag, subject, entity, q } = req.query;
+const limit = parseLimit(req.query.limit);
+const sort = req.query.sort || "new";
+if (!isFeedSort(sort)) {
+  return res.status(400).json({ message: "Unknown sort", code: "VALIDATION_FAILED", errors: { sort: "Unknown sort" } });
+}
+// only "top" looks back over a period
+const period = req.query.period || DEFAULT_TOP_PERIOD;
+if (sort === "top" && !isTopPeriod(period)) {
+  return res.status(400).json({ message: "Unknown period", code: "VALIDATION_FAILED", errors: { period: "Unknown period" } });
+}
+
+let filter = { deletedAt: null };
+if (category) {
+  if (!POST_CATEGORIES.includes(category)) {
+    return res.status(400).json({ message: "Unknown category", code: "VALIDATION_FAILED", errors: { category: "Unknown category" } });
+  }
+  filter.category = category;
+}
+if (tag) {
+  const normalized = normalizeTag(tag);
+  if (!normalized) {
+    return res.status(400).json({ message: "Invalid tag", code: "VALIDATION_FAILED", errors: { tag: "Invalid tag" } });
+  }
+  filter.tags = normalized;
+}
+// reviews of one entity; subject alone lists every review of that kind
+if (subject || entity) {
+  if (!isReviewSubject(subject)) {
+    return res.status(400).json({ message: "Unknown review subject", code: "VALIDATION_FAILED", errors: { subject: "Unknown review subject" } });
+  }
+  filter["review.subject"] = subject;
+  if (entity) filter["review.entity"] = String(entity);
+}
+// posts whose content contains `q`, ignoring case; the text is matched literally
+if (q) {
+  const qTooLong = tooLongError("q", String(q), MAX_SEARCH_LENGTH);
+  if (qTooLong) return res.status(400).json(qTooLong);
+  filter.content = { $regex: String(q).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), $options: "i" };
+}
+const scoreField = SCORE_FIELDS[sort];
+let decoded = null;
+if (cursor) {
+  decoded = scoreField ? decodeScoreCursor(cursor) : decodeCursor(cursor);
+  if (!decoded) {
+    return res.status(400).json({ message: "Invalid cursor", code: "INVALID_CURSOR", errors: { cursor: "Invalid cursor" } });
+  }
+  filter = { ...filter, ...(scoreField ? afterScoreCursor(scoreField, decoded) : afterCursor(decoded)) };
+}
+// the top window starts when the first page was asked for, so later pages
+// neither skip posts that aged out nor repeat ones that came in
+let since = null;
+if (sort === "top" && TOP_PERIODS[period] !== null) {
+  since = decoded?.since ?? new Date(Date.now() - TOP_PERIODS[period]);
+  filter.createdAt = { $gte: since };
+}
+
+// fetch one extra post to know whether another page exists
+const posts = await GlobalPost.find(filter)
+  .select("-comments -revisions")
+  .sort(scoreField ? { [scoreField]: -1, _id: -1 } : { createdAt: -1, _id: -1 })
+  .limit(limit + 1);
+
+const hasMore = posts.length > limit;
+const page = hasMore ? posts.slice(0, limit) : posts;
+const last = page[page.length - 1];
+const nextCursor = !hasMore
+  ? null
+  : scoreField
+    ? encodeScoreCursor(last[scoreField], last, since)
+    : encodeCursor(last);
+
+res.status(200).json({ posts: page.map((post) => toClientPost(post, req.user.user_id)), nextCursor, hasMore });
 }   
 catch
 (err){
@@ -51,13 +145,194 @@ catch
 
 
 
+export const getGlobalPostById = async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+    }
+
+    const post = await GlobalPost.findById(id);
+    if (!post) {
+      return res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+    }
+    if (post.deletedAt) {
+      return res.status(410).json({ message: "This post was deleted", code: "POST_DELETED", deletedAt: post.deletedAt });
+    }
+
+    res.status(200).json({ post: toClientPost(post, req.user.user_id) });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// Tags ranked by velocity: mentions in the trending window, each weighted from
+// 0 at the start of the window up to 1 now, per hour of window. A tag picking
+// up right now outranks one that was busy a day ago.
+export const getTrendingTags = async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 10, 25);
+    const windowMs = trendingWindowMs();
+    const since = new Date(Date.now() - windowMs);
+    const windowHours = windowMs / (60 * 60 * 1000);
+
+    const tags = await GlobalPost.aggregate([
+      { $match: { deletedAt: null, createdAt: { $gte: since }, "tags.0": { $exists: true } } },
+      { $unwind: "$tags" },
+      {
+        $group: {
+          _id: "$tags",
+          count: { $sum: 1 },
+          weight: { $sum: { $divide: [{ $subtract: ["$createdAt", since] }, windowMs] } },
+          lastPostAt: { $max: "$createdAt" },
+        },
+      },
+      { $project: { _id: 0, tag: "$_id", count: 1, velocity: { $divide: ["$weight", windowHours] }, lastPostAt: 1 } },
+      { $sort: { velocity: -1, count: -1, tag: 1 } },
+      { $limit: limit },
+    ]);
+
+    res.status(200).json({ tags, windowHours });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+export const updateGlobalPost = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { content } = req.body;
+    if (!content || !content.trim()) {
+      return res.status(400).json({ message: "content is required", code: "VALIDATION_FAILED", errors: { content: "content is required" } });
+    }
+    const tooLong = tooLongError("content", content, MAX_POST_LENGTH);
+    if (tooLong) return res.status(400).json(tooLong);
+
+    // only the author may edit; to anyone else the post does not exist
+    const post = mongoose.Types.ObjectId.isValid(id) ? await GlobalPost.findOne({ _id: id, deletedAt: null }) : null;
+    if (!post || post.user_id !== req.user.user_id) {
+      return res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+    }
+    if (Date.now() > post.createdAt.getTime() + editWindowMs()) {
+      return res.status(409).json({ message: "This post can no longer be edited", code: "EDIT_WINDOW_CLOSED" });
+    }
+
+    const kept = keptImages(req.body.keepImages, post.images);
+    if (kept.error) {
+      return res.status(400).json(kept.error);
+    }
+    const keptUrls = kept.images;
+    const warnings = parseWarnings(req.body);
+    if (warnings.error) {
+      return res.status(400).json(warnings.error);
+    }
+
+    const files = req.files || [];
+    if (keptUrls.length + files.length > 4) {
+      return res.status(400).json({ message: "A post can have at most 4 images", code: "VALIDATION_FAILED", errors: { images: "A post can have at most 4 images" } });
+    }
+
+    const images = [...keptUrls, ...(await uploadImages(files))];
+    const contentWarning = warnings.contentWarning === undefined ? post.contentWarning : warnings.contentWarning;
+    const imageWarnings = updatedImageWarnings(post.imageWarnings, images, warnings.imageWarningLabels);
+
+    const sameWarnings =
+      contentWarning === post.contentWarning &&
+      imageWarnings.length === post.imageWarnings.length &&
+      imageWarnings.every(({ url, label }, index) => url === post.imageWarnings[index].url && label === post.imageWarnings[index].label);
+    const unchanged =
+      content === post.content &&
+      images.length === post.images.length &&
+      images.every((url, index) => url === post.images[index]) &&
+      sameWarnings;
+    if (unchanged) {
+      return res.status(200).json({ message: "Nothing to update", post: toClientPost(post, req.user.user_id) });
+    }
+
+    const now = new Date();
+    post.revisions.push({
+      content: post.content,
+      images: post.images,
+      contentWarning: post.contentWarning,
+      imageWarnings: post.imageWarnings,
+      editedAt: now,
+    });
+    post.content = content;
+    post.tags = extractHashtags(content);
+    post.images = images;
+    post.contentWarning = contentWarning;
+    post.imageWarnings = imageWarnings;
+    post.editedAt = now;
+    await post.save();
+
+    res.status(200).json({ message: "Post updated successfully", post: toClientPost(post, req.user.user_id) });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// One vote per user, counted without recording which option they chose
+export const votePoll = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { optionId } = req.body;
+    const userId = req.user.user_id;
+    const now = new Date();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+    }
+    if (!optionId || !mongoose.Types.ObjectId.isValid(optionId)) {
+      return res.status(400).json({ message: "optionId is required", code: "VALIDATION_FAILED", errors: { optionId: "optionId is required" } });
+    }
+
+    // checked and applied in one update so concurrent votes cannot count twice
+    const post = await GlobalPost.findOneAndUpdate(
+      {
+        _id: id,
+        deletedAt: null,
+        "poll.options._id": optionId,
+        "poll.voters": { $ne: userId },
+        $or: [{ "poll.closesAt": null }, { "poll.closesAt": { $gt: now } }],
+      },
+      { $inc: { "poll.options.$.votes": 1 }, $push: { "poll.voters": userId } },
+      { new: true }
+    );
+    if (post) {
+      return res.status(200).json({ message: "Vote recorded", poll: toClientPost(post, userId).poll });
+    }
+
+    // the update matched nothing; work out why
+    const existing = await GlobalPost.findOne({ _id: id, deletedAt: null });
+    if (!existing || !existing.poll) {
+      return res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+    }
+    if (!existing.poll.options.id(optionId)) {
+      return res.status(400).json({ message: "Unknown poll option", code: "VALIDATION_FAILED", errors: { optionId: "Unknown poll option" } });
+    }
+    if (existing.poll.voters.includes(userId)) {
+      return res.status(409).json({ message: "You already voted in this poll", code: "ALREADY_VOTED" });
+    }
+    if (isPollClosed(existing.poll, now)) {
+      return res.status(409).json({ message: "This poll is closed", code: "POLL_CLOSED" });
+    }
+    res.status(500).json({ message: "Server Error" });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
 export const likeGlobalPost = async (req, res) => 
   {
   try {
     const { id } = req.params;
     const { user_id } = req.body;
 
-    const post = await GlobalPost.findById(id);
+    const post = await GlobalPost.findOne({ _id: id, deletedAt: null });
     if (!post) return res.status(404).json({ message: "Post not found" });
 
     const hasLiked = post.likedBy.includes(user_id);
@@ -73,7 +348,8 @@ export const likeGlobalPost = async (req, res) =>
     await post.save();
     return res.json({ 
       message: hasLiked ? "Unliked" : "Liked",
-      likes: post.likes 
+      likes: post.likes,
+      updatedAt: post.updatedAt
     });
 
   } catch (err) {
@@ -82,36 +358,98 @@ export const likeGlobalPost = async (req, res) =>
   }
 };
 
+// placeholders left by deleted comments are not counted
+const countComments = (post) => post.comments.filter((c) => !c.deletedAt).length;
+
 export const commentGlobalPost= async(req, res)=>{
   try{
 const {id}= req.params;
-const { user_id, randomName, comment} = req.body;
-if(!comment){
-return  res.status(400).json({message: "comment cannot be empty"});
+const { user_id, randomName, comment, parentId } = req.body;
+if(!comment || !comment.trim()){
+return  res.status(400).json({message: "comment cannot be empty", code: "VALIDATION_FAILED", errors: { comment: "comment cannot be empty" }});
 }
-const post = await GlobalPost.findById(id);
+const tooLong = tooLongError("comment", comment.trim(), MAX_COMMENT_LENGTH);
+if (tooLong) return res.status(400).json(tooLong);
+const post = await GlobalPost.findOne({ _id: id, deletedAt: null });
 if(!post){
   return res.status(404).json({message: "Post not found"});
 } 
-const newComment = {
+
+// a reply to a reply joins the same top-level thread
+let threadId = null;
+if (parentId) {
+  const parent = mongoose.Types.ObjectId.isValid(parentId) ? post.comments.id(parentId) : null;
+  if (!parent || parent.deletedAt) {
+    return res.status(404).json({ message: "Comment not found", code: "COMMENT_NOT_FOUND" });
+  }
+  threadId = parent.parentId || parent._id;
+}
+
+post.comments.push({
   user_id ,
   randomName, 
-  content: comment
-}
-post.comments.push(newComment);
-post.commentsCount = post.comments.length;
+  content: comment.trim(),
+  parentId: threadId,
+});
+post.commentsCount = countComments(post);
 await post.save();
+const newComment = post.comments[post.comments.length - 1];
 return res.status(201).json({ message: "Comment added successfully", comment: newComment});
 }
   catch(e){
     console.log("error in commenting global post ", e);
+    res.status(500).json({ message: "Server Error" });
+  }
+}
+
+export const deleteGlobalPostComment = async (req, res) => {
+  try {
+    const { id, commentId } = req.params;
+
+    const post = await GlobalPost.findOne({ _id: id, deletedAt: null });
+    if (!post) {
+      return res.status(404).json({ message: "Post not found" });
+    }
+
+    // only the author may delete; to anyone else the comment does not exist
+    // (a 403 would sign the client out)
+    const comment = mongoose.Types.ObjectId.isValid(commentId) ? post.comments.id(commentId) : null;
+    if (!comment || comment.deletedAt || comment.user_id !== req.user.user_id) {
+      return res.status(404).json({ message: "Comment not found", code: "COMMENT_NOT_FOUND" });
+    }
+
+    const hasReplies = (c) => post.comments.some((r) => r.parentId?.equals(c._id) && !r.deletedAt);
+
+    if (hasReplies(comment)) {
+      // keep the thread together; the replies stay under an empty placeholder
+      comment.content = "";
+      comment.deletedAt = new Date();
+    } else {
+      const parent = comment.parentId ? post.comments.id(comment.parentId) : null;
+      post.comments.pull(comment._id);
+      // the last reply under a deleted comment takes the placeholder with it
+      if (parent?.deletedAt && !hasReplies(parent)) {
+        post.comments.pull(parent._id);
+      }
+    }
+
+    post.commentsCount = countComments(post);
+    await post.save();
+    return res.status(200).json({ message: "Comment deleted successfully", comments: post.comments });
+  } catch (err) {
+    console.log("error in deleting comment ", err);
+    res.status(500).json({ message: "Server Error" });
   }
 }
 
 export const deleteGlobalPost= async(req , res)=>{
   try{
    const {id}= req.params;
-    const post = await GlobalPost.findByIdAndDelete(id);
+    // keep a tombstone without the content, comments, images or history
+    const post = await GlobalPost.findOneAndUpdate(
+      { _id: id, deletedAt: null },
+      { deletedAt: new Date(), content: "", images: [], contentWarning: null, imageWarnings: [], tags: [], poll: null, review: null, comments: [], commentsCount: 0, revisions: [], shareId: null }
+    );
     if(!post){
       return res.status(404).json({message: "Post not found"});
     }
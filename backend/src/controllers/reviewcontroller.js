@@ -0,0 +1,77 @@
+import { GlobalPost } from "../models/globalPostSchema.js";
+import { isReviewSubject, slugifyEntity, summarizeReviews } from "../utils/reviews.js";
+
+const MAX_ENTITIES = 50;
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const unknownSubject = (res) =>
+  res.status(400).json({ message: "Unknown review subject", code: "VALIDATION_FAILED", errors: { subject: "Unknown review subject" } });
+
+// everything that has been reviewed, most reviewed first. ?subject= narrows it
+// to one kind and ?q= searches the names
+export const getReviewEntities = async (req, res) => {
+  try {
+    const { subject, q } = req.query;
+    const match = { deletedAt: null, review: { $ne: null } };
+    if (subject) {
+      if (!isReviewSubject(subject)) {
+        return unknownSubject(res);
+      }
+      match["review.subject"] = subject;
+    }
+    if (q && String(q).trim()) {
+      match["review.entityName"] = { $regex: escapeRegex(String(q).trim()), $options: "i" };
+    }
+
+    const entities = await GlobalPost.aggregate([
+      { $match: match },
+      // so $first below is the name as the latest reviewer wrote it
+      { $sort: { createdAt: -1 } },
+      {
+        $group: {
+          _id: { subject: "$review.subject", entity: "$review.entity" },
+          entityName: { $first: "$review.entityName" },
+          count: { $sum: 1 },
+          overall: { $avg: "$review.overall" },
+          lastReviewAt: { $max: "$createdAt" },
+        },
+      },
+      { $project: { _id: 0, subject: "$_id.subject", entity: "$_id.entity", entityName: 1, count: 1, overall: 1, lastReviewAt: 1 } },
+      { $sort: { count: -1, lastReviewAt: -1 } },
+      { $limit: MAX_ENTITIES },
+    ]);
+
+    res.status(200).json({ entities });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// aggregate scores of one entity: overall and per-dimension averages, star
+// distributions and the average per semester
+export const getReviewSummary = async (req, res) => {
+  try {
+    const { subject } = req.params;
+    if (!isReviewSubject(subject)) {
+      return unknownSubject(res);
+    }
+
+    const posts = await GlobalPost.find({
+      deletedAt: null,
+      "review.subject": subject,
+      "review.entity": slugifyEntity(req.params.entity),
+    })
+      .select("review createdAt")
+      .sort({ createdAt: -1, _id: -1 });
+    if (posts.length === 0) {
+      return res.status(404).json({ message: "No reviews yet", code: "ENTITY_NOT_FOUND" });
+    }
+
+    res.status(200).json({ summary: summarizeReviews(posts) });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
@@ -0,0 +1,253 @@
+import mongoose from "mongoose";
+import { GlobalPost } from "../models/globalPostSchema.js";
+import { SavedPost } from "../models/savedPostSchema.js";
+import { MAX_COLLECTIONS, MAX_COLLECTION_NAME_LENGTH, SavedCollection } from "../models/savedCollectionSchema.js";
+import { afterCursor, decodeCursor, encodeCursor, parseLimit } from "../utils/pagination.js";
+import { toClientPost } from "./globalpostcontroller.js";
+
+// `collection` query value for saved posts that are in no collection
+const UNFILED = "none";
+
+const postNotFound = (res) =>
+  res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+
+const collectionNotFound = (res) =>
+  res.status(404).json({ message: "Collection not found", code: "COLLECTION_NOT_FOUND" });
+
+// only the owner sees their collections
+const findOwnCollection = (id, userId) =>
+  mongoose.Types.ObjectId.isValid(id) ? SavedCollection.findOne({ _id: id, user_id: userId }) : null;
+
+// returns { name } trimmed, or { error } with what was wrong
+const parseCollectionName = (raw) => {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  if (!name) {
+    return { error: "Give the collection a name" };
+  }
+  if (name.length > MAX_COLLECTION_NAME_LENGTH) {
+    return { error: `Collection names must be at most ${MAX_COLLECTION_NAME_LENGTH} characters` };
+  }
+  return { name };
+};
+
+const isDuplicateKey = (err) => err?.code === 11000;
+
+// A page of the requester's saved posts, most recently saved first. A post
+// deleted since it was saved comes back as `post: null`, so the list can keep
+// its place with a placeholder
+export const getSavedPosts = async (req, res) => {
+  try {
+    const userId = req.user.user_id;
+    const { cursor, collection } = req.query;
+    const limit = parseLimit(req.query.limit);
+
+    let filter = { user_id: userId };
+    if (collection === UNFILED) {
+      filter.collection_id = null;
+    } else if (collection) {
+      if (!mongoose.Types.ObjectId.isValid(collection)) {
+        return collectionNotFound(res);
+      }
+      filter.collection_id = collection;
+    }
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      if (!decoded) {
+        return res.status(400).json({ message: "Invalid cursor", code: "INVALID_CURSOR", errors: { cursor: "Invalid cursor" } });
+      }
+      filter = { ...filter, ...afterCursor(decoded) };
+    }
+
+    const saved = await SavedPost.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+    const hasMore = saved.length > limit;
+    const page = hasMore ? saved.slice(0, limit) : saved;
+    const nextCursor = hasMore ? encodeCursor(page[page.length - 1]) : null;
+
+    const posts = await GlobalPost.find({ _id: { $in: page.map((item) => item.post_id) }, deletedAt: null })
+      .select("-comments -revisions");
+    const postsById = new Map(posts.map((post) => [String(post._id), post]));
+
+    const items = page.map((item) => {
+      const post = postsById.get(String(item.post_id));
+      return { ...item.toJSON(), post: post ? toClientPost(post, userId) : null };
+    });
+
+    res.status(200).json({ items, nextCursor, hasMore });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// every post the requester saved and where, so clients can mark bookmarks without a lookup per post
+export const getSavedPostIds = async (req, res) => {
+  try {
+    const saved = await SavedPost.find({ user_id: req.user.user_id }).select("post_id collection_id -_id");
+    res.status(200).json({ saved });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// Saves a post, or moves a saved one to another collection. Leave out
+// collection_id to keep it where it is; null takes it out of its collection
+export const savePost = async (req, res) => {
+  try {
+    const userId = req.user.user_id;
+    const { postId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(postId)) {
+      return postNotFound(res);
+    }
+
+    const { collection_id } = req.body ?? {};
+    if (collection_id) {
+      const collection = await findOwnCollection(collection_id, userId);
+      if (!collection) {
+        return collectionNotFound(res);
+      }
+    }
+
+    // a post deleted after it was saved can still be moved, but not saved anew
+    const existing = await SavedPost.findOne({ user_id: userId, post_id: postId });
+    if (!existing) {
+      const post = await GlobalPost.exists({ _id: postId, deletedAt: null });
+      if (!post) {
+        return postNotFound(res);
+      }
+    }
+
+    const update = collection_id === undefined
+      ? { $setOnInsert: { collection_id: null } }
+      : { $set: { collection_id: collection_id || null } };
+    const saved = await SavedPost.findOneAndUpdate(
+      { user_id: userId, post_id: postId },
+      update,
+      { upsert: true, new: true }
+    );
+
+    res.status(200).json({ message: "Post saved", saved });
+  } catch (err) {
+    // two saves of the same post at once; the other one won
+    if (isDuplicateKey(err)) {
+      const saved = await SavedPost.findOne({ user_id: req.user.user_id, post_id: req.params.postId });
+      return res.status(200).json({ message: "Post saved", saved });
+    }
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// removing a post that is not saved is not an error
+export const unsavePost = async (req, res) => {
+  try {
+    const { postId } = req.params;
+    if (mongoose.Types.ObjectId.isValid(postId)) {
+      await SavedPost.deleteOne({ user_id: req.user.user_id, post_id: postId });
+    }
+    res.status(200).json({ message: "Post removed from saved" });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// the requester's collections in the order they were made, each with how many posts it holds
+export const getCollections = async (req, res) => {
+  try {
+    const userId = req.user.user_id;
+    const [collections, counts] = await Promise.all([
+      SavedCollection.find({ user_id: userId }).sort({ createdAt: 1, _id: 1 }),
+      SavedPost.aggregate([
+        { $match: { user_id: userId } },
+        { $group: { _id: "$collection_id", count: { $sum: 1 } } },
+      ]),
+    ]);
+    const countOf = new Map(counts.map(({ _id, count }) => [String(_id), count]));
+
+    res.status(200).json({
+      collections: collections.map((collection) => ({
+        ...collection.toJSON(),
+        count: countOf.get(String(collection._id)) ?? 0,
+      })),
+      total: counts.reduce((sum, { count }) => sum + count, 0),
+      unfiled: countOf.get("null") ?? 0,
+    });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+export const createCollection = async (req, res) => {
+  try {
+    const userId = req.user.user_id;
+    const input = parseCollectionName(req.body?.name);
+    if (input.error) {
+      return res.status(400).json({ message: input.error, code: "VALIDATION_FAILED", errors: { name: input.error } });
+    }
+    if (await SavedCollection.countDocuments({ user_id: userId }) >= MAX_COLLECTIONS) {
+      const message = `You can have at most ${MAX_COLLECTIONS} collections`;
+      return res.status(400).json({ message, code: "VALIDATION_FAILED", errors: { name: message } });
+    }
+
+    const collection = await SavedCollection.create({
+      user_id: userId,
+      name: input.name,
+      nameKey: input.name.toLowerCase(),
+    });
+    res.status(201).json({ message: "Collection created", collection: { ...collection.toJSON(), count: 0 } });
+  } catch (err) {
+    if (isDuplicateKey(err)) {
+      return res.status(409).json({ message: "You already have a collection with that name", code: "COLLECTION_EXISTS" });
+    }
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+export const renameCollection = async (req, res) => {
+  try {
+    const userId = req.user.user_id;
+    const input = parseCollectionName(req.body?.name);
+    if (input.error) {
+      return res.status(400).json({ message: input.error, code: "VALIDATION_FAILED", errors: { name: input.error } });
+    }
+
+    const collection = await findOwnCollection(req.params.id, userId);
+    if (!collection) {
+      return collectionNotFound(res);
+    }
+    collection.name = input.name;
+    collection.nameKey = input.name.toLowerCase();
+    await collection.save();
+
+    const count = await SavedPost.countDocuments({ user_id: userId, collection_id: collection._id });
+    res.status(200).json({ message: "Collection renamed", collection: { ...collection.toJSON(), count } });
+  } catch (err) {
+    if (isDuplicateKey(err)) {
+      return res.status(409).json({ message: "You already have a collection with that name", code: "COLLECTION_EXISTS" });
+    }
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// the posts in it stay saved, outside any collection
+export const deleteCollection = async (req, res) => {
+  try {
+    const userId = req.user.user_id;
+    const collection = await findOwnCollection(req.params.id, userId);
+    if (!collection) {
+      return collectionNotFound(res);
+    }
+
+    await SavedPost.updateMany({ user_id: userId, collection_id: collection._id }, { collection_id: null });
+    await collection.deleteOne();
+
+    res.status(200).json({ message: "Collection deleted" });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
@@ -0,0 +1,159 @@
+import mongoose from "mongoose";
+import { POST_CATEGORIES } from "../models/globalPostSchema.js";
+import { ScheduledPost } from "../models/scheduledPostSchema.js";
+import { keptImages, uploadImages, validateNewPost } from "../utils/postInput.js";
+import { imageWarningsFor, parseWarnings, updatedImageWarnings } from "../utils/contentWarnings.js";
+import { MAX_POST_LENGTH, tooLongError } from "../utils/contentLimits.js";
+import { parseSchedule } from "../utils/schedule.js";
+
+const notFound = (res) =>
+  res.status(404).json({ message: "Scheduled post not found", code: "POST_NOT_FOUND" });
+
+// a poll must still be open when its post goes out
+const pollClosesTooEarly = (poll, publishAt) => Boolean(poll?.closesAt) && poll.closesAt <= publishAt;
+
+const POLL_CLOSES_EARLY = "The poll must close after the post is published";
+
+// Same fields as createGlobalPost plus `schedule`. Nothing is public until the scheduler publishes it
+export const scheduleGlobalPost = async (req, res) => {
+  try {
+    const now = new Date();
+    const input = validateNewPost(req.body, now);
+    if (input.error) {
+      return res.status(400).json(input.error);
+    }
+    if (!req.body.schedule) {
+      return res.status(400).json({ message: "schedule is required", code: "VALIDATION_FAILED", errors: { schedule: "schedule is required" } });
+    }
+    const schedule = parseSchedule(req.body.schedule, now);
+    if (schedule.error) {
+      return res.status(400).json({ message: schedule.error, code: "VALIDATION_FAILED", errors: { schedule: schedule.error } });
+    }
+
+    const { poll, ...fields } = input.fields;
+    if (pollClosesTooEarly(poll, schedule.publishAt)) {
+      return res.status(400).json({ message: POLL_CLOSES_EARLY, code: "VALIDATION_FAILED", errors: { poll: POLL_CLOSES_EARLY } });
+    }
+
+    const images = await uploadImages(req.files);
+    const scheduledPost = await ScheduledPost.create({
+      ...fields,
+      poll: poll ? { options: poll.options.map((option) => option.text), closesAt: poll.closesAt } : null,
+      images,
+      imageWarnings: imageWarningsFor(images, input.imageWarningLabels),
+      publishAt: schedule.publishAt,
+      randomDelay: schedule.randomDelay,
+    });
+
+    res.status(201).json({ message: "Post scheduled", scheduledPost });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// the requester's posts that are not out yet, soonest first
+export const getScheduledPosts = async (req, res) => {
+  try {
+    const scheduledPosts = await ScheduledPost.find({ user_id: req.user.user_id, publishedPostId: null })
+      .sort({ publishAt: 1, _id: 1 });
+    res.status(200).json({ scheduledPosts });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// only the author sees their scheduled posts; once publishing starts they are gone
+const findOwnScheduledPost = (id, userId) =>
+  mongoose.Types.ObjectId.isValid(id)
+    ? ScheduledPost.findOne({ _id: id, user_id: userId, publishedPostId: null })
+    : null;
+
+export const updateScheduledPost = async (req, res) => {
+  try {
+    const { content, category } = req.body;
+    if (!content || !content.trim()) {
+      return res.status(400).json({ message: "content is required", code: "VALIDATION_FAILED", errors: { content: "content is required" } });
+    }
+    const tooLong = tooLongError("content", content, MAX_POST_LENGTH);
+    if (tooLong) return res.status(400).json(tooLong);
+    if (category !== undefined && !POST_CATEGORIES.includes(category)) {
+      return res.status(400).json({ message: "Unknown category", code: "VALIDATION_FAILED", errors: { category: "Unknown category" } });
+    }
+
+    const scheduledPost = await findOwnScheduledPost(req.params.id, req.user.user_id);
+    if (!scheduledPost) {
+      return notFound(res);
+    }
+    if (scheduledPost.review && category !== undefined && category !== "reviews") {
+      return res.status(400).json({ message: "Reviews belong in the reviews category", code: "VALIDATION_FAILED", errors: { category: "Reviews belong in the reviews category" } });
+    }
+
+    let publishAt = scheduledPost.publishAt;
+    let randomDelay = scheduledPost.randomDelay;
+    if (req.body.schedule) {
+      const schedule = parseSchedule(req.body.schedule);
+      if (schedule.error) {
+        return res.status(400).json({ message: schedule.error, code: "VALIDATION_FAILED", errors: { schedule: schedule.error } });
+      }
+      ({ publishAt, randomDelay } = schedule);
+    }
+    if (pollClosesTooEarly(scheduledPost.poll, publishAt)) {
+      return res.status(400).json({ message: POLL_CLOSES_EARLY, code: "VALIDATION_FAILED", errors: { schedule: POLL_CLOSES_EARLY } });
+    }
+
+    const kept = keptImages(req.body.keepImages, scheduledPost.images);
+    if (kept.error) {
+      return res.status(400).json(kept.error);
+    }
+    const files = req.files || [];
+    if (kept.images.length + files.length > 4) {
+      return res.status(400).json({ message: "A post can have at most 4 images", code: "VALIDATION_FAILED", errors: { images: "A post can have at most 4 images" } });
+    }
+    const warnings = parseWarnings(req.body);
+    if (warnings.error) {
+      return res.status(400).json(warnings.error);
+    }
+
+    const images = [...kept.images, ...(await uploadImages(files))];
+    // saved only if the scheduler has not started publishing it meanwhile
+    const updated = await ScheduledPost.findOneAndUpdate(
+      { _id: scheduledPost._id, publishedPostId: null },
+      {
+        content,
+        category: category ?? scheduledPost.category,
+        images,
+        contentWarning: warnings.contentWarning === undefined ? scheduledPost.contentWarning : warnings.contentWarning,
+        imageWarnings: updatedImageWarnings(scheduledPost.imageWarnings, images, warnings.imageWarningLabels),
+        publishAt,
+        randomDelay,
+      },
+      { new: true }
+    );
+    if (!updated) {
+      return notFound(res);
+    }
+
+    res.status(200).json({ message: "Scheduled post updated", scheduledPost: updated });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+export const cancelScheduledPost = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const cancelled = mongoose.Types.ObjectId.isValid(id)
+      ? await ScheduledPost.findOneAndDelete({ _id: id, user_id: req.user.user_id, publishedPostId: null })
+      : null;
+    if (!cancelled) {
+      return notFound(res);
+    }
+    res.status(200).json({ message: "Scheduled post cancelled" });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { GlobalPost } from "../models/globalPostSchema.js";
+
+// what a public share link shows. No pseudonym, user id, likers or comments:
+// anyone with the link can read it, signed in or not
+const toSharedPost = (post) => {
+  const { _id, shareId, content, category, tags, images, contentWarning, imageWarnings, poll, review, likes, commentsCount, createdAt, editedAt } = post.toJSON();
+  return { _id, shareId, content, category, tags, images, contentWarning, imageWarnings, poll, review, likes, commentsCount, createdAt, editedAt };
+};
+
+const postNotFound = (res) => res.status(404).json({ message: "Post not found", code: "POST_NOT_FOUND" });
+
+// the author's own live post, or null
+const findOwnPost = async (id, userId) => {
+  if (!mongoose.Types.ObjectId.isValid(id)) return null;
+  const post = await GlobalPost.findOne({ _id: id, deletedAt: null });
+  return post && post.user_id === userId ? post : null;
+};
+
+// turns on the public link of a post; calling it again returns the same link
+export const createShareLink = async (req, res) => {
+  try {
+    const post = await findOwnPost(req.params.id, req.user.user_id);
+    if (!post) return postNotFound(res);
+
+    if (!post.shareId) {
+      // random, so shared posts cannot be found by guessing
+      post.shareId = crypto.randomBytes(12).toString("base64url");
+      await post.save();
+    }
+    res.status(200).json({ shareId: post.shareId });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// turns the link off; sharing again later makes a new one
+export const revokeShareLink = async (req, res) => {
+  try {
+    const post = await findOwnPost(req.params.id, req.user.user_id);
+    if (!post) return postNotFound(res);
+
+    if (post.shareId) {
+      post.shareId = null;
+      await post.save();
+    }
+    res.status(200).json({ message: "Share link turned off" });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
+
+// public: no sign in needed
+export const getSharedPost = async (req, res) => {
+  try {
+    const post = await GlobalPost.findOne({ shareId: String(req.params.shareId), deletedAt: null });
+    if (!post) {
+      return res.status(404).json({ message: "This link is not shared anymore", code: "SHARE_NOT_FOUND" });
+    }
+    res.status(200).json({ post: toSharedPost(post) });
+  } catch (err) {
+    console.log(err);
+    res.status(500).json({ message: "Server Error" });
+  }
+};
@@ -5,7 +5,7 @@ export const authmiddleware = (req, res, next) => {
         const authheader = req.headers.authorization;
         //what will authheader have ->bearer token
         if (!authheader) {
-            return res.status(401).json({ message: "Authorization failed" })
+            return res.status(401).json({ message: "Authorization failed", code: "AUTH_REQUIRED" })
         }
         const token = authheader.split(" ")[1];//[bearer ,token]
 
@@ -14,6 +14,7 @@ export const authmiddleware = (req, res, next) => {
         next();
     }
     catch (err) {
-        res.status(401).json({ message: "Authorization failed" })
+        // expired or tampered token; the client refreshes on this code
+        res.status(401).json({ message: "Authorization failed", code: "TOKEN_INVALID" })
     }
 }
\ No newline at end of file
@@ -1,20 +1,136 @@
 import mongoose from "mongoose";
+import { REVIEW_SUBJECTS } from "../utils/reviews.js";
+import { engagementOf, hotScoreOf } from "../utils/ranking.js";
 const commentSchema = new mongoose.Schema({ 
     user_id: { type: String, required: true },
     randomName: { type: String, required: true },
-    content: { type: String, required: true },
+    content: { type: String, default: "" },
+    // replies point at a top-level comment; threads are one level deep
+    parentId: { type: mongoose.Schema.Types.ObjectId, default: null },
+    // a deleted comment that still has replies stays as an empty placeholder
+    deletedAt: { type: Date, default: null },
 }, { timestamps: true });
 
+// every global post belongs to one of these; the ids match the dashboard category pages
+export const POST_CATEGORIES = ["academics", "exams", "placements", "campus", "problems", "reviews"];
+
+// a content warning on one image; the post's own warning is contentWarning
+export const imageWarningSchema = new mongoose.Schema({
+    url: { type: String, required: true },
+    label: { type: String, required: true },
+}, { _id: false });
+
+// an earlier version of a post, kept when the author edits it
+const revisionSchema = new mongoose.Schema({
+    content: { type: String, default: "" },
+    images: { type: [String], default: [] },
+    contentWarning: { type: String, default: null },
+    imageWarnings: { type: [imageWarningSchema], default: [] },
+    // when this version was replaced
+    editedAt: { type: Date, required: true },
+}, { _id: false });
+
+const pollOptionSchema = new mongoose.Schema({
+    text: { type: String, required: true },
+    votes: { type: Number, default: 0 },
+}, { id: false });
+
+// voters is kept so each user votes once, but not what they voted for.
+// it never leaves the server; controllers send hasVoted for the requester instead
+const pollSchema = new mongoose.Schema({
+    options: { type: [pollOptionSchema], default: [] },
+    // null: never closes
+    closesAt: { type: Date, default: null },
+    voters: { type: [String], default: [] },
+}, {
+    _id: false,
+    toJSON: {
+        transform: (doc, ret) => {
+            delete ret.voters;
+            return ret;
+        },
+    },
+});
+
+// a structured review of a course, faculty member, hostel or mess; the content is the written part
+export const reviewSchema = new mongoose.Schema({
+    subject: { type: String, enum: Object.keys(REVIEW_SUBJECTS), required: true },
+    // slug of entityName; reviews sharing it are aggregated together
+    entity: { type: String, required: true },
+    entityName: { type: String, required: true },
+    // one 1-5 score per dimension of the subject
+    ratings: {
+        type: [new mongoose.Schema({
+            dimension: { type: String, required: true },
+            score: { type: Number, min: 1, max: 5, required: true },
+        }, { _id: false })],
+        default: [],
+    },
+    // mean of the ratings, kept for sorting and aggregates
+    overall: { type: Number, required: true },
+}, { _id: false });
+
 const globalPostSchema = new mongoose.Schema({
       user_id: { type: String, required: true },
   randomName: { type: String, required: true },
   content: { type: String, required: true },
+    // posts made before categories existed have none
+    category: { type: String, enum: POST_CATEGORIES },
+    // hashtags in the content, lowercase without "#"; kept in sync on every write
+    tags: { type: [String], default: [] },
+    // set when the post is a poll; the content is the question
+    poll: { type: pollSchema, default: null },
+    // set when the post is a review (category "reviews")
+    review: { type: reviewSchema, default: null },
   images: { type: [String], default: [] },
+    // clients hide the post, or just these images, behind the label until the reader reveals it
+    contentWarning: { type: String, default: null },
+    imageWarnings: { type: [imageWarningSchema], default: [] },
   likes: { type: Number, default: 0 },
   likedBy: { type: [String], default: [] },
     commentsCount: { type: Number, default: 0 },
+    // ranking scores for the hot and top feeds, recomputed on every save
+    engagement: { type: Number, default: 0 },
+    hotScore: { type: Number, default: 0 },
     comments: { type: [commentSchema], default: [] },
+    // set while the author shares the post by public link (/share/<shareId>)
+    shareId: { type: String, default: null },
+    // soft delete: the document stays so links to it can say "deleted" instead of "not found"
+    deletedAt: { type: Date, default: null },
+    editedAt: { type: Date, default: null },
+    // previous versions, oldest first
+    revisions: { type: [revisionSchema], default: [] },
 
-}, { timestamps: true });
+}, { timestamps: true, id: false, toJSON: { virtuals: true } });
+
+// authors can edit for POST_EDIT_WINDOW_MINUTES after posting (default 60).
+// read on every call because models load before dotenv runs
+export const editWindowMs = () => Number(process.env.POST_EDIT_WINDOW_MINUTES || 60) * 60 * 1000;
+
+// sent with every post so clients know when to stop offering the edit action
+globalPostSchema.virtual("editableUntil").get(function () {
+  return this.createdAt ? new Date(this.createdAt.getTime() + editWindowMs()) : null;
+});
+
+// likes and comments change through save(), so the scores follow them here.
+// createdAt is still unset the first time a new post is saved
+globalPostSchema.pre("save", function () {
+  this.engagement = engagementOf(this);
+  this.hotScore = hotScoreOf(this.engagement, this.createdAt ?? new Date());
+});
+
+// backs the cursor-paginated feed (newest first, _id breaks ties)
+globalPostSchema.index({ createdAt: -1, _id: -1 });
+// same order within one category
+globalPostSchema.index({ category: 1, createdAt: -1, _id: -1 });
+// tag feeds, and the trending window scan
+globalPostSchema.index({ tags: 1, createdAt: -1, _id: -1 });
+// hot and top feeds; top also filters on createdAt for its period
+globalPostSchema.index({ hotScore: -1, _id: -1 });
+globalPostSchema.index({ engagement: -1, _id: -1 });
+// public share links
+globalPostSchema.index({ shareId: 1 }, { unique: true, partialFilterExpression: { shareId: { $type: "string" } } });
+// review feeds and aggregates of one entity
+globalPostSchema.index({ "review.subject": 1, "review.entity": 1, createdAt: -1, _id: -1 }, { sparse: true });
 
 export const GlobalPost = mongoose.model("GlobalPost", globalPostSchema);
\ No newline at end of file
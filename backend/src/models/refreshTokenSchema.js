@@ -0,0 +1,10 @@
+import mongoose from 'mongoose';
+
+// Only a hash of the refresh token is stored, so a database leak can't be replayed
+const refreshTokenSchema = new mongoose.Schema({
+    user_id: { type: String, required: true, index: true },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true, expires: 0 }, // removed by Mongo once expired
+}, { timestamps: true });
+
+export const RefreshToken = mongoose.model('RefreshToken', refreshTokenSchema);
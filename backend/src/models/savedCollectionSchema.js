@@ -0,0 +1,24 @@
+import mongoose from "mongoose";
+
+export const MAX_COLLECTIONS = 20;
+export const MAX_COLLECTION_NAME_LENGTH = 40;
+
+// a named folder for saved posts; private to its owner
+const savedCollectionSchema = new mongoose.Schema({
+    user_id: { type: String, required: true },
+    name: { type: String, required: true, trim: true, maxlength: MAX_COLLECTION_NAME_LENGTH },
+    // lowercase name, so "Notes" and "notes" cannot both exist
+    nameKey: { type: String, required: true },
+}, {
+    timestamps: true,
+    toJSON: {
+        transform: (doc, ret) => {
+            delete ret.nameKey;
+            return ret;
+        },
+    },
+});
+
+savedCollectionSchema.index({ user_id: 1, nameKey: 1 }, { unique: true });
+
+export const SavedCollection = mongoose.model("SavedCollection", savedCollectionSchema);
@@ -0,0 +1,18 @@
+import mongoose from "mongoose";
+
+// A global post a user bookmarked. It outlives the post: when the post is
+// deleted the entry stays so the saved list can show a placeholder for it.
+const savedPostSchema = new mongoose.Schema({
+    user_id: { type: String, required: true },
+    post_id: { type: mongoose.Schema.Types.ObjectId, ref: "GlobalPost", required: true },
+    // null: not in any collection
+    collection_id: { type: mongoose.Schema.Types.ObjectId, default: null },
+}, { timestamps: true });
+
+// one entry per post per user
+savedPostSchema.index({ user_id: 1, post_id: 1 }, { unique: true });
+// the saved list, newest first, and each collection of it
+savedPostSchema.index({ user_id: 1, createdAt: -1, _id: -1 });
+savedPostSchema.index({ user_id: 1, collection_id: 1, createdAt: -1, _id: -1 });
+
+export const SavedPost = mongoose.model("SavedPost", savedPostSchema);
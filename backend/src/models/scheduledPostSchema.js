@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+import { POST_CATEGORIES, imageWarningSchema, reviewSchema } from "./globalPostSchema.js";
+
+// the poll of a post that is not out yet; options get their ids when it is published
+const scheduledPollSchema = new mongoose.Schema({
+    options: { type: [String], default: [] },
+    closesAt: { type: Date, default: null },
+}, { _id: false });
+
+// A global post waiting for its publish time. The scheduler creates the real
+// GlobalPost then, so its createdAt and _id tell when it went out, not when it was written.
+const scheduledPostSchema = new mongoose.Schema({
+    user_id: { type: String, required: true },
+    randomName: { type: String, required: true },
+    content: { type: String, required: true },
+    category: { type: String, enum: POST_CATEGORIES, required: true },
+    poll: { type: scheduledPollSchema, default: null },
+    review: { type: reviewSchema, default: null },
+    images: { type: [String], default: [] },
+    contentWarning: { type: String, default: null },
+    imageWarnings: { type: [imageWarningSchema], default: [] },
+    publishAt: { type: Date, required: true },
+    // the author asked for a random time; publishAt is what was picked
+    randomDelay: { type: Boolean, default: false },
+    // id of the post being published. Set before the post is created so a
+    // retry after a failure cannot publish it twice
+    publishedPostId: { type: mongoose.Schema.Types.ObjectId, default: null },
+}, {
+    timestamps: true,
+    toJSON: {
+        transform: (doc, ret) => {
+            delete ret.publishedPostId;
+            return ret;
+        },
+    },
+});
+
+// the scheduler's due scan, and each author's list
+scheduledPostSchema.index({ publishAt: 1 });
+scheduledPostSchema.index({ user_id: 1, publishAt: 1 });
+
+export const ScheduledPost = mongoose.model("ScheduledPost", scheduledPostSchema);
@@ -1,9 +1,11 @@
 import express from "express";
-import { signin, verifyOtp } from "../controllers/authcontroller.js";
+import { signin, verifyOtp, refresh, logout } from "../controllers/authcontroller.js";
 import { authmiddleware } from "../middleware/authmiddleware.js";
 const router = express.Router();
 
 router.post("/signin", signin);
 router.post("/verify-otp", verifyOtp);
+router.post("/refresh", refresh);
+router.post("/logout", logout);
 
 export default router;
@@ -1,5 +1,8 @@
 import express from 'express';
-import { getglobalfeed, createGlobalPost , likeGlobalPost, commentGlobalPost, deleteGlobalPost } from '../controllers/globalpostcontroller.js';
+import { getglobalfeed, createGlobalPost , getTrendingTags, getGlobalPostById, updateGlobalPost, votePoll, likeGlobalPost, commentGlobalPost, deleteGlobalPostComment, deleteGlobalPost } from '../controllers/globalpostcontroller.js';
+import { getReviewEntities, getReviewSummary } from '../controllers/reviewcontroller.js';
+import { createShareLink, revokeShareLink, getSharedPost } from '../controllers/sharecontroller.js';
+import { scheduleGlobalPost, getScheduledPosts, updateScheduledPost, cancelScheduledPost } from '../controllers/scheduledpostcontroller.js';
 import {authmiddleware} from '../middleware/authmiddleware.js';
 import { get } from 'mongoose';
 import {upload} from "../middleware/upload.js";
@@ -7,8 +10,23 @@ const router = express.Router();
 
 router.get('/getglobalposts', authmiddleware, getglobalfeed);
 router.post('/createglobalposts', authmiddleware, upload.array("images", 4), createGlobalPost);
+router.get('/trending', authmiddleware, getTrendingTags);
+router.get('/reviews', authmiddleware, getReviewEntities);
+router.get('/reviews/:subject/:entity', authmiddleware, getReviewSummary);
+router.post('/scheduled', authmiddleware, upload.array("images", 4), scheduleGlobalPost);
+router.get('/scheduled', authmiddleware, getScheduledPosts);
+router.patch('/scheduled/:id', authmiddleware, upload.array("images", 4), updateScheduledPost);
+router.delete('/scheduled/:id', authmiddleware, cancelScheduledPost);
+// public share links; the only route here that needs no sign in
+router.get('/shared/:shareId', getSharedPost);
+router.get('/:id', authmiddleware, getGlobalPostById);
+router.patch('/:id', authmiddleware, upload.array("images", 4), updateGlobalPost);
+router.post('/:id/vote', authmiddleware, votePoll);
 router.post('/:id/like', authmiddleware, likeGlobalPost);
 router.post('/:id/comment', authmiddleware, commentGlobalPost);
+router.post('/:id/share', authmiddleware, createShareLink);
+router.delete('/:id/share', authmiddleware, revokeShareLink);
+router.delete('/:id/comments/:commentId', authmiddleware, deleteGlobalPostComment);
 router.delete('/:id', authmiddleware, deleteGlobalPost);
 
 export default router;
\ No newline at end of file
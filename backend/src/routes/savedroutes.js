@@ -0,0 +1,25 @@
+import express from "express";
+import {
+  getSavedPosts,
+  getSavedPostIds,
+  savePost,
+  unsavePost,
+  getCollections,
+  createCollection,
+  renameCollection,
+  deleteCollection,
+} from "../controllers/savedcontroller.js";
+import { authmiddleware } from "../middleware/authmiddleware.js";
+
+const router = express.Router();
+
+router.get("/", authmiddleware, getSavedPosts);
+router.get("/ids", authmiddleware, getSavedPostIds);
+router.get("/collections", authmiddleware, getCollections);
+router.post("/collections", authmiddleware, createCollection);
+router.patch("/collections/:id", authmiddleware, renameCollection);
+router.delete("/collections/:id", authmiddleware, deleteCollection);
+router.put("/:postId", authmiddleware, savePost);
+router.delete("/:postId", authmiddleware, unsavePost);
+
+export default router;
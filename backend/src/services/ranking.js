@@ -0,0 +1,15 @@
+import { GlobalPost } from "../models/globalPostSchema.js";
+import { RANKING_UPDATE_PIPELINE } from "../utils/ranking.js";
+
+// Scores posts saved before hot/top ranking existed. Newer posts get their
+// scores on every save, so after the first run this finds nothing to do
+export const backfillRankingScores = async () => {
+  try {
+    const result = await GlobalPost.updateMany({ hotScore: { $exists: false } }, RANKING_UPDATE_PIPELINE);
+    if (result.modifiedCount > 0) {
+      console.log(`Ranking scores added to ${result.modifiedCount} posts`);
+    }
+  } catch (err) {
+    console.error("Ranking backfill failed:", err);
+  }
+};
@@ -0,0 +1,92 @@
+import mongoose from "mongoose";
+import { GlobalPost } from "../models/globalPostSchema.js";
+import { ScheduledPost } from "../models/scheduledPostSchema.js";
+import { extractHashtags } from "../utils/hashtags.js";
+
+// due posts are looked for every SCHEDULER_INTERVAL_SECONDS (default 30).
+// read on start because dotenv loads after the imports
+const intervalMs = () => Number(process.env.SCHEDULER_INTERVAL_SECONDS || 30) * 1000;
+
+// at most this many posts go out per run; the rest wait for the next one
+const BATCH_SIZE = 50;
+
+const DUPLICATE_KEY = 11000;
+
+const publish = async (scheduled) => {
+  // claim an id for the post first. A run that failed after claiming is
+  // retried with the same id, so the post cannot go out twice
+  const claimed = scheduled.publishedPostId
+    ? scheduled
+    : await ScheduledPost.findOneAndUpdate(
+        { _id: scheduled._id, publishedPostId: null },
+        { publishedPostId: new mongoose.Types.ObjectId() },
+        { new: true }
+      );
+  // cancelled, or claimed by another run in the meantime
+  if (!claimed) return false;
+
+  try {
+    await GlobalPost.create({
+      _id: claimed.publishedPostId,
+      user_id: claimed.user_id,
+      randomName: claimed.randomName,
+      content: claimed.content,
+      category: claimed.category,
+      tags: extractHashtags(claimed.content),
+      poll: claimed.poll
+        ? { options: claimed.poll.options.map((text) => ({ text })), closesAt: claimed.poll.closesAt, voters: [] }
+        : null,
+      review: claimed.review,
+      images: claimed.images,
+      contentWarning: claimed.contentWarning,
+      imageWarnings: claimed.imageWarnings,
+    });
+  } catch (err) {
+    // an earlier attempt created it but did not get to clean up
+    if (err.code !== DUPLICATE_KEY) throw err;
+  }
+
+  await ScheduledPost.deleteOne({ _id: claimed._id });
+  return true;
+};
+
+// publish every scheduled post whose time has come, oldest first
+export const publishDuePosts = async (now = new Date()) => {
+  const due = await ScheduledPost.find({ publishAt: { $lte: now } })
+    .sort({ publishAt: 1 })
+    .limit(BATCH_SIZE);
+
+  let published = 0;
+  for (const scheduled of due) {
+    try {
+      if (await publish(scheduled)) published++;
+    } catch (err) {
+      console.log("error in publishing scheduled post ", scheduled._id, err);
+    }
+  }
+  return published;
+};
+
+let timer = null;
+let running = false;
+
+export const startScheduler = () => {
+  if (timer) return;
+
+  const run = async () => {
+    // a slow run is not overlapped by the next tick
+    if (running) return;
+    running = true;
+    try {
+      const published = await publishDuePosts();
+      if (published > 0) console.log(`Published ${published} scheduled post(s)`);
+    } catch (err) {
+      console.log("error in scheduler run ", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(run, intervalMs());
+  run();
+};
@@ -0,0 +1,39 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { RefreshToken } from "../models/refreshTokenSchema.js";
+
+export const ACCESS_TOKEN_EXPIRY = "1h";
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export const hashToken = (token) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+export const signAccessToken = (user) =>
+  jwt.sign(
+    { email: user.email, user_id: user.user_id },
+    process.env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_EXPIRY }
+  );
+
+// short-lived JWT for requests + long-lived opaque refresh token
+export const issueTokens = async (user) => {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+
+  await RefreshToken.create({
+    user_id: user.user_id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return { token: signAccessToken(user), refreshToken };
+};
+
+// single use: the presented token is deleted, so a stolen copy stops working after the next refresh
+export const consumeRefreshToken = async (refreshToken) => {
+  const entry = await RefreshToken.findOneAndDelete({ tokenHash: hashToken(refreshToken) });
+  if (!entry || entry.expiresAt < new Date()) return null;
+  return entry;
+};
+
+export const revokeRefreshToken = (refreshToken) =>
+  RefreshToken.deleteOne({ tokenHash: hashToken(refreshToken) });
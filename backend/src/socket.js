@@ -2,6 +2,7 @@ import { Server } from "socket.io";
 import CommunityMessage from './models/communitymessageschema.js';
 
 import cloudinary from "./utils/cloudinary.js";
+import { MAX_MESSAGE_LENGTH } from "./utils/contentLimits.js";
 
 
 export const initsocket = (server)=>{
@@ -29,6 +30,11 @@ export const initsocket = (server)=>{
             images=[]
         }= data;
 
+        // the chat input stops at the same length; anything longer is not stored
+        if (typeof message === "string" && message.length > MAX_MESSAGE_LENGTH) {
+          console.log(`message from ${socket.id} is over ${MAX_MESSAGE_LENGTH} characters, dropped`);
+          return;
+        }
     
         let imageUrls = [];
 
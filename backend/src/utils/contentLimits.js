@@ -0,0 +1,14 @@
+// longest text the server stores, the same limits the clients enforce while
+// typing. the markdown renderer and the feeds are built for text of this size
+export const MAX_POST_LENGTH = 2000;
+export const MAX_COMMENT_LENGTH = 1000;
+export const MAX_MESSAGE_LENGTH = 1000;
+// longest text the feed searches post content for
+export const MAX_SEARCH_LENGTH = 100;
+
+// the 400 body when `field` is over `max` characters, or null when it fits
+export const tooLongError = (field, value, max) => {
+  if (typeof value !== "string" || value.length <= max) return null;
+  const error = `${field} must be at most ${max} characters`;
+  return { message: error, code: "VALIDATION_FAILED", errors: { [field]: error } };
+};
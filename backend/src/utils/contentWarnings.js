@@ -0,0 +1,70 @@
+// content warnings: a short label such as "Spoiler" or "Distressing" that
+// clients show in place of the post, or of one image, until the reader reveals it
+export const MAX_WARNING_LENGTH = 40;
+
+// returns { label }, null for no warning, or { error }
+export const parseWarningLabel = (value) => {
+  if (value === undefined || value === null) return { label: null };
+  if (typeof value !== "string") return { error: "A content warning must be text" };
+  const label = value.replace(/\s+/g, " ").trim();
+  if (!label) return { label: null };
+  if (label.length > MAX_WARNING_LENGTH) {
+    return { error: `A content warning can be at most ${MAX_WARNING_LENGTH} characters` };
+  }
+  return { label };
+};
+
+// imageWarnings: JSON array with a label, or null, for each image of the post in order.
+// returns { labels } or { error }
+export const parseImageWarnings = (value) => {
+  let requested;
+  try {
+    requested = JSON.parse(value);
+  } catch {
+    requested = null;
+  }
+  if (!Array.isArray(requested)) return { error: "imageWarnings must be a JSON array" };
+
+  const labels = [];
+  for (const item of requested) {
+    const parsed = parseWarningLabel(item);
+    if (parsed.error) return parsed;
+    labels.push(parsed.label);
+  }
+  return { labels };
+};
+
+// the stored form: only the images that have a label, by URL so edits that drop images keep the rest right
+export const imageWarningsFor = (images, labels) =>
+  images.flatMap((url, index) => (labels[index] ? [{ url, label: labels[index] }] : []));
+
+// warnings after an edit: labels given are for the new image list; without
+// them the images that stayed keep theirs
+export const updatedImageWarnings = (current, images, labels) =>
+  labels === undefined
+    ? current.filter((warning) => images.includes(warning.url))
+    : imageWarningsFor(images, labels);
+
+// parses contentWarning and imageWarnings of a request body; either left out is undefined.
+// returns { contentWarning, imageWarningLabels } or { error } with the 400 body to send
+export const parseWarnings = (body) => {
+  let contentWarning;
+  if (body.contentWarning !== undefined) {
+    const parsed = parseWarningLabel(body.contentWarning);
+    if (parsed.error) {
+      return { error: { message: parsed.error, code: "VALIDATION_FAILED", errors: { contentWarning: parsed.error } } };
+    }
+    contentWarning = parsed.label;
+  }
+
+  let imageWarningLabels;
+  if (body.imageWarnings !== undefined) {
+    const parsed = parseImageWarnings(body.imageWarnings);
+    if (parsed.error) {
+      return { error: { message: parsed.error, code: "VALIDATION_FAILED", errors: { imageWarnings: parsed.error } } };
+    }
+    imageWarningLabels = parsed.labels;
+  }
+
+  return { contentWarning, imageWarningLabels };
+};
@@ -0,0 +1,24 @@
+export const MAX_TAGS_PER_POST = 10;
+
+// "#tag" after whitespace, punctuation or the start of the text. A tag starts
+// with a letter and continues with letters, digits or underscores, up to 50.
+const HASHTAG = /(?:^|[^\w#])#([a-z][a-z0-9_]{0,49})(?!\w)/gi;
+
+// "#Placements" and "placements" both become "placements"; null if it is not a valid tag
+export const normalizeTag = (tag) => {
+  const normalized = String(tag ?? "").trim().replace(/^#/, "").toLowerCase();
+  return /^[a-z][a-z0-9_]{0,49}$/.test(normalized) ? normalized : null;
+};
+
+// tags of a post, lowercase and without "#", in the order they first appear
+export const extractHashtags = (content) => {
+  const tags = new Set();
+  for (const match of String(content ?? "").matchAll(HASHTAG)) {
+    tags.add(match[1].toLowerCase());
+    if (tags.size === MAX_TAGS_PER_POST) break;
+  }
+  return [...tags];
+};
+
+// trending looks back TRENDING_WINDOW_HOURS (default 24); read on every call because dotenv loads late
+export const trendingWindowMs = () => Number(process.env.TRENDING_WINDOW_HOURS || 24) * 60 * 60 * 1000;
@@ -0,0 +1,60 @@
+import mongoose from "mongoose";
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 50;
+
+// cursor = base64url("<createdAt ISO>_<_id>") of the last post on the previous page
+export const encodeCursor = (doc) =>
+  Buffer.from(`${doc.createdAt.toISOString()}_${doc._id}`).toString("base64url");
+
+export const decodeCursor = (cursor) => {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("_");
+  const date = new Date(createdAt);
+  if (Number.isNaN(date.getTime()) || !mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { createdAt: date, _id: new mongoose.Types.ObjectId(id) };
+};
+
+export const parseLimit = (limit) => {
+  const parsed = parseInt(limit, 10);
+  if (Number.isNaN(parsed) || parsed < 1) return DEFAULT_PAGE_LIMIT;
+  return Math.min(parsed, MAX_PAGE_LIMIT);
+};
+
+// Posts strictly older than the cursor in (createdAt desc, _id desc) order
+export const afterCursor = ({ createdAt, _id }) => ({
+  $or: [
+    { createdAt: { $lt: createdAt } },
+    { createdAt, _id: { $lt: _id } },
+  ],
+});
+
+// Ranked feeds page by score instead: base64url("<score>_<_id>_<since ISO>").
+// `since` is where a "top" window started on the first page, so later pages
+// keep the same window; empty when there is none
+export const encodeScoreCursor = (score, doc, since = null) =>
+  Buffer.from(`${score}_${doc._id}_${since ? since.toISOString() : ""}`).toString("base64url");
+
+export const decodeScoreCursor = (cursor) => {
+  const [score, id, since] = Buffer.from(cursor, "base64url").toString("utf8").split("_");
+  const value = Number(score);
+  const sinceDate = since ? new Date(since) : null;
+  if (
+    score === "" ||
+    !Number.isFinite(value) ||
+    !mongoose.Types.ObjectId.isValid(id) ||
+    (sinceDate && Number.isNaN(sinceDate.getTime()))
+  ) {
+    return null;
+  }
+  return { score: value, _id: new mongoose.Types.ObjectId(id), since: sinceDate };
+};
+
+// Posts after the cursor in (field desc, _id desc) order
+export const afterScoreCursor = (field, { score, _id }) => ({
+  $or: [
+    { [field]: { $lt: score } },
+    { [field]: score, _id: { $lt: _id } },
+  ],
+});
@@ -0,0 +1,46 @@
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 6;
+export const MAX_POLL_OPTION_LENGTH = 100;
+
+// poll arrives as a JSON string in the multipart body: { options: [String], closesAt: ISO date or null }.
+// returns { poll } ready to save, or { error } with what was wrong
+export const parsePoll = (raw, now = new Date()) => {
+  let input;
+  try {
+    input = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    return { error: "poll must be a JSON object" };
+  }
+  if (!input || !Array.isArray(input.options)) {
+    return { error: "poll must have a list of options" };
+  }
+
+  const options = input.options.map((option) => String(option ?? "").trim());
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return { error: `A poll needs ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options` };
+  }
+  if (options.some((option) => !option)) {
+    return { error: "Poll options cannot be empty" };
+  }
+  if (options.some((option) => option.length > MAX_POLL_OPTION_LENGTH)) {
+    return { error: `Poll options must be at most ${MAX_POLL_OPTION_LENGTH} characters` };
+  }
+  if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+    return { error: "Poll options must all be different" };
+  }
+
+  let closesAt = null;
+  if (input.closesAt) {
+    closesAt = new Date(input.closesAt);
+    if (Number.isNaN(closesAt.getTime())) {
+      return { error: "closesAt must be a date" };
+    }
+    if (closesAt <= now) {
+      return { error: "closesAt must be in the future" };
+    }
+  }
+
+  return { poll: { options: options.map((text) => ({ text })), closesAt, voters: [] } };
+};
+
+export const isPollClosed = (poll, now = new Date()) => Boolean(poll.closesAt) && poll.closesAt <= now;
@@ -0,0 +1,84 @@
+import { POST_CATEGORIES } from "../models/globalPostSchema.js";
+import cloudinary from "./cloudinary.js";
+import { MAX_POST_LENGTH, tooLongError } from "./contentLimits.js";
+import { parseWarnings } from "./contentWarnings.js";
+import { parsePoll } from "./polls.js";
+import { parseReview } from "./reviews.js";
+
+// fields of a new global post, posted now or scheduled.
+// returns { fields, imageWarningLabels } or { error } with the 400 body to send;
+// the labels become imageWarnings once the images have their URLs
+export const validateNewPost = (body, now = new Date()) => {
+  const { user_id, randomName, content, category } = body;
+  if (!user_id || !randomName || !content) {
+    const errors = {};
+    if (!user_id) errors.user_id = "user_id is required";
+    if (!randomName) errors.randomName = "randomName is required";
+    if (!content) errors.content = "content is required";
+    return { error: { message: "user_id, randomName and content are required.", code: "VALIDATION_FAILED", errors } };
+  }
+  const tooLong = tooLongError("content", content, MAX_POST_LENGTH);
+  if (tooLong) return { error: tooLong };
+  if (!POST_CATEGORIES.includes(category)) {
+    const error = category ? "Unknown category" : "category is required";
+    return { error: { message: error, code: "VALIDATION_FAILED", errors: { category: error } } };
+  }
+
+  let poll = null;
+  if (body.poll) {
+    const parsed = parsePoll(body.poll, now);
+    if (parsed.error) {
+      return { error: { message: parsed.error, code: "VALIDATION_FAILED", errors: { poll: parsed.error } } };
+    }
+    poll = parsed.poll;
+  }
+
+  let review = null;
+  if (body.review) {
+    const parsed = parseReview(body.review);
+    let error = parsed.error;
+    if (!error && category !== "reviews") error = "Reviews belong in the reviews category";
+    if (!error && poll) error = "A post cannot be both a poll and a review";
+    if (error) {
+      return { error: { message: error, code: "VALIDATION_FAILED", errors: { review: error } } };
+    }
+    review = parsed.review;
+  }
+
+  const warnings = parseWarnings(body);
+  if (warnings.error) return { error: warnings.error };
+  const contentWarning = warnings.contentWarning ?? null;
+
+  return {
+    fields: { user_id, randomName, content, category, poll, review, contentWarning },
+    imageWarningLabels: warnings.imageWarningLabels ?? [],
+  };
+};
+
+// keepImages: JSON array of the current image URLs to keep; omitted keeps them all.
+// returns { images } or { error } with the 400 body to send
+export const keptImages = (keepImages, current) => {
+  if (keepImages === undefined) return { images: current };
+
+  let requested;
+  try {
+    requested = JSON.parse(keepImages);
+  } catch {
+    requested = null;
+  }
+  if (!Array.isArray(requested)) {
+    return { error: { message: "keepImages must be a JSON array", code: "VALIDATION_FAILED", errors: { keepImages: "keepImages must be a JSON array" } } };
+  }
+  return { images: current.filter((url) => requested.includes(url)) };
+};
+
+export const uploadImages = async (files = []) => {
+  const urls = [];
+  for (const file of files) {
+    const result = await cloudinary.uploader.upload(file.path, {
+      folder: "blind_cu_posts",
+    });
+    urls.push(result.secure_url);
+  }
+  return urls;
+};
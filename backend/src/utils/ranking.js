@@ -0,0 +1,66 @@
+// Feed orders. "new" is by createdAt; "hot" and "top" use scores stored on
+// every post (see globalPostSchema), so a page cursor always means the same
+// place in the list no matter when the next page is asked for.
+export const FEED_SORTS = ["new", "hot", "top"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// how far back "top" looks; null: all time
+export const TOP_PERIODS = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  all: null,
+};
+export const DEFAULT_TOP_PERIOD = "week";
+
+// a comment takes more effort than a like
+const COMMENT_WEIGHT = 2;
+// hot scores count seconds from here, which keeps them small
+const HOT_EPOCH_SECONDS = 1704067200; // 2024-01-01
+// every 12.5 hours of age costs as much as ten times the engagement
+const HOT_DECAY_SECONDS = 45000;
+
+export const isFeedSort = (value) => FEED_SORTS.includes(value);
+export const isTopPeriod = (value) => Object.hasOwn(TOP_PERIODS, value);
+
+export const engagementOf = ({ likes, commentsCount }) =>
+  Math.max(likes || 0, 0) + COMMENT_WEIGHT * Math.max(commentsCount || 0, 0);
+
+// Log of engagement plus age, so a newer post overtakes an older one unless
+// the older one has far more engagement. It does not depend on the current
+// time: a post's hot score only changes when its engagement does
+export const hotScoreOf = (engagement, createdAt) =>
+  Math.log10(Math.max(engagement, 1)) + (createdAt.getTime() / 1000 - HOT_EPOCH_SECONDS) / HOT_DECAY_SECONDS;
+
+// The same two scores as an update pipeline, for posts saved before they existed
+export const RANKING_UPDATE_PIPELINE = [
+  {
+    $set: {
+      engagement: {
+        $add: [
+          { $max: [{ $ifNull: ["$likes", 0] }, 0] },
+          { $multiply: [COMMENT_WEIGHT, { $max: [{ $ifNull: ["$commentsCount", 0] }, 0] }] },
+        ],
+      },
+    },
+  },
+  {
+    $set: {
+      hotScore: {
+        $add: [
+          { $log10: { $max: ["$engagement", 1] } },
+          {
+            $divide: [
+              { $subtract: [{ $divide: [{ $toLong: "$createdAt" }, 1000] }, HOT_EPOCH_SECONDS] },
+              HOT_DECAY_SECONDS,
+            ],
+          },
+        ],
+      },
+    },
+  },
+];
+
+// which stored field each ranked order sorts on
+export const SCORE_FIELDS = { hot: "hotScore", top: "engagement" };
@@ -0,0 +1,119 @@
+// what can be reviewed, and the dimensions each kind is rated on (1-5 each)
+export const REVIEW_SUBJECTS = {
+  course: ["content", "teaching", "workload", "grading"],
+  faculty: ["teaching", "clarity", "approachability", "grading"],
+  hostel: ["rooms", "cleanliness", "facilities", "safety"],
+  mess: ["taste", "hygiene", "variety", "value"],
+};
+
+export const MAX_REVIEW_NAME_LENGTH = 80;
+
+export const isReviewSubject = (subject) => Object.hasOwn(REVIEW_SUBJECTS, subject);
+
+// "Data Structures (CSE-201)" becomes "data-structures-cse-201"; reviews with the same slug are of the same thing
+export const slugifyEntity = (name) =>
+  String(name ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_REVIEW_NAME_LENGTH);
+
+// review arrives as a JSON string in the multipart body:
+//   { subject, entityName, ratings: { [dimension]: 1-5 } }
+// returns { review } ready to save, or { error } with what was wrong
+export const parseReview = (raw) => {
+  let input;
+  try {
+    input = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    return { error: "review must be a JSON object" };
+  }
+  if (!input || typeof input !== "object") {
+    return { error: "review must be a JSON object" };
+  }
+
+  if (!isReviewSubject(input.subject)) {
+    return { error: `subject must be one of ${Object.keys(REVIEW_SUBJECTS).join(", ")}` };
+  }
+
+  const entityName = String(input.entityName ?? "").trim().replace(/\s+/g, " ");
+  const entity = slugifyEntity(entityName);
+  if (!entity) {
+    return { error: "Name what you are reviewing" };
+  }
+  if (entityName.length > MAX_REVIEW_NAME_LENGTH) {
+    return { error: `The name must be at most ${MAX_REVIEW_NAME_LENGTH} characters` };
+  }
+
+  const dimensions = REVIEW_SUBJECTS[input.subject];
+  const ratings = [];
+  for (const dimension of dimensions) {
+    const score = Number(input.ratings?.[dimension]);
+    if (!Number.isInteger(score) || score < 1 || score > 5) {
+      return { error: `Rate ${dimension} from 1 to 5` };
+    }
+    ratings.push({ dimension, score });
+  }
+
+  const overall = ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length;
+  return { review: { subject: input.subject, entity, entityName, ratings, overall } };
+};
+
+// semesters run January-June ("2025-1") and July-December ("2025-2")
+export const semesterOf = (date) => `${date.getFullYear()}-${date.getMonth() < 6 ? 1 : 2}`;
+
+// a 1-5 average as the star bucket it counts towards in a distribution
+const starOf = (score) => Math.min(5, Math.max(1, Math.round(score)));
+
+const average = (sum, count) => (count ? sum / count : 0);
+
+// aggregates for one entity from its review posts, newest first.
+// distributions count reviews per star, index 0 being 1 star
+export const summarizeReviews = (posts) => {
+  const [latest] = posts;
+  const dimensions = new Map(
+    REVIEW_SUBJECTS[latest.review.subject].map((dimension) => [dimension, { sum: 0, count: 0, distribution: [0, 0, 0, 0, 0] }])
+  );
+  const distribution = [0, 0, 0, 0, 0];
+  const semesters = new Map();
+  let total = 0;
+
+  for (const post of posts) {
+    const { overall, ratings } = post.review;
+    total += overall;
+    distribution[starOf(overall) - 1]++;
+
+    for (const { dimension, score } of ratings) {
+      const stats = dimensions.get(dimension);
+      if (!stats) continue;
+      stats.sum += score;
+      stats.count++;
+      stats.distribution[score - 1]++;
+    }
+
+    const semester = semesterOf(post.createdAt);
+    const stats = semesters.get(semester) ?? { sum: 0, count: 0 };
+    stats.sum += overall;
+    stats.count++;
+    semesters.set(semester, stats);
+  }
+
+  return {
+    subject: latest.review.subject,
+    entity: latest.review.entity,
+    // as the most recent reviewer wrote it
+    entityName: latest.review.entityName,
+    count: posts.length,
+    overall: average(total, posts.length),
+    distribution,
+    dimensions: [...dimensions].map(([dimension, stats]) => ({
+      dimension,
+      average: average(stats.sum, stats.count),
+      distribution: stats.distribution,
+    })),
+    // oldest first
+    semesters: [...semesters]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([semester, stats]) => ({ semester, count: stats.count, overall: average(stats.sum, stats.count) })),
+  };
+};
@@ -0,0 +1,43 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+// posts can be scheduled at most this far ahead
+export const MAX_SCHEDULE_DAYS = 30;
+// the longest random delay a post can be given
+export const MAX_RANDOM_DELAY_HOURS = 72;
+
+// schedule arrives as a JSON string in the multipart body, either
+//   { publishAt: ISO date }            publish at that time
+//   { randomDelayHours: [min, max] }   publish at a random time that many hours from now
+// returns { publishAt, randomDelay } or { error } with what was wrong
+export const parseSchedule = (raw, now = new Date()) => {
+  let input;
+  try {
+    input = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    return { error: "schedule must be a JSON object" };
+  }
+  if (!input || typeof input !== "object") {
+    return { error: "schedule must be a JSON object" };
+  }
+
+  if (input.randomDelayHours !== undefined) {
+    const [min, max] = Array.isArray(input.randomDelayHours) ? input.randomDelayHours.map(Number) : [];
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max <= min || max > MAX_RANDOM_DELAY_HOURS) {
+      return { error: `randomDelayHours must be [min, max] with 0 <= min < max <= ${MAX_RANDOM_DELAY_HOURS}` };
+    }
+    const delayMs = (min + Math.random() * (max - min)) * HOUR_MS;
+    return { publishAt: new Date(now.getTime() + delayMs), randomDelay: true };
+  }
+
+  const publishAt = new Date(input.publishAt);
+  if (!input.publishAt || Number.isNaN(publishAt.getTime())) {
+    return { error: "publishAt must be a date" };
+  }
+  if (publishAt <= now) {
+    return { error: "publishAt must be in the future" };
+  }
+  if (publishAt.getTime() - now.getTime() > MAX_SCHEDULE_DAYS * 24 * HOUR_MS) {
+    return { error: `Posts can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead` };
+  }
+  return { publishAt, randomDelay: false };
+};
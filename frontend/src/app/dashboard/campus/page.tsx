@@ -1,21 +1,8 @@
-import DashboardLayout from '@/components/dashboard/DashboardLayout'
+import CategoryPage from '@/components/dashboard/CategoryPage'
 import React from 'react'
 
 const CampusPage = () => {
-  return (
-    <DashboardLayout>
-      <div className="space-y-6">
-        <div className="bg-card-light dark:bg-card-dark border border-border-light dark:border-border-dark rounded-lg p-6">
-          <h1 className="text-2xl font-bold text-foreground-light dark:text-foreground-dark mb-4">
-            Campus Life
-          </h1>
-          <p className="text-muted-foreground-light dark:text-muted-foreground-dark">
-            Campus life and social posts will be displayed here.
-          </p>
-        </div>
-      </div>
-    </DashboardLayout>
-  )
+  return <CategoryPage category="campus" />
 }
 
 export default CampusPage
\ No newline at end of file
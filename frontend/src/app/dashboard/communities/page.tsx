@@ -16,6 +16,7 @@ import {
 } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
+import type { ParsedError } from "@/lib/errorHandler";
 import { toast } from "@/components/ui/use-toast";
 
 // Helper function to get initial joined communities
@@ -38,7 +39,7 @@ const CommunitiesPage = () => {
   const [joinedCommunities, setJoinedCommunities] = useState<string[]>(() => getInitialJoinedCommunities());
   const [communities, setCommunities] = useState<Community[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ParsedError | null>(null);
   const router = useRouter();
   const { redirectToSignin } = useAuth();
 
@@ -61,24 +62,15 @@ const CommunitiesPage = () => {
       const response = await getCommunities();
       setCommunities(response.communities);
     } catch (err) {
-      console.error("Failed to load communities:", err);
-
-      if (err instanceof Error) {
-        const errorMessage = err.message.toLowerCase();
-
-        if (errorMessage.includes("unauthorized") || errorMessage.includes("token")) {
-          redirectToSignin(true);
-          return;
-        }
-
-        setError(err.message);
-      } else {
-        setError("An unexpected error occurred while loading communities.");
+      const parsedError = handleError(err, "loadCommunities");
+      if (parsedError.shouldRedirectToAuth) {
+        return;
       }
+      setError(parsedError);
     } finally {
       setLoading(false);
     }
-  }, [redirectToSignin]);
+  }, [redirectToSignin, handleError]);
 
   useEffect(() => {
     fetchCommunities();
@@ -8,9 +8,10 @@ import {
   Community,
   getCommunityPosts,
   getFilteredCommunityPosts,
-  likeGlobalPost
+  isApiError
 } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, ArrowLeft, Users, Plus, MessageCircle } from "lucide-react";
@@ -43,6 +44,9 @@ const CommunityFeedPage = () => {
   const maxRetries = 3;
 
   const { redirectToSignin } = useAuth();
+  const { handleError } = useErrorHandler({
+    onAuthError: () => redirectToSignin(true),
+  });
 
   useEffect(() => {
     if (communityId) {
@@ -89,6 +93,10 @@ const CommunityFeedPage = () => {
         communityData = response.community;
         setHasMore(response.posts.length === 10); // Assuming 10 is the default limit
       } catch (apiError) {
+        // Only a missing route falls back; real failures go to the handler below
+        if (!isApiError(apiError) || apiError.status !== 404) {
+          throw apiError;
+        }
         console.log("Community posts API not available, using fallback filtering");
 
         // Fallback to filtering global posts
@@ -116,31 +124,20 @@ const CommunityFeedPage = () => {
       setRetryCount(0);
 
     } catch (err) {
-      console.error("Failed to load community data:", err);
-
-      if (err instanceof Error) {
-        const errorMessage = err.message.toLowerCase();
-
-        if (errorMessage.includes("unauthorized") || errorMessage.includes("token")) {
-          setErrorType("auth");
-          redirectToSignin(true);
-          return;
-        }
-
-        if (errorMessage.includes("network") || errorMessage.includes("fetch")) {
-          setError("Connection error. Please check your internet connection and try again.");
-          setErrorType("network");
-        } else if (errorMessage.includes("server") || errorMessage.includes("500")) {
-          setError("Server error. Please try again in a moment.");
-          setErrorType("server");
-        } else {
-          setError(err.message);
-          setErrorType("unknown");
-        }
-      } else {
-        setError("An unexpected error occurred while loading the community.");
-        setErrorType("unknown");
+      const parsedError = handleError(err, "loadCommunity");
+      if (parsedError.shouldRedirectToAuth) {
+        setErrorType("auth");
+        return;
       }
+
+      setError(parsedError.message);
+      setErrorType(
+        parsedError.type === "network" || parsedError.type === "server"
+          ? parsedError.type
+          : parsedError.type === "not_found"
+            ? "not-found"
+            : "unknown"
+      );
     } finally {
       setLoading(false);
       setLoadingMore(false);
@@ -181,64 +178,6 @@ const CommunityFeedPage = () => {
     setShowCreatePost(false);
   };
 
-  const handleLike = async (postId: string) => {
-    try {
-      // Check authentication before making API call
-      const token = localStorage.getItem("token");
-      if (!token) {
-        redirectToSignin(true);
-        return;
-      }
-
-      const response = await likeGlobalPost(postId);
-
-      // Update the local post state with new like data
-      setPosts(prevPosts =>
-        prevPosts.map(post => {
-          if (post._id === postId) {
-            // Get current user ID to update likedBy array
-            const token = localStorage.getItem("token");
-            let currentUserId = null;
-            try {
-              if (token) {
-                const payload = JSON.parse(atob(token.split('.')[1]));
-                currentUserId = payload.user_id || payload.id;
-              }
-            } catch (e) {
-              console.error("Error parsing token:", e);
-            }
-
-            // Update likedBy array locally since backend doesn't return it
-            let updatedLikedBy = [...post.likedBy];
-            if (currentUserId) {
-              const isCurrentlyLiked = post.likedBy.includes(currentUserId);
-              if (isCurrentlyLiked) {
-                updatedLikedBy = updatedLikedBy.filter(id => id !== currentUserId);
-              } else {
-                updatedLikedBy = [...updatedLikedBy, currentUserId];
-              }
-            }
-
-            return { ...post, likes: response.likes, likedBy: updatedLikedBy };
-          }
-          return post;
-        })
-      );
-    } catch (err) {
-      console.error("Failed to like post:", err);
-
-      // Handle authentication errors
-      if (err instanceof Error &&
-        (err.message.toLowerCase().includes("unauthorized") ||
-          err.message.toLowerCase().includes("token"))) {
-        redirectToSignin(true);
-        return;
-      }
-
-      throw err; // Re-throw to let PostCard handle the error
-    }
-  };
-
   const handleComment = (postId: string) => {
     router.push(`/dashboard/post/${postId}`);
   };
@@ -355,7 +294,6 @@ const CommunityFeedPage = () => {
                     <PostCard
                       key={post._id}
                       post={post}
-                      onLike={handleLike}
                       onComment={handleComment}
                       onShare={handleShare}
                     />
@@ -3,16 +3,27 @@
 import DashboardLayout from '@/components/dashboard/DashboardLayout'
 import CreatePost from '@/components/posts/CreatePost'
 import { useRouter } from 'next/navigation'
-import React from 'react'
+import React, { use } from 'react'
 
-const CreatePostPage = () => {
+interface CreatePostPageProps {
+  searchParams: Promise<{ draft?: string }>;
+}
+
+const CreatePostPage = ({ searchParams }: CreatePostPageProps) => {
   const router = useRouter();
+  // Set when opened from the drafts list
+  const { draft } = use(searchParams);
 
   const handlePostCreated = (post: any) => {
     // Redirect to dashboard after successful post creation
     router.push('/dashboard');
   };
 
+  const handlePostScheduled = () => {
+    // Scheduled posts are listed, and can be changed, under My Posts
+    router.push('/dashboard/my-posts');
+  };
+
   const handleCancel = () => {
     // Navigate back to dashboard
     router.push('/dashboard');
@@ -22,7 +33,9 @@ const CreatePostPage = () => {
     <DashboardLayout>
       <div className="space-y-6">
         <CreatePost
+          draftTarget={draft}
           onPostCreated={handlePostCreated}
+          onPostScheduled={handlePostScheduled}
           onCancel={handleCancel}
         />
       </div>
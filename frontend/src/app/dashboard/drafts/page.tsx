@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
+import { EmptyState } from "@/components/empty";
+import { PostSkeleton } from "@/components/loading";
+import DraftCard from "@/components/posts/DraftCard";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { useDrafts } from "@/hooks/useDrafts";
+import { getCommunities, isAbortError, type Community } from "@/lib/api";
+import { GLOBAL_DRAFT_TARGET } from "@/lib/drafts";
+import { FilePen, PlusCircle } from "lucide-react";
+
+const DraftsPage = () => {
+  const router = useRouter();
+  const { drafts, loading, discard } = useDrafts();
+  const [communities, setCommunities] = useState<Community[]>([]);
+
+  // Only needed for the names of the communities drafts are meant for
+  useEffect(() => {
+    const controller = new AbortController();
+
+    getCommunities({ signal: controller.signal })
+      .then((response) => setCommunities(response.communities))
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Failed to load communities:", error);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const targetLabel = (target: string) =>
+    target === GLOBAL_DRAFT_TARGET
+      ? "Global"
+      : communities.find((community) => community.community_id === target)?.name || "Community";
+
+  const handleCreatePost = () => {
+    router.push("/dashboard/create-post");
+  };
+
+  const handleContinue = (target: string) => {
+    router.push(`/dashboard/create-post?draft=${encodeURIComponent(target)}`);
+  };
+
+  const handleDiscard = async (target: string) => {
+    try {
+      await discard(target);
+      toast({
+        title: "Draft Discarded",
+        variant: "info",
+      });
+    } catch (error) {
+      console.error("Failed to discard draft:", error);
+      toast({
+        title: "Failed to Discard Draft",
+        description: "Please try again.",
+        variant: "error",
+      });
+    }
+  };
+
+  return (
+    <RouteErrorBoundary routeName="Drafts">
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Drafts</h1>
+              <p className="text-muted-foreground">
+                Posts you started writing, saved on this device until you publish them
+              </p>
+            </div>
+            <Button onClick={handleCreatePost} className="flex items-center gap-2">
+              <PlusCircle className="h-4 w-4" />
+              Create Post
+            </Button>
+          </div>
+
+          {/* Content */}
+          {loading ? (
+            <PostSkeleton count={2} />
+          ) : drafts.length === 0 ? (
+            <EmptyState
+              icon={FilePen}
+              title="No Drafts"
+              description="What you write in Create Post is saved here automatically, so you can finish it later."
+              actionLabel="Start Writing"
+              onAction={handleCreatePost}
+            />
+          ) : (
+            <div className="space-y-6">
+              {drafts.map((draft) => (
+                <DraftCard
+                  key={draft.id}
+                  draft={draft}
+                  targetLabel={targetLabel(draft.target)}
+                  onContinue={handleContinue}
+                  onDiscard={handleDiscard}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  );
+};
+
+export default DraftsPage;
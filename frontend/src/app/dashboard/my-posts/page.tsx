@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import { useRouter } from "next/navigation";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
@@ -8,8 +8,12 @@ import { EmptyState } from "@/components/empty";
 import { PostSkeleton } from "@/components/loading";
 import { ErrorRetry } from "@/components/error";
 import UserPostCard from "@/components/posts/UserPostCard";
+import EditPostDialog, { isPostEditable } from "@/components/posts/EditPostDialog";
+import ScheduledPostCard from "@/components/posts/ScheduledPostCard";
+import EditScheduledPostDialog from "@/components/posts/EditScheduledPostDialog";
 import { Button } from "@/components/ui/button";
 import { useUserPosts } from "@/hooks/useUserPosts";
+import { useScheduledPosts } from "@/hooks/useScheduledPosts";
 import { useAuth } from "@/hooks/useAuth";
 import { PlusCircle, RefreshCw, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -25,9 +29,16 @@ const MyPostsPage = () => {
     totalCount,
     loadMore,
     deletePosts,
+    updatePost,
     retry,
     refresh,
   } = useUserPosts(user?.user_id || null);
+  const [editingPostId, setEditingPostId] = useState<string | null>(null);
+  const editingPost = posts.find((post) => post._id === editingPostId) ?? null;
+  const scheduled = useScheduledPosts(Boolean(user?.user_id));
+  const [editingScheduledId, setEditingScheduledId] = useState<string | null>(null);
+  const editingScheduled =
+    scheduled.scheduledPosts.find((post) => post._id === editingScheduledId) ?? null;
 
   const handleViewPost = (postId: string) => {
     router.push(`/dashboard/post/${postId}`);
@@ -37,6 +48,11 @@ const MyPostsPage = () => {
     router.push("/dashboard/create-post");
   };
 
+  const handleRefresh = () => {
+    refresh();
+    scheduled.refresh();
+  };
+
   const handleLoadMore = () => {
     if (!loading && hasMore) {
       loadMore();
@@ -92,7 +108,7 @@ const MyPostsPage = () => {
             </div>
             <div className="flex items-center gap-2">
               <Button
-                onClick={refresh}
+                onClick={handleRefresh}
                 variant="outline"
                 size="sm"
                 disabled={loading}
@@ -108,6 +124,31 @@ const MyPostsPage = () => {
             </div>
           </div>
 
+          {/* Scheduled posts, only visible to their author until published */}
+          {scheduled.scheduledPosts.length > 0 && (
+            <section className="space-y-4" aria-labelledby="scheduled-heading">
+              <h2 id="scheduled-heading" className="text-lg font-semibold text-foreground">
+                Scheduled
+              </h2>
+              {scheduled.scheduledPosts.map((scheduledPost) => (
+                <ScheduledPostCard
+                  key={scheduledPost._id}
+                  scheduledPost={scheduledPost}
+                  onEdit={setEditingScheduledId}
+                  onCancel={scheduled.cancel}
+                />
+              ))}
+              {editingScheduled && (
+                <EditScheduledPostDialog
+                  scheduledPost={editingScheduled}
+                  open
+                  onOpenChange={(open) => !open && setEditingScheduledId(null)}
+                  onSaved={scheduled.update}
+                />
+              )}
+            </section>
+          )}
+
           {/* Content */}
           {loading && posts.length === 0 ? (
             <PostSkeleton count={3} />
@@ -128,11 +169,21 @@ const MyPostsPage = () => {
                     key={post._id}
                     post={post}
                     onView={handleViewPost}
+                    onEdit={isPostEditable(post) ? setEditingPostId : undefined}
                     onDelete={deletePosts}
                   />
                 ))}
               </div>
 
+              {editingPost && (
+                <EditPostDialog
+                  post={editingPost}
+                  open
+                  onOpenChange={(open) => !open && setEditingPostId(null)}
+                  onSaved={updatePost}
+                />
+              )}
+
               {/* Load more button */}
               {hasMore && (
                 <div className="flex justify-center pt-6">
@@ -4,28 +4,42 @@ import React, { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import DashboardLayout from "@/components/dashboard/DashboardLayout";
 import PostDetail from "@/components/posts/PostDetail";
-import { GlobalPost, getGlobalPosts } from "@/lib/api";
+import {
+  GlobalPostDetail,
+  getPostById,
+  isAbortError,
+  isApiError,
+} from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, ArrowLeft } from "lucide-react";
+import { AlertCircle, ArrowLeft, FileX, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
+// Why a post could not be shown, when the server said it is gone
+type MissingReason = "not_found" | "deleted";
+
 const PostDetailPage = () => {
   const params = useParams();
   const router = useRouter();
   const postId = params.id as string;
 
-  const [post, setPost] = useState<GlobalPost | null>(null);
+  const [post, setPost] = useState<GlobalPostDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [missing, setMissing] = useState<MissingReason | null>(null);
 
   const { redirectToSignin } = useAuth();
+  const { handleError } = useErrorHandler({
+    onAuthError: () => redirectToSignin(true),
+  });
 
-  const loadPost = useCallback(async () => {
+  const loadPost = useCallback(async (signal?: AbortSignal) => {
     try {
       setLoading(true);
       setError(null);
+      setMissing(null);
 
       const token = localStorage.getItem("token");
       if (!token) {
@@ -33,45 +47,34 @@ const PostDetailPage = () => {
         return;
       }
 
-      // For now, we'll fetch all posts and find the specific one
-      // In a real implementation, there would be a getPostById endpoint
-      const response = await getGlobalPosts();
-      const foundPost = response.posts.find((p: GlobalPost) => p._id === postId);
+      const response = await getPostById(postId, { signal });
+      setPost(response.post);
+    } catch (err) {
+      if (isAbortError(err)) return;
 
-      if (!foundPost) {
-        setError("Post not found");
+      // Gone for good: show a final state instead of an error with a retry
+      if (isApiError(err) && (err.status === 404 || err.status === 410)) {
+        setPost(null);
+        setMissing(err.status === 410 ? "deleted" : "not_found");
         return;
       }
 
-      setPost(foundPost);
-    } catch (err) {
-      console.error("Failed to load post:", err);
-
-      if (err instanceof Error) {
-        const errorMessage = err.message.toLowerCase();
-
-        if (errorMessage.includes("unauthorized") || errorMessage.includes("token")) {
-          redirectToSignin(true);
-          return;
-        }
-
-        if (errorMessage.includes("network") || errorMessage.includes("fetch")) {
-          setError("Connection error. Please check your internet connection and try again.");
-        } else {
-          setError(err.message);
-        }
-      } else {
-        setError("An unexpected error occurred while loading the post.");
+      const parsedError = handleError(err, "loadPost");
+      if (parsedError.shouldRedirectToAuth) {
+        return;
       }
+      setError(parsedError.message);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
-  }, [postId, redirectToSignin]);
+  }, [postId, redirectToSignin, handleError]);
 
   useEffect(() => {
-    if (postId) {
-      loadPost();
-    }
+    if (!postId) return;
+
+    const controller = new AbortController();
+    loadPost(controller.signal);
+    return () => controller.abort();
   }, [postId, loadPost]);
 
   const handleBack = useCallback(() => {
@@ -129,11 +132,29 @@ const PostDetailPage = () => {
           </Alert>
         )}
 
-        {post && !loading && !error && (
-          <PostDetail
-            post={post}
-            onPostUpdate={setPost}
-          />
+        {missing && !loading && (
+          <div className="rounded-xl border bg-card p-10 text-center">
+            {missing === "deleted" ? (
+              <Trash2 className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+            ) : (
+              <FileX className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+            )}
+            <h2 className="text-lg font-semibold text-foreground mb-1">
+              {missing === "deleted" ? "This post was deleted" : "Post not found"}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              {missing === "deleted"
+                ? "Its author removed it, so it is no longer available."
+                : "The link may be broken, or the post never existed."}
+            </p>
+            <Button variant="outline" onClick={() => router.push("/dashboard")}>
+              Go to Feed
+            </Button>
+          </div>
+        )}
+
+        {post && !loading && !error && !missing && (
+          <PostDetail post={post} />
         )}
       </div>
     </DashboardLayout>
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAutoExpandWarnings } from "@/hooks/useContentWarnings";
+import { TriangleAlert } from "lucide-react";
+
+const PreferencesPage = () => {
+  const [autoExpand, setAutoExpand] = useAutoExpandWarnings();
+
+  return (
+    <RouteErrorBoundary routeName="Preferences">
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Preferences</h1>
+            <p className="text-muted-foreground">
+              How posts are shown to you, saved on this device
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <TriangleAlert className="h-5 w-5" aria-hidden="true" />
+                Content warnings
+              </CardTitle>
+              <CardDescription>
+                Authors can put a warning on posts and images, such as spoilers of exam answers or
+                distressing content. Warned content stays hidden until you choose to show it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <Label htmlFor="auto-expand-warnings" className="cursor-pointer">
+                    Show warned content automatically
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    The warning label still shows above the post, with a way to hide it.
+                  </p>
+                </div>
+                <Switch
+                  id="auto-expand-warnings"
+                  checked={autoExpand}
+                  onCheckedChange={setAutoExpand}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  );
+};
+
+export default PreferencesPage;
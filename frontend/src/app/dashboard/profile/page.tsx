@@ -33,7 +33,9 @@ const ProfilePage = () => {
 
     // Check for pending updates
     if (user) {
-      setHasPendingUpdates(profileService.hasUserPendingUpdates(user.user_id));
+      profileService
+        .hasUserPendingUpdates(user.user_id)
+        .then(setHasPendingUpdates);
     }
   }, [user, isAuthenticated, authLoading, redirectToSignin]);
 
@@ -118,6 +120,7 @@ const ProfilePage = () => {
     setIsLoading(true);
     try {
       await profileService.syncPendingUpdates();
+      setHasPendingUpdates(await profileService.hasUserPendingUpdates(user.user_id));
     } catch (error) {
       console.error("Sync retry failed:", error);
       toast({
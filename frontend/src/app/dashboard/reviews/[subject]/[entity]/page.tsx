@@ -0,0 +1,23 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
+import { ReviewEntityView } from "@/components/reviews";
+import { isReviewSubject } from "@/lib/reviews";
+
+interface ReviewEntityPageProps {
+  params: Promise<{ subject: string; entity: string }>;
+}
+
+export default async function ReviewEntityPage({ params }: ReviewEntityPageProps) {
+  const { subject, entity } = await params;
+  if (!isReviewSubject(subject)) notFound();
+
+  return (
+    <RouteErrorBoundary routeName="Review">
+      <DashboardLayout>
+        <ReviewEntityView subject={subject} entity={decodeURIComponent(entity)} />
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  );
+}
@@ -1,21 +1,27 @@
-import DashboardLayout from '@/components/dashboard/DashboardLayout'
-import React from 'react'
+import React from "react";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
+import { ReviewBrowser } from "@/components/reviews";
+import { CATEGORY_INFO } from "@/lib/categories";
+
+export default function ReviewsPage() {
+  const { label, description } = CATEGORY_INFO.reviews;
 
-const ReviewsPage = () => {
   return (
-    <DashboardLayout>
-      <div className="space-y-6">
-        <div className="bg-card-light dark:bg-card-dark border border-border-light dark:border-border-dark rounded-lg p-6">
-          <h1 className="text-2xl font-bold text-foreground-light dark:text-foreground-dark mb-4">
-            Reviews
-          </h1>
-          <p className="text-muted-foreground-light dark:text-muted-foreground-dark">
-            Reviews and ratings will be displayed here.
-          </p>
+    <RouteErrorBoundary routeName={label}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          <div className="bg-card-light dark:bg-card-dark border border-border-light dark:border-border-dark rounded-lg p-6">
+            <h1 className="text-2xl font-bold text-foreground-light dark:text-foreground-dark mb-2">
+              {label}
+            </h1>
+            <p className="text-muted-foreground-light dark:text-muted-foreground-dark">
+              {description}
+            </p>
+          </div>
+          <ReviewBrowser />
         </div>
-      </div>
-    </DashboardLayout>
-  )
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  );
 }
-
-export default ReviewsPage
\ No newline at end of file
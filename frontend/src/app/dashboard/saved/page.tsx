@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useState } from "react";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
+import { EmptyState } from "@/components/empty";
+import { PostSkeleton } from "@/components/loading";
+import { ErrorRetry } from "@/components/error";
+import { CollectionFilter, CollectionNameDialog, SavedPostItem } from "@/components/saved";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/components/ui/use-toast";
+import { useSavedCollections } from "@/hooks/useSavedCollections";
+import { useSavedPosts } from "@/hooks/useSavedPosts";
+import { UNFILED_COLLECTION } from "@/lib/bookmarks";
+import { parseError } from "@/lib/errorHandler";
+import { Bookmark, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type NameDialog = { mode: "create" } | { mode: "rename"; collectionId: string; name: string };
+
+const SavedPage = () => {
+  // undefined: every saved post
+  const [selected, setSelected] = useState<string | undefined>(undefined);
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const collections = useSavedCollections();
+  const { items, loading, error, hasMore, loadMore, refresh, remove } = useSavedPosts(selected);
+
+  const selectedCollection = collections.collections.find((c) => c._id === selected) ?? null;
+
+  const handleRefresh = () => {
+    refresh();
+    collections.refresh();
+  };
+
+  const handleDeleteCollection = async () => {
+    if (!selectedCollection) return;
+    try {
+      await collections.remove(selectedCollection._id);
+      setSelected(undefined);
+      toast({
+        title: "Collection Deleted",
+        description: "Its posts are still saved, under Unsorted.",
+        variant: "info",
+      });
+    } catch (err) {
+      toast({
+        title: "Delete Failed",
+        description: parseError(err).message,
+        variant: "error",
+      });
+    } finally {
+      setConfirmDelete(false);
+    }
+  };
+
+  const emptyDescription =
+    selected === undefined
+      ? "Tap the bookmark on any post to keep it here for later."
+      : selected === UNFILED_COLLECTION
+        ? "Every saved post is in a collection."
+        : "Move saved posts here with the collection picker under each one.";
+
+  return (
+    <RouteErrorBoundary routeName="Saved">
+      <DashboardLayout>
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Saved</h1>
+              <p className="text-muted-foreground">
+                Posts you bookmarked, only visible to you
+              </p>
+            </div>
+            <Button
+              onClick={handleRefresh}
+              variant="outline"
+              size="sm"
+              disabled={loading}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+              Refresh
+            </Button>
+          </div>
+
+          <CollectionFilter
+            collections={collections.collections}
+            total={collections.total}
+            unfiled={collections.unfiled}
+            selected={selected}
+            onSelect={setSelected}
+            onCreate={() => setNameDialog({ mode: "create" })}
+          />
+
+          {selectedCollection && (
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold break-words">{selectedCollection.name}</h2>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setNameDialog({
+                      mode: "rename",
+                      collectionId: selectedCollection._id,
+                      name: selectedCollection.name,
+                    })
+                  }
+                  className="flex items-center gap-2"
+                >
+                  <Pencil className="h-4 w-4" />
+                  Rename
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setConfirmDelete(true)}
+                  className="flex items-center gap-2 text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Content */}
+          {error && items.length === 0 ? (
+            <ErrorRetry
+              error={error}
+              onRetry={refresh}
+              isRetrying={loading}
+              title="Failed to Load Saved Posts"
+              description="We couldn't load your saved posts right now. Please try again."
+            />
+          ) : loading && items.length === 0 ? (
+            <PostSkeleton count={3} />
+          ) : items.length === 0 ? (
+            <EmptyState icon={Bookmark} title="Nothing Saved Here" description={emptyDescription} />
+          ) : (
+            <div className="space-y-6">
+              {items.map((item) => (
+                <SavedPostItem
+                  key={item._id}
+                  item={item}
+                  collections={collections.collections}
+                  onRemove={remove}
+                />
+              ))}
+
+              {hasMore && (
+                <div className="flex justify-center pt-6">
+                  <Button
+                    onClick={loadMore}
+                    variant="outline"
+                    disabled={loading}
+                    className="flex items-center gap-2"
+                  >
+                    {loading && <RefreshCw className="h-4 w-4 animate-spin" />}
+                    {loading ? "Loading..." : "Load More"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {nameDialog && (
+          <CollectionNameDialog
+            open
+            onOpenChange={(open) => !open && setNameDialog(null)}
+            title={nameDialog.mode === "create" ? "New collection" : "Rename collection"}
+            submitLabel={nameDialog.mode === "create" ? "Create" : "Rename"}
+            initialName={nameDialog.mode === "rename" ? nameDialog.name : ""}
+            onSubmit={async (name) => {
+              if (nameDialog.mode === "rename") {
+                return collections.rename(nameDialog.collectionId, name);
+              }
+              const collection = await collections.create(name);
+              setSelected(collection._id);
+            }}
+          />
+        )}
+
+        <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this collection?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The posts in it stay saved and move to Unsorted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDeleteCollection}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  );
+};
+
+export default SavedPage;
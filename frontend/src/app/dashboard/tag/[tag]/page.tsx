@@ -0,0 +1,32 @@
+import React from "react";
+import { notFound } from "next/navigation";
+import DashboardLayout from "@/components/dashboard/DashboardLayout";
+import Posts from "@/components/dashboard/Posts";
+import RouteErrorBoundary from "@/components/error/RouteErrorBoundary";
+import { normalizeTag } from "@/lib/hashtags";
+
+interface TagPageProps {
+  params: Promise<{ tag: string }>;
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const tag = normalizeTag(decodeURIComponent((await params).tag));
+  if (!tag) notFound();
+
+  return (
+    <RouteErrorBoundary routeName="Tag">
+      <DashboardLayout>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold">#{tag}</h1>
+            <p className="text-muted-foreground">
+              Posts mentioning #{tag}, newest first.
+            </p>
+          </div>
+
+          <Posts tag={tag} />
+        </div>
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  );
+}
@@ -0,0 +1,19 @@
+import { cache } from "react";
+import { getSharedPost, isApiError, type SharedPost } from "@/lib/api";
+
+/**
+ * The shared post, or null once its link is off. Cached for the request:
+ * the page and its metadata both ask for it.
+ *
+ * With NEXT_PUBLIC_FAKE_BACKEND=true the server runs its own fake, which
+ * only holds the seed data, so links turned on in the browser 404 here.
+ */
+export const loadSharedPost = cache(async (shareId: string): Promise<SharedPost | null> => {
+  try {
+    const { post } = await getSharedPost(shareId);
+    return post;
+  } catch (err) {
+    if (isApiError(err) && err.status === 404) return null;
+    throw err;
+  }
+});
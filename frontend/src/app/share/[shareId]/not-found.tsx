@@ -0,0 +1,20 @@
+import Link from "next/link";
+import { Link2Off } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export default function ShareNotFound() {
+  return (
+    <main className="min-h-screen flex items-center justify-center px-4">
+      <div className="max-w-md rounded-xl border bg-card p-10 text-center">
+        <Link2Off className="h-12 w-12 text-muted-foreground mx-auto mb-3" aria-hidden="true" />
+        <h1 className="text-lg font-semibold text-foreground mb-1">This link is not shared anymore</h1>
+        <p className="text-sm text-muted-foreground mb-4">
+          Its author turned the link off or deleted the post.
+        </p>
+        <Button asChild variant="outline">
+          <Link href="/dashboard">Go to Feed</Link>
+        </Button>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,10 @@
+import { renderSharePreview } from "./preview";
+
+export const alt = "Preview of a post shared from Blind CU";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+export default async function OpenGraphImage({ params }: { params: Promise<{ shareId: string }> }) {
+  const { shareId } = await params;
+  return renderSharePreview(shareId, size);
+}
@@ -0,0 +1,67 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import SharedPostView from "@/components/share/SharedPostView";
+import { SITE_NAME, sharePath, sharedPostDescription, sharedPostTitle } from "@/lib/sharing";
+import { loadSharedPost } from "./data";
+
+interface SharePageProps {
+  params: Promise<{ shareId: string }>;
+}
+
+// Previews need absolute URLs; links are shared from whichever host served them
+async function requestOrigin(): Promise<URL | undefined> {
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  if (!host) return undefined;
+  const protocol =
+    requestHeaders.get("x-forwarded-proto") ?? (host.startsWith("localhost") ? "http" : "https");
+  return new URL(`${protocol}://${host}`);
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const { shareId } = await params;
+  const post = await loadSharedPost(shareId);
+  // Shared posts are for people holding the link, not for search engines
+  const robots = { index: false, follow: false };
+
+  if (!post) {
+    return { title: `Link not shared | ${SITE_NAME}`, robots };
+  }
+
+  const title = sharedPostTitle(post);
+  const description = sharedPostDescription(post);
+  const url = sharePath(shareId);
+
+  // The preview images come from opengraph-image.tsx and twitter-image.tsx
+  return {
+    metadataBase: await requestOrigin(),
+    title: `${title} | ${SITE_NAME}`,
+    description,
+    robots,
+    alternates: { canonical: url },
+    openGraph: {
+      type: "article",
+      siteName: SITE_NAME,
+      title,
+      description,
+      url,
+      publishedTime: post.createdAt,
+      modifiedTime: post.editedAt ?? undefined,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+// Public: rendered on the server so link previews and readers without an account see it
+export default async function SharePage({ params }: SharePageProps) {
+  const { shareId } = await params;
+  const post = await loadSharedPost(shareId);
+  if (!post) notFound();
+
+  return <SharedPostView post={post} />;
+}
@@ -0,0 +1,126 @@
+import { ImageResponse } from "next/og";
+import { CATEGORY_INFO } from "@/lib/categories";
+import { toPlainText } from "@/lib/markdown";
+import { formatScore } from "@/lib/reviews";
+import { SITE_NAME, excerpt, sharedPostTitle } from "@/lib/sharing";
+import { loadSharedPost } from "./data";
+
+const BODY_LENGTH = 260;
+const POLL_OPTIONS_SHOWN = 4;
+
+const COLORS = {
+  background: "#0f172a",
+  card: "#1e293b",
+  text: "#f8fafc",
+  muted: "#94a3b8",
+  accent: "#38bdf8",
+  warning: "#fbbf24",
+};
+
+/**
+ * The link preview image of a shared post, for opengraph-image.tsx and
+ * twitter-image.tsx. Like the page, it never shows the pseudonym, nor the
+ * text of a post with a content warning.
+ */
+export async function renderSharePreview(
+  shareId: string,
+  size: { width: number; height: number }
+): Promise<ImageResponse> {
+  const post = await loadSharedPost(shareId);
+
+  const title = post ? sharedPostTitle(post) : "This link is not shared anymore";
+  const body = post ? excerpt(toPlainText(post.content), BODY_LENGTH) : "";
+  // Warned posts keep their text and poll options out of the picture
+  const warning = post?.contentWarning ?? null;
+  const label = post?.category ? CATEGORY_INFO[post.category].label : "Anonymous post";
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          padding: 64,
+          background: COLORS.background,
+          color: COLORS.text,
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <div style={{ display: "flex", fontSize: 36, fontWeight: 700 }}>{SITE_NAME}</div>
+          <div
+            style={{
+              display: "flex",
+              fontSize: 24,
+              padding: "8px 20px",
+              borderRadius: 999,
+              background: COLORS.card,
+              color: COLORS.accent,
+            }}
+          >
+            {label}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", flexGrow: 1, marginTop: 48 }}>
+          <div style={{ display: "flex", fontSize: 44, fontWeight: 700, lineHeight: 1.2 }}>{title}</div>
+          {post?.review && (
+            <div style={{ display: "flex", marginTop: 16, fontSize: 32, color: COLORS.accent }}>
+              {`Rated ${formatScore(post.review.overall)} out of 5`}
+            </div>
+          )}
+          {warning ? (
+            <div
+              style={{
+                display: "flex",
+                marginTop: 24,
+                padding: "16px 24px",
+                borderRadius: 12,
+                background: COLORS.card,
+                fontSize: 30,
+                color: COLORS.warning,
+              }}
+            >
+              {`Content warning: ${warning}`}
+            </div>
+          ) : post?.poll ? (
+            <div style={{ display: "flex", flexDirection: "column", marginTop: 24 }}>
+              {post.poll.options.slice(0, POLL_OPTIONS_SHOWN).map((option) => (
+                <div
+                  key={option._id}
+                  style={{
+                    display: "flex",
+                    marginTop: 12,
+                    padding: "12px 20px",
+                    borderRadius: 12,
+                    background: COLORS.card,
+                    fontSize: 26,
+                  }}
+                >
+                  {excerpt(option.text, 60)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            body && (
+              <div style={{ display: "flex", marginTop: 24, fontSize: 30, lineHeight: 1.4, color: COLORS.muted }}>
+                {body}
+              </div>
+            )
+          )}
+        </div>
+
+        {post && (
+          <div style={{ display: "flex", fontSize: 24, color: COLORS.muted }}>
+            {`${post.likes} ${post.likes === 1 ? "like" : "likes"} · ${post.commentsCount} ${
+              post.commentsCount === 1 ? "comment" : "comments"
+            } · Posted anonymously`}
+          </div>
+        )}
+      </div>
+    ),
+    size
+  );
+}
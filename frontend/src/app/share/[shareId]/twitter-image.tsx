@@ -0,0 +1,11 @@
+import { renderSharePreview } from "./preview";
+
+// Same picture as opengraph-image.tsx; Next.js wants the fields in this file
+export const alt = "Preview of a post shared from Blind CU";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+export default async function TwitterImage({ params }: { params: Promise<{ shareId: string }> }) {
+  const { shareId } = await params;
+  return renderSharePreview(shareId, size);
+}
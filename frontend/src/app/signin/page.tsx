@@ -97,6 +97,7 @@ export default function SigninPage() {
       });
 
       localStorage.setItem("token", response.token);
+      localStorage.setItem("refreshToken", response.refreshToken);
       localStorage.setItem("user", JSON.stringify(response.user));
 
       // Check for redirect destination
@@ -0,0 +1,84 @@
+"use client";
+
+import React from "react";
+import { EyeOff, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useContentWarning } from "@/hooks/useContentWarnings";
+import { cn } from "@/lib/utils";
+
+interface ContentWarningProps {
+  /** null shows the content as it is */
+  label: string | null;
+  children: React.ReactNode;
+  /** For the collapsed panel; once shown the content keeps its own layout */
+  className?: string;
+}
+
+// Clicks stay here so revealing doesn't also open the post around it
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/**
+ * Collapses a post behind its warning label until the reader shows it, or
+ * shows it straight away when they auto-expand warnings. Once shown, the
+ * label stays above the content with a way to hide it again.
+ */
+const ContentWarning: React.FC<ContentWarningProps> = ({ label, children, className }) => {
+  const { hidden, reveal, hide } = useContentWarning(label);
+
+  if (!label) return <>{children}</>;
+
+  if (hidden) {
+    return (
+      <div
+        className={cn(
+          "flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border border-amber-500/40 bg-amber-500/10 p-4",
+          className
+        )}
+      >
+        <p className="flex items-center gap-2 text-sm text-foreground">
+          <TriangleAlert className="h-4 w-4 shrink-0 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+          <span>
+            <span className="font-medium">Content warning:</span> {label}
+          </span>
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            reveal();
+          }}
+          onKeyDown={stopPropagation}
+          className="touch-manipulation min-h-[44px] sm:min-h-0"
+        >
+          Show post
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="mb-3 flex items-center gap-2 text-xs text-muted-foreground">
+        <TriangleAlert className="h-3 w-3 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+        <span>Content warning: {label}</span>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            hide();
+          }}
+          onKeyDown={stopPropagation}
+          className="ml-1 inline-flex items-center gap-1 underline-offset-2 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-primary rounded"
+        >
+          <EyeOff className="h-3 w-3" aria-hidden="true" />
+          Hide
+        </button>
+      </div>
+      {children}
+    </>
+  );
+};
+
+export default ContentWarning;
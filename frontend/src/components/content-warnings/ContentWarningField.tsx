@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useId } from "react";
+import { Input } from "@/components/ui/input";
+import type { PostCategory } from "@/lib/categories";
+import { MAX_CONTENT_WARNING_LENGTH, normalizeWarning, warningPresetsFor } from "@/lib/contentWarnings";
+import { cn } from "@/lib/utils";
+
+interface ContentWarningFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Puts the preset that suits it first */
+  category?: PostCategory | null;
+  /** Names what the warning covers, e.g. "Content warning for image 2" */
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// A free-text warning label with one-click presets
+const ContentWarningField: React.FC<ContentWarningFieldProps> = ({
+  value,
+  onChange,
+  category,
+  label = "Content warning",
+  disabled,
+  className,
+}) => {
+  const inputId = useId();
+  const helpId = useId();
+  const current = normalizeWarning(value).toLowerCase();
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <label htmlFor={inputId} className="text-sm font-medium">
+        {label}
+      </label>
+      <Input
+        id={inputId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g. Spoiler"
+        maxLength={MAX_CONTENT_WARNING_LENGTH}
+        disabled={disabled}
+        aria-describedby={helpId}
+      />
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Common warnings">
+        {warningPresetsFor(category).map((preset) => (
+          <button
+            type="button"
+            key={preset}
+            onClick={() => onChange(preset)}
+            disabled={disabled}
+            aria-pressed={current === preset.toLowerCase()}
+            className={cn(
+              "rounded-full border px-3 py-1 text-xs transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:opacity-50",
+              current === preset.toLowerCase()
+                ? "border-primary bg-primary/10 text-primary"
+                : "border-border-light dark:border-border-dark hover:bg-muted"
+            )}
+          >
+            {preset}
+          </button>
+        ))}
+      </div>
+      <p id={helpId} className="text-xs text-muted-foreground-light dark:text-muted-foreground-dark">
+        Readers see this label instead of the content until they choose to show it.
+      </p>
+    </div>
+  );
+};
+
+export default ContentWarningField;
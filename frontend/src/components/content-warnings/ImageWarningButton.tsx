@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useState } from "react";
+import { TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { PostCategory } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import ContentWarningField from "./ContentWarningField";
+
+interface ImageWarningButtonProps {
+  /** Current label; "" for none */
+  value: string;
+  onChange: (value: string) => void;
+  /** 1-based, for labels */
+  imageNumber: number;
+  category?: PostCategory | null;
+  className?: string;
+}
+
+// Sits on an image preview in the editor and sets the warning of that image
+const ImageWarningButton: React.FC<ImageWarningButtonProps> = ({
+  value,
+  onChange,
+  imageNumber,
+  category,
+  className,
+}) => {
+  const [open, setOpen] = useState(false);
+  const warned = value.trim().length > 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "p-1 rounded-full touch-manipulation min-h-[32px] min-w-[32px] flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2",
+            warned ? "bg-amber-500 text-white" : "bg-background/80 text-foreground",
+            className
+          )}
+          aria-label={
+            warned
+              ? `Image ${imageNumber} has the content warning "${value.trim()}". Change it`
+              : `Add a content warning to image ${imageNumber}`
+          }
+        >
+          <TriangleAlert className="h-3 w-3" aria-hidden="true" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="space-y-3">
+        <ContentWarningField
+          value={value}
+          onChange={onChange}
+          category={category}
+          label={`Content warning for image ${imageNumber}`}
+        />
+        <div className="flex justify-end gap-2">
+          {warned && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange("")}>
+              Remove
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={() => setOpen(false)}>
+            Done
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ImageWarningButton;
@@ -0,0 +1,53 @@
+"use client";
+
+import React from "react";
+import { TriangleAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ImageWarningOverlayProps {
+  label: string;
+  onReveal: () => void;
+  /** Icon only, for thumbnails; the label moves to the tooltip */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Covers a blurred image with its warning label. Put it in a relative
+ * container next to the image, which should carry `blur-xl` meanwhile.
+ */
+const ImageWarningOverlay: React.FC<ImageWarningOverlayProps> = ({
+  label,
+  onReveal,
+  compact,
+  className,
+}) => (
+  <button
+    type="button"
+    onClick={(e) => {
+      e.stopPropagation();
+      onReveal();
+    }}
+    onKeyDown={(e) => e.stopPropagation()}
+    title={compact ? `${label}. Show image` : undefined}
+    aria-label={`Content warning: ${label}. Show image`}
+    className={cn(
+      "absolute inset-0 flex flex-col items-center justify-center gap-2 bg-background/40 text-foreground text-center focus:outline-none focus-visible:ring-2 focus-visible:ring-primary",
+      compact ? "p-1" : "p-4",
+      className
+    )}
+  >
+    <TriangleAlert
+      className={cn("text-amber-600 dark:text-amber-400", compact ? "h-4 w-4" : "h-6 w-6")}
+      aria-hidden="true"
+    />
+    {!compact && (
+      <>
+        <span className="text-sm font-medium line-clamp-2">{label}</span>
+        <span className="rounded-full bg-background/80 px-3 py-1 text-xs">Show image</span>
+      </>
+    )}
+  </button>
+);
+
+export default ImageWarningOverlay;
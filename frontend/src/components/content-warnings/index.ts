@@ -0,0 +1,4 @@
+export { default as ContentWarning } from "./ContentWarning";
+export { default as ContentWarningField } from "./ContentWarningField";
+export { default as ImageWarningButton } from "./ImageWarningButton";
+export { default as ImageWarningOverlay } from "./ImageWarningOverlay";
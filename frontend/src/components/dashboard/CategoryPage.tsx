@@ -0,0 +1,34 @@
+import DashboardLayout from '@/components/dashboard/DashboardLayout'
+import Posts from '@/components/dashboard/Posts'
+import RouteErrorBoundary from '@/components/error/RouteErrorBoundary'
+import { CATEGORY_INFO, PostCategory } from '@/lib/categories'
+import React from 'react'
+
+interface CategoryPageProps {
+  category: PostCategory
+}
+
+// Shared layout of the /dashboard/<category> pages: a short header over the category's feed
+const CategoryPage = ({ category }: CategoryPageProps) => {
+  const { label, description } = CATEGORY_INFO[category]
+
+  return (
+    <RouteErrorBoundary routeName={label}>
+      <DashboardLayout>
+        <div className="space-y-6">
+          <div className="bg-card-light dark:bg-card-dark border border-border-light dark:border-border-dark rounded-lg p-6">
+            <h1 className="text-2xl font-bold text-foreground-light dark:text-foreground-dark mb-2">
+              {label}
+            </h1>
+            <p className="text-muted-foreground-light dark:text-muted-foreground-dark">
+              {description}
+            </p>
+          </div>
+          <Posts category={category} />
+        </div>
+      </DashboardLayout>
+    </RouteErrorBoundary>
+  )
+}
+
+export default CategoryPage
@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import { Clock, Flame, TrendingUp, type LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  FEED_SORTS,
+  FEED_SORT_INFO,
+  TOP_PERIODS,
+  TOP_PERIOD_LABELS,
+  isTopPeriod,
+  type FeedOrder,
+  type FeedSort,
+} from "@/lib/feedSort";
+import { cn } from "@/lib/utils";
+
+const SORT_ICONS: Record<FeedSort, LucideIcon> = {
+  new: Clock,
+  hot: Flame,
+  top: TrendingUp,
+};
+
+interface FeedSortControlsProps extends FeedOrder {
+  onChange: (order: FeedOrder) => void;
+}
+
+// New / Hot / Top above a feed; Top also picks how far back to look
+const FeedSortControls: React.FC<FeedSortControlsProps> = ({ sort, period, onChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="flex items-center gap-1" role="group" aria-label="Sort posts">
+        {FEED_SORTS.map((value) => {
+          const Icon = SORT_ICONS[value];
+          const active = value === sort;
+          return (
+            <Button
+              key={value}
+              type="button"
+              variant={active ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onChange({ sort: value, period })}
+              aria-pressed={active}
+              title={FEED_SORT_INFO[value].description}
+              className={cn("gap-1.5", active && "font-semibold")}
+            >
+              <Icon className="h-4 w-4" aria-hidden="true" />
+              {FEED_SORT_INFO[value].label}
+            </Button>
+          );
+        })}
+      </div>
+      {sort === "top" && (
+        <Select
+          value={period}
+          onValueChange={(value) => {
+            if (isTopPeriod(value)) onChange({ sort, period: value });
+          }}
+        >
+          <SelectTrigger className="h-9 w-36" aria-label="Top posts from">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOP_PERIODS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {TOP_PERIOD_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
+
+export default FeedSortControls;
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "@/components/ui/use-toast";
+import { OutboxStatus } from "@/components/offline";
 
 interface NavbarProps {
   onSidebarToggle?: () => void;
@@ -110,6 +111,9 @@ const Navbar = ({ onSidebarToggle }: NavbarProps) => {
 
           {/* Right: Notifications, Messages, Account */}
           <nav className="flex items-center space-x-1 flex-shrink-0" role="navigation" aria-label="User actions">
+            {/* Offline changes waiting to sync */}
+            {isAuthenticated && <OutboxStatus />}
+
             {/* Notifications */}
             <button
               className="p-2 rounded-md disabled:opacity-50 disabled:cursor-not-allowed text-white hover:text-white hover:bg-white/10 transition-colors min-h-[44px] min-w-[44px]"
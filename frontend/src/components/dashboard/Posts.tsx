@@ -1,18 +1,49 @@
 "use client";
 
-import React, { useState, useEffect, useCallback } from "react";
+import React, { Suspense, useState, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { PostList } from "@/components/posts";
-import { GlobalPost, getGlobalPosts, likeGlobalPost } from "@/lib/api";
+import { GlobalPost, getGlobalPosts } from "@/lib/api";
+import { apiCache, createCacheKey } from "@/lib/api-cache";
+import { CATEGORY_INFO, PostCategory } from "@/lib/categories";
+import type { ReviewSubject } from "@/lib/reviews";
 import { useAuth } from "@/hooks/useAuth";
-
-const Posts = () => {
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useFeedOrder } from "@/hooks/useFeedOrder";
+import FeedSortControls from "./FeedSortControls";
+
+const PAGE_SIZE = 20;
+
+interface PostsProps {
+  /** Only show posts in this category; the whole feed when omitted */
+  category?: PostCategory;
+  /** Only show posts with this hashtag, without "#" */
+  tag?: string;
+  /** Only show reviews of this kind */
+  subject?: ReviewSubject;
+  /** With subject: only show reviews of this entity slug */
+  entity?: string;
+  /** Shown when there are no posts */
+  emptyMessage?: string;
+}
+
+const PostsFeed = ({ category, tag, subject, entity, emptyMessage }: PostsProps) => {
   const [posts, setPosts] = useState<GlobalPost[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
   const [retryCount, setRetryCount] = useState(0);
   const router = useRouter();
+  // New, Hot or Top, kept in the page URL
+  const { sort, period: topPeriod, setOrder } = useFeedOrder();
+  const period = sort === "top" ? topPeriod : undefined;
   const { isAuthenticated, isLoading: authLoading, redirectToSignin } = useAuth();
+  const { handleError } = useErrorHandler({
+    onAuthError: () => redirectToSignin(true),
+  });
 
   const loadPosts = useCallback(async () => {
     try {
@@ -26,35 +57,29 @@ const Posts = () => {
         return;
       }
 
-      const response = await getGlobalPosts();
+      const response = await getGlobalPosts({
+        category,
+        tag,
+        subject,
+        entity,
+        sort,
+        period,
+        limit: PAGE_SIZE,
+      });
       setPosts(response.posts);
+      setNextCursor(response.nextCursor);
+      setHasMore(response.hasMore);
       setRetryCount(0); // Reset retry count on success
     } catch (err) {
-      console.error("Failed to load posts:", err);
-
-      // Handle different types of errors
-      if (err instanceof Error) {
-        const errorMessage = err.message.toLowerCase();
-
-        // Handle authentication errors
-        if (errorMessage.includes("unauthorized") || errorMessage.includes("token")) {
-          redirectToSignin(true);
-          return;
-        }
-
-        // Handle network errors
-        if (errorMessage.includes("network") || errorMessage.includes("fetch")) {
-          setError("Connection error. Please check your internet connection and try again.");
-        } else {
-          setError(err.message);
-        }
-      } else {
-        setError("An unexpected error occurred while loading posts.");
+      const parsedError = handleError(err, "loadPosts");
+      if (parsedError.shouldRedirectToAuth) {
+        return;
       }
+      setError(parsedError.message);
     } finally {
       setLoading(false);
     }
-  }, [redirectToSignin]);
+  }, [category, tag, subject, entity, sort, period, redirectToSignin, handleError]);
 
   useEffect(() => {
     // Only load posts if user is authenticated
@@ -66,67 +91,68 @@ const Posts = () => {
     }
   }, [authLoading, isAuthenticated, loadPosts, redirectToSignin]);
 
-  const handleRetry = () => {
-    setRetryCount(prev => prev + 1);
-    loadPosts();
-  };
+  const loadMorePosts = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
 
-  const handlePostLike = async (postId: string) => {
     try {
-      // Check authentication before making API call
-      const token = localStorage.getItem("token");
-      if (!token) {
-        redirectToSignin(true);
-        return;
-      }
-
-      const response = await likeGlobalPost(postId);
-
-      // Update the local post state with new like data
-      setPosts(prevPosts =>
-        prevPosts.map(post => {
-          if (post._id === postId) {
-            // Get current user ID to update likedBy array
-            const token = localStorage.getItem("token");
-            let currentUserId = null;
-            try {
-              if (token) {
-                const payload = JSON.parse(atob(token.split('.')[1]));
-                currentUserId = payload.user_id || payload.id;
-              }
-            } catch (e) {
-              console.error("Error parsing token:", e);
-            }
-
-            // Update likedBy array locally since backend doesn't return it
-            let updatedLikedBy = [...post.likedBy];
-            if (currentUserId) {
-              const isCurrentlyLiked = post.likedBy.includes(currentUserId);
-              if (isCurrentlyLiked) {
-                updatedLikedBy = updatedLikedBy.filter(id => id !== currentUserId);
-              } else {
-                updatedLikedBy = [...updatedLikedBy, currentUserId];
-              }
-            }
-
-            return { ...post, likes: response.likes, likedBy: updatedLikedBy };
-          }
-          return post;
-        })
-      );
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+
+      const response = await getGlobalPosts({
+        category,
+        tag,
+        subject,
+        entity,
+        sort,
+        period,
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+      });
+      setPosts(prevPosts => {
+        const seen = new Set(prevPosts.map(post => post._id));
+        return [...prevPosts, ...response.posts.filter(post => !seen.has(post._id))];
+      });
+      setNextCursor(response.nextCursor);
+      setHasMore(response.hasMore);
     } catch (err) {
-      console.error("Failed to like post:", err);
+      console.error("Failed to load more posts:", err);
+      setHasMore(false);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [category, tag, subject, entity, sort, period, nextCursor]);
 
-      // Handle authentication errors
-      if (err instanceof Error &&
-        (err.message.toLowerCase().includes("unauthorized") ||
-          err.message.toLowerCase().includes("token"))) {
-        redirectToSignin(true);
-        return;
-      }
+  // Pick up fresh posts when a stale cached first page finishes revalidating.
+  // Newer posts are merged on top so already-loaded pages stay in place.
+  // Ranked feeds are left alone: their fresh first page is not "newer"
+  useEffect(() => {
+    if (sort !== "new") return;
+    const firstPageKey = createCacheKey("GET /globalpost/getglobalposts", {
+      category,
+      tag,
+      subject,
+      entity,
+      sort,
+      period,
+      limit: PAGE_SIZE,
+    });
+    return apiCache.subscribe((key) => {
+      if (key !== firstPageKey) return;
+      getGlobalPosts({ category, tag, subject, entity, sort, period, limit: PAGE_SIZE })
+        .then((response) => {
+          setPosts(prevPosts => {
+            const fresh = new Set(response.posts.map(post => post._id));
+            return [...response.posts, ...prevPosts.filter(post => !fresh.has(post._id))];
+          });
+        })
+        .catch((err) => console.error("Failed to refresh posts:", err));
+    });
+  }, [category, tag, subject, entity, sort, period]);
 
-      throw err; // Re-throw to let PostCard handle the error
-    }
+  const handleRetry = () => {
+    setRetryCount(prev => prev + 1);
+    loadPosts();
   };
 
   const handlePostComment = (postId: string) => {
@@ -162,7 +188,6 @@ const Posts = () => {
           posts={[]}
           loading={true}
           error={null}
-          onPostLike={handlePostLike}
           onPostComment={handlePostComment}
           onPostShare={handlePostShare}
           onPostClick={handlePostClick}
@@ -177,15 +202,27 @@ const Posts = () => {
   }
 
   return (
-    <section>
+    <section className="space-y-4">
+      <FeedSortControls sort={sort} period={topPeriod} onChange={setOrder} />
       <PostList
         posts={posts}
         loading={loading}
         error={error}
-        onPostLike={handlePostLike}
         onPostComment={handlePostComment}
         onPostShare={handlePostShare}
         onPostClick={handlePostClick}
+        onLoadMore={loadMorePosts}
+        hasMore={hasMore}
+        loadingMore={loadingMore}
+        infiniteScroll
+        emptyMessage={
+          emptyMessage ??
+          (tag
+            ? `No posts tagged #${tag} yet.`
+            : category
+              ? `No posts in ${CATEGORY_INFO[category].label} yet. Be the first to share something!`
+              : undefined)
+        }
       />
       {error && (
         <div className="mt-4 text-center">
@@ -201,4 +238,12 @@ const Posts = () => {
   );
 };
 
+// The sort order comes from the URL, which needs a Suspense boundary on
+// statically rendered pages
+const Posts = (props: PostsProps) => (
+  <Suspense fallback={<PostList posts={[]} loading={true} error={null} />}>
+    <PostsFeed {...props} />
+  </Suspense>
+);
+
 export default Posts;
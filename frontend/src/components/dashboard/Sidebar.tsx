@@ -11,12 +11,17 @@ import {
   AlertTriangle,
   Star,
   FileText,
+  FilePen,
+  Bookmark,
   TrendingUp,
   Plus,
   UsersIcon,
   Search,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { tagHref } from "@/lib/hashtags";
+import { useTrendingTags } from "@/hooks/useTrendingTags";
+import { Skeleton } from "@/components/ui/skeleton";
 
 interface SidebarProps {
   isCollapsed?: boolean;
@@ -44,12 +49,14 @@ const navigationItems: NavigationItem[] = [
   { id: "problems", label: "Problems & Rants", icon: AlertTriangle, href: "/dashboard/problems" },
   { id: "reviews", label: "Reviews", icon: Star, href: "/dashboard/reviews" },
   { id: "my-posts", label: "My Posts", icon: FileText, href: "/dashboard/my-posts" },
+  { id: "drafts", label: "Drafts", icon: FilePen, href: "/dashboard/drafts" },
+  { id: "saved", label: "Saved", icon: Bookmark, href: "/dashboard/saved" },
 ];
 
 const Sidebar = ({ isCollapsed = false, isMobile = false, onClose }: SidebarProps) => {
   const pathname = usePathname();
 
-  const trendingTags = ["#academics", "#placements", "#campus", "#exams", "#internships"];
+  const { tags: trendingTags, loading: trendingLoading } = useTrendingTags();
 
   return (
     <aside
@@ -111,25 +118,48 @@ const Sidebar = ({ isCollapsed = false, isMobile = false, onClose }: SidebarProp
             )} aria-hidden="true" />
             <span className="font-bold">Trending</span>
           </h3>
-          <ul className="mt-3 space-y-1" role="list">
-            {trendingTags.map((tag, index) => (
-              <li key={index} role="listitem">
-                <button
-                  type="button"
-                  className={cn(
-                    "text-left cursor-pointer rounded px-2 py-1 flex items-center",
-                    "text-muted-foreground hover:text-primary focus:text-primary",
-                    "transition-colors duration-200",
-                    "focus:outline-none focus:ring-2 focus:ring-primary/20 focus:ring-offset-2",
-                    "min-h-[44px] min-w-[44px]"
-                  )}
-                  aria-label={`View posts about ${tag.slice(1)}`}
-                >
-                  {tag}
-                </button>
-              </li>
-            ))}
-          </ul>
+          {trendingLoading ? (
+            <div className="mt-3 space-y-3 px-2" aria-hidden="true">
+              {Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-4 w-28" />
+              ))}
+            </div>
+          ) : trendingTags.length === 0 ? (
+            <p className="mt-3 px-2 text-sm text-muted-foreground">
+              No trending topics yet. Add #tags to your posts to start one.
+            </p>
+          ) : (
+            <ul className="mt-3 space-y-1" role="list">
+              {trendingTags.map(({ tag, count }) => {
+                const href = tagHref(tag);
+                const isActive = pathname === href;
+
+                return (
+                  <li key={tag} role="listitem">
+                    <Link
+                      href={href}
+                      onClick={onClose}
+                      className={cn(
+                        "rounded px-2 py-1 flex items-center justify-between",
+                        "transition-colors duration-200",
+                        isActive ? "text-primary font-semibold" : "text-muted-foreground",
+                        "hover:text-primary focus:text-primary",
+                        "focus:outline-none focus:ring-2 focus:ring-primary/20 focus:ring-offset-2",
+                        "min-h-[44px] min-w-[44px]"
+                      )}
+                      aria-label={`View posts about ${tag}`}
+                      aria-current={isActive ? "page" : undefined}
+                    >
+                      <span>#{tag}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {count} {count === 1 ? "post" : "posts"}
+                      </span>
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
         </section>
       </nav>
     </aside>
@@ -7,7 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { analytics } from '@/lib/analytics';
 import { getErrorReportingService } from '@/lib/errorReporting';
-import { apiCache } from '@/lib/api-cache';
+import { apiCache, type CacheStats } from '@/lib/api-cache';
 import { Activity, AlertTriangle, BarChart3, Database, Zap, RefreshCw } from 'lucide-react';
 
 interface MonitoringDashboardProps {
@@ -18,7 +18,7 @@ interface MonitoringDashboardProps {
 export function MonitoringDashboard({ isVisible = false, onClose }: MonitoringDashboardProps) {
   const [analyticsStats, setAnalyticsStats] = useState<any>(null);
   const [errorStats, setErrorStats] = useState<any>(null);
-  const [cacheStats, setCacheStats] = useState<any>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
   const [performanceMetrics, setPerformanceMetrics] = useState<any>(null);
   const [refreshKey, setRefreshKey] = useState(0);
 
@@ -261,7 +261,7 @@ export function MonitoringDashboard({ isVisible = false, onClose }: MonitoringDa
                   <CardContent>
                     <div className="text-2xl font-bold">{cacheStats?.totalEntries || 0}</div>
                     <p className="text-xs text-muted-foreground">
-                      Valid: {cacheStats?.validEntries || 0}
+                      Valid: {cacheStats?.validEntries || 0} · Stale: {cacheStats?.staleEntries || 0}
                     </p>
                   </CardContent>
                 </Card>
@@ -275,6 +275,9 @@ export function MonitoringDashboard({ isVisible = false, onClose }: MonitoringDa
                     <div className="text-2xl font-bold">
                       {cacheStats?.hitRate ? `${Math.round(cacheStats.hitRate * 100)}%` : '0%'}
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      Hits: {cacheStats?.hits || 0} · Stale hits: {cacheStats?.staleHits || 0} · Misses: {cacheStats?.misses || 0}
+                    </p>
                     <p className="text-xs text-muted-foreground">
                       Expired: {cacheStats?.expiredEntries || 0}
                     </p>
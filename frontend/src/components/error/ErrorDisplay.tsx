@@ -4,9 +4,10 @@ import React from "react";
 import { AlertCircle, RefreshCw, Wifi, WifiOff } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
 
 export interface ErrorDisplayProps {
-  error: string | Error | null;
+  error: string | Error | ParsedError | null;
   onRetry?: () => void;
   retryLabel?: string;
   showRetry?: boolean;
@@ -22,14 +23,11 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
 }) => {
   if (!error) return null;
 
-  const errorMessage = error instanceof Error ? error.message : error;
-  const isNetworkError = errorMessage.toLowerCase().includes("network") ||
-    errorMessage.toLowerCase().includes("fetch") ||
-    errorMessage.toLowerCase().includes("connection");
-
-  const isAuthError = errorMessage.toLowerCase().includes("unauthorized") ||
-    errorMessage.toLowerCase().includes("token") ||
-    errorMessage.toLowerCase().includes("authentication");
+  const parsed =
+    typeof error === "string" || error instanceof Error ? parseError(error) : error;
+  const errorMessage = parsed.message;
+  const isNetworkError = parsed.type === "network";
+  const isAuthError = parsed.type === "auth";
 
   return (
     <div className={`space-y-4 ${className}`}>
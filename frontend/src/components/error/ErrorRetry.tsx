@@ -5,9 +5,10 @@ import { AlertTriangle, RefreshCw, Wifi, WifiOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
 
 interface ErrorRetryProps {
-  error: string;
+  error: string | ParsedError;
   onRetry: () => void;
   isRetrying?: boolean;
   title?: string;
@@ -25,9 +26,8 @@ const ErrorRetry: React.FC<ErrorRetryProps> = ({
   showNetworkStatus = true,
   className,
 }) => {
-  const isNetworkError = error.toLowerCase().includes("network") ||
-    error.toLowerCase().includes("fetch") ||
-    error.toLowerCase().includes("connection");
+  const parsed = typeof error === "string" ? parseError(error) : error;
+  const isNetworkError = parsed.type === "network";
 
   const getErrorIcon = () => {
     if (isNetworkError) {
@@ -50,6 +50,10 @@ const ErrorRetry: React.FC<ErrorRetryProps> = ({
       return "Unable to connect to the server. Please check your internet connection and try again.";
     }
 
+    if (parsed.type === "rate_limit" && parsed.retryAfter) {
+      return `Too many requests. Please wait ${parsed.retryAfter} seconds and try again.`;
+    }
+
     return "An unexpected error occurred. Please try again or contact support if the problem persists.";
   };
 
@@ -71,7 +75,7 @@ const ErrorRetry: React.FC<ErrorRetryProps> = ({
 
           {/* Show the actual error message in smaller text */}
           <p className="text-sm text-muted-foreground/70 max-w-md mx-auto mb-6 font-mono bg-muted/50 p-2 rounded">
-            {error}
+            {parsed.message}
           </p>
 
           <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
@@ -0,0 +1,74 @@
+"use client";
+
+import React from "react";
+import { AlertCircle, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ImageJob } from "@/hooks/useImagePipeline";
+import { IMAGE_STAGE_LABELS, formatBytes } from "@/lib/imagePipeline";
+import { cn } from "@/lib/utils";
+
+interface ImageJobListProps {
+  jobs: ImageJob[];
+  onDismiss: (id: number) => void;
+  className?: string;
+}
+
+// Progress of images still being prepared for upload, and the ones that failed
+const ImageJobList: React.FC<ImageJobListProps> = ({ jobs, onDismiss, className }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <ul className={cn("space-y-2", className)} aria-label="Preparing images">
+      {jobs.map((job) => (
+        <li key={job.id} className="flex items-center gap-3 rounded-md border px-3 py-2 text-sm">
+          {job.error ? (
+            <AlertCircle className="h-4 w-4 shrink-0 text-destructive" aria-hidden="true" />
+          ) : (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" aria-hidden="true" />
+          )}
+          <div className="min-w-0 flex-1 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate">{job.name}</span>
+              <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+                {formatBytes(job.originalSize)}
+              </span>
+            </div>
+            {job.error ? (
+              <p className="text-xs text-destructive" role="alert">
+                {job.error}
+              </p>
+            ) : (
+              <div
+                className="h-1.5 overflow-hidden rounded-full bg-muted"
+                role="progressbar"
+                aria-label={`${IMAGE_STAGE_LABELS[job.stage]} ${job.name}`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(job.progress * 100)}
+              >
+                <div
+                  className="h-full rounded-full bg-primary transition-[width] duration-300"
+                  style={{ width: `${Math.max(job.progress * 100, 5)}%` }}
+                />
+              </div>
+            )}
+          </div>
+          {job.error && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 shrink-0 p-0"
+              onClick={() => onDismiss(job.id)}
+              aria-label={`Dismiss ${job.name}`}
+            >
+              <X className="h-3 w-3" aria-hidden="true" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ImageJobList;
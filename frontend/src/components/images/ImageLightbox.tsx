@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight, Download, Loader2, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { downloadName } from "@/lib/imageUrls";
+
+export interface LightboxImage {
+  /** Full resolution */
+  src: string;
+  /** Already shown inline; displayed until the full image has loaded */
+  thumbnail?: string;
+  alt: string;
+}
+
+interface ImageLightboxProps {
+  images: LightboxImage[];
+  startIndex: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Names the gallery for screen readers, e.g. "Images from WildTiger92's post" */
+  title: string;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const ZOOM_STEP = 1.5;
+// Horizontal movement that counts as a swipe to the next image
+const SWIPE_DISTANCE = 60;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Gesture {
+  start: Point;
+  startOffset: Point;
+  /** Set while two fingers are down */
+  pinch: { distance: number; scale: number } | null;
+}
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Mount it when an image is opened so it starts at that image
+const ImageLightbox: React.FC<ImageLightboxProps> = ({
+  images,
+  startIndex,
+  open,
+  onOpenChange,
+  title,
+}) => {
+  const [index, setIndex] = useState(startIndex);
+  const [scale, setScale] = useState(MIN_SCALE);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  // Full resolution images that finished loading
+  const [loaded, setLoaded] = useState<Set<string>>(new Set());
+  const [downloading, setDownloading] = useState(false);
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<Gesture | null>(null);
+
+  const image = images[index];
+  const count = images.length;
+  const fullLoaded = !image?.thumbnail || image.thumbnail === image.src || loaded.has(image.src);
+
+  const zoomTo = useCallback((next: number) => {
+    const clamped = clampScale(next);
+    setScale(clamped);
+    if (clamped === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  }, []);
+
+  const go = useCallback(
+    (step: number) => {
+      if (count < 2) return;
+      setIndex((current) => (current + step + count) % count);
+      setScale(MIN_SCALE);
+      setOffset({ x: 0, y: 0 });
+    },
+    [count]
+  );
+
+  // Load the full resolution in the background; the thumbnail shows meanwhile
+  const pendingSrc = image && !fullLoaded ? image.src : null;
+  useEffect(() => {
+    if (!pendingSrc) return;
+    const full = new Image();
+    full.onload = () => setLoaded((prev) => new Set(prev).add(pendingSrc));
+    full.src = pendingSrc;
+    return () => {
+      full.onload = null;
+    };
+  }, [pendingSrc]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case "ArrowLeft":
+        go(-1);
+        break;
+      case "ArrowRight":
+        go(1);
+        break;
+      case "+":
+      case "=":
+        zoomTo(scale * ZOOM_STEP);
+        break;
+      case "-":
+        zoomTo(scale / ZOOM_STEP);
+        break;
+      case "0":
+        zoomTo(MIN_SCALE);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const [first, second] = [...pointers.current.values()];
+    gesture.current = {
+      start: first,
+      startOffset: offset,
+      pinch: second ? { distance: distance(first, second), scale } : null,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!pointers.current.has(event.pointerId) || !gesture.current) return;
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    const [first, second] = [...pointers.current.values()];
+    const { start, startOffset, pinch } = gesture.current;
+    if (pinch && second) {
+      zoomTo((pinch.scale * distance(first, second)) / Math.max(pinch.distance, 1));
+    } else if (scale > MIN_SCALE) {
+      // Drag the zoomed image around
+      setOffset({ x: startOffset.x + first.x - start.x, y: startOffset.y + first.y - start.y });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const current = gesture.current;
+    pointers.current.delete(event.pointerId);
+
+    if (pointers.current.size > 0) {
+      // One finger of a pinch lifted; the other carries on from here
+      const [remaining] = [...pointers.current.values()];
+      gesture.current = { start: remaining, startOffset: offset, pinch: null };
+      return;
+    }
+    gesture.current = null;
+
+    // A horizontal swipe at normal size changes the image
+    if (current && !current.pinch && scale === MIN_SCALE) {
+      const dx = event.clientX - current.start.x;
+      const dy = event.clientY - current.start.y;
+      if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) go(dx < 0 ? 1 : -1);
+    }
+  };
+
+  const handleWheel = (event: React.WheelEvent) => {
+    zoomTo(scale * Math.exp(-event.deltaY * 0.002));
+  };
+
+  const handleDownload = async () => {
+    if (!image) return;
+    setDownloading(true);
+    try {
+      // Fetched first: browsers ignore the download attribute on links to other sites
+      const response = await fetch(image.src);
+      if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = downloadName(image.src, index, blob.type);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Image download failed:", err);
+      toast({
+        title: "Download Failed",
+        description: "The image could not be saved. Try opening it in a new tab instead.",
+        variant: "error",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (!image) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="flex h-[100dvh] w-screen max-w-none flex-col gap-0 border-0 bg-black/95 p-0 text-white sm:rounded-none"
+        onKeyDown={handleKeyDown}
+      >
+        <DialogTitle className="sr-only">{title}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Use the arrow keys or swipe to move between images. Pinch, scroll or press plus and minus to zoom.
+        </DialogDescription>
+
+        <div className="flex items-center gap-1 px-4 py-3 pr-14">
+          <span className="mr-auto text-sm tabular-nums" aria-live="polite">
+            {count > 1 ? `Image ${index + 1} of ${count}` : "Image"}
+          </span>
+          {!fullLoaded && <Loader2 className="h-4 w-4 animate-spin opacity-70" aria-label="Loading full resolution" />}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={() => zoomTo(scale / ZOOM_STEP)}
+            disabled={scale <= MIN_SCALE}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <span className="w-12 text-center text-xs tabular-nums">{Math.round(scale * 100)}%</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={() => zoomTo(scale * ZOOM_STEP)}
+            disabled={scale >= MAX_SCALE}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={handleDownload}
+            disabled={downloading}
+            aria-label="Download image"
+          >
+            {downloading ? (
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+            ) : (
+              <Download className="h-4 w-4" aria-hidden="true" />
+            )}
+          </Button>
+        </div>
+
+        <div
+          className="relative flex flex-1 touch-none select-none items-center justify-center overflow-hidden"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={handleWheel}
+          onDoubleClick={() => zoomTo(scale > MIN_SCALE ? MIN_SCALE : 2)}
+        >
+          <img
+            src={fullLoaded ? image.src : image.thumbnail}
+            alt={image.alt}
+            draggable={false}
+            className="max-h-full max-w-full object-contain"
+            style={{
+              transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+              cursor: scale > MIN_SCALE ? "grab" : "zoom-in",
+            }}
+          />
+
+          {count > 1 && (
+            <>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                onClick={() => go(-1)}
+                onPointerDown={(e) => e.stopPropagation()}
+                aria-label="Previous image"
+              >
+                <ChevronLeft className="h-6 w-6" aria-hidden="true" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+                onClick={() => go(1)}
+                onPointerDown={(e) => e.stopPropagation()}
+                aria-label="Next image"
+              >
+                <ChevronRight className="h-6 w-6" aria-hidden="true" />
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImageLightbox;
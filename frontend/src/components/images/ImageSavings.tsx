@@ -0,0 +1,31 @@
+"use client";
+
+import React from "react";
+import { formatBytes, imageSavings } from "@/lib/imagePipeline";
+import { cn } from "@/lib/utils";
+
+interface ImageSavingsProps {
+  file: File;
+  className?: string;
+}
+
+// How much smaller the pipeline made an image; nothing for files it did not produce
+const ImageSavings: React.FC<ImageSavingsProps> = ({ file, className }) => {
+  const savings = imageSavings(file);
+  if (!savings) return null;
+
+  const saved = savings.originalSize - savings.size;
+  const percent = savings.originalSize > 0 ? Math.round((saved / savings.originalSize) * 100) : 0;
+
+  return (
+    <span
+      className={cn("rounded bg-background/80 px-1.5 py-0.5 text-[10px] leading-none tabular-nums", className)}
+      title={`${formatBytes(savings.originalSize)} before compression, ${formatBytes(savings.size)} after`}
+    >
+      {formatBytes(savings.size)}
+      {percent > 0 && <span className="text-muted-foreground"> (−{percent}%)</span>}
+    </span>
+  );
+};
+
+export default ImageSavings;
@@ -0,0 +1,5 @@
+export { default as ImageJobList } from "./ImageJobList";
+export { default as ImageSavings } from "./ImageSavings";
+export { default as ImageLightbox } from "./ImageLightbox";
+
+export type { LightboxImage } from "./ImageLightbox";
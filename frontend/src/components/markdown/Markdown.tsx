@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { BlockNode, InlineNode, parseMarkdown } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+export interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Colors are relative to the text so code and quotes read on any background,
+// including the primary-colored bubbles of your own chat messages
+const CODE_BACKGROUND = "bg-black/10 dark:bg-white/10";
+
+function renderInline(nodes: InlineNode[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={index}>{node.text}</React.Fragment>;
+      case "code":
+        return (
+          <code key={index} className={cn("rounded px-1 py-0.5 font-mono text-[0.9em]", CODE_BACKGROUND)}>
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow ugc"
+            className="underline underline-offset-2 break-all hover:opacity-80"
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+          >
+            {node.text}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: BlockNode, index: number): React.ReactNode {
+  switch (block.type) {
+    case "paragraph":
+      return (
+        <p key={index} className="whitespace-pre-wrap">
+          {renderInline(block.children)}
+        </p>
+      );
+    case "code":
+      return (
+        <pre
+          key={index}
+          className={cn("overflow-x-auto rounded-md p-3 font-mono text-sm", CODE_BACKGROUND)}
+          data-language={block.language ?? undefined}
+        >
+          <code>{block.text}</code>
+        </pre>
+      );
+    case "blockquote":
+      return (
+        <blockquote key={index} className="space-y-2 border-l-4 border-current pl-3 opacity-70">
+          {block.children.map(renderBlock)}
+        </blockquote>
+      );
+    case "list": {
+      const items = block.items.map((item, itemIndex) => (
+        <li key={itemIndex} className="whitespace-pre-wrap">
+          {renderInline(item)}
+        </li>
+      ));
+      return block.ordered ? (
+        <ol key={index} start={block.start} className="list-decimal space-y-1 pl-6">
+          {items}
+        </ol>
+      ) : (
+        <ul key={index} className="list-disc space-y-1 pl-6">
+          {items}
+        </ul>
+      );
+    }
+  }
+}
+
+// Renders post and message text with the Markdown subset from lib/markdown
+const Markdown: React.FC<MarkdownProps> = ({ content, className }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return <div className={cn("space-y-2 break-words", className)}>{blocks.map(renderBlock)}</div>;
+};
+
+export default Markdown;
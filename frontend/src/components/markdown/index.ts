@@ -0,0 +1,3 @@
+export { default as Markdown } from "./Markdown";
+
+export type { MarkdownProps } from "./Markdown";
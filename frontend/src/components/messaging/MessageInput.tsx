@@ -7,9 +7,15 @@ import {
   Image as ImageIcon,
   X,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Eye,
+  EyeOff
 } from 'lucide-react';
-import { SendMessageData } from '@/lib/socketService';
+import { MAX_MESSAGE_LENGTH, SendMessageData } from '@/lib/socketService';
+import { Markdown } from '@/components/markdown';
+import { ImageJobList } from '@/components/images';
+import { useImagePipeline } from '@/hooks/useImagePipeline';
+import { readAsDataUrl, validateSourceImage } from '@/lib/imagePipeline';
 
 export interface MessageInputProps {
   onSendMessage: (messageData: SendMessageData) => Promise<void>;
@@ -27,7 +33,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
   onSendMessage,
   disabled = false,
   placeholder = "Type your message...",
-  maxLength = 1000,
+  maxLength = MAX_MESSAGE_LENGTH,
   maxImages = 4,
   communityId,
   userId,
@@ -36,59 +42,50 @@ const MessageInput: React.FC<MessageInputProps> = ({
 }) => {
   const [message, setMessage] = useState('');
   const [images, setImages] = useState<string[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Images are resized and stripped of metadata before they are attached
+  const {
+    jobs: imageJobs,
+    pending: pendingImages,
+    process: processImages,
+    dismiss: dismissImageJob,
+  } = useImagePipeline();
+  const isUploading = pendingImages > 0;
 
   const isMessageValid = message.trim().length > 0 || images.length > 0;
   const isDisabled = disabled || isSending || isUploading;
 
   const handleImageUpload = useCallback(async (files: FileList) => {
-    if (images.length >= maxImages) {
+    const remainingSlots = maxImages - images.length - pendingImages;
+    if (remainingSlots <= 0) {
       setError(`Maximum ${maxImages} images allowed`);
       return;
     }
 
-    setIsUploading(true);
     setError(null);
 
     try {
-      const newImages: string[] = [];
-      const remainingSlots = maxImages - images.length;
       const filesToProcess = Array.from(files).slice(0, remainingSlots);
 
       for (const file of filesToProcess) {
-        // Validate file type
-        if (!file.type.startsWith('image/')) {
-          throw new Error(`${file.name} is not a valid image file`);
-        }
-
-        // Validate file size (5MB limit)
-        if (file.size > 5 * 1024 * 1024) {
-          throw new Error(`${file.name} is too large. Maximum size is 5MB`);
-        }
-
-        // Convert to base64
-        const base64 = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = () => resolve(reader.result as string);
-          reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
-          reader.readAsDataURL(file);
-        });
-
-        newImages.push(base64);
+        const invalid = validateSourceImage(file);
+        if (invalid) throw new Error(invalid);
       }
 
+      const processed = await processImages(filesToProcess);
+      // Messages carry their images as data: URLs
+      const newImages = await Promise.all(processed.map(({ file }) => readAsDataUrl(file)));
+
       setImages(prev => [...prev, ...newImages]);
     } catch (err) {
       console.error('Image upload error:', err);
       setError(err instanceof Error ? err.message : 'Failed to upload images');
-    } finally {
-      setIsUploading(false);
     }
-  }, [images.length, maxImages]);
+  }, [images.length, maxImages, pendingImages, processImages]);
 
   const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -124,6 +121,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
       // Clear form on successful send
       setMessage('');
       setImages([]);
+      setShowPreview(false);
 
       // Focus back to textarea
       textareaRef.current?.focus();
@@ -190,6 +188,19 @@ const MessageInput: React.FC<MessageInputProps> = ({
         </div>
       )}
 
+      <ImageJobList jobs={imageJobs} onDismiss={dismissImageJob} />
+
+      {/* Markdown Preview */}
+      {showPreview && (
+        <div className="max-h-48 overflow-y-auto rounded-lg border px-3 py-2" aria-label="Message preview">
+          {message.trim() ? (
+            <Markdown content={message} className="text-sm" />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview yet</p>
+          )}
+        </div>
+      )}
+
       {/* Message Input */}
       <div className="flex space-x-2">
         <div className="flex-1 relative">
@@ -213,6 +224,22 @@ const MessageInput: React.FC<MessageInputProps> = ({
           )}
         </div>
 
+        {/* Preview Toggle */}
+        <Button
+          variant={showPreview ? 'secondary' : 'outline'}
+          size="sm"
+          onClick={() => setShowPreview(prev => !prev)}
+          aria-pressed={showPreview}
+          aria-label={showPreview ? 'Hide preview' : 'Show preview'}
+          className="h-11 px-3"
+        >
+          {showPreview ? (
+            <EyeOff className="h-4 w-4" />
+          ) : (
+            <Eye className="h-4 w-4" />
+          )}
+        </Button>
+
         {/* Image Upload Button */}
         <Button
           variant="outline"
@@ -254,7 +281,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
 
       {/* Helper Text */}
       <div className="text-xs text-muted-foreground">
-        Press Enter to send, Shift+Enter for new line
+        Press Enter to send, Shift+Enter for new line • **bold**, *italics*, `code` and lists supported
         {images.length > 0 && ` • ${images.length}/${maxImages} images`}
       </div>
     </div>
@@ -1,8 +1,10 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { CommunityMessage } from '@/lib/socketService';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { formatDistanceToNow } from 'date-fns';
 import { User, Image as ImageIcon } from 'lucide-react';
+import { Markdown } from '@/components/markdown';
+import { ImageLightbox, type LightboxImage } from '@/components/images';
 
 export interface MessageItemProps {
   message: CommunityMessage;
@@ -15,6 +17,18 @@ const MessageItem: React.FC<MessageItemProps> = ({
   isOwnMessage = false,
   className = ''
 }) => {
+  // Index of the image open full screen
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const lightboxImages = useMemo<LightboxImage[]>(
+    () =>
+      (message.images ?? []).map((image, index) => ({
+        src: image,
+        alt: `Message attachment ${index + 1}`,
+      })),
+    [message.images]
+  );
+
   const formatTimestamp = (timestamp: string) => {
     try {
       const date = new Date(timestamp);
@@ -64,7 +78,7 @@ const MessageItem: React.FC<MessageItemProps> = ({
               : 'bg-muted text-foreground'
             }
           `}>
-            <p className="text-sm whitespace-pre-wrap">{message.message}</p>
+            <Markdown content={message.message} className="text-sm text-left" />
           </div>
         )}
 
@@ -73,12 +87,16 @@ const MessageItem: React.FC<MessageItemProps> = ({
           <div className={`mt-2 ${isOwnMessage ? 'flex justify-end' : ''}`}>
             <div className="grid gap-2 max-w-xs sm:max-w-md">
               {message.images.length === 1 ? (
-                <div className="relative">
+                <button
+                  type="button"
+                  className="relative block cursor-zoom-in rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                  onClick={() => setLightboxIndex(0)}
+                  aria-label="View attachment full screen"
+                >
                   <img
                     src={message.images[0]}
                     alt="Message attachment"
-                    className="rounded-lg max-h-48 w-auto object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                    onClick={() => window.open(message.images[0], '_blank')}
+                    className="rounded-lg max-h-48 w-auto object-cover hover:opacity-90 transition-opacity"
                     onError={(e) => {
                       const target = e.target as HTMLImageElement;
                       target.style.display = 'none';
@@ -87,22 +105,24 @@ const MessageItem: React.FC<MessageItemProps> = ({
                       if (fallback) fallback.style.display = 'flex';
                     }}
                   />
-                  <div
-                    className="hidden items-center justify-center bg-muted rounded-lg h-24 w-24 cursor-pointer"
-                    onClick={() => window.open(message.images[0], '_blank')}
-                  >
+                  <span className="hidden items-center justify-center bg-muted rounded-lg h-24 w-24">
                     <ImageIcon className="h-8 w-8 text-muted-foreground" />
-                  </div>
-                </div>
+                  </span>
+                </button>
               ) : (
                 <div className={`grid gap-1 ${message.images.length === 2 ? 'grid-cols-2' : 'grid-cols-2'}`}>
                   {message.images.slice(0, 4).map((image, index) => (
-                    <div key={index} className="relative">
+                    <button
+                      type="button"
+                      key={index}
+                      className="relative cursor-zoom-in rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                      onClick={() => setLightboxIndex(index)}
+                      aria-label={`View attachment ${index + 1} of ${message.images.length} full screen`}
+                    >
                       <img
                         src={image}
                         alt={`Message attachment ${index + 1}`}
-                        className="rounded-md h-20 w-20 object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                        onClick={() => window.open(image, '_blank')}
+                        className="rounded-md h-20 w-20 object-cover hover:opacity-90 transition-opacity"
                         onError={(e) => {
                           const target = e.target as HTMLImageElement;
                           target.style.display = 'none';
@@ -111,20 +131,17 @@ const MessageItem: React.FC<MessageItemProps> = ({
                           if (fallback) fallback.style.display = 'flex';
                         }}
                       />
-                      <div
-                        className="hidden items-center justify-center bg-muted rounded-md h-20 w-20 cursor-pointer"
-                        onClick={() => window.open(image, '_blank')}
-                      >
+                      <span className="hidden items-center justify-center bg-muted rounded-md h-20 w-20">
                         <ImageIcon className="h-4 w-4 text-muted-foreground" />
-                      </div>
+                      </span>
                       {index === 3 && message.images.length > 4 && (
-                        <div className="absolute inset-0 bg-black bg-opacity-50 rounded-md flex items-center justify-center">
+                        <span className="absolute inset-0 bg-black bg-opacity-50 rounded-md flex items-center justify-center">
                           <span className="text-white text-xs font-medium">
                             +{message.images.length - 4}
                           </span>
-                        </div>
+                        </span>
                       )}
-                    </div>
+                    </button>
                   ))}
                 </div>
               )}
@@ -132,6 +149,16 @@ const MessageItem: React.FC<MessageItemProps> = ({
           </div>
         )}
       </div>
+
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={lightboxImages}
+          startIndex={lightboxIndex}
+          open
+          onOpenChange={(open) => !open && setLightboxIndex(null)}
+          title={`Images from ${message.randomName || 'Anonymous'}'s message`}
+        />
+      )}
     </div>
   );
 };
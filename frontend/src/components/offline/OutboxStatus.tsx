@@ -0,0 +1,105 @@
+"use client";
+
+import React from "react";
+import { CloudOff, RotateCcw, Trash2, AlertCircle, Clock, Loader2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { useOutbox } from "@/hooks/useOutbox";
+import { OutboxItem } from "@/lib/outbox";
+
+const describeItem = (item: OutboxItem): string => {
+  switch (item.kind) {
+    case "updateProfile":
+      return "Profile update";
+    case "likePost":
+      return item.liked ? "Like a post" : "Remove a like";
+    case "createPost": {
+      const preview = item.content.length > 40 ? `${item.content.slice(0, 40)}…` : item.content;
+      return `New post: "${preview}"`;
+    }
+  }
+};
+
+const OutboxStatus: React.FC = () => {
+  const { items, pendingCount, failedCount, isSyncing, sync, retry, discard } = useOutbox();
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-2 rounded-md text-white hover:text-white hover:bg-white/10 transition-colors min-h-[44px] min-w-[44px]"
+          aria-label={`${pendingCount} changes waiting to sync, ${failedCount} failed`}
+        >
+          <CloudOff className="h-4 w-4 sm:h-5 sm:w-5" aria-hidden="true" />
+          <span
+            className={`absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full text-[10px] font-semibold flex items-center justify-center ${
+              failedCount > 0 ? "bg-yellow-400 text-black" : "bg-white text-red-600"
+            }`}
+            aria-hidden="true"
+          >
+            {items.length}
+          </span>
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div>
+            <p className="text-sm font-medium text-foreground">Waiting to sync</p>
+            <p className="text-xs text-muted-foreground">
+              {pendingCount} pending · {failedCount} failed
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={sync} disabled={isSyncing || pendingCount === 0}>
+            {isSyncing ? <Loader2 className="h-3 w-3 animate-spin" /> : "Sync now"}
+          </Button>
+        </div>
+
+        <ul className="max-h-72 overflow-y-auto divide-y" aria-label="Queued changes">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-start gap-3 px-4 py-3">
+              {item.status === "failed" ? (
+                <AlertCircle className="h-4 w-4 mt-0.5 text-destructive flex-shrink-0" aria-hidden="true" />
+              ) : (
+                <Clock className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" aria-hidden="true" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-foreground break-words">{describeItem(item)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {item.status === "failed" ? item.error || "Failed to sync" : "Will sync when you're online"}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {item.status === "failed" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => retry(item.id)}
+                    disabled={isSyncing}
+                    aria-label="Retry"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => discard(item.id)}
+                  aria-label="Discard"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default OutboxStatus;
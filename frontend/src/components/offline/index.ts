@@ -0,0 +1 @@
+export { default as OutboxStatus } from "./OutboxStatus";
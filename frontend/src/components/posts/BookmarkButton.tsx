@@ -0,0 +1,54 @@
+"use client";
+
+import React from "react";
+import { Bookmark } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useBookmark } from "@/hooks/useBookmark";
+import { cn } from "@/lib/utils";
+
+interface BookmarkButtonProps {
+  postId: string;
+  variant?: ButtonProps["variant"];
+  /** Show "Save"/"Saved" next to the icon */
+  showLabel?: boolean;
+  className?: string;
+  iconClassName?: string;
+}
+
+// Saves the post to the user's Saved list, or takes it off again
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({
+  postId,
+  variant = "ghost",
+  showLabel = false,
+  className,
+  iconClassName = "h-4 w-4",
+}) => {
+  const { saved, pending, canSave, toggle } = useBookmark(postId);
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Cards open the post on click
+    e.stopPropagation();
+    toggle();
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size="sm"
+      onClick={handleClick}
+      disabled={!canSave || pending}
+      className={cn("flex items-center space-x-1", className)}
+      aria-label={saved ? "Remove from saved" : "Save post"}
+      aria-pressed={saved}
+    >
+      <Bookmark
+        className={cn(iconClassName, saved && "fill-current text-primary")}
+        aria-hidden="true"
+      />
+      {showLabel && <span>{saved ? "Saved" : "Save"}</span>}
+    </Button>
+  );
+};
+
+export default BookmarkButton;
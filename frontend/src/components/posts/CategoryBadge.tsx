@@ -0,0 +1,28 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { CATEGORY_INFO, PostCategory, categoryHref } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+
+interface CategoryBadgeProps {
+  category: PostCategory;
+  className?: string;
+}
+
+// Links to the category page without triggering the click handler of the card around it
+const CategoryBadge: React.FC<CategoryBadgeProps> = ({ category, className }) => (
+  <Link
+    href={categoryHref(category)}
+    onClick={(e) => e.stopPropagation()}
+    onKeyDown={(e) => e.stopPropagation()}
+    className={cn(
+      "inline-flex items-center rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground hover:bg-secondary/80 transition-colors",
+      className
+    )}
+  >
+    {CATEGORY_INFO[category].label}
+  </Link>
+);
+
+export default CategoryBadge;
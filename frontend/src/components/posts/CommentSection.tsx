@@ -0,0 +1,322 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { CornerDownRight, MessageCircle, Reply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/components/ui/use-toast";
+import {
+  PostComment,
+  commentGlobalPost,
+  deleteGlobalPostComment,
+} from "@/lib/api";
+import { parseError } from "@/lib/errorHandler";
+import { currentUserId } from "@/lib/outbox";
+import { cn } from "@/lib/utils";
+
+const MAX_COMMENT_LENGTH = 1000;
+
+interface CommentSectionProps {
+  postId: string;
+  comments: PostComment[];
+  onCommentsChange: (comments: PostComment[]) => void;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const formatTimeAgo = (dateString: string) => {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+
+  if (diffInSeconds < 60) return "Just now";
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d ago`;
+  return date.toLocaleDateString();
+};
+
+const byOldest = (a: PostComment, b: PostComment) =>
+  a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0;
+
+const CommentForm: React.FC<CommentFormProps> = ({
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}) => {
+  const [content, setContent] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const trimmed = content.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(trimmed);
+      setContent("");
+    } catch {
+      // The section reports the error; keep the text so it can be resent
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+        disabled={isSubmitting}
+        className="min-h-[72px] resize-none"
+        aria-label={placeholder}
+      />
+      <div className="flex items-center justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!trimmed || isSubmitting}>
+          {isSubmitting ? "Posting..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+const CommentSection: React.FC<CommentSectionProps> = ({
+  postId,
+  comments,
+  onCommentsChange,
+}) => {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PostComment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const userId = currentUserId();
+
+  // Top-level comments oldest first, each with its replies
+  const threads = useMemo(() => {
+    const replies = new Map<string, PostComment[]>();
+    comments.forEach((comment) => {
+      if (!comment.parentId) return;
+      replies.set(comment.parentId, [...(replies.get(comment.parentId) ?? []), comment]);
+    });
+
+    return comments
+      .filter((comment) => !comment.parentId)
+      .sort(byOldest)
+      .map((comment) => ({
+        comment,
+        replies: (replies.get(comment._id) ?? []).sort(byOldest),
+      }));
+  }, [comments]);
+
+  const reportError = (error: unknown, title: string) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: parseError(error).message,
+      variant: "error",
+    });
+  };
+
+  const handleComment = async (content: string, parentId: string | null = null) => {
+    try {
+      const response = await commentGlobalPost(postId, content, parentId);
+      onCommentsChange([...comments, response.comment]);
+      setReplyingTo(null);
+    } catch (error) {
+      reportError(error, "Comment Failed");
+      throw error;
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!pendingDelete) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await deleteGlobalPostComment(postId, pendingDelete._id);
+      onCommentsChange(response.comments);
+      setPendingDelete(null);
+    } catch (error) {
+      reportError(error, "Delete Failed");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const renderComment = (comment: PostComment, threadId: string, isReply: boolean) => {
+    const isDeleted = Boolean(comment.deletedAt);
+    const isOwn = Boolean(userId) && comment.user_id === userId;
+
+    return (
+      <div
+        key={comment._id}
+        className={cn("flex space-x-3", isReply && "pl-2")}
+        aria-label={isDeleted ? "Deleted comment" : `Comment by ${comment.randomName}`}
+      >
+        {isReply && (
+          <CornerDownRight
+            className="h-4 w-4 mt-2 flex-shrink-0 text-muted-foreground"
+            aria-hidden="true"
+          />
+        )}
+        <div
+          className="w-7 h-7 bg-primary/10 rounded-full flex items-center justify-center flex-shrink-0"
+          aria-hidden="true"
+        >
+          <span className="text-xs font-medium text-primary">
+            {isDeleted ? "?" : comment.randomName.charAt(0).toUpperCase()}
+          </span>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="font-medium text-foreground">
+              {isDeleted ? "Deleted" : comment.randomName}
+            </span>
+            {isOwn && !isDeleted && (
+              <span className="text-xs text-muted-foreground">(you)</span>
+            )}
+            <time dateTime={comment.createdAt} className="text-xs text-muted-foreground">
+              {formatTimeAgo(comment.createdAt)}
+            </time>
+          </div>
+
+          {isDeleted ? (
+            <p className="text-sm italic text-muted-foreground">This comment was deleted</p>
+          ) : (
+            <p className="text-sm text-foreground whitespace-pre-wrap break-words">
+              {comment.content}
+            </p>
+          )}
+
+          {!isDeleted && (
+            <div className="flex items-center space-x-1 mt-1 -ml-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-muted-foreground"
+                onClick={() => setReplyingTo(replyingTo === threadId ? null : threadId)}
+                aria-label={`Reply to ${comment.randomName}`}
+              >
+                <Reply className="h-3 w-3 mr-1" aria-hidden="true" />
+                Reply
+              </Button>
+              {isOwn && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+                  onClick={() => setPendingDelete(comment)}
+                  aria-label="Delete your comment"
+                >
+                  <Trash2 className="h-3 w-3 mr-1" aria-hidden="true" />
+                  Delete
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <CommentForm
+        placeholder="Write a comment..."
+        submitLabel="Comment"
+        onSubmit={(content) => handleComment(content)}
+      />
+
+      {threads.length === 0 ? (
+        <div className="text-center py-8">
+          <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+          <h4 className="text-sm font-medium text-foreground mb-1">No comments yet</h4>
+          <p className="text-sm text-muted-foreground">
+            Be the first to share your thoughts.
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-5">
+          {threads.map(({ comment, replies }) => (
+            <li key={comment._id} className="space-y-3">
+              {renderComment(comment, comment._id, false)}
+
+              {(replies.length > 0 || replyingTo === comment._id) && (
+                <div className="ml-6 pl-4 border-l space-y-3">
+                  {replies.map((reply) => renderComment(reply, comment._id, true))}
+
+                  {replyingTo === comment._id && (
+                    <CommentForm
+                      placeholder={`Reply to ${comment.deletedAt ? "this thread" : comment.randomName}...`}
+                      submitLabel="Reply"
+                      autoFocus
+                      onSubmit={(content) => handleComment(content, comment._id)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog
+        open={pendingDelete !== null}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Replies to it will stay visible.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDeleteConfirm();
+              }}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CommentSection;
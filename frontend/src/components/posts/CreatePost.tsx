@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -22,9 +22,33 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { ImagePlus, X, Loader2 } from "lucide-react";
-import { createGlobalPost, createCommunityPost, getCommunities, type Community, type CreatePostData, type CreateCommunityPostData, type GlobalPost } from "@/lib/api";
+import { ImagePlus, X, Loader2, BarChart3, Plus, Eye, PenLine, Clock, Star, TriangleAlert } from "lucide-react";
+import { createGlobalPost, createCommunityPost, getCommunities, isAbortError, scheduleGlobalPost, type Community, type CreatePostData, type CreateCommunityPostData, type GlobalPost, type NewPoll, type NewReview, type PostSchedule, type ScheduledPost } from "@/lib/api";
 import { toast } from "@/components/ui/use-toast";
+import { isOfflineError, outbox } from "@/lib/outbox";
+import { CATEGORY_INFO, POST_CATEGORIES } from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import { Markdown } from "@/components/markdown";
+import { ImageJobList, ImageSavings } from "@/components/images";
+import { ReviewFields } from "@/components/reviews";
+import { ContentWarningField, ImageWarningButton } from "@/components/content-warnings";
+import { normalizeWarning } from "@/lib/contentWarnings";
+import { REVIEW_SUBJECT_INFO } from "@/lib/reviews";
+import { Draft, DraftContent, GLOBAL_DRAFT_TARGET } from "@/lib/drafts";
+import { useDraftAutosave } from "@/hooks/useDraftAutosave";
+import { useImagePipeline } from "@/hooks/useImagePipeline";
+import { formatBytes, validateSourceImage } from "@/lib/imagePipeline";
+import {
+  RANDOM_DELAY_PRESETS,
+  buildSchedule,
+  formatPublishTime,
+  latestPublishTime,
+  scheduleBounds,
+  type PublishMode,
+} from "@/lib/scheduling";
+
+// Same limit as the backend's upload middleware
+const MAX_IMAGES = 4;
 
 // Form validation schema
 const createPostSchema = z.object({
@@ -32,24 +56,76 @@ const createPostSchema = z.object({
     .string()
     .min(1, "Post content is required")
     .max(2000, "Post content must be less than 2000 characters"),
+  category: z.enum(POST_CATEGORIES, { message: "Please choose a category" }),
   community_id: z.string().optional(),
   images: z
     .array(z.instanceof(File))
-    .max(5, "Maximum 5 images allowed")
+    .max(MAX_IMAGES, `Maximum ${MAX_IMAGES} images allowed`)
     .optional(),
 });
 
 type CreatePostFormData = z.infer<typeof createPostSchema>;
 
+// Same limits as the backend
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+const MAX_POLL_OPTION_LENGTH = 100;
+
+// The poll to send, or what is wrong with it
+function buildPoll(options: string[], closesAt: string): { poll: NewPoll } | { error: string } {
+  const trimmed = options.map((option) => option.trim());
+  if (trimmed.some((option) => !option)) {
+    return { error: "Fill in every poll option or remove the empty ones" };
+  }
+  if (new Set(trimmed.map((option) => option.toLowerCase())).size !== trimmed.length) {
+    return { error: "Poll options must all be different" };
+  }
+  if (closesAt && new Date(closesAt).getTime() <= Date.now()) {
+    return { error: "The poll must close in the future" };
+  }
+  return {
+    poll: {
+      options: trimmed,
+      closesAt: closesAt ? new Date(closesAt).toISOString() : null,
+    },
+  };
+}
+
+const EMPTY_REVIEW: NewReview = { subject: "course", entityName: "", ratings: {} };
+
+// The review to send, or what is wrong with it
+function buildReview(review: NewReview): { review: NewReview } | { error: string } {
+  const entityName = review.entityName.trim();
+  if (!entityName) {
+    return { error: "Name what you are reviewing" };
+  }
+  const missing = REVIEW_SUBJECT_INFO[review.subject].dimensions.find(
+    (dimension) => !review.ratings[dimension.id]
+  );
+  if (missing) {
+    return { error: `Rate ${missing.label.toLowerCase()} from 1 to 5` };
+  }
+  return { review: { ...review, entityName } };
+}
+
+const formatSavedTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
 interface CreatePostProps {
   communityId?: string;
+  /** Open the saved draft for this target ("global" or a community_id) */
+  draftTarget?: string;
   onPostCreated?: (post: GlobalPost) => void;
+  /** Called instead of onPostCreated when the post is scheduled for later */
+  onPostScheduled?: (scheduledPost: ScheduledPost) => void;
   onCancel?: () => void;
 }
 
 const CreatePost: React.FC<CreatePostProps> = ({
   communityId,
+  draftTarget,
   onPostCreated,
+  onPostScheduled,
   onCancel,
 }) => {
   const [communities, setCommunities] = useState<Community[]>([]);
@@ -58,40 +134,135 @@ const CreatePost: React.FC<CreatePostProps> = ({
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
   const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [pollMode, setPollMode] = useState(false);
+  const [pollOptions, setPollOptions] = useState<string[]>(["", ""]);
+  // datetime-local value; empty keeps the poll open
+  const [pollClosesAt, setPollClosesAt] = useState("");
+  const [reviewMode, setReviewMode] = useState(false);
+  const [review, setReview] = useState<NewReview>(EMPTY_REVIEW);
+  const [warningMode, setWarningMode] = useState(false);
+  const [contentWarning, setContentWarning] = useState("");
+  // One label per selected image, "" for none
+  const [imageWarnings, setImageWarnings] = useState<string[]>([]);
+  const [publishMode, setPublishMode] = useState<PublishMode>("now");
+  // datetime-local value for "at"
+  const [publishAt, setPublishAt] = useState("");
+  const [delayPreset, setDelayPreset] = useState(0);
+  // Images are resized and stripped of metadata before they are attached
+  const imagePipeline = useImagePipeline();
 
   const form = useForm<CreatePostFormData>({
     resolver: zodResolver(createPostSchema),
     defaultValues: {
       content: "",
-      community_id: communityId || "global",
+      community_id: communityId || draftTarget || GLOBAL_DRAFT_TARGET,
       images: [],
     },
   });
 
+  const watchedContent = form.watch("content");
+  const watchedCategory = form.watch("category");
+  // Where the post goes: the community this editor belongs to, or the one picked
+  const target = communityId || form.watch("community_id") || GLOBAL_DRAFT_TARGET;
+  const isGlobalTarget = target === GLOBAL_DRAFT_TARGET;
+
+  // Polls, reviews, content warnings and scheduling are global posts only
+  const canAddPoll = isGlobalTarget;
+  const canAddReview = isGlobalTarget;
+  const canAddWarning = isGlobalTarget;
+  const canSchedule = isGlobalTarget;
+  const isScheduling = canSchedule && publishMode !== "now";
+
+  const draftContent = useMemo<DraftContent>(
+    () => ({
+      content: watchedContent ?? "",
+      category: watchedCategory ?? null,
+      images: selectedImages,
+      poll: pollMode ? { options: pollOptions, closesAt: pollClosesAt } : null,
+      review: reviewMode ? review : null,
+      contentWarning: warningMode ? contentWarning : null,
+      imageWarnings,
+    }),
+    [
+      watchedContent,
+      watchedCategory,
+      selectedImages,
+      pollMode,
+      pollOptions,
+      pollClosesAt,
+      reviewMode,
+      review,
+      warningMode,
+      contentWarning,
+      imageWarnings,
+    ]
+  );
+
+  const applyDraft = useCallback(
+    (draft: Draft) => {
+      form.setValue("content", draft.content);
+      if (draft.category) form.setValue("category", draft.category);
+      setSelectedImages(draft.images);
+      form.setValue("images", draft.images);
+      setImagePreviews(draft.images.map((file) => URL.createObjectURL(file)));
+      setPollMode(draft.poll !== null);
+      setPollOptions(draft.poll?.options ?? ["", ""]);
+      setPollClosesAt(draft.poll?.closesAt ?? "");
+      setReviewMode(Boolean(draft.review));
+      setReview(draft.review ?? EMPTY_REVIEW);
+      setWarningMode(typeof draft.contentWarning === "string");
+      setContentWarning(draft.contentWarning ?? "");
+      setImageWarnings(draft.images.map((_, index) => draft.imageWarnings?.[index] ?? ""));
+    },
+    [form]
+  );
+
+  const {
+    storedDraft,
+    restoreStored,
+    discardStored,
+    lastSavedAt,
+    clear: clearDraft,
+  } = useDraftAutosave({
+    target,
+    content: draftContent,
+    onRestore: applyDraft,
+    autoRestore: draftTarget !== undefined && draftTarget === target,
+  });
+
   // Load communities on component mount
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadCommunities = async () => {
       try {
         setLoadingCommunities(true);
-        const response = await getCommunities();
+        const response = await getCommunities({ signal: controller.signal });
         setCommunities(response.communities);
       } catch (error) {
+        if (isAbortError(error)) return;
         console.error("Failed to load communities:", error);
         setError("Failed to load communities. Please try again.");
       } finally {
-        setLoadingCommunities(false);
+        if (!controller.signal.aborted) {
+          setLoadingCommunities(false);
+        }
       }
     };
 
     loadCommunities();
+    return () => controller.abort();
   }, []);
 
   // Handle image selection
-  const handleImageSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
+    // Allow picking the same file again
+    event.target.value = "";
 
-    if (selectedImages.length + files.length > 5) {
-      const errorMsg = "Maximum 5 images allowed";
+    if (selectedImages.length + imagePipeline.pending + files.length > MAX_IMAGES) {
+      const errorMsg = `Maximum ${MAX_IMAGES} images allowed`;
       setError(errorMsg);
       toast({
         title: "Too Many Images",
@@ -103,46 +274,46 @@ const CreatePost: React.FC<CreatePostProps> = ({
 
     // Validate file types and sizes
     const validFiles = files.filter((file) => {
-      if (!file.type.startsWith("image/")) {
-        const errorMsg = "Only image files are allowed";
-        setError(errorMsg);
-        toast({
-          title: "Invalid File Type",
-          description: errorMsg,
-          variant: "error",
-        });
-        return false;
-      }
-      if (file.size > 10 * 1024 * 1024) { // 10MB limit
-        const errorMsg = "Image size must be less than 10MB";
-        setError(errorMsg);
+      const invalid = validateSourceImage(file);
+      if (invalid) {
+        setError(invalid);
         toast({
-          title: "File Too Large",
-          description: errorMsg,
+          title: file.type.startsWith("image/") ? "File Too Large" : "Invalid File Type",
+          description: invalid,
           variant: "error",
         });
         return false;
       }
       return true;
     });
+    if (validFiles.length === 0) return;
+
+    const processed = await imagePipeline.process(validFiles);
+    if (processed.length === 0) return;
 
-    if (validFiles.length > 0) {
-      const newImages = [...selectedImages, ...validFiles];
-      setSelectedImages(newImages);
+    const processedFiles = processed.map(({ file }) => file);
+    setSelectedImages((prev) => {
+      const newImages = [...prev, ...processedFiles];
       form.setValue("images", newImages);
+      return newImages;
+    });
 
-      // Create previews
-      const newPreviews = validFiles.map((file) => URL.createObjectURL(file));
-      setImagePreviews((prev) => [...prev, ...newPreviews]);
-      setError(null);
+    // Create previews
+    const newPreviews = processedFiles.map((file) => URL.createObjectURL(file));
+    setImagePreviews((prev) => [...prev, ...newPreviews]);
+    setImageWarnings((prev) => [...prev, ...processedFiles.map(() => "")]);
+    setError(null);
 
-      // Show success toast for image upload
-      toast({
-        title: "Images Added",
-        description: `${validFiles.length} image${validFiles.length > 1 ? 's' : ''} added successfully`,
-        variant: "success",
-      });
-    }
+    // Show success toast for image upload
+    const originalSize = processed.reduce((sum, image) => sum + image.originalSize, 0);
+    const size = processedFiles.reduce((sum, file) => sum + file.size, 0);
+    toast({
+      title: "Images Added",
+      description: `${processed.length} image${processed.length > 1 ? "s" : ""} added, ${formatBytes(
+        originalSize
+      )} compressed to ${formatBytes(size)}. Location and camera details were removed.`,
+      variant: "success",
+    });
   };
 
   // Remove selected image
@@ -155,22 +326,157 @@ const CreatePost: React.FC<CreatePostProps> = ({
 
     setSelectedImages(newImages);
     setImagePreviews(newPreviews);
+    setImageWarnings((prev) => prev.filter((_, i) => i !== index));
     form.setValue("images", newImages);
   };
 
+  const updateImageWarning = (index: number, label: string) => {
+    setImageWarnings((prev) => prev.map((current, i) => (i === index ? label : current)));
+  };
+
+  const resetPoll = () => {
+    setPollMode(false);
+    setPollOptions(["", ""]);
+    setPollClosesAt("");
+  };
+
+  // A post is either a poll or a review, and reviews live in their category
+  const togglePollMode = () => {
+    if (!pollMode) setReviewMode(false);
+    setPollMode(!pollMode);
+  };
+
+  const toggleReviewMode = () => {
+    if (!reviewMode) {
+      setPollMode(false);
+      form.setValue("category", "reviews", { shouldValidate: true });
+    }
+    setReviewMode(!reviewMode);
+  };
+
+  const updatePollOption = (index: number, value: string) => {
+    setPollOptions((prev) => prev.map((option, i) => (i === index ? value : option)));
+  };
+
+  const resetEditor = () => {
+    form.reset();
+    imagePipeline.clear();
+    setSelectedImages([]);
+    setImagePreviews([]);
+    setShowPreview(false);
+    resetPoll();
+    setReviewMode(false);
+    setReview(EMPTY_REVIEW);
+    setWarningMode(false);
+    setContentWarning("");
+    setImageWarnings([]);
+    setPublishMode("now");
+    setPublishAt("");
+  };
+
   // Handle form submission
   const onSubmit = async (data: CreatePostFormData) => {
+    let poll: NewPoll | undefined;
+    if (pollMode && canAddPoll) {
+      const built = buildPoll(pollOptions, pollClosesAt);
+      if ("error" in built) {
+        setError(built.error);
+        toast({
+          title: "Check Your Poll",
+          description: built.error,
+          variant: "warning",
+        });
+        return;
+      }
+      poll = built.poll;
+    }
+
+    let newReview: NewReview | undefined;
+    if (reviewMode && canAddReview) {
+      const built =
+        data.category === "reviews"
+          ? buildReview(review)
+          : { error: "Reviews belong in the Reviews category" };
+      if ("error" in built) {
+        setError(built.error);
+        toast({
+          title: "Check Your Review",
+          description: built.error,
+          variant: "warning",
+        });
+        return;
+      }
+      newReview = built.review;
+    }
+
+    // Empty labels mean no warning
+    const warnings = canAddWarning
+      ? {
+          contentWarning: warningMode ? normalizeWarning(contentWarning) || undefined : undefined,
+          imageWarnings: selectedImages.map((_, index) => normalizeWarning(imageWarnings[index] ?? "") || null),
+        }
+      : {};
+
+    let schedule: PostSchedule | undefined;
+    if (isScheduling) {
+      const built = buildSchedule(publishMode, publishAt, delayPreset);
+      let problem = "error" in built ? built.error : null;
+      if (!("error" in built)) {
+        schedule = built.schedule;
+        // The poll has to be open when the post goes out
+        if (poll?.closesAt && schedule && new Date(poll.closesAt) <= latestPublishTime(schedule)) {
+          problem = "The poll must close after the post is published";
+        }
+      }
+      if (problem) {
+        setError(problem);
+        toast({
+          title: "Check When to Publish",
+          description: problem,
+          variant: "warning",
+        });
+        return;
+      }
+    }
+
     try {
       setIsSubmitting(true);
       setError(null);
 
+      // Scheduled posts stay private until the server publishes them
+      if (schedule) {
+        const { scheduledPost } = await scheduleGlobalPost({
+          content: data.content,
+          category: data.category,
+          images: selectedImages.length > 0 ? selectedImages : undefined,
+          poll,
+          review: newReview,
+          ...warnings,
+          schedule,
+        });
+
+        resetEditor();
+        await clearDraft();
+
+        toast({
+          title: "Post Scheduled",
+          description: scheduledPost.randomDelay
+            ? `It will be published at a random time, around ${formatPublishTime(scheduledPost.publishAt)}`
+            : `It will be published ${formatPublishTime(scheduledPost.publishAt)}`,
+          variant: "success",
+        });
+        onPostScheduled?.(scheduledPost);
+        return;
+      }
+
       let response;
 
-      if (communityId && communityId !== "global") {
+      if (!isGlobalTarget) {
         // Create community-specific post
         const communityPostData: CreateCommunityPostData = {
           content: data.content,
-          community_id: communityId,
+          category: data.category,
+          community_id: target,
           images: selectedImages.length > 0 ? selectedImages : undefined,
         };
 
@@ -182,6 +488,7 @@ const CreatePost: React.FC<CreatePostProps> = ({
           // Fallback to global post creation
           const globalPostData: CreatePostData = {
             content: data.content,
+            category: data.category,
             images: selectedImages.length > 0 ? selectedImages : undefined,
           };
           response = await createGlobalPost(globalPostData);
@@ -190,20 +497,23 @@ const CreatePost: React.FC<CreatePostProps> = ({
         // Create global post
         const postData: CreatePostData = {
           content: data.content,
+          category: data.category,
           images: selectedImages.length > 0 ? selectedImages : undefined,
+          poll,
+          review: newReview,
+          ...warnings,
         };
         response = await createGlobalPost(postData);
       }
 
       // Clear form
-      form.reset();
-      setSelectedImages([]);
-      setImagePreviews([]);
+      resetEditor();
+      await clearDraft();
 
       // Show success toast
       toast({
         title: "Post Created Successfully",
-        description: communityId && communityId !== "global"
+        description: !isGlobalTarget
           ? "Your post has been shared with the community"
           : "Your post has been shared globally",
         variant: "success",
@@ -214,6 +524,38 @@ const CreatePost: React.FC<CreatePostProps> = ({
         onPostCreated(response.post);
       }
     } catch (error) {
+      // Offline: keep the post in the outbox and publish it once we reconnect
+      if (isOfflineError(error)) {
+        try {
+          await outbox.enqueue({
+            kind: "createPost",
+            content: data.content,
+            category: data.category,
+            images: selectedImages.length > 0 ? selectedImages : undefined,
+            poll,
+            review: newReview,
+            ...warnings,
+            schedule,
+            communityId: isGlobalTarget ? undefined : target,
+          });
+
+          resetEditor();
+          await clearDraft();
+
+          toast({
+            title: "Saved Offline",
+            description: schedule
+              ? "Your post will be scheduled when you're back online"
+              : "Your post will be published when you're back online",
+            variant: "info",
+          });
+          onCancel?.();
+          return;
+        } catch (queueError) {
+          console.error("Failed to queue post:", queueError);
+        }
+      }
+
       console.error("Failed to create post:", error);
       const errorMessage = error instanceof Error ? error.message : "Failed to create post. Please try again.";
       setError(errorMessage);
@@ -275,6 +617,25 @@ const CreatePost: React.FC<CreatePostProps> = ({
         </div>
       )}
 
+      {storedDraft && (
+        <div
+          className="mb-4 p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-muted/50 border border-border-light dark:border-border-dark rounded-md"
+          role="status"
+        >
+          <p className="text-sm text-foreground-light dark:text-foreground-dark">
+            You have a draft from {new Date(storedDraft.updatedAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}.
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={discardStored}>
+              Discard
+            </Button>
+            <Button type="button" size="sm" onClick={restoreStored}>
+              Restore draft
+            </Button>
+          </div>
+        </div>
+      )}
+
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           {/* Community Selector */}
@@ -313,20 +674,80 @@ const CreatePost: React.FC<CreatePostProps> = ({
             />
           )}
 
+          {/* Category */}
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="What is this post about?" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {POST_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {CATEGORY_INFO[category].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           {/* Post Content */}
           <FormField
             control={form.control}
             name="content"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>What&apos;s on your mind?</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel>What&apos;s on your mind?</FormLabel>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowPreview((preview) => !preview)}
+                    aria-pressed={showPreview}
+                  >
+                    {showPreview ? (
+                      <PenLine className="h-4 w-4 mr-1" aria-hidden="true" />
+                    ) : (
+                      <Eye className="h-4 w-4 mr-1" aria-hidden="true" />
+                    )}
+                    {showPreview ? "Write" : "Preview"}
+                  </Button>
+                </div>
                 <FormControl>
                   <Textarea
-                    placeholder="Share your thoughts with the community..."
-                    className="min-h-[120px] resize-none"
+                    placeholder={
+                      pollMode
+                        ? "Ask your question..."
+                        : reviewMode
+                          ? "What was it like? Write your review..."
+                          : "Share your thoughts with the community..."
+                    }
+                    className={cn("min-h-[120px] resize-none", showPreview && "hidden")}
                     {...field}
                   />
                 </FormControl>
+                {showPreview && (
+                  <div className="min-h-[120px] rounded-md border border-input px-3 py-2 text-sm">
+                    {field.value?.trim() ? (
+                      <Markdown content={field.value} className="text-foreground" />
+                    ) : (
+                      <p className="text-muted-foreground">Nothing to preview yet</p>
+                    )}
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground-light dark:text-muted-foreground-dark">
+                  Supports **bold**, *italics*, `code`, ``` code blocks, - lists, &gt; quotes and links.
+                </p>
                 <div className="flex justify-between text-sm text-muted-foreground-light dark:text-muted-foreground-dark">
                   <FormMessage />
                   <span>{field.value?.length || 0}/2000</span>
@@ -335,10 +756,138 @@ const CreatePost: React.FC<CreatePostProps> = ({
             )}
           />
 
+          {/* Poll */}
+          {pollMode && canAddPoll && (
+            <fieldset className="space-y-3 rounded-md border border-border-light dark:border-border-dark p-4">
+              <legend className="px-1 text-sm font-medium">Poll options</legend>
+              {pollOptions.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => updatePollOption(index, e.target.value)}
+                    placeholder={`Option ${index + 1}`}
+                    maxLength={MAX_POLL_OPTION_LENGTH}
+                    aria-label={`Poll option ${index + 1}`}
+                  />
+                  {pollOptions.length > MIN_POLL_OPTIONS && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPollOptions((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label={`Remove option ${index + 1}`}
+                      className="touch-manipulation min-h-[44px] min-w-[44px]"
+                    >
+                      <X className="h-4 w-4" aria-hidden="true" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {pollOptions.length < MAX_POLL_OPTIONS && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPollOptions((prev) => [...prev, ""])}
+                >
+                  <Plus className="h-4 w-4 mr-1" aria-hidden="true" />
+                  Add option
+                </Button>
+              )}
+              <div className="space-y-1">
+                <label htmlFor="poll-closes-at" className="text-sm font-medium">
+                  Closes (optional)
+                </label>
+                <Input
+                  id="poll-closes-at"
+                  type="datetime-local"
+                  value={pollClosesAt}
+                  onChange={(e) => setPollClosesAt(e.target.value)}
+                  aria-describedby="poll-help"
+                />
+                <p id="poll-help" className="text-xs text-muted-foreground-light dark:text-muted-foreground-dark">
+                  Leave empty to keep the poll open. Votes are anonymous, and results show after voting.
+                </p>
+              </div>
+            </fieldset>
+          )}
+
+          {/* Review */}
+          {reviewMode && canAddReview && (
+            <ReviewFields value={review} onChange={setReview} disabled={isSubmitting} />
+          )}
+
+          {/* Content warning */}
+          {warningMode && canAddWarning && (
+            <fieldset className="rounded-md border border-border-light dark:border-border-dark p-4">
+              <legend className="sr-only">Content warning</legend>
+              <ContentWarningField
+                value={contentWarning}
+                onChange={setContentWarning}
+                category={watchedCategory}
+                disabled={isSubmitting}
+              />
+            </fieldset>
+          )}
+
+          {/* Publish time */}
+          {canSchedule && (
+            <fieldset className="space-y-3">
+              <legend className="flex items-center gap-2 text-sm font-medium">
+                <Clock className="h-4 w-4" aria-hidden="true" />
+                When to publish
+              </legend>
+              <Select value={publishMode} onValueChange={(value) => setPublishMode(value as PublishMode)}>
+                <SelectTrigger aria-label="When to publish">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="now">Publish now</SelectItem>
+                  <SelectItem value="at">At a set time</SelectItem>
+                  <SelectItem value="random">At a random time</SelectItem>
+                </SelectContent>
+              </Select>
+              {publishMode === "at" && (
+                <Input
+                  type="datetime-local"
+                  value={publishAt}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                  {...scheduleBounds()}
+                  aria-label="Publish at"
+                />
+              )}
+              {publishMode === "random" && (
+                <Select
+                  value={String(delayPreset)}
+                  onValueChange={(value) => setDelayPreset(Number(value))}
+                >
+                  <SelectTrigger aria-label="Random delay">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RANDOM_DELAY_PRESETS.map((preset, index) => (
+                      <SelectItem key={preset.label} value={String(index)}>
+                        {preset.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {publishMode !== "now" && (
+                <p className="text-xs text-muted-foreground-light dark:text-muted-foreground-dark">
+                  {publishMode === "random"
+                    ? "A random time keeps the publish time from hinting at when you wrote it. "
+                    : ""}
+                  Until then only you can see it, under My Posts, where you can edit or cancel it.
+                </p>
+              )}
+            </fieldset>
+          )}
+
           {/* Image Upload */}
           <fieldset className="space-y-4">
             <legend className="sr-only">Image attachments</legend>
-            <div className="flex items-center gap-4">
+            <div className="flex flex-wrap items-center gap-4">
               <label
                 htmlFor="image-upload"
                 className="flex items-center gap-2 px-4 py-2 border border-border-light dark:border-border-dark rounded-md cursor-pointer hover:bg-accent-light dark:hover:bg-accent-dark transition-colors touch-manipulation min-h-[44px] focus-within:ring-2 focus-within:ring-primary focus-within:ring-offset-2"
@@ -346,6 +895,42 @@ const CreatePost: React.FC<CreatePostProps> = ({
                 <ImagePlus className="h-4 w-4" aria-hidden="true" />
                 <span className="text-sm">Add Images</span>
               </label>
+              {canAddPoll && (
+                <Button
+                  type="button"
+                  variant={pollMode ? "secondary" : "outline"}
+                  onClick={togglePollMode}
+                  aria-pressed={pollMode}
+                  className="touch-manipulation min-h-[44px]"
+                >
+                  <BarChart3 className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Poll
+                </Button>
+              )}
+              {canAddReview && (
+                <Button
+                  type="button"
+                  variant={reviewMode ? "secondary" : "outline"}
+                  onClick={toggleReviewMode}
+                  aria-pressed={reviewMode}
+                  className="touch-manipulation min-h-[44px]"
+                >
+                  <Star className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Review
+                </Button>
+              )}
+              {canAddWarning && (
+                <Button
+                  type="button"
+                  variant={warningMode ? "secondary" : "outline"}
+                  onClick={() => setWarningMode(!warningMode)}
+                  aria-pressed={warningMode}
+                  className="touch-manipulation min-h-[44px]"
+                >
+                  <TriangleAlert className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Warning
+                </Button>
+              )}
               <Input
                 id="image-upload"
                 type="file"
@@ -360,13 +945,16 @@ const CreatePost: React.FC<CreatePostProps> = ({
                 className="text-sm text-muted-foreground-light dark:text-muted-foreground-dark"
                 aria-live="polite"
               >
-                {selectedImages.length}/5 images
+                {selectedImages.length}/{MAX_IMAGES} images
               </span>
             </div>
             <div id="image-help" className="sr-only">
-              You can upload up to 5 images. Supported formats: JPEG, PNG, GIF. Maximum size: 10MB per image.
+              You can upload up to {MAX_IMAGES} images of up to 25MB each. They are resized and compressed before upload,
+              and their location and camera details are removed.
             </div>
 
+            <ImageJobList jobs={imagePipeline.jobs} onDismiss={imagePipeline.dismiss} />
+
             {/* Image Previews */}
             {imagePreviews.length > 0 && (
               <div
@@ -382,6 +970,18 @@ const CreatePost: React.FC<CreatePostProps> = ({
                       className="w-full h-20 sm:h-24 object-cover rounded-md border border-border-light dark:border-border-dark"
                       loading="lazy"
                     />
+                    {selectedImages[index] && (
+                      <ImageSavings file={selectedImages[index]} className="absolute bottom-1 left-1" />
+                    )}
+                    {canAddWarning && (
+                      <ImageWarningButton
+                        value={imageWarnings[index] ?? ""}
+                        onChange={(label) => updateImageWarning(index, label)}
+                        imageNumber={index + 1}
+                        category={watchedCategory}
+                        className="absolute top-1 left-1"
+                      />
+                    )}
                     <button
                       type="button"
                       onClick={() => removeImage(index)}
@@ -398,6 +998,14 @@ const CreatePost: React.FC<CreatePostProps> = ({
 
           {/* Submit Button */}
           <div className="flex flex-col sm:flex-row justify-end gap-3" role="group" aria-label="Form actions">
+            {lastSavedAt !== null && (
+              <span
+                className="self-center sm:mr-auto text-xs text-muted-foreground-light dark:text-muted-foreground-dark"
+                aria-live="polite"
+              >
+                Draft saved at {formatSavedTime(lastSavedAt)}
+              </span>
+            )}
             {onCancel && (
               <Button
                 type="button"
@@ -410,12 +1018,14 @@ const CreatePost: React.FC<CreatePostProps> = ({
             )}
             <Button
               type="submit"
-              disabled={isSubmitting || !form.watch("content")?.trim()}
+              disabled={isSubmitting || imagePipeline.pending > 0 || !form.watch("content")?.trim()}
               className="touch-manipulation min-h-[44px] w-full sm:w-auto"
               aria-describedby={isSubmitting ? "submit-status" : undefined}
             >
               {isSubmitting && <Loader2 className="h-4 w-4 animate-spin mr-2" aria-hidden="true" />}
-              {isSubmitting ? "Creating..." : "Create Post"}
+              {isSubmitting
+                ? isScheduling ? "Scheduling..." : "Creating..."
+                : isScheduling ? "Schedule Post" : "Create Post"}
             </Button>
             {isSubmitting && (
               <span id="submit-status" className="sr-only">
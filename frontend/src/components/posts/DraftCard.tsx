@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { BarChart3, Image as ImageIcon, PenLine, Trash2 } from "lucide-react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CATEGORY_INFO } from "@/lib/categories";
+import { Draft } from "@/lib/drafts";
+import { toPlainText } from "@/lib/markdown";
+
+interface DraftCardProps {
+  draft: Draft;
+  /** Where the draft will be posted, e.g. "Global" or a community name */
+  targetLabel: string;
+  onContinue: (target: string) => void;
+  onDiscard: (target: string) => Promise<void>;
+}
+
+const DraftCard: React.FC<DraftCardProps> = ({ draft, targetLabel, onContinue, onDiscard }) => {
+  const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const preview = toPlainText(draft.content).trim();
+  const pollOptions = draft.poll?.options.filter((option) => option.trim()).length ?? 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{targetLabel}</span>
+          {draft.category && <span>· {CATEGORY_INFO[draft.category].label}</span>}
+          <span>
+            · Edited{" "}
+            <time dateTime={new Date(draft.updatedAt).toISOString()}>
+              {formatDistanceToNow(draft.updatedAt, { addSuffix: true })}
+            </time>
+          </span>
+        </div>
+
+        {preview ? (
+          <p className="text-foreground whitespace-pre-wrap break-words line-clamp-4">{preview}</p>
+        ) : (
+          <p className="text-muted-foreground italic">No text yet</p>
+        )}
+
+        {(draft.images.length > 0 || pollOptions > 0) && (
+          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            {draft.images.length > 0 && (
+              <span className="flex items-center gap-1">
+                <ImageIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                {draft.images.length} {draft.images.length === 1 ? "image" : "images"}
+              </span>
+            )}
+            {pollOptions > 0 && (
+              <span className="flex items-center gap-1">
+                <BarChart3 className="h-3.5 w-3.5" aria-hidden="true" />
+                Poll with {pollOptions} {pollOptions === 1 ? "option" : "options"}
+              </span>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setShowDiscardDialog(true)}>
+          <Trash2 className="h-4 w-4 mr-2" aria-hidden="true" />
+          Discard
+        </Button>
+        <Button size="sm" onClick={() => onContinue(draft.target)}>
+          <PenLine className="h-4 w-4 mr-2" aria-hidden="true" />
+          Continue editing
+        </Button>
+      </CardFooter>
+
+      <AlertDialog open={showDiscardDialog} onOpenChange={setShowDiscardDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard Draft</AlertDialogTitle>
+            <AlertDialogDescription>
+              This draft and its images will be removed from this device. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onDiscard(draft.target)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default DraftCard;
@@ -0,0 +1,268 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { ImagePlus, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/use-toast";
+import { ImageJobList, ImageSavings } from "@/components/images";
+import { ContentWarningField, ImageWarningButton } from "@/components/content-warnings";
+import { useImagePipeline } from "@/hooks/useImagePipeline";
+import {
+  GlobalPost,
+  GlobalPostDetail,
+  isApiError,
+  updateGlobalPost,
+} from "@/lib/api";
+import { normalizeWarning } from "@/lib/contentWarnings";
+import { parseError } from "@/lib/errorHandler";
+import { validateSourceImage } from "@/lib/imagePipeline";
+
+// Same limits as the backend
+const MAX_IMAGES = 4;
+const MAX_CONTENT_LENGTH = 2000;
+
+interface EditPostDialogProps {
+  post: GlobalPost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (post: GlobalPostDetail) => void;
+}
+
+/** Whether the author can still edit a post */
+export function isPostEditable(post: GlobalPost, now: number = Date.now()): boolean {
+  return post.editableUntil !== null && Date.parse(post.editableUntil) > now;
+}
+
+// Mount it when editing starts so the form begins from the current version
+const EditPostDialog: React.FC<EditPostDialogProps> = ({
+  post,
+  open,
+  onOpenChange,
+  onSaved,
+}) => {
+  const [content, setContent] = useState(post.content);
+  const [keptImages, setKeptImages] = useState<string[]>(post.images);
+  const [newImages, setNewImages] = useState<File[]>([]);
+  const [contentWarning, setContentWarning] = useState(post.contentWarning ?? "");
+  // Image warnings by URL for kept images, by position for new ones
+  const [keptWarnings, setKeptWarnings] = useState<Record<string, string>>(() =>
+    Object.fromEntries(post.imageWarnings.map((warning) => [warning.url, warning.label]))
+  );
+  const [newWarnings, setNewWarnings] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const imagePipeline = useImagePipeline();
+
+  const newPreviews = useMemo(
+    () => newImages.map((file) => URL.createObjectURL(file)),
+    [newImages]
+  );
+
+  useEffect(() => {
+    return () => newPreviews.forEach((url) => URL.revokeObjectURL(url));
+  }, [newPreviews]);
+
+  const imageCount = keptImages.length + newImages.length + imagePipeline.pending;
+  const trimmed = content.trim();
+
+  const handleImageSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = "";
+
+    if (imageCount + files.length > MAX_IMAGES) {
+      setError(`A post can have at most ${MAX_IMAGES} images`);
+      return;
+    }
+
+    const invalid = files.map(validateSourceImage).find(Boolean);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setError(null);
+    // Resized, and stripped of location and camera details
+    const processed = await imagePipeline.process(files);
+    setNewImages((prev) => [...prev, ...processed.map(({ file }) => file)]);
+    setNewWarnings((prev) => [...prev, ...processed.map(() => "")]);
+  };
+
+  const removeNewImage = (index: number) => {
+    setNewImages((prev) => prev.filter((_, i) => i !== index));
+    setNewWarnings((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    if (!trimmed || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await updateGlobalPost(post._id, {
+        content,
+        keepImages: keptImages,
+        images: newImages,
+        contentWarning: normalizeWarning(contentWarning),
+        // In the order the server lists the images: kept ones, then new ones
+        imageWarnings: [
+          ...keptImages.map((url) => normalizeWarning(keptWarnings[url] ?? "") || null),
+          ...newImages.map((_, index) => normalizeWarning(newWarnings[index] ?? "") || null),
+        ],
+      });
+      onSaved(response.post);
+      onOpenChange(false);
+      toast({
+        title: "Post Updated",
+        description: "Your changes were saved",
+        variant: "success",
+      });
+    } catch (err) {
+      console.error("Failed to update post:", err);
+      const fieldError = isApiError(err)
+        ? err.fieldErrors.content ??
+          err.fieldErrors.images ??
+          err.fieldErrors.contentWarning ??
+          err.fieldErrors.imageWarnings
+        : undefined;
+      setError(
+        isApiError(err) && err.code === "EDIT_WINDOW_CLOSED"
+          ? "The edit window for this post has closed."
+          : fieldError ?? parseError(err).message
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit post</DialogTitle>
+          <DialogDescription>
+            Readers will see that the post was edited and can view earlier versions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            maxLength={MAX_CONTENT_LENGTH}
+            disabled={isSaving}
+            className="min-h-[140px] resize-none"
+            aria-label="Post content"
+          />
+
+          <ContentWarningField
+            value={contentWarning}
+            onChange={setContentWarning}
+            category={post.category}
+            label="Content warning (optional)"
+            disabled={isSaving}
+          />
+
+          {imageCount > 0 && (
+            <div className="grid grid-cols-2 gap-2">
+              {keptImages.map((url, index) => (
+                <div key={url} className="relative rounded-lg overflow-hidden bg-muted aspect-video">
+                  <img src={url} alt="" className="w-full h-full object-cover" />
+                  <ImageWarningButton
+                    value={keptWarnings[url] ?? ""}
+                    onChange={(label) => setKeptWarnings((prev) => ({ ...prev, [url]: label }))}
+                    imageNumber={index + 1}
+                    category={post.category}
+                    className="absolute top-1 left-1"
+                  />
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    className="absolute top-1 right-1 h-6 w-6 p-0"
+                    onClick={() => setKeptImages((prev) => prev.filter((kept) => kept !== url))}
+                    disabled={isSaving}
+                    aria-label="Remove image"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+              {newPreviews.map((preview, index) => (
+                <div key={preview} className="relative rounded-lg overflow-hidden bg-muted aspect-video">
+                  <img src={preview} alt="" className="w-full h-full object-cover" />
+                  <ImageWarningButton
+                    value={newWarnings[index] ?? ""}
+                    onChange={(label) =>
+                      setNewWarnings((prev) => prev.map((current, i) => (i === index ? label : current)))
+                    }
+                    imageNumber={keptImages.length + index + 1}
+                    category={post.category}
+                    className="absolute top-1 left-1"
+                  />
+                  {newImages[index] && (
+                    <ImageSavings file={newImages[index]} className="absolute bottom-1 left-1" />
+                  )}
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="sm"
+                    className="absolute top-1 right-1 h-6 w-6 p-0"
+                    onClick={() => removeNewImage(index)}
+                    disabled={isSaving}
+                    aria-label="Remove image"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <ImageJobList jobs={imagePipeline.jobs} onDismiss={imagePipeline.dismiss} />
+
+          {imageCount < MAX_IMAGES && (
+            <label className="inline-flex items-center space-x-2 text-sm text-muted-foreground cursor-pointer hover:text-foreground">
+              <ImagePlus className="h-4 w-4" />
+              <span>Add images</span>
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="sr-only"
+                onChange={handleImageSelect}
+                disabled={isSaving}
+              />
+            </label>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!trimmed || isSaving || imagePipeline.pending > 0}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditPostDialog;
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/components/ui/use-toast";
+import { ContentWarningField } from "@/components/content-warnings";
+import { ScheduledPost, isApiError, updateScheduledPost } from "@/lib/api";
+import { CATEGORY_INFO, POST_CATEGORIES, type PostCategory } from "@/lib/categories";
+import { normalizeWarning } from "@/lib/contentWarnings";
+import { parseError } from "@/lib/errorHandler";
+import { buildSchedule, scheduleBounds, toDateTimeLocal } from "@/lib/scheduling";
+
+// Same limit as the backend
+const MAX_CONTENT_LENGTH = 2000;
+
+interface EditScheduledPostDialogProps {
+  scheduledPost: ScheduledPost;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (scheduledPost: ScheduledPost) => void;
+}
+
+// Mount it when editing starts so the form begins from the current version
+const EditScheduledPostDialog: React.FC<EditScheduledPostDialogProps> = ({
+  scheduledPost,
+  open,
+  onOpenChange,
+  onSaved,
+}) => {
+  const initialPublishAt = toDateTimeLocal(new Date(scheduledPost.publishAt));
+  const [content, setContent] = useState(scheduledPost.content);
+  const [category, setCategory] = useState<PostCategory>(scheduledPost.category);
+  const [publishAt, setPublishAt] = useState(initialPublishAt);
+  const [contentWarning, setContentWarning] = useState(scheduledPost.contentWarning ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmed = content.trim();
+  const timeChanged = publishAt !== initialPublishAt;
+
+  const handleSave = async () => {
+    if (!trimmed || isSaving) return;
+
+    // Only send a time the author changed, so a random one stays as picked
+    const built = timeChanged ? buildSchedule("at", publishAt, 0) : { schedule: undefined };
+    if ("error" in built) {
+      setError(built.error);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await updateScheduledPost(scheduledPost._id, {
+        content,
+        category,
+        schedule: built.schedule,
+        // Image warnings stay as they were set when scheduling
+        contentWarning: normalizeWarning(contentWarning),
+      });
+      onSaved(response.scheduledPost);
+      onOpenChange(false);
+      toast({
+        title: "Scheduled Post Updated",
+        description: "Your changes were saved",
+        variant: "success",
+      });
+    } catch (err) {
+      console.error("Failed to update scheduled post:", err);
+      const fieldError = isApiError(err)
+        ? err.fieldErrors.content ??
+          err.fieldErrors.schedule ??
+          err.fieldErrors.category ??
+          err.fieldErrors.contentWarning
+        : undefined;
+      setError(
+        isApiError(err) && err.code === "POST_NOT_FOUND"
+          ? "This post has already been published or cancelled."
+          : fieldError ?? parseError(err).message
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit scheduled post</DialogTitle>
+          <DialogDescription>
+            Nobody else can see it until it is published.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            maxLength={MAX_CONTENT_LENGTH}
+            disabled={isSaving}
+            className="min-h-[140px] resize-none"
+            aria-label="Post content"
+          />
+
+          <Select
+            value={category}
+            onValueChange={(value) => setCategory(value as PostCategory)}
+            disabled={isSaving}
+          >
+            <SelectTrigger aria-label="Category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POST_CATEGORIES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {CATEGORY_INFO[option].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <ContentWarningField
+            value={contentWarning}
+            onChange={setContentWarning}
+            category={category}
+            label="Content warning (optional)"
+            disabled={isSaving}
+          />
+
+          <div className="space-y-1">
+            <label htmlFor="scheduled-publish-at" className="text-sm font-medium">
+              Publish at
+            </label>
+            <Input
+              id="scheduled-publish-at"
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              {...scheduleBounds()}
+              disabled={isSaving}
+            />
+            {scheduledPost.randomDelay && !timeChanged && (
+              <p className="text-xs text-muted-foreground">
+                This time was picked at random. Changing it sets a fixed time instead.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!trimmed || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditScheduledPostDialog;
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useState } from "react";
+import { BarChart3, Loader2 } from "lucide-react";
+import { toast } from "@/components/ui/use-toast";
+import { Poll, getPostById, isApiError, votePoll } from "@/lib/api";
+import { parseError } from "@/lib/errorHandler";
+import { cn } from "@/lib/utils";
+
+interface PollViewProps {
+  postId: string;
+  poll: Poll;
+  /** Show the results without voting, for readers who cannot vote */
+  readOnly?: boolean;
+  className?: string;
+}
+
+/** Whether a poll has stopped taking votes */
+export function isPollClosed(poll: Poll, now: number = Date.now()): boolean {
+  return poll.closesAt !== null && Date.parse(poll.closesAt) <= now;
+}
+
+const formatCloseTime = (dateString: string) =>
+  new Date(dateString).toLocaleString([], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+// Options to vote on, or result bars once the user has voted or the poll closed.
+// Keeps clicks and keys away from the card around it.
+const PollView: React.FC<PollViewProps> = ({ postId, poll: pollFromProps, readOnly = false, className }) => {
+  // Set once this view has newer poll data than its props
+  const [latest, setLatest] = useState<Poll | null>(null);
+  const [closedEarly, setClosedEarly] = useState(false);
+  const [votingFor, setVotingFor] = useState<string | null>(null);
+
+  const poll = latest ?? pollFromProps;
+  const closed = closedEarly || isPollClosed(poll);
+  const showResults = readOnly || poll.hasVoted || closed;
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.votes, 0);
+  const topVotes = Math.max(...poll.options.map((option) => option.votes));
+
+  // The counts we have are stale once the server turns a vote down; fetch fresh ones
+  const refreshPoll = async (fallback: Poll) => {
+    setLatest(fallback);
+    try {
+      const response = await getPostById(postId);
+      if (response.post.poll) setLatest(response.post.poll);
+    } catch (error) {
+      console.error("Failed to refresh poll:", error);
+    }
+  };
+
+  const handleVote = async (optionId: string) => {
+    if (votingFor) return;
+
+    setVotingFor(optionId);
+    try {
+      const response = await votePoll(postId, optionId);
+      setLatest(response.poll);
+    } catch (error) {
+      if (isApiError(error) && error.code === "ALREADY_VOTED") {
+        await refreshPoll({ ...poll, hasVoted: true });
+      } else if (isApiError(error) && error.code === "POLL_CLOSED") {
+        setClosedEarly(true);
+        await refreshPoll(poll);
+        toast({
+          title: "Poll Closed",
+          description: "This poll closed before your vote was counted.",
+          variant: "info",
+        });
+      } else {
+        console.error("Failed to vote:", error);
+        toast({
+          title: "Vote Failed",
+          description: parseError(error).message,
+          variant: "error",
+        });
+      }
+    } finally {
+      setVotingFor(null);
+    }
+  };
+
+  const status = closed
+    ? "Final results"
+    : poll.closesAt
+      ? `Closes ${formatCloseTime(poll.closesAt)}`
+      : "Open";
+
+  return (
+    <div
+      className={cn("rounded-lg border p-4 space-y-2", className)}
+      role="group"
+      aria-label="Poll"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      {poll.options.map((option) => {
+        if (!showResults) {
+          return (
+            <button
+              key={option._id}
+              type="button"
+              onClick={() => handleVote(option._id)}
+              disabled={votingFor !== null}
+              className="w-full flex items-center justify-between rounded-md border px-3 py-2 text-sm text-left hover:bg-accent hover:border-primary/40 transition-colors disabled:opacity-60 disabled:cursor-not-allowed min-h-[44px]"
+            >
+              <span className="break-words">{option.text}</span>
+              {votingFor === option._id && (
+                <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" aria-hidden="true" />
+              )}
+            </button>
+          );
+        }
+
+        const percent = totalVotes > 0 ? Math.round((option.votes / totalVotes) * 100) : 0;
+        const isLeading = totalVotes > 0 && option.votes === topVotes;
+
+        return (
+          <div
+            key={option._id}
+            className="relative overflow-hidden rounded-md border px-3 py-2 text-sm"
+            aria-label={`${option.text}: ${percent}%, ${option.votes} ${option.votes === 1 ? "vote" : "votes"}`}
+          >
+            <div
+              className={cn(
+                "absolute inset-y-0 left-0 transition-[width] duration-500",
+                isLeading ? "bg-primary/25" : "bg-muted"
+              )}
+              style={{ width: `${percent}%` }}
+              aria-hidden="true"
+            />
+            <div className="relative flex items-center justify-between gap-3" aria-hidden="true">
+              <span className={cn("break-words", isLeading && "font-semibold")}>
+                {option.text}
+              </span>
+              <span className="tabular-nums text-muted-foreground">{percent}%</span>
+            </div>
+          </div>
+        );
+      })}
+
+      <p className="flex items-center gap-1.5 pt-1 text-xs text-muted-foreground">
+        <BarChart3 className="h-3.5 w-3.5" aria-hidden="true" />
+        <span>
+          {totalVotes} {totalVotes === 1 ? "vote" : "votes"} · {status}
+          {poll.hasVoted && " · You voted anonymously"}
+        </span>
+      </p>
+    </div>
+  );
+};
+
+export default PollView;
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
-import { MoreHorizontal, Trash2, Eye } from "lucide-react";
+import { MoreHorizontal, Trash2, Eye, Pencil } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -24,6 +24,8 @@ import { cn } from "@/lib/utils";
 interface PostActionsProps {
   postId: string;
   onView?: (postId: string) => void;
+  /** Only passed while the post can still be edited */
+  onEdit?: (postId: string) => void;
   onDelete?: (postId: string) => Promise<void>;
   className?: string;
 }
@@ -31,6 +33,7 @@ interface PostActionsProps {
 const PostActions: React.FC<PostActionsProps> = ({
   postId,
   onView,
+  onEdit,
   onDelete,
   className,
 }) => {
@@ -85,6 +88,12 @@ const PostActions: React.FC<PostActionsProps> = ({
               View Details
             </DropdownMenuItem>
           )}
+          {onEdit && (
+            <DropdownMenuItem onClick={() => onEdit(postId)} className="cursor-pointer">
+              <Pencil className="mr-2 h-4 w-4" />
+              Edit Post
+            </DropdownMenuItem>
+          )}
           {onDelete && (
             <DropdownMenuItem
               onClick={handleDeleteClick}
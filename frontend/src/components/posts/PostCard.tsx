@@ -4,12 +4,28 @@ import React, { useState } from "react";
 import { MessageCircle, Share2, Clock, ThumbsUp } from "lucide-react";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { GlobalPost, likeGlobalPost } from "@/lib/api";
+import { GlobalPost } from "@/lib/api";
+import { usePostLike } from "@/hooks/usePostLike";
 import { toast } from "@/components/ui/use-toast";
+import { Markdown } from "@/components/markdown";
+import { ImageLightbox, type LightboxImage } from "@/components/images";
+import { ContentWarning, ImageWarningOverlay } from "@/components/content-warnings";
+import { useImageWarnings } from "@/hooks/useContentWarnings";
+import { thumbnailUrl } from "@/lib/imageUrls";
+import { toPlainText } from "@/lib/markdown";
+import { SITE_NAME, postShareUrl } from "@/lib/sharing";
+import { cn } from "@/lib/utils";
+import BookmarkButton from "./BookmarkButton";
+import CategoryBadge from "./CategoryBadge";
+import PollView from "./PollView";
+import ReviewView from "./ReviewView";
+import TagChips from "./TagChips";
+
+// Feed images are at most this wide on screen, twice that on dense displays
+const FEED_IMAGE_WIDTH = 1200;
 
 interface PostCardProps {
   post: GlobalPost;
-  onLike?: (postId: string) => Promise<void>;
   onComment?: (postId: string) => void;
   onShare?: (postId: string) => void;
   onClick?: (postId: string) => void;
@@ -17,15 +33,14 @@ interface PostCardProps {
 
 const PostCard: React.FC<PostCardProps> = ({
   post,
-  onLike,
   onComment,
   onShare,
   onClick,
 }) => {
-  const [isLiking, setIsLiking] = useState(false);
-  const [localLikes, setLocalLikes] = useState(post.likes);
-  const [localLikedBy, setLocalLikedBy] = useState(post.likedBy);
+  const { likes, liked: isLikedByUser, pending: isLiking, canLike, toggle } = usePostLike(post);
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  // Index of the image open full screen
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
 
   // Filter and validate images
   const validImages = React.useMemo(() => {
@@ -49,54 +64,28 @@ const PostCard: React.FC<PostCardProps> = ({
     });
   }, [post.images, failedImages]);
 
+  const lightboxImages = React.useMemo<LightboxImage[]>(
+    () =>
+      validImages.map((image, index) => ({
+        src: image,
+        thumbnail: thumbnailUrl(image, FEED_IMAGE_WIDTH),
+        alt: `Image ${index + 1} from post by ${post.randomName}`,
+      })),
+    [validImages, post.randomName]
+  );
+
+  const { hiddenLabel, reveal: revealImage } = useImageWarnings(post.imageWarnings);
+  // Warned images join the lightbox once they are shown
+  const viewableImages = lightboxImages.filter((image) => !hiddenLabel(image.src));
+
   const handleImageError = (imageUrl: string) => {
     setFailedImages(prev => new Set([...prev, imageUrl]));
   };
 
-  // Check if current user has liked this post
-  const userData = typeof window !== 'undefined' ? localStorage.getItem("user") : null;
-  const currentUser = userData ? JSON.parse(userData) : null;
-  const isLikedByUser = currentUser && localLikedBy.includes(currentUser.user_id);
-
-  const handleLike = async (e: React.MouseEvent) => {
+  const handleLike = (e: React.MouseEvent) => {
     e.stopPropagation();
-
-    if (isLiking) return;
-
-    setIsLiking(true);
-
-    try {
-      if (onLike) {
-        await onLike(post._id);
-      } else {
-        // Default like behavior
-        await likeGlobalPost(post._id);
-      }
-
-      // Update local state optimistically
-      if (isLikedByUser) {
-        setLocalLikes(prev => Math.max(0, prev - 1));
-        setLocalLikedBy(prev => prev.filter(id => id !== currentUser.user_id));
-      } else {
-        setLocalLikes(prev => prev + 1);
-        setLocalLikedBy(prev => [...prev, currentUser.user_id]);
-      }
-
-      toast({
-        title: isLikedByUser ? "Post unliked" : "Post liked",
-        description: isLikedByUser ? "You removed your like" : "You liked this post",
-        variant: "success",
-      });
-    } catch (error) {
-      console.error("Failed to like post:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update like. Please try again.",
-        variant: "error",
-      });
-    } finally {
-      setIsLiking(false);
-    }
+    // Clicks during a pending sync are queued by the like engine, not dropped
+    toggle();
   };
 
   const handleComment = (e: React.MouseEvent) => {
@@ -112,15 +101,18 @@ const PostCard: React.FC<PostCardProps> = ({
       onShare(post._id);
     } else {
       // Default share behavior
+      const url = postShareUrl(post);
       if (navigator.share) {
         navigator.share({
-          title: `Post by ${post.randomName}`,
-          text: post.content.substring(0, 100) + "...",
-          url: window.location.origin + `/dashboard/post/${post._id}`,
+          title: post.shareId ? `Post on ${SITE_NAME}` : `Post by ${post.randomName}`,
+          text: post.contentWarning
+            ? `Content warning: ${post.contentWarning}`
+            : toPlainText(post.content).substring(0, 100) + "...",
+          url,
         });
       } else {
         // Fallback: copy to clipboard
-        navigator.clipboard.writeText(window.location.origin + `/dashboard/post/${post._id}`);
+        navigator.clipboard.writeText(url);
         toast({
           title: "Link copied",
           description: "Post link copied to clipboard",
@@ -149,122 +141,174 @@ const PostCard: React.FC<PostCardProps> = ({
   };
 
   return (
-    <Card
-      className="cursor-pointer hover:shadow-md transition-shadow focus:outline-none focus:ring-2 focus:ring-primary"
-      onClick={handleCardClick}
-      role="article"
-      aria-label={`Post by ${post.randomName}`}
-      tabIndex={onClick ? 0 : -1}
-      onKeyDown={(e) => {
-        if ((e.key === 'Enter' || e.key === ' ') && onClick) {
-          e.preventDefault();
-          handleCardClick();
-        }
-      }}
-    >
-      <CardContent className="p-6">
-        {/* Post header */}
-        <header className="flex items-center justify-between mb-4">
-          <div className="flex items-center space-x-3">
-            {/* User avatar */}
-            <div
-              className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center transition-all duration-200 hover:bg-primary/20 hover:scale-110"
-              aria-hidden="true"
-            >
-              <span className="text-sm font-medium text-primary">
-                {post.randomName.charAt(0).toUpperCase()}
+    <>
+      <Card
+        className="cursor-pointer hover:shadow-md transition-shadow focus:outline-none focus:ring-2 focus:ring-primary"
+        onClick={handleCardClick}
+        role="article"
+        aria-label={`Post by ${post.randomName}`}
+        tabIndex={onClick ? 0 : -1}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && onClick) {
+            e.preventDefault();
+            handleCardClick();
+          }
+        }}
+      >
+        <CardContent className="p-6">
+          {/* Post header */}
+          <header className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              {/* User avatar */}
+              <div
+                className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center transition-all duration-200 hover:bg-primary/20 hover:scale-110"
+                aria-hidden="true"
+              >
+                <span className="text-sm font-medium text-primary">
+                  {post.randomName.charAt(0).toUpperCase()}
+                </span>
+              </div>
+              <span className="font-medium text-foreground">
+                {post.randomName}
               </span>
+              {post.category && <CategoryBadge category={post.category} />}
             </div>
-            <span className="font-medium text-foreground">
-              {post.randomName}
-            </span>
-          </div>
-          <div className="flex items-center space-x-1 text-sm text-muted-foreground">
-            <Clock className="h-4 w-4" aria-hidden="true" />
-            <time dateTime={post.createdAt}>
-              {formatTimeAgo(post.createdAt)}
-            </time>
-          </div>
-        </header>
+            <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+              <Clock className="h-4 w-4" aria-hidden="true" />
+              <time dateTime={post.createdAt}>
+                {formatTimeAgo(post.createdAt)}
+              </time>
+              {post.editedAt && (
+                <span title={`Edited ${new Date(post.editedAt).toLocaleString()}`}>
+                  · edited
+                </span>
+              )}
+            </div>
+          </header>
 
-        {/* Post content */}
-        <div className="mb-4">
-          <p className="text-foreground whitespace-pre-wrap break-words" role="main">
-            {post.content}
-          </p>
-        </div>
+          <ContentWarning label={post.contentWarning} className="mb-4">
+            {/* Post content */}
+            <div className="mb-4">
+              <div role="main">
+                <Markdown content={post.content} className="text-foreground" />
+              </div>
+              {post.poll && <PollView postId={post._id} poll={post.poll} className="mt-3" />}
+              {post.review && <ReviewView review={post.review} className="mt-3" />}
+              <TagChips tags={post.tags} className="mt-3" />
+            </div>
 
-        {/* Post images */}
-        {validImages.length > 0 && (
-          <div className="mb-4 space-y-2">
-            {validImages.map((image, index) => (
-              <div key={index} className="relative rounded-lg overflow-hidden bg-muted transition-all duration-200 hover:scale-[1.02]">
-                <img
-                  src={image}
-                  alt={`Image ${index + 1} from post by ${post.randomName}`}
-                  className="w-full max-h-64 sm:max-h-80 md:max-h-96 object-cover transition-all duration-200"
-                  loading="lazy"
-                  onError={() => handleImageError(image)}
-                />
+            {/* Post images */}
+            {validImages.length > 0 && (
+              <div className="mb-4 space-y-2">
+                {lightboxImages.map((image, index) => {
+                  const warning = hiddenLabel(image.src);
+                  return (
+                    <div key={index} className="relative rounded-lg overflow-hidden">
+                      <button
+                        type="button"
+                        className="relative block w-full rounded-lg overflow-hidden bg-muted transition-all duration-200 hover:scale-[1.02] cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setLightboxIndex(viewableImages.indexOf(image));
+                        }}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        tabIndex={warning ? -1 : undefined}
+                        aria-hidden={warning ? true : undefined}
+                        aria-label={`View image ${index + 1} of ${lightboxImages.length} full screen`}
+                      >
+                        <img
+                          src={image.thumbnail}
+                          alt={image.alt}
+                          className={cn(
+                            "w-full max-h-64 sm:max-h-80 md:max-h-96 object-cover transition-all duration-200",
+                            warning && "blur-xl scale-110"
+                          )}
+                          loading="lazy"
+                          onError={() => handleImageError(image.src)}
+                        />
+                      </button>
+                      {warning && (
+                        <ImageWarningOverlay label={warning} onReveal={() => revealImage(image.src)} />
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-            ))}
-          </div>
-        )}
-      </CardContent>
+            )}
+          </ContentWarning>
+        </CardContent>
 
-      <CardFooter className="px-6 py-4 pt-0">
-        <div className="flex items-center space-x-4">
-          {/* Like button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleLike}
-            disabled={isLiking}
-            className={`flex items-center space-x-1 sm:space-x-2 transition-all duration-200 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px] ${
-              isLikedByUser
-                ? "bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 text-white border-red-500 dark:border-red-600"
-                : "hover:bg-red-50 dark:hover:bg-red-950 hover:border-red-200 dark:hover:border-red-800 hover:text-red-600 dark:hover:text-red-400"
-            } ${isLiking ? "animate-pulse" : ""}`}
-            aria-label={`${isLikedByUser ? 'Unlike' : 'Like'} post by ${post.randomName}`}
-            aria-pressed={isLikedByUser}
-          >
-            <ThumbsUp
-              className={`h-3 w-3 sm:h-4 sm:w-4 ${
-                isLikedByUser ? "fill-white stroke-white text-white" : ""
+        <CardFooter className="px-6 py-4 pt-0">
+          <div className="flex items-center space-x-4">
+            {/* Like button */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleLike}
+              disabled={!canLike}
+              className={`flex items-center space-x-1 sm:space-x-2 transition-all duration-200 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px] ${
+                isLikedByUser
+                  ? "bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 text-white border-red-500 dark:border-red-600"
+                  : "hover:bg-red-50 dark:hover:bg-red-950 hover:border-red-200 dark:hover:border-red-800 hover:text-red-600 dark:hover:text-red-400"
               } ${isLiking ? "animate-pulse" : ""}`}
-              aria-hidden="true"
-            />
-            <span>{localLikes}</span>
-          </Button>
+              aria-label={`${isLikedByUser ? 'Unlike' : 'Like'} post by ${post.randomName}`}
+              aria-pressed={isLikedByUser}
+            >
+              <ThumbsUp
+                className={`h-3 w-3 sm:h-4 sm:w-4 ${
+                  isLikedByUser ? "fill-white stroke-white text-white" : ""
+                } ${isLiking ? "animate-pulse" : ""}`}
+                aria-hidden="true"
+              />
+              <span>{likes}</span>
+            </Button>
 
-          {/* Comment button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleComment}
-            className={`flex items-center space-x-1 relative text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px] ${
-              !onComment ? "opacity-75" : ""
-            }`}
-            aria-label={`Comment on post by ${post.randomName}`}
-          >
-            <MessageCircle className="h-3 w-3 sm:h-4 sm:w-4" aria-hidden="true" />
-            <span>{post.commentsCount || 0}</span>
-          </Button>
+            {/* Comment button */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleComment}
+              className={`flex items-center space-x-1 relative text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px] ${
+                !onComment ? "opacity-75" : ""
+              }`}
+              aria-label={`Comment on post by ${post.randomName}`}
+            >
+              <MessageCircle className="h-3 w-3 sm:h-4 sm:w-4" aria-hidden="true" />
+              <span>{post.commentsCount || 0}</span>
+            </Button>
 
-          {/* Share button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleShare}
-            className="flex items-center space-x-1 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px]"
-            aria-label="Share post"
-          >
-            <Share2 className="h-3 w-3 sm:h-4 sm:w-4" aria-hidden="true" />
-            <span className="hidden xs:inline">Share</span>
-          </Button>
-        </div>
-      </CardFooter>
-    </Card>
+            {/* Share button */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleShare}
+              className="flex items-center space-x-1 text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px]"
+              aria-label="Share post"
+            >
+              <Share2 className="h-3 w-3 sm:h-4 sm:w-4" aria-hidden="true" />
+              <span className="hidden xs:inline">Share</span>
+            </Button>
+
+            {/* Save button */}
+            <BookmarkButton
+              postId={post._id}
+              className="text-xs sm:text-sm px-2 sm:px-3 py-1 sm:py-2 min-h-[44px] min-w-[44px]"
+              iconClassName="h-3 w-3 sm:h-4 sm:w-4"
+            />
+          </div>
+        </CardFooter>
+      </Card>
+      {/* Outside the card: events from the lightbox would otherwise reach its click handler */}
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={viewableImages}
+          startIndex={lightboxIndex}
+          open
+          onOpenChange={(open) => !open && setLightboxIndex(null)}
+          title={`Images from post by ${post.randomName}`}
+        />
+      )}
+    </>
   );
 };
 
@@ -1,23 +1,54 @@
 "use client";
 
 import React, { useState } from "react";
-import { MessageCircle, Share2, Clock, Image as ImageIcon } from "lucide-react";
+import { MessageCircle, Share2, Clock, Pencil, Globe, Image as ImageIcon } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { GlobalPost, likeGlobalPost } from "@/lib/api";
+import { GlobalPostDetail, PostComment } from "@/lib/api";
+import { usePostLike } from "@/hooks/usePostLike";
+import { currentUserId } from "@/lib/outbox";
 import { cn } from "@/lib/utils";
 import { ThumbsUp } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
+import { Markdown } from "@/components/markdown";
+import { ImageLightbox, type LightboxImage } from "@/components/images";
+import { ContentWarning, ImageWarningOverlay } from "@/components/content-warnings";
+import { useImageWarnings } from "@/hooks/useContentWarnings";
+import { thumbnailUrl } from "@/lib/imageUrls";
+import { toPlainText } from "@/lib/markdown";
+import { SITE_NAME, postShareUrl } from "@/lib/sharing";
+import BookmarkButton from "./BookmarkButton";
+import CategoryBadge from "./CategoryBadge";
+import CommentSection from "./CommentSection";
+import PollView from "./PollView";
+import ReviewView from "./ReviewView";
+import TagChips from "./TagChips";
+import EditPostDialog, { isPostEditable } from "./EditPostDialog";
+import PostRevisionHistory from "./PostRevisionHistory";
+import ShareLinkDialog from "./ShareLinkDialog";
+
+// Widths the images are loaded at: alone, or two to a row
+const SINGLE_IMAGE_WIDTH = 1600;
+const GRID_IMAGE_WIDTH = 800;
 
 interface PostDetailProps {
-  post: GlobalPost;
-  onPostUpdate?: (updatedPost: GlobalPost) => void;
+  post: GlobalPostDetail;
 }
 
-const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
-  const [isLiking, setIsLiking] = useState(false);
-  const [localPost, setLocalPost] = useState(post);
+const PostDetail: React.FC<PostDetailProps> = ({ post: initialPost }) => {
+  const [post, setPost] = useState(initialPost);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShareLink, setShowShareLink] = useState(false);
+  const isAuthor = post.user_id === currentUserId();
+  const canEdit = isAuthor && isPostEditable(post);
+  const { likes, liked: isLikedByUser, pending: isLiking, canLike, toggle } = usePostLike(post);
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  // Index of the image open full screen
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [comments, setComments] = useState<PostComment[]>(post.comments);
+  // Placeholders kept for deleted comments with replies are not counted
+  const commentsCount = comments.filter((comment) => !comment.deletedAt).length;
 
   const handleImageError = (imageUrl: string) => {
     setFailedImages(prev => new Set([...prev, imageUrl]));
@@ -25,83 +56,44 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
 
   // Filter valid images
   const validImages = React.useMemo(() => {
-    if (!localPost.images || !Array.isArray(localPost.images)) return [];
+    if (!post.images || !Array.isArray(post.images)) return [];
 
-    return localPost.images.filter(img => {
+    return post.images.filter(img => {
       if (!img || typeof img !== 'string' || !img.trim()) return false;
       if (failedImages.has(img)) return false;
       return true;
     });
-  }, [localPost.images, failedImages]);
-
-  // Get current user ID from localStorage
-  const getCurrentUserId = () => {
-    try {
-      const token = localStorage.getItem("token");
-      if (!token) return null;
-
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      return payload.user_id || payload.id;
-    } catch {
-      return null;
-    }
-  };
-
-  const currentUserId = getCurrentUserId();
-  const isLikedByUser = currentUserId ? localPost.likedBy.includes(currentUserId) : false;
-
-  const handleLike = async () => {
-    if (isLiking || !currentUserId) return;
+  }, [post.images, failedImages]);
 
-    setIsLiking(true);
-    const wasLiked = isLikedByUser;
+  const lightboxImages = React.useMemo<LightboxImage[]>(() => {
+    const width = validImages.length === 1 ? SINGLE_IMAGE_WIDTH : GRID_IMAGE_WIDTH;
+    return validImages.map((image, index) => ({
+      src: image,
+      thumbnail: thumbnailUrl(image, width),
+      alt: validImages.length === 1 ? "Post image" : `Post image ${index + 1}`,
+    }));
+  }, [validImages]);
 
-    try {
-      const response = await likeGlobalPost(localPost._id);
-
-      // Update likedBy array locally since backend doesn't return it
-      let updatedLikedBy = [...localPost.likedBy];
-      if (currentUserId) {
-        if (isLikedByUser) {
-          updatedLikedBy = updatedLikedBy.filter(id => id !== currentUserId);
-        } else {
-          updatedLikedBy = [...updatedLikedBy, currentUserId];
-        }
-      }
+  const { hiddenLabel, reveal: revealImage } = useImageWarnings(post.imageWarnings);
+  // Warned images join the lightbox once they are shown
+  const viewableImages = lightboxImages.filter((image) => !hiddenLabel(image.src));
+  const singleImageWarning = lightboxImages.length === 1 ? hiddenLabel(lightboxImages[0].src) : null;
 
-      const updatedPost = {
-        ...localPost,
-        likes: response.likes,
-        likedBy: updatedLikedBy
-      };
-      setLocalPost(updatedPost);
-      onPostUpdate?.(updatedPost);
-
-      // Show success toast
-      toast({
-        title: wasLiked ? "Post Unliked" : "Post Liked",
-        description: wasLiked ? "You removed your like from this post" : "You liked this post",
-        variant: wasLiked ? "info" : "success",
-      });
-    } catch (error) {
-      // Show error toast
-      toast({
-        title: "Action Failed",
-        description: "Failed to update like. Please try again.",
-        variant: "error",
-      });
-    } finally {
-      setIsLiking(false);
-    }
+  // Clicks during a pending sync are queued by the like engine, not dropped
+  const handleLike = () => {
+    toggle();
   };
 
   const handleShare = async () => {
+    // The public link while it is on; otherwise this page, for signed-in readers
+    const url = postShareUrl(post);
     try {
       if (navigator.share) {
         await navigator.share({
-          title: `Post by ${localPost.randomName}`,
-          text: localPost.content,
-          url: window.location.href,
+          // Public readers never see the pseudonym, so the share text leaves it out too
+          title: post.shareId ? `Post on ${SITE_NAME}` : `Post by ${post.randomName}`,
+          text: post.contentWarning ? `Content warning: ${post.contentWarning}` : toPlainText(post.content),
+          url,
         });
 
         toast({
@@ -110,7 +102,7 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
           variant: "success",
         });
       } else {
-        await navigator.clipboard.writeText(window.location.href);
+        await navigator.clipboard.writeText(url);
 
         toast({
           title: "Link Copied",
@@ -157,67 +149,122 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
             <div className="flex items-center space-x-3">
               <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
                 <span className="text-lg font-medium text-primary">
-                  {localPost.randomName.charAt(0).toUpperCase()}
+                  {post.randomName.charAt(0).toUpperCase()}
                 </span>
               </div>
               <div>
                 <h3 className="font-semibold text-foreground">
-                  {localPost.randomName}
+                  {post.randomName}
                 </h3>
                 <div className="flex items-center space-x-1 text-sm text-muted-foreground">
                   <Clock className="h-3 w-3" />
-                  <span title={formatFullDate(localPost.createdAt)}>
-                    {formatTimeAgo(localPost.createdAt)}
+                  <span title={formatFullDate(post.createdAt)}>
+                    {formatTimeAgo(post.createdAt)}
                   </span>
+                  {post.editedAt && (
+                    <button
+                      type="button"
+                      onClick={() => setShowHistory(true)}
+                      className="hover:underline underline-offset-2"
+                      title={`Edited ${formatFullDate(post.editedAt)}. Show edit history`}
+                    >
+                      · edited
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
+            {post.category && <CategoryBadge category={post.category} />}
           </div>
         </CardHeader>
 
-        <CardContent className="space-y-4">
-          {/* Post content */}
-          <div>
-            <p className="text-foreground whitespace-pre-wrap break-words text-base leading-relaxed">
-              {localPost.content}
-            </p>
-          </div>
+        <CardContent>
+          <ContentWarning label={post.contentWarning}>
+            <div className="space-y-4">
+              {/* Post content */}
+              <div>
+                <Markdown content={post.content} className="text-foreground text-base leading-relaxed" />
+                {post.poll && <PollView postId={post._id} poll={post.poll} className="mt-4" />}
+                {post.review && <ReviewView review={post.review} className="mt-4" />}
+                <TagChips tags={post.tags} className="mt-3" />
+              </div>
 
-          {/* Images */}
-          {validImages.length > 0 && (
-            <div>
-              {validImages.length === 1 ? (
-                <div className="relative rounded-lg overflow-hidden bg-muted">
-                  <img
-                    src={validImages[0]}
-                    alt="Post image"
-                    className="w-full max-h-[500px] object-contain"
-                    onError={() => handleImageError(validImages[0])}
-                  />
-                  <div className="hidden flex items-center justify-center h-32 text-muted-foreground">
-                    <ImageIcon className="h-8 w-8" />
-                    <span className="ml-2">Image unavailable</span>
-                  </div>
-                </div>
-              ) : (
-                <div className="grid grid-cols-2 gap-2">
-                  {validImages.map((image, index) => (
-                    <div key={`${localPost._id}-detail-img-${index}`} className="relative rounded-lg overflow-hidden bg-muted aspect-square">
-                      <img
-                        src={image}
-                        alt={`Post image ${index + 1}`}
-                        className="w-full h-full object-cover cursor-pointer hover:opacity-90 transition-opacity"
-                        onError={() => handleImageError(image)}
-                      />
-                      <div className="hidden flex items-center justify-center h-full text-muted-foreground">
-                        <ImageIcon className="h-6 w-6" />
-                      </div>
+              {/* Images */}
+              {validImages.length > 0 && (
+                <div>
+                  {lightboxImages.length === 1 ? (
+                    <div className="relative rounded-lg overflow-hidden">
+                      <button
+                        type="button"
+                        className="relative block w-full rounded-lg overflow-hidden bg-muted cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                        onClick={() => setLightboxIndex(0)}
+                        tabIndex={singleImageWarning ? -1 : undefined}
+                        aria-hidden={singleImageWarning ? true : undefined}
+                        aria-label="View image full screen"
+                      >
+                        <img
+                          src={lightboxImages[0].thumbnail}
+                          alt={lightboxImages[0].alt}
+                          className={cn(
+                            "w-full max-h-[500px] object-contain",
+                            singleImageWarning && "blur-xl scale-110"
+                          )}
+                          onError={() => handleImageError(lightboxImages[0].src)}
+                        />
+                        <span className="hidden flex items-center justify-center h-32 text-muted-foreground">
+                          <ImageIcon className="h-8 w-8" />
+                          <span className="ml-2">Image unavailable</span>
+                        </span>
+                      </button>
+                      {singleImageWarning && (
+                        <ImageWarningOverlay
+                          label={singleImageWarning}
+                          onReveal={() => revealImage(lightboxImages[0].src)}
+                        />
+                      )}
                     </div>
-                  ))}
+                  ) : (
+                    <div className="grid grid-cols-2 gap-2">
+                      {lightboxImages.map((image, index) => {
+                        const warning = hiddenLabel(image.src);
+                        return (
+                          <div
+                            key={`${post._id}-detail-img-${index}`}
+                            className="relative rounded-lg overflow-hidden aspect-square"
+                          >
+                            <button
+                              type="button"
+                              className="relative w-full h-full rounded-lg overflow-hidden bg-muted cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                              onClick={() => setLightboxIndex(viewableImages.indexOf(image))}
+                              tabIndex={warning ? -1 : undefined}
+                              aria-hidden={warning ? true : undefined}
+                              aria-label={`View image ${index + 1} of ${lightboxImages.length} full screen`}
+                            >
+                              <img
+                                src={image.thumbnail}
+                                alt={image.alt}
+                                className={cn(
+                                  "w-full h-full object-cover hover:opacity-90 transition-opacity",
+                                  warning && "blur-xl scale-110"
+                                )}
+                                onError={() => handleImageError(image.src)}
+                              />
+                              <span className="hidden flex items-center justify-center h-full text-muted-foreground">
+                                <ImageIcon className="h-6 w-6" />
+                              </span>
+                            </button>
+                            {warning && (
+                              <ImageWarningOverlay label={warning} onReveal={() => revealImage(image.src)} />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
-          )}
+          </ContentWarning>
         </CardContent>
 
         <CardFooter>
@@ -227,7 +274,7 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
                 variant={isLikedByUser ? "default" : "outline"}
                 size="sm"
                 onClick={handleLike}
-                disabled={isLiking}
+                disabled={!canLike}
                 className={cn(
                   "flex items-center space-x-2 transition-all duration-200",
                   isLikedByUser
@@ -242,7 +289,7 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
                     isLikedByUser ? "fill-white stroke-white text-white" : ""
                   )}
                 />
-                <span className="font-medium">{localPost.likes}</span>
+                <span className="font-medium">{likes}</span>
               </Button>
 
               <Button
@@ -251,7 +298,7 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
                 className="flex items-center space-x-2"
               >
                 <MessageCircle className="h-4 w-4" />
-                <span>{localPost.commentsCount || 0}</span>
+                <span>{commentsCount}</span>
               </Button>
 
               <Button
@@ -263,6 +310,35 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
                 <Share2 className="h-4 w-4" />
                 <span>Share</span>
               </Button>
+
+              <BookmarkButton postId={post._id} variant="outline" showLabel />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {isAuthor && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowShareLink(true)}
+                  className="flex items-center space-x-2"
+                  title={post.shareId ? "Anyone with the link can read this post" : "Make a public link"}
+                >
+                  <Globe className={cn("h-4 w-4", post.shareId && "text-primary")} />
+                  <span>{post.shareId ? "Public" : "Public link"}</span>
+                </Button>
+              )}
+
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsEditing(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <Pencil className="h-4 w-4" />
+                  <span>Edit</span>
+                </Button>
+              )}
             </div>
           </div>
         </CardFooter>
@@ -272,22 +348,51 @@ const PostDetail: React.FC<PostDetailProps> = ({ post, onPostUpdate }) => {
       <Card>
         <CardHeader>
           <h3 className="text-lg font-semibold">
-            Comments ({localPost.commentsCount || 0})
+            Comments ({commentsCount})
           </h3>
         </CardHeader>
 
         <CardContent>
-          <div className="text-center py-8">
-            <MessageCircle className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
-            <h4 className="text-sm font-medium text-foreground mb-1">
-              Comments coming soon
-            </h4>
-            <p className="text-sm text-muted-foreground">
-              We&apos;re working on bringing you the ability to comment and engage with posts. Stay tuned!
-            </p>
-          </div>
+          <CommentSection
+            postId={post._id}
+            comments={comments}
+            onCommentsChange={setComments}
+          />
         </CardContent>
       </Card>
+
+      {isEditing && (
+        <EditPostDialog
+          post={post}
+          open={isEditing}
+          onOpenChange={setIsEditing}
+          onSaved={setPost}
+        />
+      )}
+
+      {isAuthor && (
+        <ShareLinkDialog
+          postId={post._id}
+          shareId={post.shareId}
+          open={showShareLink}
+          onOpenChange={setShowShareLink}
+          onChange={(shareId) => setPost((prev) => ({ ...prev, shareId }))}
+        />
+      )}
+
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={viewableImages}
+          startIndex={lightboxIndex}
+          open
+          onOpenChange={(open) => !open && setLightboxIndex(null)}
+          title={`Images from post by ${post.randomName}`}
+        />
+      )}
+
+      {post.editedAt && (
+        <PostRevisionHistory post={post} open={showHistory} onOpenChange={setShowHistory} />
+      )}
     </div>
   );
 };
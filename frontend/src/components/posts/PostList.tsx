@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useRef } from "react";
 import PostCard from "./PostCard";
 import { GlobalPost } from "@/lib/api";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,13 +11,15 @@ interface PostListProps {
   posts: GlobalPost[];
   loading?: boolean;
   error?: string | null;
-  onPostLike?: (postId: string) => Promise<void>;
   onPostComment?: (postId: string) => void;
   onPostShare?: (postId: string) => void;
   onPostClick?: (postId: string) => void;
   onLoadMore?: () => void;
   hasMore?: boolean;
   loadingMore?: boolean;
+  /** Load the next page automatically when the end of the list scrolls into view */
+  infiniteScroll?: boolean;
+  emptyMessage?: string;
 }
 
 const PostListSkeleton: React.FC<{ count?: number }> = ({ count = 3 }) => (
@@ -60,17 +62,50 @@ const EmptyState: React.FC<{ message?: string }> = ({
   </div>
 );
 
+// Invisible marker after the last post; calls onVisible as it nears the viewport
+const LoadMoreSentinel: React.FC<{ onVisible: () => void; disabled: boolean }> = ({
+  onVisible,
+  disabled,
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onVisibleRef = useRef(onVisible);
+
+  useEffect(() => {
+    onVisibleRef.current = onVisible;
+  }, [onVisible]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || disabled) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onVisibleRef.current();
+        }
+      },
+      { rootMargin: "400px 0px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [disabled]);
+
+  return <div ref={sentinelRef} aria-hidden="true" className="h-px" />;
+};
+
 const PostList: React.FC<PostListProps> = ({
   posts,
   loading = false,
   error = null,
-  onPostLike,
   onPostComment,
   onPostShare,
   onPostClick,
   onLoadMore,
   hasMore = false,
   loadingMore = false,
+  infiniteScroll = false,
+  emptyMessage,
 }) => {
   if (loading && posts.length === 0) {
     return <PostListSkeleton />;
@@ -88,7 +123,7 @@ const PostList: React.FC<PostListProps> = ({
   }
 
   if (!loading && posts.length === 0) {
-    return <EmptyState />;
+    return <EmptyState message={emptyMessage} />;
   }
 
   return (
@@ -97,15 +132,19 @@ const PostList: React.FC<PostListProps> = ({
         <PostCard
           key={post._id}
           post={post}
-          onLike={onPostLike}
           onComment={onPostComment}
           onShare={onPostShare}
           onClick={onPostClick}
         />
       ))}
 
+      {/* Infinite Scroll Sentinel */}
+      {hasMore && infiniteScroll && onLoadMore && (
+        <LoadMoreSentinel onVisible={onLoadMore} disabled={loadingMore} />
+      )}
+
       {/* Load More Button */}
-      {hasMore && (
+      {hasMore && !infiniteScroll && (
         <div className="flex justify-center pt-6">
           <button
             onClick={onLoadMore}
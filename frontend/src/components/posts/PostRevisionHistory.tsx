@@ -0,0 +1,133 @@
+"use client";
+
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { GlobalPostDetail, ImageWarning } from "@/lib/api";
+import { Markdown } from "@/components/markdown";
+import { ContentWarning, ImageWarningOverlay } from "@/components/content-warnings";
+import { useImageWarnings } from "@/hooks/useContentWarnings";
+import { cn } from "@/lib/utils";
+
+interface PostRevisionHistoryProps {
+  post: GlobalPostDetail;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Version {
+  label: string;
+  content: string;
+  images: string[];
+  contentWarning: string | null;
+  imageWarnings: ImageWarning[];
+  /** When this version went live */
+  since: string;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString([], {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/**
+ * Every version of an edited post, newest first. A revision stores the
+ * version that an edit replaced, so each version went live when the one
+ * before it was replaced.
+ */
+function listVersions(post: GlobalPostDetail): Version[] {
+  const { revisions } = post;
+  const versions: Version[] = revisions.map((revision, index) => ({
+    label: index === 0 ? "Original" : `Edit ${index}`,
+    content: revision.content,
+    images: revision.images,
+    contentWarning: revision.contentWarning,
+    imageWarnings: revision.imageWarnings,
+    since: index === 0 ? post.createdAt : revisions[index - 1].editedAt,
+  }));
+
+  versions.push({
+    label: "Current",
+    content: post.content,
+    images: post.images,
+    contentWarning: post.contentWarning,
+    imageWarnings: post.imageWarnings,
+    since: post.editedAt ?? post.createdAt,
+  });
+
+  return versions.reverse();
+}
+
+const PostRevisionHistory: React.FC<PostRevisionHistoryProps> = ({
+  post,
+  open,
+  onOpenChange,
+}) => {
+  const versions = listVersions(post);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            {post.revisions.length === 1
+              ? "This post was edited once."
+              : `This post was edited ${post.revisions.length} times.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ol className="space-y-4">
+          {versions.map((version) => (
+            <VersionItem key={version.since + version.label} version={version} />
+          ))}
+        </ol>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Each version keeps the warnings it had, so an old version is hidden too
+const VersionItem: React.FC<{ version: Version }> = ({ version }) => {
+  const { hiddenLabel, reveal } = useImageWarnings(version.imageWarnings);
+
+  return (
+    <li className="rounded-lg border p-4 space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{version.label}</span>
+        <time dateTime={version.since}>{formatDate(version.since)}</time>
+      </div>
+      <ContentWarning label={version.contentWarning}>
+        <Markdown content={version.content} className="text-sm text-foreground" />
+        {version.images.length > 0 && (
+          <div className="grid grid-cols-4 gap-2 mt-2">
+            {version.images.map((image, index) => {
+              const warning = hiddenLabel(image);
+              return (
+                <div key={`${image}-${index}`} className="relative rounded overflow-hidden">
+                  <img
+                    src={image}
+                    alt={`Image ${index + 1} of this version`}
+                    className={cn("w-full aspect-square object-cover rounded", warning && "blur-xl scale-110")}
+                    loading="lazy"
+                  />
+                  {warning && (
+                    <ImageWarningOverlay label={warning} onReveal={() => reveal(image)} compact />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ContentWarning>
+    </li>
+  );
+};
+
+export default PostRevisionHistory;
@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { StarRating } from "@/components/reviews";
+import { Review } from "@/lib/api";
+import { REVIEW_SUBJECT_INFO, dimensionLabel, formatScore, reviewEntityHref } from "@/lib/reviews";
+import { cn } from "@/lib/utils";
+
+interface ReviewViewProps {
+  review: Review;
+  className?: string;
+}
+
+// What a review post rates and its scores. The name opens the entity's page;
+// clicks stay out of the card around it
+const ReviewView: React.FC<ReviewViewProps> = ({ review, className }) => {
+  return (
+    <div className={cn("rounded-lg border p-4 space-y-3", className)} role="group" aria-label="Review">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Link
+          href={reviewEntityHref(review.subject, review.entity)}
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+          className="font-medium text-primary hover:underline break-words"
+        >
+          <span className="text-muted-foreground font-normal">
+            {REVIEW_SUBJECT_INFO[review.subject].label}:{" "}
+          </span>
+          {review.entityName}
+        </Link>
+        <span className="flex items-center gap-1.5 text-sm">
+          <StarRating value={review.overall} label="Overall rating" />
+          <span className="font-medium tabular-nums">{formatScore(review.overall)}</span>
+        </span>
+      </div>
+      <ul className="grid gap-x-6 gap-y-1 sm:grid-cols-2">
+        {review.ratings.map(({ dimension, score }) => {
+          const label = dimensionLabel(review.subject, dimension);
+          return (
+            <li key={dimension} className="flex items-center justify-between gap-3 text-sm">
+              <span className="text-muted-foreground">{label}</span>
+              <StarRating value={score} label={label} />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ReviewView;
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useState } from "react";
+import { BarChart3, Clock, Image as ImageIcon, PenLine, Shuffle, Trash2, TriangleAlert } from "lucide-react";
+import { Card, CardContent, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ScheduledPost } from "@/lib/api";
+import { CATEGORY_INFO } from "@/lib/categories";
+import { toPlainText } from "@/lib/markdown";
+import { formatPublishTime } from "@/lib/scheduling";
+
+interface ScheduledPostCardProps {
+  scheduledPost: ScheduledPost;
+  onEdit: (scheduledPostId: string) => void;
+  onCancel: (scheduledPostId: string) => Promise<void>;
+}
+
+const ScheduledPostCard: React.FC<ScheduledPostCardProps> = ({
+  scheduledPost,
+  onEdit,
+  onCancel,
+}) => {
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const pollOptions = scheduledPost.poll?.options.length ?? 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-3">
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-muted-foreground">
+          <span className="flex items-center gap-1 font-medium text-foreground">
+            {scheduledPost.randomDelay ? (
+              <Shuffle className="h-3.5 w-3.5" aria-hidden="true" />
+            ) : (
+              <Clock className="h-3.5 w-3.5" aria-hidden="true" />
+            )}
+            <time dateTime={scheduledPost.publishAt}>
+              {formatPublishTime(scheduledPost.publishAt)}
+            </time>
+          </span>
+          {scheduledPost.randomDelay && <span>· Random time</span>}
+          <span>· {CATEGORY_INFO[scheduledPost.category].label}</span>
+          {scheduledPost.contentWarning && (
+            <span className="flex items-center gap-1">
+              · <TriangleAlert className="h-3.5 w-3.5 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+              {scheduledPost.contentWarning}
+            </span>
+          )}
+        </div>
+
+        <p className="text-foreground whitespace-pre-wrap break-words line-clamp-4">
+          {toPlainText(scheduledPost.content).trim()}
+        </p>
+
+        {(scheduledPost.images.length > 0 || pollOptions > 0) && (
+          <div className="flex items-center gap-4 text-xs text-muted-foreground">
+            {scheduledPost.images.length > 0 && (
+              <span className="flex items-center gap-1">
+                <ImageIcon className="h-3.5 w-3.5" aria-hidden="true" />
+                {scheduledPost.images.length} {scheduledPost.images.length === 1 ? "image" : "images"}
+                {scheduledPost.imageWarnings.length > 0 &&
+                  `, ${scheduledPost.imageWarnings.length} with a content warning`}
+              </span>
+            )}
+            {pollOptions > 0 && (
+              <span className="flex items-center gap-1">
+                <BarChart3 className="h-3.5 w-3.5" aria-hidden="true" />
+                Poll with {pollOptions} options
+              </span>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setShowCancelDialog(true)}>
+          <Trash2 className="h-4 w-4 mr-2" aria-hidden="true" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => onEdit(scheduledPost._id)}>
+          <PenLine className="h-4 w-4 mr-2" aria-hidden="true" />
+          Edit
+        </Button>
+      </CardFooter>
+
+      <AlertDialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Scheduled Post</AlertDialogTitle>
+            <AlertDialogDescription>
+              This post will not be published and its content will be removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep it</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onCancel(scheduledPost._id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancel post
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ScheduledPostCard;
@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState } from "react";
+import { Check, Copy, Globe, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/components/ui/use-toast";
+import { createShareLink, revokeShareLink } from "@/lib/api";
+import { parseError } from "@/lib/errorHandler";
+import { postShareUrl } from "@/lib/sharing";
+
+interface ShareLinkDialogProps {
+  postId: string;
+  shareId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The post's new shareId, or null once the link is off */
+  onChange: (shareId: string | null) => void;
+}
+
+// Lets the author turn the post's public link on or off, and copy it
+const ShareLinkDialog: React.FC<ShareLinkDialogProps> = ({
+  postId,
+  shareId,
+  open,
+  onOpenChange,
+  onChange,
+}) => {
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const url = shareId ? postShareUrl({ _id: postId, shareId }) : null;
+
+  const handleToggle = async (enabled: boolean) => {
+    setSaving(true);
+    try {
+      if (enabled) {
+        const response = await createShareLink(postId);
+        onChange(response.shareId);
+      } else {
+        await revokeShareLink(postId);
+        onChange(null);
+        setCopied(false);
+      }
+    } catch (error) {
+      console.error("Failed to change share link:", error);
+      toast({
+        title: enabled ? "Link Not Created" : "Link Still On",
+        description: parseError(error).message,
+        variant: "error",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      toast({
+        title: "Link Copied",
+        description: "Public link copied to clipboard",
+        variant: "success",
+      });
+    } catch (error) {
+      console.error("Failed to copy share link:", error);
+      toast({
+        title: "Copy Failed",
+        description: "Select the link and copy it yourself.",
+        variant: "error",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5" aria-hidden="true" />
+            Public link
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read this post and see its preview, without signing in.
+            Your name and the comments stay hidden unless they sign in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+          <Label htmlFor={`share-${postId}`} className="cursor-pointer">
+            {shareId ? "Link is on" : "Link is off"}
+          </Label>
+          <div className="flex items-center gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />}
+            <Switch
+              id={`share-${postId}`}
+              checked={shareId !== null}
+              onCheckedChange={handleToggle}
+              disabled={saving}
+            />
+          </div>
+        </div>
+
+        {url && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={url}
+                readOnly
+                onFocus={(e) => e.currentTarget.select()}
+                aria-label="Public link"
+              />
+              <Button type="button" variant="outline" onClick={handleCopy} className="flex-shrink-0">
+                {copied ? (
+                  <Check className="h-4 w-4" aria-hidden="true" />
+                ) : (
+                  <Copy className="h-4 w-4" aria-hidden="true" />
+                )}
+                <span className="ml-2">Copy</span>
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Turning the link off breaks it for everyone. Turning it on again makes a new one.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareLinkDialog;
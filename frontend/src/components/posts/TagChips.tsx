@@ -0,0 +1,35 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { tagHref } from "@/lib/hashtags";
+import { cn } from "@/lib/utils";
+
+interface TagChipsProps {
+  tags: string[];
+  className?: string;
+}
+
+// Each chip opens the tag's feed; clicks stay out of the card around it
+const TagChips: React.FC<TagChipsProps> = ({ tags, className }) => {
+  if (tags.length === 0) return null;
+
+  return (
+    <ul className={cn("flex flex-wrap gap-2", className)} aria-label="Hashtags">
+      {tags.map((tag) => (
+        <li key={tag}>
+          <Link
+            href={tagHref(tag)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            className="inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-medium text-primary hover:bg-primary/10 transition-colors"
+          >
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TagChips;
@@ -9,23 +9,22 @@ import { cn } from "@/lib/utils";
 interface UserPostCardProps {
   post: GlobalPost;
   onView?: (postId: string) => void;
+  onEdit?: (postId: string) => void;
   onDelete?: (postId: string) => Promise<void>;
-  onLike?: (postId: string) => Promise<void>;
   className?: string;
 }
 
 const UserPostCard: React.FC<UserPostCardProps> = ({
   post,
   onView,
+  onEdit,
   onDelete,
-  onLike,
   className,
 }) => {
   return (
     <div className={cn("relative", className)}>
       <PostCard
         post={post}
-        onLike={onLike}
         onClick={onView}
       />
 
@@ -34,6 +33,7 @@ const UserPostCard: React.FC<UserPostCardProps> = ({
         <PostActions
           postId={post._id}
           onView={onView}
+          onEdit={onEdit}
           onDelete={onDelete}
         />
       </div>
@@ -3,3 +3,15 @@ export { default as PostList } from "./PostList";
 export { default as CreatePost } from "./CreatePost";
 export { default as PostDetail } from "./PostDetail";
 export { default as PostActions } from "./PostActions";
+export { default as CommentSection } from "./CommentSection";
+export { default as CategoryBadge } from "./CategoryBadge";
+export { default as TagChips } from "./TagChips";
+export { default as PollView } from "./PollView";
+export { default as ReviewView } from "./ReviewView";
+export { default as BookmarkButton } from "./BookmarkButton";
+export { default as EditPostDialog } from "./EditPostDialog";
+export { default as PostRevisionHistory } from "./PostRevisionHistory";
+export { default as DraftCard } from "./DraftCard";
+export { default as ScheduledPostCard } from "./ScheduledPostCard";
+export { default as EditScheduledPostDialog } from "./EditScheduledPostDialog";
+export { default as ShareLinkDialog } from "./ShareLinkDialog";
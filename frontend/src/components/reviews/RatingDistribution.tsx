@@ -0,0 +1,46 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+
+interface RatingDistributionProps {
+  /** Reviews per star, index 0 being 1 star */
+  distribution: number[];
+  className?: string;
+}
+
+// One bar per star, 5 at the top, sized against the total
+const RatingDistribution: React.FC<RatingDistributionProps> = ({ distribution, className }) => {
+  const total = distribution.reduce((sum, count) => sum + count, 0);
+
+  return (
+    <ul className={cn("space-y-1", className)} aria-label="Rating distribution">
+      {[5, 4, 3, 2, 1].map((star) => {
+        const count = distribution[star - 1] ?? 0;
+        const percent = total > 0 ? Math.round((count / total) * 100) : 0;
+        return (
+          <li
+            key={star}
+            className="flex items-center gap-2 text-xs"
+            aria-label={`${star} ${star === 1 ? "star" : "stars"}: ${count} ${count === 1 ? "review" : "reviews"}`}
+          >
+            <span className="w-3 tabular-nums text-muted-foreground" aria-hidden="true">
+              {star}
+            </span>
+            <div className="relative h-2 flex-1 overflow-hidden rounded-full bg-muted" aria-hidden="true">
+              <div
+                className="absolute inset-y-0 left-0 rounded-full bg-amber-400"
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <span className="w-8 text-right tabular-nums text-muted-foreground" aria-hidden="true">
+              {count}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RatingDistribution;
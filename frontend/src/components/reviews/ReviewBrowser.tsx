@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState } from "react";
+import { AlertCircle, Search, Star } from "lucide-react";
+import Posts from "@/components/dashboard/Posts";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useReviewEntities } from "@/hooks/useReviewEntities";
+import { REVIEW_SUBJECTS, REVIEW_SUBJECT_INFO, isReviewSubject } from "@/lib/reviews";
+import ReviewEntityCard from "./ReviewEntityCard";
+
+const ALL_SUBJECTS = "all";
+
+// The Reviews page: what has been reviewed, by kind and name, over the latest reviews
+const ReviewBrowser: React.FC = () => {
+  const [tab, setTab] = useState<string>(ALL_SUBJECTS);
+  const [query, setQuery] = useState("");
+  const subject = isReviewSubject(tab) ? tab : undefined;
+  const { entities, loading, error } = useReviewEntities(subject, query);
+
+  const kindLabel = subject ? REVIEW_SUBJECT_INFO[subject].pluralLabel.toLowerCase() : "reviews";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value={ALL_SUBJECTS}>All</TabsTrigger>
+            {REVIEW_SUBJECTS.map((s) => (
+              <TabsTrigger key={s} value={s}>
+                {REVIEW_SUBJECT_INFO[s].pluralLabel}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="relative sm:w-64">
+          <Search
+            className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+            aria-hidden="true"
+          />
+          <Input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={subject ? REVIEW_SUBJECT_INFO[subject].example : "Search by name"}
+            aria-label="Search reviewed names"
+            className="pl-9"
+          />
+        </div>
+      </div>
+
+      <section aria-labelledby="review-entities-heading" className="space-y-3">
+        <h2 id="review-entities-heading" className="text-lg font-semibold">
+          {subject ? REVIEW_SUBJECT_INFO[subject].pluralLabel : "Everything reviewed"}
+        </h2>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : loading && entities.length === 0 ? (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {[0, 1, 2].map((i) => (
+              <Skeleton key={i} className="h-28 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : entities.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-8 text-center">
+            <Star className="h-10 w-10 text-muted-foreground mx-auto mb-2" aria-hidden="true" />
+            <p className="text-muted-foreground">
+              {query.trim()
+                ? `No ${kindLabel} match "${query.trim()}".`
+                : `No ${kindLabel} yet. Write the first one from Create Post.`}
+            </p>
+          </div>
+        ) : (
+          <ul className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3" aria-busy={loading}>
+            {entities.map((entity) => (
+              <li key={`${entity.subject}:${entity.entity}`}>
+                <ReviewEntityCard entity={entity} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section aria-labelledby="latest-reviews-heading" className="space-y-3">
+        <h2 id="latest-reviews-heading" className="text-lg font-semibold">
+          Latest reviews
+        </h2>
+        <Posts category="reviews" subject={subject} />
+      </section>
+    </div>
+  );
+};
+
+export default ReviewBrowser;
@@ -0,0 +1,40 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { ReviewEntity } from "@/lib/api";
+import { REVIEW_SUBJECT_INFO, formatScore, reviewEntityHref } from "@/lib/reviews";
+import StarRating from "./StarRating";
+
+interface ReviewEntityCardProps {
+  entity: ReviewEntity;
+}
+
+// Links to the entity's page with its aggregate scores
+const ReviewEntityCard: React.FC<ReviewEntityCardProps> = ({ entity }) => {
+  return (
+    <Link
+      href={reviewEntityHref(entity.subject, entity.entity)}
+      className="block rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+    >
+      <Card className="h-full hover:border-primary/40 transition-colors">
+        <CardContent className="pt-6 space-y-2">
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {REVIEW_SUBJECT_INFO[entity.subject].label}
+          </p>
+          <h3 className="font-semibold text-foreground break-words">{entity.entityName}</h3>
+          <div className="flex items-center gap-2 text-sm">
+            <StarRating value={entity.overall} label="Overall rating" />
+            <span className="font-medium tabular-nums">{formatScore(entity.overall)}</span>
+            <span className="text-muted-foreground">
+              ({entity.count} {entity.count === 1 ? "review" : "reviews"})
+            </span>
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+};
+
+export default ReviewEntityCard;
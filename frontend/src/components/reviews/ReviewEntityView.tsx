@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, ArrowLeft, FileX } from "lucide-react";
+import Posts from "@/components/dashboard/Posts";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ReviewSummary, getReviewSummary, isAbortError, isApiError } from "@/lib/api";
+import { REVIEW_SUBJECT_INFO, type ReviewSubject } from "@/lib/reviews";
+import ReviewSummaryCard from "./ReviewSummaryCard";
+
+interface ReviewEntityViewProps {
+  subject: ReviewSubject;
+  entity: string;
+}
+
+// One reviewed entity: its aggregate scores over every review written about it
+const ReviewEntityView: React.FC<ReviewEntityViewProps> = ({ subject, entity }) => {
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const loadSummary = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        setLoading(true);
+        setError(null);
+        setNotFound(false);
+        const response = await getReviewSummary(subject, entity, { signal });
+        setSummary(response.summary);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        if (isApiError(err) && err.status === 404) {
+          setSummary(null);
+          setNotFound(true);
+          return;
+        }
+        console.error("Failed to load review summary:", err);
+        setError("Could not load these reviews. Please try again.");
+      } finally {
+        if (!signal?.aborted) setLoading(false);
+      }
+    },
+    [subject, entity]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadSummary(controller.signal);
+    return () => controller.abort();
+  }, [loadSummary]);
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild className="flex w-fit items-center space-x-2">
+        <Link href="/dashboard/reviews">
+          <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+          <span>All reviews</span>
+        </Link>
+      </Button>
+
+      {loading && !summary && (
+        <div className="rounded-xl border bg-card p-6 space-y-4">
+          <Skeleton className="h-4 w-20" />
+          <Skeleton className="h-7 w-2/3" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>{error}</span>
+            <Button variant="outline" size="sm" onClick={() => loadSummary()}>
+              Try Again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {notFound && !loading && (
+        <div className="rounded-xl border bg-card p-10 text-center">
+          <FileX className="h-12 w-12 text-muted-foreground mx-auto mb-3" aria-hidden="true" />
+          <h1 className="text-lg font-semibold">No reviews yet</h1>
+          <p className="text-muted-foreground">
+            Nobody has reviewed this {REVIEW_SUBJECT_INFO[subject].label.toLowerCase()} yet.
+          </p>
+        </div>
+      )}
+
+      {summary && (
+        <>
+          <ReviewSummaryCard summary={summary} />
+          <section aria-labelledby="entity-reviews-heading" className="space-y-3">
+            <h2 id="entity-reviews-heading" className="text-lg font-semibold">
+              Reviews
+            </h2>
+            <Posts subject={subject} entity={entity} />
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReviewEntityView;
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useEffect, useId, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getReviewEntities, isAbortError, type NewReview, type ReviewEntity } from "@/lib/api";
+import {
+  MAX_REVIEW_NAME_LENGTH,
+  REVIEW_SUBJECTS,
+  REVIEW_SUBJECT_INFO,
+  type ReviewSubject,
+} from "@/lib/reviews";
+import { cn } from "@/lib/utils";
+import StarRating from "./StarRating";
+
+interface ReviewFieldsProps {
+  /** Ratings not given yet are missing from `ratings` */
+  value: NewReview;
+  onChange: (value: NewReview) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// What is reviewed and its star ratings; the written review is the post content
+const ReviewFields: React.FC<ReviewFieldsProps> = ({ value, onChange, disabled, className }) => {
+  const listId = useId();
+  const [suggestions, setSuggestions] = useState<ReviewEntity[]>([]);
+  const info = REVIEW_SUBJECT_INFO[value.subject];
+
+  // Offer names already reviewed so the same thing isn't split across spellings
+  useEffect(() => {
+    const controller = new AbortController();
+    getReviewEntities({ subject: value.subject }, { signal: controller.signal })
+      .then((response) => setSuggestions(response.entities))
+      .catch((error) => {
+        if (!isAbortError(error)) console.error("Failed to load review suggestions:", error);
+      });
+    return () => controller.abort();
+  }, [value.subject]);
+
+  return (
+    <fieldset
+      className={cn(
+        "space-y-4 rounded-md border border-border-light dark:border-border-dark p-4",
+        className
+      )}
+    >
+      <legend className="px-1 text-sm font-medium">Review</legend>
+
+      <div className="grid gap-3 sm:grid-cols-[10rem_1fr]">
+        <Select
+          value={value.subject}
+          // Ratings are per dimension, so they don't carry over to another kind
+          onValueChange={(subject) =>
+            onChange({ ...value, subject: subject as ReviewSubject, ratings: {} })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger aria-label="What are you reviewing?">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REVIEW_SUBJECTS.map((subject) => (
+              <SelectItem key={subject} value={subject}>
+                {REVIEW_SUBJECT_INFO[subject].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={value.entityName}
+          onChange={(e) => onChange({ ...value, entityName: e.target.value })}
+          placeholder={info.example}
+          maxLength={MAX_REVIEW_NAME_LENGTH}
+          list={listId}
+          disabled={disabled}
+          aria-label={`${info.label} name`}
+        />
+        <datalist id={listId}>
+          {suggestions.map((entity) => (
+            <option key={entity.entity} value={entity.entityName} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {info.dimensions.map((dimension) => (
+          <div key={dimension.id} className="flex items-center justify-between gap-3">
+            <span className="text-sm">{dimension.label}</span>
+            <StarRating
+              value={value.ratings[dimension.id] ?? 0}
+              onChange={(score) =>
+                onChange({ ...value, ratings: { ...value.ratings, [dimension.id]: score } })
+              }
+              label={dimension.label}
+              size="md"
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground-light dark:text-muted-foreground-dark">
+        Rate each from 1 to 5, then write your review above. Reviews are anonymous like every post.
+      </p>
+    </fieldset>
+  );
+};
+
+export default ReviewFields;
@@ -0,0 +1,70 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { ReviewSummary } from "@/lib/api";
+import { REVIEW_SUBJECT_INFO, dimensionLabel, formatScore } from "@/lib/reviews";
+import RatingDistribution from "./RatingDistribution";
+import SemesterTrend from "./SemesterTrend";
+import StarRating from "./StarRating";
+
+interface ReviewSummaryCardProps {
+  summary: ReviewSummary;
+}
+
+// Overall score and distribution, averages per dimension and the semester trend
+const ReviewSummaryCard: React.FC<ReviewSummaryCardProps> = ({ summary }) => {
+  return (
+    <Card>
+      <CardHeader>
+        <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          {REVIEW_SUBJECT_INFO[summary.subject].label}
+        </p>
+        <h1 className="text-2xl font-semibold leading-tight break-words">{summary.entityName}</h1>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-6 sm:grid-cols-[auto_1fr] sm:items-center">
+          <div className="flex flex-col items-center gap-1">
+            <span className="text-4xl font-bold tabular-nums">{formatScore(summary.overall)}</span>
+            <StarRating value={summary.overall} label="Overall rating" />
+            <span className="text-sm text-muted-foreground">
+              {summary.count} {summary.count === 1 ? "review" : "reviews"}
+            </span>
+          </div>
+          <RatingDistribution distribution={summary.distribution} />
+        </div>
+
+        <section aria-labelledby="review-dimensions-heading" className="space-y-2">
+          <h2 id="review-dimensions-heading" className="text-sm font-semibold">
+            By aspect
+          </h2>
+          <ul className="grid gap-2 sm:grid-cols-2">
+            {summary.dimensions.map(({ dimension, average }) => {
+              const label = dimensionLabel(summary.subject, dimension);
+              return (
+                <li key={dimension} className="flex items-center justify-between gap-3 text-sm">
+                  <span>{label}</span>
+                  <span className="flex items-center gap-2">
+                    <StarRating value={average} label={label} />
+                    <span className="w-7 text-right tabular-nums">{formatScore(average)}</span>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+
+        {summary.semesters.length > 1 && (
+          <section aria-labelledby="review-trend-heading" className="space-y-2">
+            <h2 id="review-trend-heading" className="text-sm font-semibold">
+              Over the semesters
+            </h2>
+            <SemesterTrend semesters={summary.semesters} />
+          </section>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReviewSummaryCard;
@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+import { ReviewSummary } from "@/lib/api";
+import { formatScore, semesterLabel } from "@/lib/reviews";
+import { cn } from "@/lib/utils";
+
+interface SemesterTrendProps {
+  semesters: ReviewSummary["semesters"];
+  className?: string;
+}
+
+// Average score per semester as columns, oldest on the left
+const SemesterTrend: React.FC<SemesterTrendProps> = ({ semesters, className }) => {
+  if (semesters.length === 0) return null;
+
+  return (
+    <ol
+      className={cn("flex items-end gap-3 overflow-x-auto pb-1", className)}
+      aria-label="Average rating by semester"
+    >
+      {semesters.map(({ semester, count, overall }) => (
+        <li
+          key={semester}
+          className="flex min-w-[4.5rem] flex-col items-center gap-1 text-xs"
+          aria-label={`${semesterLabel(semester)}: ${formatScore(overall)} from ${count} ${count === 1 ? "review" : "reviews"}`}
+        >
+          <span className="font-medium tabular-nums" aria-hidden="true">
+            {formatScore(overall)}
+          </span>
+          <div className="flex h-24 w-8 items-end rounded bg-muted" aria-hidden="true">
+            <div
+              className="w-full rounded bg-primary/70"
+              style={{ height: `${(overall / 5) * 100}%` }}
+            />
+          </div>
+          <span className="whitespace-nowrap text-muted-foreground" aria-hidden="true">
+            {semesterLabel(semester)}
+          </span>
+          <span className="text-muted-foreground" aria-hidden="true">
+            {count} {count === 1 ? "review" : "reviews"}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SemesterTrend;
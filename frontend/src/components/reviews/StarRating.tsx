@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const STARS = [1, 2, 3, 4, 5];
+
+export interface StarRatingProps {
+  /** 0 to 5; averages are shown rounded to the nearest star */
+  value: number;
+  /** Makes the stars a radio group that picks 1 to 5 */
+  onChange?: (value: number) => void;
+  /** Accessible name, e.g. the dimension being rated */
+  label: string;
+  size?: "sm" | "md";
+  disabled?: boolean;
+  className?: string;
+}
+
+const StarRating: React.FC<StarRatingProps> = ({
+  value,
+  onChange,
+  label,
+  size = "sm",
+  disabled = false,
+  className,
+}) => {
+  const filled = Math.round(value);
+  const iconClass = size === "md" ? "h-6 w-6" : "h-4 w-4";
+
+  const starIcon = (star: number) => (
+    <Star
+      className={cn(
+        iconClass,
+        star <= filled ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"
+      )}
+      aria-hidden="true"
+    />
+  );
+
+  if (!onChange) {
+    return (
+      <span
+        className={cn("inline-flex items-center gap-0.5", className)}
+        role="img"
+        aria-label={`${label}: ${value.toFixed(1)} out of 5`}
+      >
+        {STARS.map((star) => (
+          <React.Fragment key={star}>{starIcon(star)}</React.Fragment>
+        ))}
+      </span>
+    );
+  }
+
+  // Arrow keys move the rating like in a native radio group
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step =
+      event.key === "ArrowRight" || event.key === "ArrowUp"
+        ? 1
+        : event.key === "ArrowLeft" || event.key === "ArrowDown"
+          ? -1
+          : 0;
+    if (!step) return;
+    event.preventDefault();
+    const next = Math.min(5, Math.max(1, filled + step));
+    onChange(next);
+    event.currentTarget.querySelectorAll("button")[next - 1]?.focus();
+  };
+
+  return (
+    <div
+      className={cn("inline-flex items-center gap-0.5", className)}
+      role="radiogroup"
+      aria-label={label}
+      onKeyDown={handleKeyDown}
+    >
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={star === filled}
+          aria-label={`${star} ${star === 1 ? "star" : "stars"}`}
+          // Only the checked star, or the first when none is, is in the tab order
+          tabIndex={star === (filled || 1) ? 0 : -1}
+          onClick={() => onChange(star)}
+          disabled={disabled}
+          className="rounded p-0.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:cursor-not-allowed"
+        >
+          {starIcon(star)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,10 @@
+export { default as StarRating } from "./StarRating";
+export { default as RatingDistribution } from "./RatingDistribution";
+export { default as SemesterTrend } from "./SemesterTrend";
+export { default as ReviewFields } from "./ReviewFields";
+export { default as ReviewEntityCard } from "./ReviewEntityCard";
+export { default as ReviewSummaryCard } from "./ReviewSummaryCard";
+export { default as ReviewBrowser } from "./ReviewBrowser";
+export { default as ReviewEntityView } from "./ReviewEntityView";
+
+export type { StarRatingProps } from "./StarRating";
@@ -0,0 +1,72 @@
+"use client";
+
+import React from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SavedCollection } from "@/lib/api";
+import { UNFILED_COLLECTION } from "@/lib/bookmarks";
+import { cn } from "@/lib/utils";
+
+interface CollectionFilterProps {
+  collections: SavedCollection[];
+  total: number;
+  unfiled: number;
+  /** undefined: all saved posts */
+  selected?: string;
+  onSelect: (collection?: string) => void;
+  onCreate: () => void;
+}
+
+interface Chip {
+  value?: string;
+  label: string;
+  count: number;
+}
+
+// Which part of the saved list to show: everything, posts in no collection, or one collection
+const CollectionFilter: React.FC<CollectionFilterProps> = ({
+  collections,
+  total,
+  unfiled,
+  selected,
+  onSelect,
+  onCreate,
+}) => {
+  const chips: Chip[] = [
+    { value: undefined, label: "All", count: total },
+    { value: UNFILED_COLLECTION, label: "Unsorted", count: unfiled },
+    ...collections.map((collection) => ({
+      value: collection._id,
+      label: collection.name,
+      count: collection.count,
+    })),
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Collections">
+      {chips.map((chip) => {
+        const active = chip.value === selected;
+        return (
+          <Button
+            key={chip.value ?? "all"}
+            type="button"
+            variant={active ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => onSelect(chip.value)}
+            aria-pressed={active}
+            className={cn("gap-1.5", active && "font-semibold")}
+          >
+            <span className="max-w-[12rem] truncate">{chip.label}</span>
+            <span className="tabular-nums text-muted-foreground">{chip.count}</span>
+          </Button>
+        );
+      })}
+      <Button type="button" variant="ghost" size="sm" onClick={onCreate} className="gap-1.5">
+        <Plus className="h-4 w-4" aria-hidden="true" />
+        New collection
+      </Button>
+    </div>
+  );
+};
+
+export default CollectionFilter;
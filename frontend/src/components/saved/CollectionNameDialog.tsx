@@ -0,0 +1,110 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { isApiError } from "@/lib/api";
+import { parseError } from "@/lib/errorHandler";
+
+// Same limit as the backend
+const MAX_COLLECTION_NAME_LENGTH = 40;
+
+interface CollectionNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  submitLabel: string;
+  /** The current name when renaming */
+  initialName?: string;
+  onSubmit: (name: string) => Promise<unknown>;
+}
+
+// Names a new collection or renames one. Mount it when it opens so the field starts fresh
+const CollectionNameDialog: React.FC<CollectionNameDialogProps> = ({
+  open,
+  onOpenChange,
+  title,
+  submitLabel,
+  initialName = "",
+  onSubmit,
+}) => {
+  const [name, setName] = useState(initialName);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmed = name.trim();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || isSaving) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(trimmed);
+      onOpenChange(false);
+    } catch (err) {
+      console.error("Failed to save collection:", err);
+      setError(
+        isApiError(err) ? err.fieldErrors.name ?? err.message : parseError(err).message
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>Only you can see your collections.</DialogDescription>
+          </DialogHeader>
+
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Placement prep"
+            maxLength={MAX_COLLECTION_NAME_LENGTH}
+            disabled={isSaving}
+            aria-label="Collection name"
+            autoFocus
+          />
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!trimmed || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollectionNameDialog;
@@ -0,0 +1,35 @@
+"use client";
+
+import React from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface DeletedSavedPostProps {
+  savedAt: string;
+  onRemove: () => void;
+}
+
+// Keeps the place of a saved post whose author deleted it
+const DeletedSavedPost: React.FC<DeletedSavedPostProps> = ({ savedAt, onRemove }) => {
+  return (
+    <Card className="border-dashed" role="article" aria-label="Deleted post">
+      <CardContent className="flex items-center justify-between gap-4 py-6">
+        <div className="flex items-center gap-3">
+          <Trash2 className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
+          <div>
+            <p className="font-medium">This post was deleted</p>
+            <p className="text-sm text-muted-foreground">
+              You saved it on {new Date(savedAt).toLocaleDateString()}.
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={onRemove}>
+          Remove
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeletedSavedPost;
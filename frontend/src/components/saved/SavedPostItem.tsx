@@ -0,0 +1,68 @@
+"use client";
+
+import React from "react";
+import { useRouter } from "next/navigation";
+import { PostCard } from "@/components/posts";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useBookmark } from "@/hooks/useBookmark";
+import { SavedCollection, SavedItem } from "@/lib/api";
+import DeletedSavedPost from "./DeletedSavedPost";
+
+// Select value for "no collection"; Radix does not allow an empty one
+const NO_COLLECTION = "__none__";
+
+interface SavedPostItemProps {
+  item: SavedItem;
+  collections: SavedCollection[];
+  onRemove: (postId: string) => void;
+}
+
+// A saved post with the collection it is in, or a placeholder once it is deleted
+const SavedPostItem: React.FC<SavedPostItemProps> = ({ item, collections, onRemove }) => {
+  const router = useRouter();
+  const { saved, collectionId, pending, moveTo } = useBookmark(item.post_id);
+
+  if (!item.post) {
+    return <DeletedSavedPost savedAt={item.createdAt} onRemove={() => onRemove(item.post_id)} />;
+  }
+
+  return (
+    <div className="space-y-2">
+      <PostCard
+        post={item.post}
+        onClick={(postId) => router.push(`/dashboard/post/${postId}`)}
+        onComment={(postId) => router.push(`/dashboard/post/${postId}`)}
+      />
+      {saved && (
+        <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+          <span>Saved {new Date(item.createdAt).toLocaleDateString()} in</span>
+          <Select
+            value={collectionId ?? NO_COLLECTION}
+            onValueChange={(value) => moveTo(value === NO_COLLECTION ? null : value)}
+            disabled={pending}
+          >
+            <SelectTrigger className="h-8 w-auto min-w-[9rem]" aria-label="Collection">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COLLECTION}>No collection</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection._id} value={collection._id}>
+                  {collection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedPostItem;
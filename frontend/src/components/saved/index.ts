@@ -0,0 +1,4 @@
+export { default as CollectionFilter } from "./CollectionFilter";
+export { default as CollectionNameDialog } from "./CollectionNameDialog";
+export { default as DeletedSavedPost } from "./DeletedSavedPost";
+export { default as SavedPostItem } from "./SavedPostItem";
@@ -7,7 +7,7 @@ import { SearchFilters } from "./SearchFilters";
 import { SearchResults } from "./SearchResults";
 import { useSearch } from "@/hooks/useSearch";
 import { useAuth } from "@/hooks/useAuth";
-import { Community, getCommunities, likeGlobalPost } from "@/lib/api";
+import { Community, getCommunities, isAbortError } from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 interface SearchPageProps {
@@ -53,24 +53,30 @@ export function SearchPage({ initialQuery = "", className }: SearchPageProps) {
 
   // Load communities for filter
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadCommunities = async () => {
       if (!isAuthenticated) return;
 
       try {
         setCommunitiesLoading(true);
-        const response = await getCommunities();
+        const response = await getCommunities({ signal: controller.signal });
         setCommunities(response.communities);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Failed to load communities:", err);
         // Don't show error for communities, just continue without them
       } finally {
-        setCommunitiesLoading(false);
+        if (!controller.signal.aborted) {
+          setCommunitiesLoading(false);
+        }
       }
     };
 
     if (!authLoading && isAuthenticated) {
       loadCommunities();
     }
+    return () => controller.abort();
   }, [authLoading, isAuthenticated]);
 
   // Redirect if not authenticated
@@ -80,35 +86,6 @@ export function SearchPage({ initialQuery = "", className }: SearchPageProps) {
     }
   }, [authLoading, isAuthenticated, redirectToSignin]);
 
-  const handlePostLike = async (postId: string) => {
-    try {
-      // Check authentication before making API call
-      const token = localStorage.getItem("token");
-      if (!token) {
-        redirectToSignin(true);
-        return;
-      }
-
-      await likeGlobalPost(postId);
-
-      // Update the local results state with new like data
-      // Note: This is a simplified update - in a real app you might want to refetch
-      // or implement more sophisticated state management
-    } catch (err) {
-      console.error("Failed to like post:", err);
-
-      // Handle authentication errors
-      if (err instanceof Error &&
-        (err.message.toLowerCase().includes("unauthorized") ||
-          err.message.toLowerCase().includes("token"))) {
-        redirectToSignin(true);
-        return;
-      }
-
-      throw err; // Re-throw to let PostCard handle the error
-    }
-  };
-
   const handlePostComment = (postId: string) => {
     // Navigate to post detail page for comments
     router.push(`/dashboard/post/${postId}`);
@@ -202,7 +179,6 @@ export function SearchPage({ initialQuery = "", className }: SearchPageProps) {
         loading={loading}
         error={error}
         query={query}
-        onPostLike={handlePostLike}
         onPostComment={handlePostComment}
         onPostShare={handlePostShare}
         onPostClick={handlePostClick}
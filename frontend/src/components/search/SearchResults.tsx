@@ -7,13 +7,13 @@ import { Button } from "@/components/ui/button";
 import { Loader2, AlertCircle } from "lucide-react";
 import { SearchEmptyState } from "./SearchEmptyState";
 import { cn } from "@/lib/utils";
+import type { ParsedError } from "@/lib/errorHandler";
 
 interface SearchResultsProps {
   results: SearchResponse | null;
   loading: boolean;
-  error: string | null;
+  error: ParsedError | null;
   query: string;
-  onPostLike: (postId: string) => Promise<void>;
   onPostComment: (postId: string) => void;
   onPostShare: (postId: string) => void;
   onPostClick: (postId: string) => void;
@@ -30,7 +30,6 @@ export function SearchResults({
   loading,
   error,
   query,
-  onPostLike,
   onPostComment,
   onPostShare,
   onPostClick,
@@ -53,14 +52,9 @@ export function SearchResults({
 
   // Show error state
   if (error && !results) {
-    // Determine if this is a network/offline error
-    const isOfflineError = error.toLowerCase().includes("network") ||
-      error.toLowerCase().includes("fetch") ||
-      error.toLowerCase().includes("connection");
-
     return (
       <SearchEmptyState
-        type={isOfflineError ? "offline" : "error"}
+        type={error.type === "network" ? "offline" : "error"}
         query={query}
         onRetry={onRetry}
         onBrowseCommunities={onBrowseCommunities}
@@ -122,7 +116,7 @@ export function SearchResults({
             <div className="flex items-center justify-between">
               <div className="flex items-center">
                 <AlertCircle className="h-4 w-4 text-destructive mr-2" />
-                <span className="text-sm text-destructive">{error}</span>
+                <span className="text-sm text-destructive">{error.message}</span>
               </div>
               {onClearError && (
                 <Button onClick={onClearError} variant="ghost" size="sm">
@@ -138,7 +132,6 @@ export function SearchResults({
           posts={results.posts}
           loading={false}
           error={null}
-          onPostLike={onPostLike}
           onPostComment={onPostComment}
           onPostShare={onPostShare}
           onPostClick={onPostClick}
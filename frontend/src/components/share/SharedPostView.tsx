@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Clock, LogIn, MessageCircle, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
+import { Markdown } from "@/components/markdown";
+import { ImageLightbox, type LightboxImage } from "@/components/images";
+import { ContentWarning, ImageWarningOverlay } from "@/components/content-warnings";
+import CategoryBadge from "@/components/posts/CategoryBadge";
+import PollView from "@/components/posts/PollView";
+import PostDetail from "@/components/posts/PostDetail";
+import ReviewView from "@/components/posts/ReviewView";
+import TagChips from "@/components/posts/TagChips";
+import { useAuth } from "@/hooks/useAuth";
+import { useImageWarnings } from "@/hooks/useContentWarnings";
+import { type GlobalPostDetail, type SharedPost, getPostById, isAbortError } from "@/lib/api";
+import { thumbnailUrl } from "@/lib/imageUrls";
+import { SITE_NAME } from "@/lib/sharing";
+import { cn } from "@/lib/utils";
+
+const IMAGE_WIDTH = 800;
+
+// Fixed so the server and the browser print the same date
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-IN", {
+    dateStyle: "medium",
+    timeZone: "Asia/Kolkata",
+  });
+
+interface SharedPostViewProps {
+  post: SharedPost;
+}
+
+/**
+ * A post opened from its public link. Everyone gets the public version the
+ * server rendered; signed-in readers then get the full post with its author
+ * and comments, loaded with their own session.
+ */
+const SharedPostView: React.FC<SharedPostViewProps> = ({ post }) => {
+  const { isAuthenticated, isLoading, redirectToSignin } = useAuth();
+  const [fullPost, setFullPost] = useState<GlobalPostDetail | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const controller = new AbortController();
+    getPostById(post._id, { signal: controller.signal })
+      .then((response) => setFullPost(response.post))
+      .catch((error) => {
+        // The public version stays up
+        if (!isAbortError(error)) console.error("Failed to load shared post:", error);
+      });
+    return () => controller.abort();
+  }, [isAuthenticated, post._id]);
+
+  return (
+    <main className="mx-auto max-w-2xl px-4 py-10 space-y-6">
+      <Link href="/" className="inline-block text-xl font-bold text-foreground">
+        {SITE_NAME}
+      </Link>
+
+      {fullPost && isAuthenticated ? (
+        <>
+          <PostDetail post={fullPost} />
+          <Button asChild variant="outline">
+            <Link href="/dashboard">Go to Feed</Link>
+          </Button>
+        </>
+      ) : (
+        <>
+          <PublicPostCard post={post} />
+          {!isLoading && !isAuthenticated && (
+            <div className="rounded-xl border bg-card p-6 text-center space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Sign in with your university email to see who posted and to read and join the discussion.
+              </p>
+              <Button onClick={() => redirectToSignin(true)} className="inline-flex items-center gap-2">
+                <LogIn className="h-4 w-4" aria-hidden="true" />
+                Sign in to see comments
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  );
+};
+
+// What anyone with the link sees: no pseudonym, no comments, no voting
+const PublicPostCard: React.FC<SharedPostViewProps> = ({ post }) => {
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const images = useMemo<LightboxImage[]>(
+    () =>
+      post.images.map((image, index) => ({
+        src: image,
+        thumbnail: thumbnailUrl(image, IMAGE_WIDTH),
+        alt: post.images.length === 1 ? "Post image" : `Post image ${index + 1}`,
+      })),
+    [post.images]
+  );
+  const { hiddenLabel, reveal: revealImage } = useImageWarnings(post.imageWarnings);
+  // Warned images join the lightbox once they are shown
+  const viewableImages = images.filter((image) => !hiddenLabel(image.src));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+            <Clock className="h-3 w-3" aria-hidden="true" />
+            <time dateTime={post.createdAt}>{formatDate(post.createdAt)}</time>
+            {post.editedAt && <span>· edited</span>}
+          </div>
+          {post.category && <CategoryBadge category={post.category} />}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <ContentWarning label={post.contentWarning}>
+          <div className="space-y-4">
+            <div>
+              <Markdown content={post.content} className="text-foreground text-base leading-relaxed" />
+              {post.poll && <PollView postId={post._id} poll={post.poll} readOnly className="mt-4" />}
+              {post.review && <ReviewView review={post.review} className="mt-4" />}
+              <TagChips tags={post.tags} className="mt-3" />
+            </div>
+
+            {images.length > 0 && (
+              <div className={images.length === 1 ? "" : "grid grid-cols-2 gap-2"}>
+                {images.map((image, index) => {
+                  const warning = hiddenLabel(image.src);
+                  return (
+                    <div key={image.src} className="relative rounded-lg overflow-hidden">
+                      <button
+                        type="button"
+                        className="relative block w-full rounded-lg overflow-hidden bg-muted cursor-zoom-in focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                        onClick={() => setLightboxIndex(viewableImages.indexOf(image))}
+                        tabIndex={warning ? -1 : undefined}
+                        aria-hidden={warning ? true : undefined}
+                        aria-label={`View image ${index + 1} of ${images.length} full screen`}
+                      >
+                        <img
+                          src={image.thumbnail}
+                          alt={image.alt}
+                          className={cn(
+                            images.length === 1 ? "w-full max-h-[500px] object-contain" : "w-full aspect-square object-cover",
+                            warning && "blur-xl scale-110"
+                          )}
+                        />
+                      </button>
+                      {warning && <ImageWarningOverlay label={warning} onReveal={() => revealImage(image.src)} />}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </ContentWarning>
+      </CardContent>
+
+      <CardFooter className="flex items-center space-x-4 text-sm text-muted-foreground">
+        <span className="flex items-center space-x-1" aria-label={`${post.likes} likes`}>
+          <ThumbsUp className="h-4 w-4" aria-hidden="true" />
+          <span>{post.likes}</span>
+        </span>
+        <span className="flex items-center space-x-1" aria-label={`${post.commentsCount} comments`}>
+          <MessageCircle className="h-4 w-4" aria-hidden="true" />
+          <span>{post.commentsCount}</span>
+        </span>
+      </CardFooter>
+
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={viewableImages}
+          startIndex={lightboxIndex}
+          open
+          onOpenChange={(open) => !open && setLightboxIndex(null)}
+          title="Images from a shared post"
+        />
+      )}
+    </Card>
+  );
+};
+
+export default SharedPostView;
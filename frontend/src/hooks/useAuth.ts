@@ -1,6 +1,11 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { signOut } from "@/lib/api";
+import { apiCache } from "@/lib/api-cache";
+import { outbox } from "@/lib/outbox";
+import { likeEngine } from "@/lib/likes";
+import { bookmarks } from "@/lib/bookmarks";
 
 interface User {
   email: string;
@@ -24,8 +29,18 @@ export function useAuth() {
   });
 
   const logout = useCallback(() => {
+    // Drop queued offline changes before the user record goes, so the next
+    // person on this device never replays them
+    outbox.clear().catch((error) => console.error("Failed to clear outbox:", error));
+    if (localStorage.getItem("refreshToken")) {
+      signOut().catch((error) => console.error("Failed to revoke session:", error));
+    }
     localStorage.removeItem("token");
+    localStorage.removeItem("refreshToken");
     localStorage.removeItem("user");
+    apiCache.clear();
+    likeEngine.clear();
+    bookmarks.clear();
     setAuthState({
       user: null,
       isAuthenticated: false,
@@ -44,8 +59,13 @@ export function useAuth() {
           const payload = JSON.parse(atob(token.split(".")[1]));
           const currentTime = Date.now() / 1000;
 
-          // If token has expired, logout
-          if (payload.exp && payload.exp < currentTime) {
+          // An expired token is renewed on the next request as long as
+          // there is a refresh token; without one the session is over
+          if (
+            payload.exp &&
+            payload.exp < currentTime &&
+            !localStorage.getItem("refreshToken")
+          ) {
             logout();
             return;
           }
@@ -87,8 +107,9 @@ export function useAuth() {
     return () => clearTimeout(timer);
   }, [checkAuthStatus]);
 
-  const login = useCallback((user: User, token: string) => {
+  const login = useCallback((user: User, token: string, refreshToken: string) => {
     localStorage.setItem("token", token);
+    localStorage.setItem("refreshToken", refreshToken);
     localStorage.setItem("user", JSON.stringify(user));
     setAuthState({
       user,
@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { toast } from "@/components/ui/use-toast";
+import { isApiError } from "@/lib/api";
+import { bookmarks, BookmarkState } from "@/lib/bookmarks";
+import { currentUserId } from "@/lib/outbox";
+
+interface UseBookmarkReturn extends BookmarkState {
+  /** Whether someone is signed in to save as */
+  canSave: boolean;
+  toggle: () => Promise<void>;
+  /** Save into a collection, or null for none */
+  moveTo: (collectionId: string | null) => Promise<void>;
+}
+
+function reportFailure(error: unknown, action: string): void {
+  console.error(`Failed to ${action}:`, error);
+  toast({
+    title: "Action Failed",
+    description:
+      isApiError(error) && error.status === 404
+        ? "This post or collection no longer exists."
+        : `Failed to ${action}. Please try again.`,
+    variant: "error",
+  });
+}
+
+/**
+ * Saved state of a post, shared by every mounted view of it. Failed changes
+ * roll back and show a toast.
+ */
+export function useBookmark(postId: string): UseBookmarkReturn {
+  const userId = currentUserId();
+
+  useEffect(() => {
+    if (!userId) return;
+    bookmarks.load().catch((error) => console.error("Failed to load saved posts:", error));
+  }, [userId]);
+
+  const state = useSyncExternalStore(
+    bookmarks.subscribe,
+    () => bookmarks.getState(postId),
+    () => bookmarks.getState(postId)
+  );
+
+  const toggle = useCallback(async () => {
+    const saving = !bookmarks.getState(postId).saved;
+    try {
+      await bookmarks.toggle(postId);
+      toast({
+        title: saving ? "Post Saved" : "Removed from Saved",
+        description: saving ? "Find it any time under Saved." : undefined,
+        variant: saving ? "success" : "info",
+      });
+    } catch (error) {
+      reportFailure(error, saving ? "save post" : "remove post from saved");
+    }
+  }, [postId]);
+
+  const moveTo = useCallback(
+    async (collectionId: string | null) => {
+      try {
+        await bookmarks.save(postId, collectionId);
+      } catch (error) {
+        reportFailure(error, "move saved post");
+      }
+    },
+    [postId]
+  );
+
+  return { ...state, canSave: Boolean(userId), toggle, moveTo };
+}
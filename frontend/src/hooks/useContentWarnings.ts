@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useState, useSyncExternalStore } from "react";
+import type { ImageWarning } from "@/lib/api";
+import {
+  getAutoExpandWarnings,
+  setAutoExpandWarnings,
+  subscribeAutoExpandWarnings,
+} from "@/lib/contentWarnings";
+
+/**
+ * Whether content warnings open on their own, from the reader's preferences.
+ * Always false while rendering on the server, so warned content starts hidden.
+ */
+export function useAutoExpandWarnings(): [boolean, (expand: boolean) => void] {
+  const autoExpand = useSyncExternalStore(
+    subscribeAutoExpandWarnings,
+    getAutoExpandWarnings,
+    () => false
+  );
+  return [autoExpand, setAutoExpandWarnings];
+}
+
+interface UseContentWarningReturn {
+  /** The content is behind its warning right now */
+  hidden: boolean;
+  reveal: () => void;
+  hide: () => void;
+}
+
+/** Reveal state of one warned piece of content; starts from the preference */
+export function useContentWarning(label: string | null): UseContentWarningReturn {
+  const [autoExpand] = useAutoExpandWarnings();
+  // null until the reader clicks, so a preference change still applies
+  const [revealed, setRevealed] = useState<boolean | null>(null);
+
+  const reveal = useCallback(() => setRevealed(true), []);
+  const hide = useCallback(() => setRevealed(false), []);
+
+  return { hidden: Boolean(label) && !(revealed ?? autoExpand), reveal, hide };
+}
+
+interface UseImageWarningsReturn {
+  /** Label of an image still behind its warning, or null when it can be shown */
+  hiddenLabel: (url: string) => string | null;
+  reveal: (url: string) => void;
+}
+
+/** Reveal state of the warned images of a post */
+export function useImageWarnings(imageWarnings: ImageWarning[]): UseImageWarningsReturn {
+  const [autoExpand] = useAutoExpandWarnings();
+  const [revealed, setRevealed] = useState<Set<string>>(() => new Set());
+
+  const hiddenLabel = useCallback(
+    (url: string) => {
+      if (autoExpand || revealed.has(url)) return null;
+      return imageWarnings.find((warning) => warning.url === url)?.label ?? null;
+    },
+    [autoExpand, revealed, imageWarnings]
+  );
+
+  const reveal = useCallback((url: string) => {
+    setRevealed((prev) => new Set(prev).add(url));
+  }, []);
+
+  return { hiddenLabel, reveal };
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { drafts, Draft, DraftContent } from "@/lib/drafts";
+
+// Save once typing pauses for this long
+const AUTOSAVE_DELAY_MS = 1000;
+
+interface UseDraftAutosaveOptions {
+  /** "global" or the community_id the post is meant for */
+  target: string;
+  /** Editor state; keep it memoized so unchanged state is not saved again */
+  content: DraftContent;
+  /** Put a stored draft back into the editor */
+  onRestore: (draft: Draft) => void;
+  /** Restore the first stored draft without asking, e.g. when opened from the drafts list */
+  autoRestore?: boolean;
+}
+
+interface UseDraftAutosaveReturn {
+  /** Draft found for the target that the user has not restored or discarded yet */
+  storedDraft: Draft | null;
+  restoreStored: () => void;
+  discardStored: () => Promise<void>;
+  /** When the editor was last saved, null if nothing is saved */
+  lastSavedAt: number | null;
+  /** Drop the draft once the post is published */
+  clear: () => Promise<void>;
+}
+
+/**
+ * Autosave the editor to the drafts store. While a stored draft for the
+ * target waits to be restored or discarded nothing is saved, so typing first
+ * never overwrites it.
+ */
+export function useDraftAutosave({
+  target,
+  content,
+  onRestore,
+  autoRestore = false,
+}: UseDraftAutosaveOptions): UseDraftAutosaveReturn {
+  const [storedDraft, setStoredDraft] = useState<Draft | null>(null);
+  // Target whose stored draft has been looked up; saving waits for it
+  const [checkedTarget, setCheckedTarget] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  const onRestoreRef = useRef(onRestore);
+  const autoRestoreRef = useRef(autoRestore);
+  const savedTargetRef = useRef<string | null>(null);
+  const pendingRef = useRef<{ target: string; content: DraftContent } | null>(null);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  const save = useCallback(async (saveTarget: string, saveContent: DraftContent) => {
+    try {
+      const saved = await drafts.save(saveTarget, saveContent);
+      // The post moved to another community; its old draft moved with it
+      const previousTarget = savedTargetRef.current;
+      if (previousTarget && previousTarget !== saveTarget) {
+        await drafts.discard(previousTarget);
+      }
+      savedTargetRef.current = saved ? saveTarget : null;
+      setLastSavedAt(saved?.updatedAt ?? null);
+    } catch (error) {
+      console.error("Failed to save draft:", error);
+    }
+  }, []);
+
+  // Look up the stored draft whenever the target changes
+  useEffect(() => {
+    let cancelled = false;
+
+    drafts
+      .get(target)
+      .catch((error) => {
+        console.error("Failed to read draft:", error);
+        return null;
+      })
+      .then((draft) => {
+        if (cancelled) return;
+        if (draft && autoRestoreRef.current) {
+          onRestoreRef.current(draft);
+          savedTargetRef.current = target;
+          setLastSavedAt(draft.updatedAt);
+        } else {
+          // A draft this editor saved itself is already on screen
+          setStoredDraft(draft && savedTargetRef.current !== target ? draft : null);
+        }
+        autoRestoreRef.current = false;
+        setCheckedTarget(target);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [target]);
+
+  const paused = checkedTarget !== target || storedDraft !== null;
+
+  useEffect(() => {
+    if (paused) return;
+
+    pendingRef.current = { target, content };
+    const timer = setTimeout(() => {
+      pendingRef.current = null;
+      save(target, content);
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [paused, target, content, save]);
+
+  // Save straight away if the editor closes mid-typing
+  useEffect(() => {
+    return () => {
+      const pending = pendingRef.current;
+      if (pending) drafts.save(pending.target, pending.content).catch(() => {});
+    };
+  }, []);
+
+  const restoreStored = useCallback(() => {
+    if (!storedDraft) return;
+    onRestoreRef.current(storedDraft);
+    savedTargetRef.current = storedDraft.target;
+    setLastSavedAt(storedDraft.updatedAt);
+    setStoredDraft(null);
+  }, [storedDraft]);
+
+  const discardStored = useCallback(async () => {
+    if (!storedDraft) return;
+    setStoredDraft(null);
+    try {
+      await drafts.discard(storedDraft.target);
+    } catch (error) {
+      console.error("Failed to discard draft:", error);
+    }
+  }, [storedDraft]);
+
+  const clear = useCallback(async () => {
+    pendingRef.current = null;
+    savedTargetRef.current = null;
+    setLastSavedAt(null);
+    try {
+      await drafts.discard(target);
+    } catch (error) {
+      console.error("Failed to discard draft:", error);
+    }
+  }, [target]);
+
+  return { storedDraft, restoreStored, discardStored, lastSavedAt, clear };
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { drafts, Draft, DRAFTS_CHANGE_EVENT } from "@/lib/drafts";
+
+interface UseDraftsReturn {
+  drafts: Draft[];
+  loading: boolean;
+  discard: (target: string) => Promise<void>;
+}
+
+export function useDrafts(): UseDraftsReturn {
+  const [items, setItems] = useState<Draft[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await drafts.list());
+    } catch (error) {
+      console.error("Failed to read drafts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, 0);
+    window.addEventListener(DRAFTS_CHANGE_EVENT, refresh);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener(DRAFTS_CHANGE_EVENT, refresh);
+    };
+  }, [refresh]);
+
+  const discard = useCallback((target: string) => drafts.discard(target), []);
+
+  return { drafts: items, loading, discard };
+}
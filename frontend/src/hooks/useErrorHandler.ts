@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { parseError, ParsedError } from "@/lib/errorHandler";
 
@@ -9,14 +9,29 @@ interface UseErrorHandlerOptions {
   onNetworkError?: (error: ParsedError) => void;
   onServerError?: (error: ParsedError) => void;
   onValidationError?: (error: ParsedError) => void;
+  onNotFoundError?: (error: ParsedError) => void;
+  onRateLimitError?: (error: ParsedError) => void;
 }
 
 export function useErrorHandler(options: UseErrorHandlerOptions = {}) {
   const router = useRouter();
 
+  // Callers usually pass a fresh options object each render; reading it
+  // through a ref keeps handleError stable for their effect dependencies
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
   const handleError = useCallback(
     (error: unknown, context?: string): ParsedError => {
       const parsed = parseError(error);
+      const options = optionsRef.current;
+
+      // A cancelled request is not a failure
+      if (parsed.type === "aborted") {
+        return parsed;
+      }
 
       // Log error for debugging
       console.error(`[${context || "Error"}] ${parsed.type}:`, error);
@@ -29,6 +44,7 @@ export function useErrorHandler(options: UseErrorHandlerOptions = {}) {
           } else {
             // Default auth error handling - redirect to signin
             localStorage.removeItem("token");
+            localStorage.removeItem("refreshToken");
             localStorage.removeItem("user");
             router.push("/signin");
           }
@@ -52,6 +68,18 @@ export function useErrorHandler(options: UseErrorHandlerOptions = {}) {
           }
           break;
 
+        case "not_found":
+          if (options.onNotFoundError) {
+            options.onNotFoundError(parsed);
+          }
+          break;
+
+        case "rate_limit":
+          if (options.onRateLimitError) {
+            options.onRateLimitError(parsed);
+          }
+          break;
+
         default:
           // Handle unknown errors
           break;
@@ -59,7 +87,7 @@ export function useErrorHandler(options: UseErrorHandlerOptions = {}) {
 
       return parsed;
     },
-    [router, options]
+    [router]
   );
 
   const withErrorHandling = useCallback(
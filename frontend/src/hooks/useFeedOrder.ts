@@ -0,0 +1,43 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import {
+  DEFAULT_FEED_SORT,
+  DEFAULT_TOP_PERIOD,
+  PERIOD_PARAM,
+  SORT_PARAM,
+  parseFeedOrder,
+  type FeedOrder,
+} from "@/lib/feedSort";
+
+interface UseFeedOrderReturn extends FeedOrder {
+  setOrder: (order: FeedOrder) => void;
+}
+
+/**
+ * The feed order in the page URL. Defaults are left out of the URL, and
+ * changing the order replaces the history entry instead of adding one.
+ */
+export function useFeedOrder(): UseFeedOrderReturn {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { sort, period } = useMemo(() => parseFeedOrder(searchParams), [searchParams]);
+
+  const setOrder = useCallback(
+    (order: FeedOrder) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (order.sort === DEFAULT_FEED_SORT) params.delete(SORT_PARAM);
+      else params.set(SORT_PARAM, order.sort);
+      if (order.sort !== "top" || order.period === DEFAULT_TOP_PERIOD) params.delete(PERIOD_PARAM);
+      else params.set(PERIOD_PARAM, order.period);
+
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [router, pathname, searchParams]
+  );
+
+  return { sort, period, setOrder };
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { IMAGE_STAGE_PROGRESS, type ImageStage, type ProcessedImage, processImage } from "@/lib/imagePipeline";
+
+export interface ImageJob {
+  id: number;
+  name: string;
+  originalSize: number;
+  stage: ImageStage;
+  /** 0 to 1 */
+  progress: number;
+  /** Set when the image could not be processed; the job stays until dismissed */
+  error?: string;
+}
+
+interface UseImagePipelineReturn {
+  /** Images being processed, and the ones that failed */
+  jobs: ImageJob[];
+  /** How many images are still being processed */
+  pending: number;
+  /** Run files through the pipeline one at a time; resolves with the ones that worked */
+  process: (files: File[]) => Promise<ProcessedImage[]>;
+  dismiss: (id: number) => void;
+  /** Forget all jobs; images still running are dropped when they finish */
+  clear: () => void;
+}
+
+/** Per-image progress of the image pipeline, for the upload forms */
+export function useImagePipeline(): UseImagePipelineReturn {
+  const [jobs, setJobs] = useState<ImageJob[]>([]);
+  const nextId = useRef(0);
+  // Bumped by clear() and on unmount so late results are thrown away
+  const generation = useRef(0);
+
+  useEffect(() => {
+    const current = generation;
+    return () => {
+      current.current += 1;
+    };
+  }, []);
+
+  const update = useCallback((id: number, changes: Partial<ImageJob>) => {
+    setJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...changes } : job)));
+  }, []);
+
+  const process = useCallback(
+    async (files: File[]): Promise<ProcessedImage[]> => {
+      const started = generation.current;
+      const queued: ImageJob[] = files.map((file) => ({
+        id: nextId.current++,
+        name: file.name,
+        originalSize: file.size,
+        stage: "queued",
+        progress: 0,
+      }));
+      setJobs((prev) => [...prev, ...queued]);
+
+      // One image at a time: decoding several large photos at once can run a phone out of memory
+      const results: ProcessedImage[] = [];
+      for (const [index, file] of files.entries()) {
+        const { id } = queued[index];
+        if (generation.current !== started) return [];
+        try {
+          const result = await processImage(file, {
+            onStage: (stage) => update(id, { stage, progress: IMAGE_STAGE_PROGRESS[stage] }),
+          });
+          results.push(result);
+          setJobs((prev) => prev.filter((job) => job.id !== id));
+        } catch (err) {
+          console.error("Image processing failed:", err);
+          update(id, { error: err instanceof Error ? err.message : `Could not process ${file.name}` });
+        }
+      }
+      return generation.current === started ? results : [];
+    },
+    [update]
+  );
+
+  const dismiss = useCallback((id: number) => {
+    setJobs((prev) => prev.filter((job) => job.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    generation.current += 1;
+    setJobs([]);
+  }, []);
+
+  return {
+    jobs,
+    pending: jobs.filter((job) => !job.error).length,
+    process,
+    dismiss,
+    clear,
+  };
+}
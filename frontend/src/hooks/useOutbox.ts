@@ -0,0 +1,68 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { outbox, OutboxItem, OUTBOX_CHANGE_EVENT } from "@/lib/outbox";
+
+interface UseOutboxReturn {
+  items: OutboxItem[];
+  pendingCount: number;
+  failedCount: number;
+  isSyncing: boolean;
+  sync: () => Promise<void>;
+  retry: (id: number) => Promise<void>;
+  discard: (id: number) => Promise<void>;
+}
+
+export function useOutbox(): UseOutboxReturn {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await outbox.list());
+    } catch (error) {
+      console.error("Failed to read outbox:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    outbox.startSync();
+
+    const timer = setTimeout(refresh, 0);
+    window.addEventListener(OUTBOX_CHANGE_EVENT, refresh);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener(OUTBOX_CHANGE_EVENT, refresh);
+    };
+  }, [refresh]);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await outbox.replay();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  const retry = useCallback(async (id: number) => {
+    setIsSyncing(true);
+    try {
+      await outbox.retry(id);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  const discard = useCallback((id: number) => outbox.discard(id), []);
+
+  return {
+    items,
+    pendingCount: items.filter((item) => item.status === "pending").length,
+    failedCount: items.filter((item) => item.status === "failed").length,
+    isSyncing,
+    sync,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { toast } from "@/components/ui/use-toast";
+import { GlobalPost } from "@/lib/api";
+import { likeEngine, likeStateOf, LikeState } from "@/lib/likes";
+import { currentUserId } from "@/lib/outbox";
+
+interface UsePostLikeReturn extends LikeState {
+  /** Whether someone is signed in to like as */
+  canLike: boolean;
+  toggle: () => Promise<void>;
+}
+
+/**
+ * Like state of a post, shared by every mounted view of it. Failed toggles
+ * roll back and show a toast.
+ */
+export function usePostLike(post: GlobalPost): UsePostLikeReturn {
+  const userId = currentUserId();
+
+  // Report what this view was given; the engine keeps the freshest copy
+  useEffect(() => {
+    if (userId) likeEngine.receive(post, userId);
+  }, [post, userId]);
+
+  const stored = useSyncExternalStore(
+    likeEngine.subscribe,
+    () => likeEngine.getState(post._id),
+    () => undefined
+  );
+  const fromProps = useMemo(() => likeStateOf(post, userId), [post, userId]);
+  const state = stored ?? fromProps;
+
+  const toggle = useCallback(async () => {
+    try {
+      const result = await likeEngine.toggle(post);
+      if (result === "queued") {
+        toast({
+          title: "Saved offline",
+          description: "You're offline. Your like will sync when you reconnect.",
+          variant: "info",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to update like:", error);
+      toast({
+        title: "Action Failed",
+        description: "Failed to update like. Please try again.",
+        variant: "error",
+      });
+    }
+  }, [post]);
+
+  return { ...state, canLike: Boolean(userId), toggle };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ReviewEntity, getReviewEntities, isAbortError } from "@/lib/api";
+import type { ReviewSubject } from "@/lib/reviews";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface UseReviewEntitiesReturn {
+  entities: ReviewEntity[];
+  loading: boolean;
+  error: string | null;
+}
+
+/** Reviewed entities of one kind (or all), filtered by name as the user types */
+export function useReviewEntities(subject?: ReviewSubject, query: string = ""): UseReviewEntitiesReturn {
+  const [entities, setEntities] = useState<ReviewEntity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const q = query.trim();
+
+    const timer = setTimeout(() => {
+      setLoading(true);
+      getReviewEntities({ subject, q: q || undefined }, { signal: controller.signal })
+        .then((response) => {
+          setEntities(response.entities);
+          setError(null);
+        })
+        .catch((err) => {
+          if (isAbortError(err)) return;
+          console.error("Failed to load reviewed entities:", err);
+          setError("Could not load reviews. Please try again.");
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, q ? SEARCH_DEBOUNCE_MS : 0);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [subject, query]);
+
+  return { entities, loading, error };
+}
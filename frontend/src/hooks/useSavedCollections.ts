@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  SavedCollection,
+  createSavedCollection,
+  deleteSavedCollection,
+  getSavedCollections,
+  renameSavedCollection,
+} from "@/lib/api";
+import { bookmarks } from "@/lib/bookmarks";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
+
+interface UseSavedCollectionsReturn {
+  collections: SavedCollection[];
+  /** Every saved post */
+  total: number;
+  /** Saved posts in no collection */
+  unfiled: number;
+  loading: boolean;
+  error: ParsedError | null;
+  /** The calls below reject with the API error so dialogs can show it */
+  create: (name: string) => Promise<SavedCollection>;
+  rename: (collectionId: string, name: string) => Promise<SavedCollection>;
+  remove: (collectionId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/** The signed-in user's saved-post collections, with how many posts each holds */
+export function useSavedCollections(): UseSavedCollectionsReturn {
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  const [total, setTotal] = useState(0);
+  const [unfiled, setUnfiled] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ParsedError | null>(null);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await getSavedCollections();
+      setCollections(response.collections);
+      setTotal(response.total);
+      setUnfiled(response.unfiled);
+    } catch (err) {
+      setError(parseError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [refresh]);
+
+  // Counts change whenever a post is saved, moved or removed anywhere
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = bookmarks.subscribe(() => {
+      clearTimeout(timer);
+      timer = setTimeout(refresh, 500);
+    });
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [refresh]);
+
+  const create = useCallback(async (name: string) => {
+    const { collection } = await createSavedCollection(name);
+    setCollections((prev) => [...prev, collection]);
+    return collection;
+  }, []);
+
+  const rename = useCallback(async (collectionId: string, name: string) => {
+    const { collection } = await renameSavedCollection(collectionId, name);
+    setCollections((prev) => prev.map((c) => (c._id === collection._id ? collection : c)));
+    return collection;
+  }, []);
+
+  const remove = useCallback(
+    async (collectionId: string) => {
+      await deleteSavedCollection(collectionId);
+      bookmarks.forgetCollection(collectionId);
+      setCollections((prev) => prev.filter((c) => c._id !== collectionId));
+      refresh();
+    },
+    [refresh]
+  );
+
+  return { collections, total, unfiled, loading, error, create, rename, remove, refresh };
+}
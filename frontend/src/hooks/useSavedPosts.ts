@@ -0,0 +1,107 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { SavedItem, getSavedPosts, isAbortError } from "@/lib/api";
+import { bookmarks } from "@/lib/bookmarks";
+import { toast } from "@/components/ui/use-toast";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
+
+const PAGE_SIZE = 20;
+
+interface UseSavedPostsReturn {
+  items: SavedItem[];
+  loading: boolean;
+  error: ParsedError | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+  /** Unsave a post and drop it from the list */
+  remove: (postId: string) => Promise<void>;
+}
+
+/**
+ * The signed-in user's saved posts, most recently saved first, optionally
+ * within one collection (an id, or UNFILED_COLLECTION).
+ */
+export function useSavedPosts(collection?: string): UseSavedPostsReturn {
+  const [items, setItems] = useState<SavedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ParsedError | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // First page; replaces the list
+  const refresh = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await getSavedPosts(
+        { collection, limit: PAGE_SIZE },
+        { signal: controller.signal }
+      );
+      bookmarks.receive(response.items);
+      setItems(response.items);
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(parseError(err));
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [collection]);
+
+  useEffect(() => {
+    const timer = setTimeout(refresh, 0);
+    return () => {
+      clearTimeout(timer);
+      controllerRef.current?.abort();
+    };
+  }, [refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    try {
+      const response = await getSavedPosts(
+        { collection, cursor: nextCursor, limit: PAGE_SIZE },
+        { signal: controller.signal }
+      );
+      bookmarks.receive(response.items);
+      setItems((prev) => [...prev, ...response.items]);
+      setNextCursor(response.nextCursor);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const parsed = parseError(err);
+      toast({
+        title: "Failed to Load More",
+        description: parsed.message,
+        variant: "error",
+      });
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [collection, nextCursor, loading]);
+
+  const remove = useCallback(async (postId: string) => {
+    try {
+      await bookmarks.remove(postId);
+      setItems((prev) => prev.filter((item) => item.post_id !== postId));
+    } catch (err) {
+      const parsed = parseError(err);
+      toast({
+        title: "Remove Failed",
+        description: parsed.message,
+        variant: "error",
+      });
+    }
+  }, []);
+
+  return { items, loading, error, hasMore: nextCursor !== null, loadMore, refresh, remove };
+}
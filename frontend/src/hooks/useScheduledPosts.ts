@@ -0,0 +1,92 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { ScheduledPost, getScheduledPosts, cancelScheduledPost } from "@/lib/api";
+import { toast } from "@/components/ui/use-toast";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
+
+// Give the server's scheduler time to publish before looking again
+const PUBLISH_GRACE_MS = 60 * 1000;
+
+interface UseScheduledPostsReturn {
+  scheduledPosts: ScheduledPost[];
+  loading: boolean;
+  error: ParsedError | null;
+  /** Replace a scheduled post in the list, e.g. after it was edited */
+  update: (scheduledPost: ScheduledPost) => void;
+  cancel: (scheduledPostId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const soonestFirst = (a: ScheduledPost, b: ScheduledPost) =>
+  Date.parse(a.publishAt) - Date.parse(b.publishAt);
+
+/**
+ * The signed-in user's scheduled posts. The list is fetched again shortly
+ * after the next one is due, so published posts drop out of it.
+ */
+export function useScheduledPosts(enabled: boolean): UseScheduledPostsReturn {
+  const [scheduledPosts, setScheduledPosts] = useState<ScheduledPost[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ParsedError | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await getScheduledPosts();
+      setScheduledPosts(response.scheduledPosts);
+    } catch (err) {
+      setError(parseError(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timer = setTimeout(refresh, 0);
+    return () => clearTimeout(timer);
+  }, [enabled, refresh]);
+
+  const nextPublishAt = scheduledPosts[0]?.publishAt;
+
+  useEffect(() => {
+    if (!nextPublishAt) return;
+    const delay = Math.max(Date.parse(nextPublishAt) - Date.now(), 0) + PUBLISH_GRACE_MS;
+    // setTimeout fires straight away for delays past ~24.8 days
+    const timer = setTimeout(refresh, Math.min(delay, 2 ** 31 - 1));
+    return () => clearTimeout(timer);
+  }, [nextPublishAt, refresh]);
+
+  const update = useCallback((updated: ScheduledPost) => {
+    setScheduledPosts((prev) =>
+      prev
+        .map((scheduledPost) => (scheduledPost._id === updated._id ? updated : scheduledPost))
+        .sort(soonestFirst)
+    );
+  }, []);
+
+  const cancel = useCallback(async (scheduledPostId: string) => {
+    try {
+      await cancelScheduledPost(scheduledPostId);
+      setScheduledPosts((prev) => prev.filter((post) => post._id !== scheduledPostId));
+      toast({
+        title: "Scheduled Post Cancelled",
+        description: "It will not be published",
+        variant: "success",
+      });
+    } catch (err) {
+      const parsed = parseError(err);
+      toast({
+        title: "Cancel Failed",
+        description: parsed.message,
+        variant: "error",
+      });
+      // Most likely it went out meanwhile
+      refresh();
+    }
+  }, [refresh]);
+
+  return { scheduledPosts, loading, error, update, cancel, refresh };
+}
@@ -8,7 +8,9 @@ import {
   searchPosts,
   getSearchSuggestions,
   fallbackSearchPosts,
+  isAbortError,
 } from "@/lib/api";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
 
 interface UseSearchOptions {
   debounceMs?: number;
@@ -26,7 +28,7 @@ interface UseSearchReturn {
   // Results state
   results: SearchResponse | null;
   loading: boolean;
-  error: string | null;
+  error: ParsedError | null;
 
   // Suggestions state
   suggestions: SearchSuggestion[];
@@ -62,7 +64,7 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
   // Results state
   const [results, setResults] = useState<SearchResponse | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ParsedError | null>(null);
 
   // Suggestions state
   const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
@@ -96,7 +98,9 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
-      abortControllerRef.current = new AbortController();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
 
       try {
         setLoading(true);
@@ -106,21 +110,21 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
 
         try {
           // Try backend search first
-          response = await searchPosts(searchQuery);
+          response = await searchPosts(searchQuery, { signal });
         } catch (backendError) {
-          if (fallbackToClientSearch) {
+          if (fallbackToClientSearch && !isAbortError(backendError)) {
             console.warn(
               "Backend search failed, falling back to client-side search:",
               backendError
             );
-            response = await fallbackSearchPosts(searchQuery);
+            response = await fallbackSearchPosts(searchQuery, { signal });
           } else {
             throw backendError;
           }
         }
 
         // Only update if this request wasn't aborted
-        if (!abortControllerRef.current?.signal.aborted) {
+        if (!signal.aborted) {
           if (searchQuery.page === 1) {
             setResults(response);
           } else {
@@ -136,12 +140,12 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
           }
         }
       } catch (err) {
-        if (!abortControllerRef.current?.signal.aborted) {
+        if (!signal.aborted && !isAbortError(err)) {
           console.error("Search failed:", err);
-          setError(err instanceof Error ? err.message : "Search failed");
+          setError(parseError(err));
         }
       } finally {
-        if (!abortControllerRef.current?.signal.aborted) {
+        if (!signal.aborted) {
           setLoading(false);
         }
       }
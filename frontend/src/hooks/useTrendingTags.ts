@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TrendingTag, getTrendingTags, isAbortError } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+
+interface UseTrendingTagsReturn {
+  tags: TrendingTag[];
+  loading: boolean;
+  /** Whether loading failed; the sidebar just hides the list then */
+  failed: boolean;
+}
+
+/** Top hashtags of the server's trending window, once the user is signed in */
+export function useTrendingTags(limit: number = 5): UseTrendingTagsReturn {
+  const { isAuthenticated } = useAuth();
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const controller = new AbortController();
+    getTrendingTags(limit, { signal: controller.signal })
+      .then((response) => {
+        setTags(response.tags);
+        setFailed(false);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Failed to load trending tags:", error);
+        setFailed(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [isAuthenticated, limit]);
+
+  return { tags, loading, failed };
+}
@@ -3,11 +3,12 @@
 import { useState, useEffect, useCallback } from "react";
 import { GlobalPost, getUserPosts, deleteUserPost } from "@/lib/api";
 import { toast } from "@/components/ui/use-toast";
+import { parseError, type ParsedError } from "@/lib/errorHandler";
 
 interface UseUserPostsState {
   posts: GlobalPost[];
   loading: boolean;
-  error: string | null;
+  error: ParsedError | null;
   hasMore: boolean;
   page: number;
   totalCount: number;
@@ -17,6 +18,8 @@ interface UseUserPostsReturn extends UseUserPostsState {
   fetchPosts: () => Promise<void>;
   loadMore: () => Promise<void>;
   deletePosts: (postId: string) => Promise<void>;
+  /** Replace a post in the list, e.g. after it was edited */
+  updatePost: (post: GlobalPost) => void;
   retry: () => Promise<void>;
   refresh: () => Promise<void>;
 }
@@ -36,7 +39,12 @@ export function useUserPosts(userId: string | null): UseUserPostsReturn {
       if (!userId) {
         setState((prev) => ({
           ...prev,
-          error: "User not authenticated",
+          error: {
+            message: "User not authenticated",
+            type: "auth",
+            retryable: false,
+            shouldRedirectToAuth: true,
+          },
           loading: false,
         }));
         return;
@@ -62,12 +70,10 @@ export function useUserPosts(userId: string | null): UseUserPostsReturn {
           error: null,
         }));
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Failed to fetch posts";
         setState((prev) => ({
           ...prev,
           loading: false,
-          error: errorMessage,
+          error: parseError(error),
         }));
       }
     },
@@ -107,11 +113,9 @@ export function useUserPosts(userId: string | null): UseUserPostsReturn {
           variant: "success",
         });
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Failed to delete post";
         toast({
           title: "Delete Failed",
-          description: errorMessage,
+          description: parseError(error).message,
           variant: "error",
         });
       }
@@ -119,6 +123,15 @@ export function useUserPosts(userId: string | null): UseUserPostsReturn {
     [userId]
   );
 
+  const updatePost = useCallback((updated: GlobalPost) => {
+    setState((prev) => ({
+      ...prev,
+      posts: prev.posts.map((post) =>
+        post._id === updated._id ? { ...post, ...updated } : post
+      ),
+    }));
+  }, []);
+
   const retry = useCallback(() => {
     return fetchPosts(1, false);
   }, [fetchPosts]);
@@ -142,6 +155,7 @@ export function useUserPosts(userId: string | null): UseUserPostsReturn {
     fetchPosts: () => fetchPosts(1, false),
     loadMore,
     deletePosts,
+    updatePost,
     retry,
     refresh,
   };
@@ -0,0 +1,105 @@
+import { apiCache, createCacheKey } from "./api-cache";
+
+const TTL = 1000;
+const STALE = 5000;
+
+describe("createCacheKey", () => {
+  it("is the endpoint alone without params", () => {
+    expect(createCacheKey("GET /posts")).toBe("GET /posts");
+    expect(createCacheKey("GET /posts", { page: undefined })).toBe("GET /posts");
+  });
+
+  it("ignores param order and undefined values", () => {
+    expect(createCacheKey("GET /posts", { b: 2, a: 1, c: undefined })).toBe(
+      createCacheKey("GET /posts", { a: 1, b: 2 })
+    );
+  });
+});
+
+describe("apiCache.swr", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    apiCache.clear();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fetches on a miss and serves fresh values from cache", async () => {
+    const fetcher = jest.fn().mockResolvedValue("first");
+
+    await expect(apiCache.swr("k", fetcher, { ttl: TTL })).resolves.toBe("first");
+    await expect(apiCache.swr("k", fetcher, { ttl: TTL })).resolves.toBe("first");
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(apiCache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  it("serves a stale value while revalidating once in the background", async () => {
+    const listener = jest.fn();
+    apiCache.subscribe(listener);
+    await apiCache.swr("k", () => Promise.resolve("old"), { ttl: TTL, staleTime: STALE });
+
+    now += TTL + 1;
+    let resolve!: (value: string) => void;
+    const fetcher = jest.fn(() => new Promise<string>((r) => (resolve = r)));
+
+    await expect(apiCache.swr("k", fetcher, { ttl: TTL, staleTime: STALE })).resolves.toBe("old");
+    await expect(apiCache.swr("k", fetcher, { ttl: TTL, staleTime: STALE })).resolves.toBe("old");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    resolve("new");
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(listener).toHaveBeenCalledWith("k");
+    await expect(apiCache.swr("k", fetcher, { ttl: TTL })).resolves.toBe("new");
+  });
+
+  it("refetches once the stale window has passed", async () => {
+    await apiCache.swr("k", () => Promise.resolve("old"), { ttl: TTL, staleTime: STALE });
+
+    now += TTL + STALE;
+    const fetcher = jest.fn().mockResolvedValue("new");
+
+    await expect(apiCache.swr("k", fetcher, { ttl: TTL, staleTime: STALE })).resolves.toBe("new");
+    expect(apiCache.getStats().expiredEntries).toBe(1);
+  });
+
+  it("drops a revalidation that was started before an invalidation", async () => {
+    const listener = jest.fn();
+    apiCache.subscribe(listener);
+    await apiCache.swr("GET /posts", () => Promise.resolve("old"), { ttl: TTL, staleTime: STALE });
+
+    now += TTL + 1;
+    let resolve!: (value: string) => void;
+    await apiCache.swr(
+      "GET /posts",
+      () => new Promise<string>((r) => (resolve = r)),
+      { ttl: TTL, staleTime: STALE }
+    );
+    apiCache.invalidate("GET /posts");
+
+    resolve("pre-mutation");
+    await new Promise((r) => setTimeout(r, 0));
+
+    expect(listener).not.toHaveBeenCalled();
+    const fetcher = jest.fn().mockResolvedValue("after");
+    await expect(apiCache.swr("GET /posts", fetcher, { ttl: TTL })).resolves.toBe("after");
+  });
+
+  it("keeps persisted entries in localStorage and invalidates them by prefix", async () => {
+    await apiCache.swr("GET /a", () => Promise.resolve(1), { ttl: TTL, persist: true });
+    await apiCache.swr("GET /b", () => Promise.resolve(2), { ttl: TTL, persist: true });
+    expect(localStorage.getItem("api-cache:GET /a")).not.toBeNull();
+
+    apiCache.invalidate("GET /a");
+
+    expect(localStorage.getItem("api-cache:GET /a")).toBeNull();
+    expect(localStorage.getItem("api-cache:GET /b")).not.toBeNull();
+  });
+});
@@ -1,16 +1,277 @@
-// Simple API cache replacement
+/**
+ * API response cache - in-memory with localStorage persistence
+ *
+ * Entries are keyed by endpoint + params. An entry is "fresh" until its TTL
+ * elapses, then "stale" until its stale window elapses, then expired. Stale
+ * reads return the cached value immediately and revalidate in the background.
+ */
+
+const STORAGE_PREFIX = "api-cache:";
+
+export interface CacheOptions {
+  /** How long a value is served without revalidating, in ms */
+  ttl: number;
+  /** How long past the TTL a stale value may still be served, in ms */
+  staleTime?: number;
+  /** Mirror the entry to localStorage so it survives reloads */
+  persist?: boolean;
+}
+
+interface CacheEntry<T = unknown> {
+  data: T;
+  storedAt: number;
+  ttl: number;
+  staleTime: number;
+  persist: boolean;
+}
+
+export type CacheListener = (key: string) => void;
+
+export interface CacheStats {
+  totalEntries: number;
+  validEntries: number;
+  staleEntries: number;
+  expiredEntries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export function createCacheKey(endpoint: string, params?: object): string {
+  if (!params) return endpoint;
+
+  const defined = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return defined.length > 0
+    ? `${endpoint}?${JSON.stringify(Object.fromEntries(defined))}`
+    : endpoint;
+}
+
+class ApiCache {
+  private entries = new Map<string, CacheEntry>();
+  private revalidating = new Map<string, Promise<unknown>>();
+  private listeners = new Set<CacheListener>();
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private expirations = 0;
+
+  /**
+   * Stale-while-revalidate read. Fresh values resolve from cache, stale values
+   * resolve from cache while `fetcher` refreshes them, and misses await `fetcher`.
+   * `signal` only cancels a miss; background revalidations are never tied to a caller.
+   */
+  async swr<T>(
+    key: string,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    options: CacheOptions,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const entry = this.read<T>(key);
+
+    if (entry) {
+      if (this.isFresh(entry)) {
+        this.hits++;
+        return entry.data;
+      }
+
+      this.staleHits++;
+      this.revalidate(key, fetcher, options);
+      return entry.data;
+    }
+
+    this.misses++;
+    const data = await fetcher(signal);
+    this.set(key, data, options);
+    return data;
+  }
+
+  set<T>(key: string, data: T, options: CacheOptions): void {
+    const entry: CacheEntry<T> = {
+      data,
+      storedAt: Date.now(),
+      ttl: options.ttl,
+      staleTime: options.staleTime ?? 0,
+      persist: options.persist ?? false,
+    };
+
+    this.entries.set(key, entry);
+
+    if (entry.persist) {
+      this.writeStorage(key, entry);
+    }
+  }
+
+  /**
+   * Drop every entry whose key starts with `prefix`, in memory and in storage.
+   */
+  invalidate(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+
+    // In-flight revalidations started before the mutation would write back
+    // pre-mutation data, so forget them
+    for (const key of [...this.revalidating.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.revalidating.delete(key);
+      }
+    }
+
+    for (const key of this.storageKeys()) {
+      if (key.startsWith(prefix)) {
+        localStorage.removeItem(STORAGE_PREFIX + key);
+      }
+    }
+  }
+
+  /**
+   * Listen for background revalidations. The listener receives the key whose
+   * value was refreshed; read it again to get the new data from cache.
+   */
+  subscribe(listener: CacheListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStats(): CacheStats {
+    let validEntries = 0;
+    let staleEntries = 0;
+    let expiredEntries = 0;
+
+    for (const entry of this.entries.values()) {
+      if (this.isFresh(entry)) validEntries++;
+      else if (this.isExpired(entry)) expiredEntries++;
+      else staleEntries++;
+    }
+
+    const reads = this.hits + this.staleHits + this.misses;
 
-export const apiCache = {
-  getStats() {
     return {
-      totalEntries: 0,
-      validEntries: 0,
-      hitRate: 0,
-      expiredEntries: 0
+      totalEntries: this.entries.size,
+      validEntries,
+      staleEntries,
+      expiredEntries: expiredEntries + this.expirations,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      hitRate: reads > 0 ? (this.hits + this.staleHits) / reads : 0,
     };
-  },
-  
-  clear() {
-    // Simple implementation - do nothing
   }
-};
\ No newline at end of file
+
+  clear(): void {
+    this.entries.clear();
+    this.revalidating.clear();
+
+    for (const key of this.storageKeys()) {
+      localStorage.removeItem(STORAGE_PREFIX + key);
+    }
+
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+    this.expirations = 0;
+  }
+
+  private read<T>(key: string): CacheEntry<T> | undefined {
+    const entry =
+      (this.entries.get(key) as CacheEntry<T> | undefined) ??
+      this.readStorage<T>(key);
+
+    if (!entry) return undefined;
+
+    if (this.isExpired(entry)) {
+      this.expirations++;
+      this.entries.delete(key);
+      if (entry.persist) localStorage.removeItem(STORAGE_PREFIX + key);
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private revalidate<T>(
+    key: string,
+    fetcher: (signal?: AbortSignal) => Promise<T>,
+    options: CacheOptions
+  ): void {
+    if (this.revalidating.has(key)) return;
+
+    const request: Promise<void> = fetcher()
+      .then((data) => {
+        if (this.revalidating.get(key) !== request) return;
+        this.set(key, data, options);
+        this.notify(key);
+      })
+      .catch((error) => {
+        console.warn(`Background revalidation failed for ${key}:`, error);
+      })
+      .finally(() => {
+        if (this.revalidating.get(key) === request) {
+          this.revalidating.delete(key);
+        }
+      });
+
+    this.revalidating.set(key, request);
+  }
+
+  private notify(key: string): void {
+    this.listeners.forEach((listener) => listener(key));
+  }
+
+  private isFresh(entry: CacheEntry): boolean {
+    return Date.now() - entry.storedAt < entry.ttl;
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return Date.now() - entry.storedAt >= entry.ttl + entry.staleTime;
+  }
+
+  private readStorage<T>(key: string): CacheEntry<T> | undefined {
+    if (typeof window === "undefined") return undefined;
+
+    try {
+      const raw = localStorage.getItem(STORAGE_PREFIX + key);
+      return raw ? (JSON.parse(raw) as CacheEntry<T>) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeStorage(key: string, entry: CacheEntry): void {
+    if (typeof window === "undefined") return;
+
+    try {
+      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      // Quota exceeded or storage disabled - the in-memory copy still works
+      console.warn(`Failed to persist cache entry ${key}:`, error);
+    }
+  }
+
+  private storageKeys(): string[] {
+    if (typeof window === "undefined") return [];
+
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) {
+        keys.push(key.slice(STORAGE_PREFIX.length));
+      }
+    }
+    return keys;
+  }
+}
+
+// Create singleton instance
+export const apiCache = new ApiCache();
+
+export default apiCache;
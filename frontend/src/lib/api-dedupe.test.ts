@@ -0,0 +1,119 @@
+import { dedupeRequest, isAbortError } from "./api-dedupe";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// The in-flight entry is dropped a few microtasks after the request settles
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("dedupeRequest", () => {
+  it("shares one call between identical requests in flight", async () => {
+    const pending = deferred<string>();
+    const run = jest.fn(() => pending.promise);
+
+    const first = dedupeRequest("GET /posts", run);
+    const second = dedupeRequest("GET /posts", run);
+    pending.resolve("posts");
+
+    await expect(Promise.all([first, second])).resolves.toEqual(["posts", "posts"]);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs again once the earlier request has settled", async () => {
+    const run = jest.fn().mockResolvedValue("posts");
+
+    await dedupeRequest("GET /posts", run);
+    await settle();
+    await dedupeRequest("GET /posts", run);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs again after a failed request", async () => {
+    const run = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce("posts");
+
+    await expect(dedupeRequest("GET /posts", run)).rejects.toThrow("boom");
+    await settle();
+    await expect(dedupeRequest("GET /posts", run)).resolves.toBe("posts");
+  });
+
+  it("keeps different keys apart", async () => {
+    const run = jest.fn((signal: AbortSignal) => Promise.resolve(signal));
+
+    await Promise.all([dedupeRequest("a", run), dedupeRequest("b", run)]);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("rejects straight away for an already aborted signal", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const run = jest.fn();
+
+    const error = await dedupeRequest("GET /posts", run, controller.signal).catch((e) => e);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it("detaches one aborted caller and keeps the request for the rest", async () => {
+    const pending = deferred<string>();
+    let shared!: AbortSignal;
+    const run = jest.fn((signal: AbortSignal) => {
+      shared = signal;
+      return pending.promise;
+    });
+    const leaving = new AbortController();
+
+    const first = dedupeRequest("GET /posts", run, leaving.signal);
+    const second = dedupeRequest("GET /posts", run, new AbortController().signal);
+    leaving.abort();
+    pending.resolve("posts");
+
+    expect(isAbortError(await first.catch((e) => e))).toBe(true);
+    await expect(second).resolves.toBe("posts");
+    expect(shared.aborted).toBe(false);
+  });
+
+  it("cancels the shared request once every caller has aborted", async () => {
+    let shared!: AbortSignal;
+    const run = jest.fn((signal: AbortSignal) => {
+      shared = signal;
+      return new Promise<string>(() => undefined);
+    });
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = dedupeRequest("GET /posts", run, a.signal).catch((e) => e);
+    const second = dedupeRequest("GET /posts", run, b.signal).catch((e) => e);
+    a.abort();
+    expect(shared.aborted).toBe(false);
+    b.abort();
+
+    expect(shared.aborted).toBe(true);
+    expect(isAbortError(await first)).toBe(true);
+    expect(isAbortError(await second)).toBe(true);
+
+    // The cancelled request is gone, so the next caller starts afresh
+    dedupeRequest("GET /posts", run).catch(() => undefined);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("isAbortError", () => {
+  it("matches only AbortError DOMExceptions", () => {
+    expect(isAbortError(new DOMException("stop", "AbortError"))).toBe(true);
+    expect(isAbortError(new DOMException("late", "TimeoutError"))).toBe(false);
+    expect(isAbortError(new Error("AbortError"))).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * In-flight request deduplication
+ *
+ * Identical requests issued while one is already running share a single
+ * network call. Each caller may pass its own AbortSignal: aborting it only
+ * detaches that caller, and the shared request is cancelled once every
+ * caller has gone away.
+ */
+
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inflight = new Map<string, InflightRequest>();
+
+function abortReason(signal: AbortSignal): unknown {
+  return (
+    signal.reason ??
+    new DOMException("The operation was aborted.", "AbortError")
+  );
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function dedupeRequest<T>(
+  key: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+
+  let request = inflight.get(key);
+
+  if (!request) {
+    const controller = new AbortController();
+    const promise = run(controller.signal);
+    const created: InflightRequest = { promise, controller, subscribers: 0 };
+
+    promise
+      .catch(() => undefined)
+      .finally(() => {
+        if (inflight.get(key) === created) inflight.delete(key);
+      });
+
+    inflight.set(key, created);
+    request = created;
+  }
+
+  const shared = request;
+  shared.subscribers++;
+
+  if (!signal) {
+    return shared.promise as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.subscribers--;
+      if (shared.subscribers === 0) {
+        if (inflight.get(key) === shared) inflight.delete(key);
+        shared.controller.abort(abortReason(signal));
+      }
+      reject(abortReason(signal));
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    (shared.promise as Promise<T>).then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+import { createApiError, parseRetryAfter } from "./api-error";
+
+const respond = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(typeof body === "string" ? body : JSON.stringify(body), { status, headers });
+
+describe("createApiError", () => {
+  it("takes the message, code and field errors the backend sent", async () => {
+    const error = await createApiError(
+      respond(400, {
+        message: "Content is required",
+        code: "VALIDATION_FAILED",
+        errors: { content: "Content is required", images: 3 },
+      }),
+      "POST /globalpost"
+    );
+
+    expect(error).toMatchObject({
+      status: 400,
+      message: "Content is required",
+      code: "VALIDATION_FAILED",
+      endpoint: "POST /globalpost",
+      retryAfter: null,
+    });
+    expect(error.fieldErrors).toEqual({ content: "Content is required" });
+  });
+
+  it("falls back to a code for the status and a generic message", async () => {
+    const notFound = await createApiError(respond(404, {}), "GET /x");
+    const broken = await createApiError(respond(502, "<html>Bad gateway</html>"), "GET /x");
+    const teapot = await createApiError(respond(418, { errors: ["nope"] }), "GET /x");
+
+    expect(notFound).toMatchObject({ code: "NOT_FOUND", message: "Request failed: 404" });
+    expect(broken).toMatchObject({ code: "SERVER_ERROR", message: "Request failed: 502" });
+    expect(teapot).toMatchObject({ code: "REQUEST_FAILED", fieldErrors: {} });
+  });
+
+  it("reads Retry-After", async () => {
+    const error = await createApiError(
+      respond(429, { message: "Slow down" }, { "Retry-After": "30" }),
+      "POST /like"
+    );
+
+    expect(error.code).toBe("RATE_LIMITED");
+    expect(error.retryAfter).toBe(30);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-01-10T12:00:00.000Z");
+
+  it("takes seconds or an HTTP date", () => {
+    expect(parseRetryAfter("120", now)).toBe(120);
+    expect(parseRetryAfter("Fri, 10 Jan 2025 12:01:30 GMT", now)).toBe(90);
+  });
+
+  it("never waits a negative time and ignores nonsense", () => {
+    expect(parseRetryAfter("-5", now)).toBe(0);
+    expect(parseRetryAfter("Fri, 10 Jan 2025 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Structured errors for non-2xx API responses.
+ *
+ * The backend answers failures with `{ message, code?, errors? }`, where
+ * `errors` maps request fields to what was wrong with them. handleResponse in
+ * lib/api.ts turns every failed response into an ApiError so callers can
+ * branch on status and code instead of matching message text.
+ */
+
+export type FieldErrors = Record<string, string>;
+
+// Used when the backend does not send its own code
+const DEFAULT_CODES: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHORIZED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  413: "PAYLOAD_TOO_LARGE",
+  422: "VALIDATION_FAILED",
+  429: "RATE_LIMITED",
+  503: "SERVICE_UNAVAILABLE",
+};
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly fieldErrors: FieldErrors;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  readonly retryAfter: number | null;
+  readonly endpoint: string;
+
+  constructor(
+    endpoint: string,
+    status: number,
+    message: string,
+    details: { code?: string; fieldErrors?: FieldErrors; retryAfter?: number | null } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.endpoint = endpoint;
+    this.status = status;
+    this.code =
+      details.code ?? DEFAULT_CODES[status] ?? (status >= 500 ? "SERVER_ERROR" : "REQUEST_FAILED");
+    this.fieldErrors = details.fieldErrors ?? {};
+    this.retryAfter = details.retryAfter ?? null;
+  }
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+function readFieldErrors(errors: unknown): FieldErrors {
+  if (!errors || typeof errors !== "object" || Array.isArray(errors)) return {};
+
+  const fieldErrors: FieldErrors = {};
+  for (const [field, message] of Object.entries(errors)) {
+    if (typeof message === "string") fieldErrors[field] = message;
+  }
+  return fieldErrors;
+}
+
+export async function createApiError(response: Response, endpoint: string): Promise<ApiError> {
+  const data = await response.json().catch(() => ({}));
+  const body: Record<string, unknown> = data && typeof data === "object" ? data : {};
+
+  return new ApiError(
+    endpoint,
+    response.status,
+    typeof body.message === "string" && body.message
+      ? body.message
+      : `Request failed: ${response.status}`,
+    {
+      code: typeof body.code === "string" ? body.code : undefined,
+      fieldErrors: readFieldErrors(body.errors),
+      retryAfter: parseRetryAfter(response.headers.get("Retry-After")),
+    }
+  );
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
@@ -0,0 +1,453 @@
+/**
+ * Response schemas for the API layer.
+ *
+ * Every endpoint in lib/api.ts parses its JSON body against one of these
+ * schemas, so pages get precise types and backend drift surfaces as an
+ * ApiSchemaError instead of an `undefined` deep inside a component.
+ */
+
+import { z } from "zod";
+import { POST_CATEGORIES } from "./categories";
+import { REVIEW_SUBJECTS } from "./reviews";
+
+// Domain models
+export const pollOptionSchema = z.object({
+  _id: z.string(),
+  text: z.string(),
+  votes: z.number().default(0),
+});
+
+// Who voted for what is never sent; only whether the signed-in user voted
+export const pollSchema = z.object({
+  options: z.array(pollOptionSchema),
+  /** Null when the poll never closes */
+  closesAt: z.string().nullable().default(null),
+  hasVoted: z.boolean().default(false),
+});
+
+export const reviewRatingSchema = z.object({
+  dimension: z.string(),
+  /** 1 to 5 */
+  score: z.number(),
+});
+
+// The structured part of a review post; its content is the written review
+export const reviewSchema = z.object({
+  subject: z.enum(REVIEW_SUBJECTS),
+  /** Slug of entityName; reviews sharing it are aggregated together */
+  entity: z.string(),
+  entityName: z.string(),
+  ratings: z.array(reviewRatingSchema).default([]),
+  /** Mean of the ratings */
+  overall: z.number(),
+});
+
+// A content warning on one image of a post
+export const imageWarningSchema = z.object({
+  url: z.string(),
+  label: z.string(),
+});
+
+export const globalPostSchema = z.object({
+  _id: z.string(),
+  user_id: z.string(),
+  randomName: z.string(),
+  content: z.string(),
+  /** Null for posts written before categories existed */
+  category: z.enum(POST_CATEGORIES).nullable().default(null),
+  /** Hashtags in the content, lowercase without "#" */
+  tags: z.array(z.string()).default([]),
+  /** Set when the post is a poll; the content is its question */
+  poll: pollSchema.nullable().default(null),
+  /** Set when the post is a review */
+  review: reviewSchema.nullable().default(null),
+  images: z.array(z.string()).default([]),
+  /** The whole post stays hidden behind this label until the reader reveals it */
+  contentWarning: z.string().nullable().default(null),
+  imageWarnings: z.array(imageWarningSchema).default([]),
+  likes: z.number().default(0),
+  likedBy: z.array(z.string()).default([]),
+  commentsCount: z.number().default(0),
+  /** Set while the author shares the post by public link */
+  shareId: z.string().nullable().default(null),
+  /** Set once the author has edited the post */
+  editedAt: z.string().nullable().default(null),
+  /** The author can edit until this time */
+  editableUntil: z.string().nullable().default(null),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// A post as its public share link shows it: no pseudonym, likers or comments
+export const sharedPostSchema = globalPostSchema
+  .pick({
+    _id: true,
+    content: true,
+    category: true,
+    tags: true,
+    poll: true,
+    review: true,
+    images: true,
+    contentWarning: true,
+    imageWarnings: true,
+    likes: true,
+    commentsCount: true,
+    editedAt: true,
+    createdAt: true,
+  })
+  .extend({ shareId: z.string() });
+
+// An earlier version of an edited post
+export const postRevisionSchema = z.object({
+  content: z.string().default(""),
+  images: z.array(z.string()).default([]),
+  contentWarning: z.string().nullable().default(null),
+  imageWarnings: z.array(imageWarningSchema).default([]),
+  /** When this version was replaced */
+  editedAt: z.string(),
+});
+
+export const postCommentSchema = z.object({
+  _id: z.string(),
+  user_id: z.string(),
+  randomName: z.string(),
+  content: z.string().default(""),
+  /** Top-level comment this replies to; threads are one level deep */
+  parentId: z.string().nullable().default(null),
+  /** Set on a deleted comment kept as a placeholder for its replies */
+  deletedAt: z.string().nullable().default(null),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// A single post is returned with its comments and edit history; the feed
+// leaves them out
+export const globalPostDetailSchema = globalPostSchema.extend({
+  comments: z.array(postCommentSchema).default([]),
+  /** Previous versions, oldest first */
+  revisions: z.array(postRevisionSchema).default([]),
+});
+
+// A global post waiting for its publish time; only its author sees it
+export const scheduledPostSchema = z.object({
+  _id: z.string(),
+  user_id: z.string(),
+  randomName: z.string(),
+  content: z.string(),
+  category: z.enum(POST_CATEGORIES),
+  /** Options get their ids when the post is published */
+  poll: z
+    .object({
+      options: z.array(z.string()),
+      closesAt: z.string().nullable().default(null),
+    })
+    .nullable()
+    .default(null),
+  review: reviewSchema.nullable().default(null),
+  images: z.array(z.string()).default([]),
+  contentWarning: z.string().nullable().default(null),
+  imageWarnings: z.array(imageWarningSchema).default([]),
+  publishAt: z.string(),
+  /** The author asked for a random time; publishAt is the one picked */
+  randomDelay: z.boolean().default(false),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// A post the user bookmarked. `post` is null once the post has been deleted;
+// the entry stays so the saved list can show where it was
+export const savedItemSchema = z.object({
+  _id: z.string(),
+  post_id: z.string(),
+  /** null: not in any collection */
+  collection_id: z.string().nullable().default(null),
+  /** When it was saved */
+  createdAt: z.string(),
+  post: globalPostSchema.nullable(),
+});
+
+// A named group of saved posts; private to its owner
+export const savedCollectionSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  /** Saved posts in it */
+  count: z.number().default(0),
+  createdAt: z.string(),
+});
+
+// Something that has been reviewed, as listed on the reviews page
+export const reviewEntitySchema = z.object({
+  subject: z.enum(REVIEW_SUBJECTS),
+  entity: z.string(),
+  entityName: z.string(),
+  count: z.number(),
+  overall: z.number(),
+  lastReviewAt: z.string(),
+});
+
+/** Reviews per star, index 0 being 1 star */
+const starDistributionSchema = z.array(z.number()).length(5);
+
+export const reviewSummarySchema = z.object({
+  subject: z.enum(REVIEW_SUBJECTS),
+  entity: z.string(),
+  entityName: z.string(),
+  count: z.number(),
+  overall: z.number(),
+  distribution: starDistributionSchema,
+  dimensions: z.array(
+    z.object({
+      dimension: z.string(),
+      average: z.number(),
+      distribution: starDistributionSchema,
+    })
+  ),
+  /** Average per half-year semester ("2025-1"), oldest first */
+  semesters: z.array(
+    z.object({
+      semester: z.string(),
+      count: z.number(),
+      overall: z.number(),
+    })
+  ),
+});
+
+export const communitySchema = z.object({
+  community_id: z.string(),
+  name: z.string(),
+  description: z.string().default(""),
+  memberCount: z.number().default(0),
+  icon: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+// The user document is persisted to localStorage as-is, so unknown keys are kept
+export const userSchema = z.looseObject({
+  email: z.string(),
+  user_id: z.string(),
+  isverified: z.boolean().default(false),
+  user_name: z.string().optional(),
+  graduation_year: z.number().optional(),
+  joinedCommunities: z.array(z.string()).default([]),
+});
+
+// Endpoint responses
+export const messageResponseSchema = z.object({
+  message: z.string(),
+});
+
+export const requestOtpResponseSchema = messageResponseSchema.extend({
+  email: z.string().optional(),
+});
+
+export const verifyOtpResponseSchema = messageResponseSchema.extend({
+  user: userSchema,
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+export const refreshResponseSchema = messageResponseSchema.extend({
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+export const globalPostsResponseSchema = z.object({
+  posts: z.array(globalPostSchema),
+  nextCursor: z.string().nullable().default(null),
+  hasMore: z.boolean().default(false),
+});
+
+export const trendingTagSchema = z.object({
+  tag: z.string(),
+  /** Posts using the tag within the trending window */
+  count: z.number(),
+  /** Recency-weighted mentions per hour; what tags are ranked by */
+  velocity: z.number(),
+  lastPostAt: z.string(),
+});
+
+export const trendingTagsResponseSchema = z.object({
+  tags: z.array(trendingTagSchema),
+  windowHours: z.number(),
+});
+
+export const reviewEntitiesResponseSchema = z.object({
+  entities: z.array(reviewEntitySchema),
+});
+
+export const reviewSummaryResponseSchema = z.object({
+  summary: reviewSummarySchema,
+});
+
+export const postDetailResponseSchema = z.object({
+  post: globalPostDetailSchema,
+});
+
+export const sharedPostResponseSchema = z.object({
+  post: sharedPostSchema,
+});
+
+export const shareLinkResponseSchema = z.object({
+  shareId: z.string(),
+});
+
+export const updatePostResponseSchema = messageResponseSchema.extend({
+  post: globalPostDetailSchema,
+});
+
+export const commentResponseSchema = messageResponseSchema.extend({
+  comment: postCommentSchema,
+});
+
+export const deleteCommentResponseSchema = messageResponseSchema.extend({
+  comments: z.array(postCommentSchema),
+});
+
+export const createPostResponseSchema = messageResponseSchema.extend({
+  post: globalPostSchema,
+});
+
+export const scheduledPostResponseSchema = messageResponseSchema.extend({
+  scheduledPost: scheduledPostSchema,
+});
+
+export const scheduledPostsResponseSchema = z.object({
+  scheduledPosts: z.array(scheduledPostSchema),
+});
+
+export const savedPostsResponseSchema = z.object({
+  items: z.array(savedItemSchema),
+  nextCursor: z.string().nullable(),
+  hasMore: z.boolean(),
+});
+
+export const savedPostIdsResponseSchema = z.object({
+  saved: z.array(
+    z.object({
+      post_id: z.string(),
+      collection_id: z.string().nullable().default(null),
+    })
+  ),
+});
+
+export const savePostResponseSchema = messageResponseSchema.extend({
+  saved: savedItemSchema.omit({ post: true }),
+});
+
+export const savedCollectionsResponseSchema = z.object({
+  collections: z.array(savedCollectionSchema),
+  /** Every saved post, in a collection or not */
+  total: z.number(),
+  /** Saved posts in no collection */
+  unfiled: z.number(),
+});
+
+export const savedCollectionResponseSchema = messageResponseSchema.extend({
+  collection: savedCollectionSchema,
+});
+
+export const pollVoteResponseSchema = messageResponseSchema.extend({
+  poll: pollSchema,
+});
+
+export const likeResponseSchema = z.object({
+  message: z.enum(["Liked", "Unliked"]),
+  likes: z.number(),
+  /** The post's updatedAt after the like; missing from older servers */
+  updatedAt: z.string().optional(),
+});
+
+export const communitiesResponseSchema = z.object({
+  communities: z.array(communitySchema),
+});
+
+export const updateProfileResponseSchema = messageResponseSchema.extend({
+  user: userSchema,
+});
+
+export const userPostsResponseSchema = z.object({
+  posts: z.array(globalPostSchema),
+  totalCount: z.number(),
+});
+
+export const communityPostsResponseSchema = z.object({
+  posts: z.array(globalPostSchema),
+  community: communitySchema.nullable().default(null),
+});
+
+export type PollOption = z.infer<typeof pollOptionSchema>;
+export type Poll = z.infer<typeof pollSchema>;
+export type Review = z.infer<typeof reviewSchema>;
+export type ImageWarning = z.infer<typeof imageWarningSchema>;
+export type GlobalPost = z.infer<typeof globalPostSchema>;
+export type SharedPost = z.infer<typeof sharedPostSchema>;
+export type PostRevision = z.infer<typeof postRevisionSchema>;
+export type PostComment = z.infer<typeof postCommentSchema>;
+export type GlobalPostDetail = z.infer<typeof globalPostDetailSchema>;
+export type ScheduledPost = z.infer<typeof scheduledPostSchema>;
+export type SavedItem = z.infer<typeof savedItemSchema>;
+export type SavedCollection = z.infer<typeof savedCollectionSchema>;
+export type ReviewEntity = z.infer<typeof reviewEntitySchema>;
+export type ReviewSummary = z.infer<typeof reviewSummarySchema>;
+export type Community = z.infer<typeof communitySchema>;
+export type User = z.infer<typeof userSchema>;
+export type MessageResponse = z.infer<typeof messageResponseSchema>;
+export type RequestOtpResponse = z.infer<typeof requestOtpResponseSchema>;
+export type VerifyOtpResponse = z.infer<typeof verifyOtpResponseSchema>;
+export type RefreshResponse = z.infer<typeof refreshResponseSchema>;
+export type GlobalPostsResponse = z.infer<typeof globalPostsResponseSchema>;
+export type TrendingTag = z.infer<typeof trendingTagSchema>;
+export type TrendingTagsResponse = z.infer<typeof trendingTagsResponseSchema>;
+export type ReviewEntitiesResponse = z.infer<typeof reviewEntitiesResponseSchema>;
+export type ReviewSummaryResponse = z.infer<typeof reviewSummaryResponseSchema>;
+export type PostDetailResponse = z.infer<typeof postDetailResponseSchema>;
+export type SharedPostResponse = z.infer<typeof sharedPostResponseSchema>;
+export type ShareLinkResponse = z.infer<typeof shareLinkResponseSchema>;
+export type UpdatePostResponse = z.infer<typeof updatePostResponseSchema>;
+export type CommentResponse = z.infer<typeof commentResponseSchema>;
+export type DeleteCommentResponse = z.infer<typeof deleteCommentResponseSchema>;
+export type CreatePostResponse = z.infer<typeof createPostResponseSchema>;
+export type ScheduledPostResponse = z.infer<typeof scheduledPostResponseSchema>;
+export type ScheduledPostsResponse = z.infer<typeof scheduledPostsResponseSchema>;
+export type SavedPostsResponse = z.infer<typeof savedPostsResponseSchema>;
+export type SavedPostIdsResponse = z.infer<typeof savedPostIdsResponseSchema>;
+export type SavePostResponse = z.infer<typeof savePostResponseSchema>;
+export type SavedCollectionsResponse = z.infer<typeof savedCollectionsResponseSchema>;
+export type SavedCollectionResponse = z.infer<typeof savedCollectionResponseSchema>;
+export type PollVoteResponse = z.infer<typeof pollVoteResponseSchema>;
+export type LikeResponse = z.infer<typeof likeResponseSchema>;
+export type CommunitiesResponse = z.infer<typeof communitiesResponseSchema>;
+export type UpdateProfileResponse = z.infer<typeof updateProfileResponseSchema>;
+export type UserPostsResponse = z.infer<typeof userPostsResponseSchema>;
+export type CommunityPostsResponse = z.infer<
+  typeof communityPostsResponseSchema
+>;
+
+/**
+ * Raised when a response body does not match the schema declared for its
+ * endpoint. Kept distinct from request failures so callers can tell a broken
+ * contract apart from a network or server error.
+ */
+export class ApiSchemaError extends Error {
+  readonly endpoint: string;
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(endpoint: string, error: z.ZodError) {
+    super(`Unexpected response from ${endpoint}: ${z.prettifyError(error)}`);
+    this.name = "ApiSchemaError";
+    this.endpoint = endpoint;
+    this.issues = error.issues;
+  }
+}
+
+export function parseApiResponse<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  endpoint: string
+): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiSchemaError(endpoint, result.error);
+  }
+  return result.data;
+}
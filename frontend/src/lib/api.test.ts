@@ -0,0 +1,786 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  commentGlobalPost,
+  createGlobalPost,
+  createSavedCollection,
+  deleteGlobalPostComment,
+  deleteSavedCollection,
+  deleteUserPost,
+  getFilteredCommunityPosts,
+  getGlobalPosts,
+  getPostById,
+  getReviewEntities,
+  getReviewSummary,
+  getSavedCollections,
+  getSavedPostIds,
+  getSavedPosts,
+  getScheduledPosts,
+  likeGlobalPost,
+  savePost,
+  scheduleGlobalPost,
+  searchPosts,
+  unsavePost,
+  updateGlobalPost,
+  votePoll,
+  verifyOTP,
+  requestOTP,
+  type ApiError,
+  type GlobalPost,
+} from "./api";
+import { apiCache } from "./api-cache";
+import { FAKE_OTP, fakeBackend } from "./fake-backend";
+import { engagementOf, hotScoreOf } from "./fake-backend/ranking";
+import { createId, type FakeGlobalPost } from "./fake-backend/store";
+
+// Every request goes to the in-memory fake backend
+jest.mock("./fake-backend/flag", () => ({ FAKE_BACKEND_ENABLED: true }));
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  clear() {
+    this.items.clear();
+  }
+}
+
+Object.defineProperty(globalThis, "localStorage", { value: new MemoryStorage() });
+
+const EMAIL = "tester@cuchd.in";
+
+async function signIn(email: string = EMAIL): Promise<void> {
+  await requestOTP(email);
+  const { token, refreshToken, user } = await verifyOTP(email, FAKE_OTP);
+  localStorage.setItem("token", token);
+  localStorage.setItem("refreshToken", refreshToken);
+  localStorage.setItem("user", JSON.stringify(user));
+}
+
+const livePosts = () => fakeBackend.getStore().globalPosts.filter((post) => !post.deletedAt);
+
+// Older than every seed post, so they land on the last pages of the feed
+function addOldPosts(count: number, content: string): void {
+  const store = fakeBackend.getStore();
+  const template = store.globalPosts[0];
+  for (let i = 0; i < count; i++) {
+    const createdAt = new Date(Date.UTC(2020, 0, 1) - i * 60 * 1000);
+    const post: FakeGlobalPost = {
+      ...template,
+      _id: createId(createdAt),
+      content: `${content} ${i}`,
+      poll: null,
+      likes: 0,
+      likedBy: [],
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+    };
+    store.globalPosts.push(post);
+  }
+}
+
+beforeEach(async () => {
+  // The fake logs every OTP it sends
+  jest.spyOn(console, "info").mockImplementation(() => undefined);
+  fakeBackend.reset();
+  fakeBackend.setLatency(0);
+  apiCache.clear();
+  localStorage.clear();
+  await signIn();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("feed cursors", () => {
+  it("walks the whole feed once, newest first", async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await getGlobalPosts({ cursor, limit: 7 });
+      expect(page.posts.length).toBeLessThanOrEqual(7);
+      seen.push(...page.posts.map((post) => post._id));
+      cursor = page.nextCursor ?? undefined;
+      expect(page.hasMore).toBe(cursor !== undefined);
+      pages++;
+    } while (cursor);
+
+    const expected = livePosts()
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b._id.localeCompare(a._id))
+      .map((post) => post._id);
+    expect(pages).toBeGreaterThan(1);
+    expect(seen).toEqual(expected);
+  });
+
+  it("does not shift later pages when a post is added meanwhile", async () => {
+    const first = await getGlobalPosts({ limit: 5 });
+    fakeBackend.getStore().globalPosts.push({
+      ...fakeBackend.getStore().globalPosts[0],
+      _id: createId(),
+      createdAt: new Date().toISOString(),
+    });
+
+    const second = await getGlobalPosts({ cursor: first.nextCursor!, limit: 5 });
+
+    const firstIds = new Set(first.posts.map((post) => post._id));
+    expect(second.posts.some((post) => firstIds.has(post._id))).toBe(false);
+    expect(second.posts[0].createdAt <= first.posts[4].createdAt).toBe(true);
+  });
+
+  it("rejects a malformed cursor", async () => {
+    const error = (await getGlobalPosts({ cursor: "not-a-cursor" }).catch((e) => e)) as ApiError;
+
+    expect(error.status).toBe(400);
+    expect(error.code).toBe("INVALID_CURSOR");
+  });
+});
+
+describe("ranked feeds", () => {
+  async function readAll(params: Parameters<typeof getGlobalPosts>[0]) {
+    const posts: GlobalPost[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await getGlobalPosts({ ...params, cursor, limit: 7 });
+      posts.push(...page.posts);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return posts;
+  }
+
+  const isDescending = (scores: number[]) => scores.every((score, i) => i === 0 || scores[i - 1] >= score);
+
+  it("pages through hot posts by falling score without repeats", async () => {
+    const posts = await readAll({ sort: "hot" });
+
+    expect(new Set(posts.map((post) => post._id)).size).toBe(livePosts().length);
+    expect(isDescending(posts.map(hotScoreOf))).toBe(true);
+  });
+
+  it("pages through top posts of all time by engagement", async () => {
+    addOldPosts(3, "classic");
+    fakeBackend
+      .getStore()
+      .globalPosts.filter((post) => post.content.startsWith("classic"))
+      .forEach((post) => (post.likes = 1000));
+
+    const posts = await readAll({ sort: "top", period: "all" });
+
+    expect(posts).toHaveLength(livePosts().length);
+    expect(posts.slice(0, 3).every((post) => post.content.startsWith("classic"))).toBe(true);
+    expect(isDescending(posts.map(engagementOf))).toBe(true);
+  });
+
+  it("leaves posts older than the top period out", async () => {
+    addOldPosts(3, "classic");
+    const since = Date.now() - 7 * 24 * 60 * 60 * 1000;
+
+    const posts = await readAll({ sort: "top", period: "week" });
+
+    expect(posts.length).toBeGreaterThan(0);
+    expect(posts.every((post) => Date.parse(post.createdAt) >= since)).toBe(true);
+    expect(posts.some((post) => post.content.startsWith("classic"))).toBe(false);
+  });
+
+  it("rejects an unknown sort or period", async () => {
+    const badSort = (await getGlobalPosts({ sort: "best" as "hot" }).catch((e) => e)) as ApiError;
+    const badPeriod = (await getGlobalPosts({ sort: "top", period: "year" as "day" }).catch(
+      (e) => e
+    )) as ApiError;
+
+    expect(badSort.status).toBe(400);
+    expect(badSort.fieldErrors.sort).toBeDefined();
+    expect(badPeriod.status).toBe(400);
+    expect(badPeriod.fieldErrors.period).toBeDefined();
+  });
+});
+
+describe("whole-feed reads", () => {
+  it("searches past the first page of the feed", async () => {
+    addOldPosts(60, "needle");
+
+    const result = await searchPosts({ text: "NEEDLE" });
+
+    expect(result.posts).toHaveLength(60);
+    expect(result.totalCount).toBe(60);
+  });
+
+  it("lets the server match the text so only matching pages are read", async () => {
+    addOldPosts(400, "hay");
+    addOldPosts(3, "needle");
+    const requests = jest.spyOn(fakeBackend, "fetch");
+
+    const result = await searchPosts({ text: "needle" });
+
+    expect(result.posts.map((post) => post.content).sort()).toEqual(["needle 0", "needle 1", "needle 2"]);
+    expect(requests).toHaveBeenCalledTimes(1);
+    expect(String(requests.mock.calls[0][0])).toContain("q=needle");
+  });
+
+  it("stops after 10 pages and keeps the walk out of localStorage", async () => {
+    addOldPosts(600, "filler");
+    const communityId = fakeBackend.getStore().communities[0].community_id;
+    const requests = jest.spyOn(fakeBackend, "fetch");
+    const cached = jest.spyOn(apiCache, "set");
+
+    const result = await getFilteredCommunityPosts(communityId);
+
+    expect(result.posts).toHaveLength(500);
+    expect(result.community?.community_id).toBe(communityId);
+    expect(requests.mock.calls.filter(([url]) => String(url).includes("getglobalposts"))).toHaveLength(10);
+    const feedPages = cached.mock.calls.filter(([key]) => key.includes("getglobalposts"));
+    expect(feedPages).toHaveLength(10);
+    expect(feedPages.every(([, , options]) => !options.persist)).toBe(true);
+  });
+
+  it("rejects search text over 100 characters", async () => {
+    const error = (await getGlobalPosts({ q: "x".repeat(101) }).catch((e) => e)) as ApiError;
+
+    expect(error.status).toBe(400);
+    expect(error.fieldErrors.q).toMatch(/at most 100/);
+  });
+});
+
+describe("session refresh", () => {
+  it("renews an expired token once and replays the request", async () => {
+    const refreshToken = localStorage.getItem("refreshToken");
+    localStorage.setItem("token", "expired");
+
+    const page = await getGlobalPosts({ limit: 5 });
+
+    expect(page.posts).toHaveLength(5);
+    expect(localStorage.getItem("token")).not.toBe("expired");
+    expect(localStorage.getItem("refreshToken")).not.toBe(refreshToken);
+  });
+
+  it("shares one refresh between concurrent 401s", async () => {
+    localStorage.setItem("token", "expired");
+
+    // The refresh token is single use, so a second refresh would fail
+    const [feed, post] = await Promise.all([
+      getGlobalPosts({ limit: 5 }),
+      getPostById(fakeBackend.getStore().globalPosts[0]._id),
+    ]);
+
+    expect(feed.posts).toHaveLength(5);
+    expect(post.post._id).toBe(fakeBackend.getStore().globalPosts[0]._id);
+  });
+
+  it("signs out when the session cannot be renewed", async () => {
+    // Signing out sends the browser to /signin
+    const location = { pathname: "/dashboard", href: "/dashboard" };
+    Object.defineProperty(globalThis, "window", { value: { location }, configurable: true });
+    localStorage.setItem("token", "expired");
+    localStorage.setItem("refreshToken", "revoked");
+
+    const error = (await getGlobalPosts()
+      .catch((e) => e)
+      .finally(() => delete (globalThis as { window?: unknown }).window)) as ApiError;
+
+    expect(error.status).toBe(401);
+    expect(localStorage.getItem("token")).toBeNull();
+    expect(localStorage.getItem("user")).toBeNull();
+    expect(location.href).toBe("/signin");
+  });
+});
+
+describe("likes", () => {
+  it("toggles between liked and unliked", async () => {
+    const post = fakeBackend.getStore().globalPosts[0];
+    const likes = post.likes;
+
+    await expect(likeGlobalPost(post._id)).resolves.toMatchObject({ message: "Liked", likes: likes + 1 });
+    await expect(likeGlobalPost(post._id)).resolves.toMatchObject({ message: "Unliked", likes });
+  });
+
+  it("shows the new count in the next feed read", async () => {
+    const post = fakeBackend.getStore().globalPosts[0];
+    await getGlobalPosts();
+
+    await likeGlobalPost(post._id);
+    const { posts } = await getGlobalPosts();
+
+    expect(posts.find((p) => p._id === post._id)?.likes).toBe(post.likes);
+  });
+});
+
+describe("posts", () => {
+  const image = (name: string) => new File(["x"], name, { type: "image/webp" });
+
+  it("answers 410 for a deleted post and 404 for one that never existed", async () => {
+    const { post } = await createGlobalPost({ content: "Short lived", category: "campus" });
+    await deleteUserPost(post.user_id, post._id);
+
+    const deleted = (await getPostById(post._id).catch((e) => e)) as ApiError;
+    const missing = (await getPostById("0".repeat(24)).catch((e) => e)) as ApiError;
+
+    expect(deleted.status).toBe(410);
+    expect(deleted.code).toBe("POST_DELETED");
+    expect(missing.status).toBe(404);
+  });
+
+  it("rejects more than 4 images like the upload middleware", async () => {
+    const images = ["a", "b", "c", "d", "e"].map((name) => image(`${name}.webp`));
+
+    const error = (await createGlobalPost({ content: "Gallery", category: "campus", images }).catch(
+      (e) => e
+    )) as ApiError;
+
+    expect(error.status).toBe(400);
+    expect(error.fieldErrors.images).toBeDefined();
+    expect(livePosts().some((post) => post.content === "Gallery")).toBe(false);
+  });
+
+  it("keeps all 4 images of a full post", async () => {
+    const images = ["a", "b", "c", "d"].map((name) => image(`${name}.webp`));
+
+    const { post } = await createGlobalPost({ content: "Gallery", category: "campus", images });
+
+    expect(post.images).toHaveLength(4);
+  });
+
+  it("caps posts at 2000 characters and comments at 1000", async () => {
+    const { post } = await createGlobalPost({ content: "x".repeat(2000), category: "campus" });
+
+    const longPost = (await createGlobalPost({ content: "x".repeat(2001), category: "campus" }).catch(
+      (e) => e
+    )) as ApiError;
+    const longComment = (await commentGlobalPost(post._id, "x".repeat(1001)).catch((e) => e)) as ApiError;
+
+    expect(longPost.status).toBe(400);
+    expect(longPost.fieldErrors.content).toMatch(/at most 2000/);
+    expect(longComment.status).toBe(400);
+    expect(longComment.fieldErrors.comment).toMatch(/at most 1000/);
+  });
+});
+
+describe("polls", () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const createPoll = (options: string[], closesAt: string | null = null) =>
+    createGlobalPost({ content: "Which slot?", category: "campus", poll: { options, closesAt } });
+
+  const pollError = async (options: string[], closesAt: string | null = null) => {
+    const error = (await createPoll(options, closesAt).catch((e) => e)) as ApiError;
+    expect(error.status).toBe(400);
+    return error.fieldErrors.poll;
+  };
+
+  it("creates a poll with trimmed options and no votes", async () => {
+    const { post } = await createPoll([" Morning ", "Evening"]);
+
+    expect(post.poll?.options.map(({ text, votes }) => ({ text, votes }))).toEqual([
+      { text: "Morning", votes: 0 },
+      { text: "Evening", votes: 0 },
+    ]);
+    expect(post.poll?.hasVoted).toBe(false);
+  });
+
+  it("rejects too few, too many, empty, long and repeated options", async () => {
+    expect(await pollError(["Only"])).toMatch(/2 to 6 options/);
+    expect(await pollError(["a", "b", "c", "d", "e", "f", "g"])).toMatch(/2 to 6 options/);
+    expect(await pollError(["Yes", "  "])).toMatch(/cannot be empty/);
+    expect(await pollError(["Yes", "x".repeat(101)])).toMatch(/at most 100/);
+    expect(await pollError(["Yes", "yes"])).toMatch(/all be different/);
+  });
+
+  it("rejects a closing time in the past", async () => {
+    const past = new Date(Date.now() - HOUR_MS).toISOString();
+
+    expect(await pollError(["Yes", "No"], past)).toMatch(/in the future/);
+  });
+
+  it("counts one vote per user and hides who voted", async () => {
+    const { post } = await createPoll(["Yes", "No"]);
+    const [yes] = post.poll!.options;
+
+    const { poll } = await votePoll(post._id, yes._id);
+    const again = (await votePoll(post._id, yes._id).catch((e) => e)) as ApiError;
+
+    expect(poll.options[0].votes).toBe(1);
+    expect(poll.hasVoted).toBe(true);
+    expect(poll).not.toHaveProperty("voters");
+    expect(again.status).toBe(409);
+    expect(again.code).toBe("ALREADY_VOTED");
+
+    await signIn("other@cuchd.in");
+    const { poll: after } = await votePoll(post._id, yes._id);
+    expect(after.options[0].votes).toBe(2);
+  });
+
+  it("refuses votes once the poll has closed and for unknown options", async () => {
+    const { post } = await createPoll(["Yes", "No"], new Date(Date.now() + HOUR_MS).toISOString());
+    const unknown = (await votePoll(post._id, "0".repeat(24)).catch((e) => e)) as ApiError;
+
+    fakeBackend.getStore().globalPosts.find((p) => p._id === post._id)!.poll!.closesAt =
+      new Date(Date.now() - 1000).toISOString();
+    const closed = (await votePoll(post._id, post.poll!.options[0]._id).catch((e) => e)) as ApiError;
+
+    expect(unknown.status).toBe(400);
+    expect(closed.status).toBe(409);
+    expect(closed.code).toBe("POLL_CLOSED");
+  });
+});
+
+describe("scheduled posts", () => {
+  const HOUR_MS = 60 * 60 * 1000;
+  const inHours = (hours: number) => new Date(Date.now() + hours * HOUR_MS).toISOString();
+
+  const scheduleError = async (schedule: Parameters<typeof scheduleGlobalPost>[0]["schedule"]) => {
+    const error = (await scheduleGlobalPost({ content: "Later", category: "campus", schedule }).catch(
+      (e) => e
+    )) as ApiError;
+    expect(error.status).toBe(400);
+    return error.fieldErrors.schedule;
+  };
+
+  it("keeps the post out of the feed until it is due", async () => {
+    const publishAt = inHours(2);
+    const { scheduledPost } = await scheduleGlobalPost({
+      content: "Later",
+      category: "campus",
+      schedule: { publishAt },
+    });
+
+    expect(scheduledPost).toMatchObject({ publishAt, randomDelay: false });
+    expect((await getGlobalPosts()).posts.some((post) => post.content === "Later")).toBe(false);
+
+    fakeBackend.getStore().scheduledPosts[0].publishAt = new Date(Date.now() - 1000).toISOString();
+    apiCache.clear();
+
+    expect((await getGlobalPosts()).posts[0].content).toBe("Later");
+    expect((await getScheduledPosts()).scheduledPosts).toHaveLength(0);
+  });
+
+  it("picks a random time inside the window", async () => {
+    const before = Date.now();
+    const { scheduledPost } = await scheduleGlobalPost({
+      content: "Later",
+      category: "campus",
+      schedule: { randomDelayHours: [1, 6] },
+    });
+
+    const publishAt = Date.parse(scheduledPost.publishAt);
+    expect(scheduledPost.randomDelay).toBe(true);
+    expect(publishAt).toBeGreaterThanOrEqual(before + HOUR_MS);
+    expect(publishAt).toBeLessThanOrEqual(Date.now() + 6 * HOUR_MS);
+  });
+
+  it("rejects past, too distant and malformed schedules", async () => {
+    expect(await scheduleError({ publishAt: inHours(-1) })).toMatch(/in the future/);
+    expect(await scheduleError({ publishAt: inHours(31 * 24) })).toMatch(/at most 30 days/);
+    expect(await scheduleError({ publishAt: "soon" })).toMatch(/must be a date/);
+    expect(await scheduleError({ randomDelayHours: [6, 1] })).toMatch(/randomDelayHours/);
+    expect(await scheduleError({ randomDelayHours: [1, 73] })).toMatch(/randomDelayHours/);
+  });
+
+  it("rejects a poll that closes before the post goes out", async () => {
+    const error = (await scheduleGlobalPost({
+      content: "Which slot?",
+      category: "campus",
+      poll: { options: ["Yes", "No"], closesAt: inHours(1) },
+      schedule: { publishAt: inHours(2) },
+    }).catch((e) => e)) as ApiError;
+
+    expect(error.status).toBe(400);
+    expect(error.fieldErrors.poll).toMatch(/after the post is published/);
+  });
+});
+
+describe("reviews", () => {
+  const rate = (entityName: string, score: number) =>
+    createGlobalPost({
+      content: `Review of ${entityName}`,
+      category: "reviews",
+      review: {
+        subject: "mess",
+        entityName,
+        ratings: { taste: score, hygiene: score, variety: score, value: score },
+      },
+    });
+
+  it("merges names with the same slug into one entity", async () => {
+    await rate("Zeta Block Mess", 2);
+    await rate("zeta block   MESS!", 4);
+
+    const { entities } = await getReviewEntities({ subject: "mess", q: "zeta" });
+
+    expect(entities).toHaveLength(1);
+    expect(entities[0]).toMatchObject({
+      entity: "zeta-block-mess",
+      entityName: "zeta block MESS!",
+      count: 2,
+      overall: 3,
+    });
+  });
+
+  it("summarizes the scores of one entity", async () => {
+    await rate("Zeta Block Mess", 1);
+    await rate("Zeta Block Mess", 5);
+    await rate("Zeta Block Mess", 5);
+
+    const { summary } = await getReviewSummary("mess", "zeta-block-mess");
+
+    expect(summary.count).toBe(3);
+    expect(summary.overall).toBeCloseTo(11 / 3);
+    expect(summary.distribution).toEqual([1, 0, 0, 0, 2]);
+    expect(summary.dimensions.map((dimension) => dimension.dimension)).toEqual([
+      "taste",
+      "hygiene",
+      "variety",
+      "value",
+    ]);
+    expect(summary.semesters).toHaveLength(1);
+  });
+
+  it("rejects a review outside the reviews category or with a missing rating", async () => {
+    const wrongCategory = (await createGlobalPost({
+      content: "Food",
+      category: "campus",
+      review: {
+        subject: "mess",
+        entityName: "Zeta",
+        ratings: { taste: 3, hygiene: 3, variety: 3, value: 3 },
+      },
+    }).catch((e) => e)) as ApiError;
+    const missingRating = (await createGlobalPost({
+      content: "Food",
+      category: "reviews",
+      review: { subject: "mess", entityName: "Zeta", ratings: { taste: 3 } },
+    }).catch((e) => e)) as ApiError;
+
+    expect(wrongCategory.fieldErrors.review).toMatch(/reviews category/);
+    expect(missingRating.fieldErrors.review).toBe("Rate hygiene from 1 to 5");
+  });
+
+  it("answers 404 for an entity nobody reviewed", async () => {
+    const error = (await getReviewSummary("mess", "nowhere").catch((e) => e)) as ApiError;
+
+    expect(error.status).toBe(404);
+    expect(error.code).toBe("ENTITY_NOT_FOUND");
+  });
+});
+
+describe("saved posts", () => {
+  const postIds = () => fakeBackend.getStore().globalPosts.slice(0, 3).map((post) => post._id);
+
+  it("saves and unsaves a post", async () => {
+    const [id] = postIds();
+
+    const { saved } = await savePost(id);
+    expect(saved).toMatchObject({ post_id: id, collection_id: null });
+    expect((await getSavedPostIds()).saved).toEqual([{ post_id: id, collection_id: null }]);
+
+    await unsavePost(id);
+    expect((await getSavedPosts()).items).toHaveLength(0);
+  });
+
+  it("files posts in collections and lists them by collection", async () => {
+    const [first, second] = postIds();
+    const { collection } = await createSavedCollection("Exams");
+
+    await savePost(first, collection._id);
+    await savePost(second);
+
+    const inCollection = await getSavedPosts({ collection: collection._id });
+    const unfiled = await getSavedPosts({ collection: "none" });
+    const collections = await getSavedCollections();
+    expect(inCollection.items.map((item) => item.post_id)).toEqual([first]);
+    expect(unfiled.items.map((item) => item.post_id)).toEqual([second]);
+    expect(collections).toMatchObject({ total: 2, unfiled: 1 });
+    expect(collections.collections[0]).toMatchObject({ name: "Exams", count: 1 });
+
+    // Saving again with null moves the post out of its collection
+    await savePost(first, null);
+    expect((await getSavedCollections()).unfiled).toBe(2);
+  });
+
+  it("keeps the posts of a deleted collection saved", async () => {
+    const [id] = postIds();
+    const { collection } = await createSavedCollection("Hostel");
+    await savePost(id, collection._id);
+
+    await deleteSavedCollection(collection._id);
+
+    expect((await getSavedPostIds()).saved).toEqual([{ post_id: id, collection_id: null }]);
+  });
+
+  it("refuses a second collection with the same name", async () => {
+    await createSavedCollection("Exams");
+
+    const error = (await createSavedCollection("exams").catch((e) => e)) as ApiError;
+
+    expect(error.status).toBe(409);
+    expect(error.code).toBe("COLLECTION_EXISTS");
+  });
+
+  it("keeps a deleted post listed without its content", async () => {
+    const { post } = await createGlobalPost({ content: "Saved then deleted", category: "campus" });
+    await savePost(post._id);
+
+    await deleteUserPost(post.user_id, post._id);
+    const { items } = await getSavedPosts();
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ post_id: post._id, post: null });
+  });
+});
+
+describe("editing posts", () => {
+  const image = (name: string) => new File(["x"], name, { type: "image/webp" });
+
+  const storedPost = (id: string) => fakeBackend.getStore().globalPosts.find((post) => post._id === id)!;
+
+  it("keeps the previous version as a revision", async () => {
+    const { post } = await createGlobalPost({ content: "Exam on #monday", category: "campus" });
+
+    const { post: edited } = await updateGlobalPost(post._id, {
+      content: "Exam moved to #tuesday",
+      keepImages: [],
+    });
+
+    expect(edited).toMatchObject({ content: "Exam moved to #tuesday", tags: ["tuesday"] });
+    expect(edited.editedAt).not.toBeNull();
+    expect(edited.revisions).toHaveLength(1);
+    expect(edited.revisions[0]).toMatchObject({ content: "Exam on #monday", editedAt: edited.editedAt });
+    expect((await getPostById(post._id)).post.revisions).toHaveLength(1);
+  });
+
+  it("does not add a revision when nothing changed", async () => {
+    const { post } = await createGlobalPost({ content: "Same", category: "campus" });
+
+    const result = await updateGlobalPost(post._id, { content: "Same", keepImages: [] });
+
+    expect(result.message).toBe("Nothing to update");
+    expect(result.post.revisions).toHaveLength(0);
+    expect(result.post.editedAt).toBeNull();
+  });
+
+  it("drops images left out of keepImages and still caps the total at 4", async () => {
+    const { post } = await createGlobalPost({
+      content: "Gallery",
+      category: "campus",
+      images: [image("a.webp"), image("b.webp")],
+    });
+
+    const { post: edited } = await updateGlobalPost(post._id, {
+      content: "Gallery",
+      keepImages: [post.images[1]],
+    });
+    const tooMany = (await updateGlobalPost(post._id, {
+      content: "Gallery",
+      keepImages: edited.images,
+      images: ["c", "d", "e", "f"].map((name) => image(`${name}.webp`)),
+    }).catch((e) => e)) as ApiError;
+
+    expect(edited.images).toEqual([post.images[1]]);
+    expect(edited.revisions[0].images).toEqual(post.images);
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.fieldErrors.images).toBeDefined();
+  });
+
+  it("answers 409 once the edit window has closed", async () => {
+    const { post } = await createGlobalPost({ content: "Too late", category: "campus" });
+    storedPost(post._id).editableUntil = new Date(Date.now() - 1000).toISOString();
+
+    const error = (await updateGlobalPost(post._id, { content: "Edited", keepImages: [] }).catch(
+      (e) => e
+    )) as ApiError;
+
+    expect(error.status).toBe(409);
+    expect(error.code).toBe("EDIT_WINDOW_CLOSED");
+    expect(storedPost(post._id).content).toBe("Too late");
+  });
+
+  it("answers 404 to anyone but the author", async () => {
+    const { post } = await createGlobalPost({ content: "Mine", category: "campus" });
+    await signIn("other@cuchd.in");
+
+    const error = (await updateGlobalPost(post._id, { content: "Yours now", keepImages: [] }).catch(
+      (e) => e
+    )) as ApiError;
+
+    expect(error.status).toBe(404);
+    expect(storedPost(post._id).content).toBe("Mine");
+    expect(storedPost(post._id).revisions).toHaveLength(0);
+  });
+});
+
+describe("comment threads", () => {
+  async function postWithComment() {
+    const { post } = await createGlobalPost({ content: "Any notes for DBMS?", category: "campus" });
+    const { comment } = await commentGlobalPost(post._id, "Check the library");
+    return { postId: post._id, topId: comment._id };
+  }
+
+  it("files a reply to a reply under the top-level comment", async () => {
+    const { postId, topId } = await postWithComment();
+
+    const { comment: reply } = await commentGlobalPost(postId, "Which floor?", topId);
+    const { comment: nested } = await commentGlobalPost(postId, "Second floor", reply._id);
+
+    expect(reply.parentId).toBe(topId);
+    expect(nested.parentId).toBe(topId);
+    expect((await getPostById(postId)).post.commentsCount).toBe(3);
+  });
+
+  it("refuses a reply to a comment that does not exist", async () => {
+    const { postId } = await postWithComment();
+
+    const error = (await commentGlobalPost(postId, "Hello?", "0".repeat(24)).catch((e) => e)) as ApiError;
+
+    expect(error.status).toBe(404);
+    expect(error.code).toBe("COMMENT_NOT_FOUND");
+  });
+
+  it("leaves a placeholder for a deleted comment that has replies", async () => {
+    const { postId, topId } = await postWithComment();
+    await commentGlobalPost(postId, "Thanks", topId);
+
+    await deleteGlobalPostComment(postId, topId);
+    const { post } = await getPostById(postId);
+
+    const placeholder = post.comments.find((comment) => comment._id === topId);
+    expect(placeholder).toMatchObject({ content: "" });
+    expect(placeholder?.deletedAt).not.toBeNull();
+    expect(post.comments).toHaveLength(2);
+    expect(post.commentsCount).toBe(1);
+  });
+
+  it("removes the placeholder with its last reply", async () => {
+    const { postId, topId } = await postWithComment();
+    const { comment: reply } = await commentGlobalPost(postId, "Thanks", topId);
+    await deleteGlobalPostComment(postId, topId);
+
+    await deleteGlobalPostComment(postId, reply._id);
+    const { post } = await getPostById(postId);
+
+    expect(post.comments).toHaveLength(0);
+    expect(post.commentsCount).toBe(0);
+  });
+
+  it("refuses replies to a deleted comment and deletes by anyone but the author", async () => {
+    const { postId, topId } = await postWithComment();
+    const { comment: reply } = await commentGlobalPost(postId, "Thanks", topId);
+    await deleteGlobalPostComment(postId, topId);
+
+    const toDeleted = (await commentGlobalPost(postId, "Hello?", topId).catch((e) => e)) as ApiError;
+    await signIn("other@cuchd.in");
+    const notMine = (await deleteGlobalPostComment(postId, reply._id).catch((e) => e)) as ApiError;
+
+    expect(toDeleted.status).toBe(404);
+    expect(notMine.status).toBe(404);
+    expect((await getPostById(postId)).post.commentsCount).toBe(1);
+  });
+});
@@ -2,39 +2,238 @@
  * Simplified API - Essential functions only
  */
 
+import type { z } from "zod";
+import { apiCache, createCacheKey, type CacheOptions } from "./api-cache";
+import { dedupeRequest } from "./api-dedupe";
+import { createApiError } from "./api-error";
+import { FAKE_BACKEND_ENABLED } from "./fake-backend/flag";
+import type { PostCategory } from "./categories";
+import type { FeedSort, TopPeriod } from "./feedSort";
+import type { ReviewSubject } from "./reviews";
+import {
+  parseApiResponse,
+  requestOtpResponseSchema,
+  verifyOtpResponseSchema,
+  refreshResponseSchema,
+  globalPostsResponseSchema,
+  trendingTagsResponseSchema,
+  reviewEntitiesResponseSchema,
+  reviewSummaryResponseSchema,
+  postDetailResponseSchema,
+  updatePostResponseSchema,
+  commentResponseSchema,
+  deleteCommentResponseSchema,
+  createPostResponseSchema,
+  pollVoteResponseSchema,
+  scheduledPostResponseSchema,
+  scheduledPostsResponseSchema,
+  savedPostsResponseSchema,
+  savedPostIdsResponseSchema,
+  savePostResponseSchema,
+  savedCollectionsResponseSchema,
+  savedCollectionResponseSchema,
+  likeResponseSchema,
+  communitiesResponseSchema,
+  messageResponseSchema,
+  updateProfileResponseSchema,
+  userPostsResponseSchema,
+  communityPostsResponseSchema,
+  sharedPostResponseSchema,
+  shareLinkResponseSchema,
+  type GlobalPost,
+  type RequestOtpResponse,
+  type VerifyOtpResponse,
+  type GlobalPostsResponse,
+  type TrendingTagsResponse,
+  type ReviewEntitiesResponse,
+  type ReviewSummaryResponse,
+  type PostDetailResponse,
+  type UpdatePostResponse,
+  type SharedPostResponse,
+  type ShareLinkResponse,
+  type CommentResponse,
+  type DeleteCommentResponse,
+  type CreatePostResponse,
+  type PollVoteResponse,
+  type ScheduledPostResponse,
+  type ScheduledPostsResponse,
+  type SavedPostsResponse,
+  type SavedPostIdsResponse,
+  type SavePostResponse,
+  type SavedCollectionsResponse,
+  type SavedCollectionResponse,
+  type LikeResponse,
+  type CommunitiesResponse,
+  type MessageResponse,
+  type UpdateProfileResponse,
+  type UserPostsResponse,
+  type CommunityPostsResponse,
+} from "./api-schemas";
+
+export { ApiSchemaError } from "./api-schemas";
+export { ApiError, isApiError, type FieldErrors } from "./api-error";
+export { isAbortError } from "./api-dedupe";
+export type {
+  GlobalPost,
+  GlobalPostDetail,
+  PostComment,
+  PostRevision,
+  ImageWarning,
+  Poll,
+  PollOption,
+  Review,
+  ReviewEntity,
+  ReviewSummary,
+  Community,
+  User,
+  RequestOtpResponse,
+  VerifyOtpResponse,
+  RefreshResponse,
+  GlobalPostsResponse,
+  TrendingTag,
+  TrendingTagsResponse,
+  ReviewEntitiesResponse,
+  ReviewSummaryResponse,
+  PostDetailResponse,
+  UpdatePostResponse,
+  SharedPost,
+  SharedPostResponse,
+  ShareLinkResponse,
+  CommentResponse,
+  DeleteCommentResponse,
+  CreatePostResponse,
+  PollVoteResponse,
+  ScheduledPost,
+  ScheduledPostResponse,
+  ScheduledPostsResponse,
+  SavedItem,
+  SavedCollection,
+  SavedPostsResponse,
+  SavedPostIdsResponse,
+  SavePostResponse,
+  SavedCollectionsResponse,
+  SavedCollectionResponse,
+  LikeResponse,
+  CommunitiesResponse,
+  MessageResponse,
+  UpdateProfileResponse,
+  UserPostsResponse,
+  CommunityPostsResponse,
+} from "./api-schemas";
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
 
-// Basic interfaces
-export interface GlobalPost {
-  _id: string;
-  user_id: string;
-  randomName: string;
-  content: string;
-  images: string[];
-  likes: number;
-  likedBy: string[];
-  commentsCount: number;
-  createdAt: string;
-  updatedAt: string;
+// Cache policies for read endpoints
+const GLOBAL_POSTS_CACHE_KEY = "GET /globalpost/getglobalposts";
+const COMMUNITIES_CACHE_KEY = "GET /community/getcommunities";
+const TRENDING_TAGS_CACHE_KEY = "GET /globalpost/trending";
+const REVIEW_ENTITIES_CACHE_KEY = "GET /globalpost/reviews";
+const REVIEW_SUMMARY_CACHE_KEY = "GET /globalpost/reviews/:subject/:entity";
+
+// The largest page the feed endpoint serves, and how many of them one search
+// or community fallback reads before it stops
+const MAX_FEED_PAGE_SIZE = 50;
+const MAX_FEED_WALK_PAGES = 10;
+
+const GLOBAL_POSTS_CACHE: CacheOptions = {
+  ttl: 30 * 1000,
+  staleTime: 5 * 60 * 1000,
+  persist: true,
+};
+
+// Walks over many pages stay in memory so they cannot fill localStorage
+const FEED_WALK_CACHE: CacheOptions = { ...GLOBAL_POSTS_CACHE, persist: false };
+
+const TRENDING_TAGS_CACHE: CacheOptions = {
+  ttl: 60 * 1000,
+  staleTime: 10 * 60 * 1000,
+  persist: true,
+};
+
+const REVIEWS_CACHE: CacheOptions = {
+  ttl: 60 * 1000,
+  staleTime: 10 * 60 * 1000,
+  persist: true,
+};
+
+const COMMUNITIES_CACHE: CacheOptions = {
+  ttl: 5 * 60 * 1000,
+  staleTime: 60 * 60 * 1000,
+  persist: true,
+};
+
+// Legacy interfaces for compatibility
+export interface NewPoll {
+  /** 2 to 6 option texts */
+  options: string[];
+  /** ISO date, or null for a poll that never closes */
+  closesAt: string | null;
 }
 
-export interface Community {
-  community_id: string;
-  name: string;
-  description: string;
-  memberCount: number;
-  icon?: string;
-  createdAt?: string;
+export interface NewReview {
+  subject: ReviewSubject;
+  /** What is reviewed, e.g. a course name and code */
+  entityName: string;
+  /** 1 to 5 for every dimension of the subject */
+  ratings: Record<string, number>;
 }
 
-// Legacy interfaces for compatibility
 export interface CreatePostData {
   content: string;
+  category: PostCategory;
   images?: File[];
+  /** Turns the post into a poll asking its content */
+  poll?: NewPoll;
+  /** Turns the post into a review; the category must be "reviews" */
+  review?: NewReview;
+  /** Label shown instead of the post until the reader reveals it */
+  contentWarning?: string;
+  /** A label, or null, for each of `images` in order */
+  imageWarnings?: (string | null)[];
+}
+
+/**
+ * When a scheduled post goes out: at a set time, or at a random time within
+ * a window of hours from now so the publish time doesn't point to the author.
+ */
+export type PostSchedule =
+  | { publishAt: string }
+  | { randomDelayHours: [number, number] };
+
+export interface SchedulePostData extends CreatePostData {
+  schedule: PostSchedule;
+}
+
+export interface UpdateScheduledPostData {
+  content: string;
+  category?: PostCategory;
+  /** Current image URLs to keep; omit to keep them all */
+  keepImages?: string[];
+  /** New images to append */
+  images?: File[];
+  /** Omit to keep the current publish time */
+  schedule?: PostSchedule;
+  /** Omit to keep the current one; "" removes it */
+  contentWarning?: string;
+  /** A label, or null, for each kept image then each new one; omit to keep the current ones */
+  imageWarnings?: (string | null)[];
+}
+
+export interface UpdatePostData {
+  content: string;
+  /** Current image URLs to keep; the rest are removed */
+  keepImages: string[];
+  /** New images to append */
+  images?: File[];
+  /** Omit to keep the current one; "" removes it */
+  contentWarning?: string;
+  /** A label, or null, for each kept image then each new one; omit to keep the current ones */
+  imageWarnings?: (string | null)[];
 }
 
 export interface CreateCommunityPostData {
   content: string;
+  category: PostCategory;
   images?: File[];
   community_id: string;
 }
@@ -80,70 +279,368 @@ export interface JoinCommunityData {
   community_id: string;
 }
 
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface FeedParams {
+  /** `nextCursor` from the previous page; omit for the first page */
+  cursor?: string;
+  limit?: number;
+  /** Only posts in this category */
+  category?: PostCategory;
+  /** Only posts with this hashtag, without "#" */
+  tag?: string;
+  /** Only reviews of this kind */
+  subject?: ReviewSubject;
+  /** With subject: only reviews of this entity slug */
+  entity?: string;
+  /** Only posts whose content contains this text, ignoring case */
+  q?: string;
+  /** Order of the feed; the server's default is "new" */
+  sort?: FeedSort;
+  /** With sort "top": how far back to look */
+  period?: TopPeriod;
+}
+
+export interface SavedPostsParams {
+  /** `nextCursor` from the previous page; omit for the first page */
+  cursor?: string;
+  limit?: number;
+  /** A collection id, or "none" for saved posts in no collection */
+  collection?: string;
+}
+
 // Helper functions
-function getAuthHeaders(): HeadersInit {
-  const token = localStorage.getItem("token");
-  return {
-    "Content-Type": "application/json",
-    ...(token && { Authorization: `Bearer ${token}` }),
-  };
+
+// Every request goes through here so the fake backend can stand in for the server
+async function apiFetch(input: string, init: RequestInit): Promise<Response> {
+  if (FAKE_BACKEND_ENABLED) {
+    const { fakeBackend } = await import("./fake-backend");
+    return fakeBackend.fetch(input, init);
+  }
+  return fetch(input, init);
 }
 
-function getAuthHeadersForFormData(): HeadersInit {
-  const token = localStorage.getItem("token");
-  return {
-    ...(token && { Authorization: `Bearer ${token}` }),
-  };
+const JSON_HEADERS: HeadersInit = { "Content-Type": "application/json" };
+
+function withAuthorization(init: RequestInit, token: string | null): RequestInit {
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  return { ...init, headers };
 }
 
 function handleAuthError(): void {
   localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
   localStorage.removeItem("user");
+  apiCache.clear();
+  localStorage.setItem("redirectAfterLogin", window.location.pathname);
   window.location.href = "/signin";
 }
 
-async function handleResponse(response: Response) {
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Swap the refresh token for a new token pair. The server rotates the
+ * refresh token on every use, so concurrent 401s share a single refresh.
+ * Resolves false when the session can't be renewed; network errors reject.
+ */
+function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = requestRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+async function requestRefresh(): Promise<boolean> {
+  const refreshToken = localStorage.getItem("refreshToken");
+  if (!refreshToken) return false;
+
+  const response = await apiFetch(`${API_BASE_URL}/auth/refresh`, {
+    method: "POST",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  if (!response.ok) {
+    // Another tab may have rotated it first and stored the new pair
+    return localStorage.getItem("refreshToken") !== refreshToken;
+  }
+
+  const session = parseApiResponse(
+    refreshResponseSchema,
+    await response.json(),
+    "POST /auth/refresh"
+  );
+  localStorage.setItem("token", session.token);
+  localStorage.setItem("refreshToken", session.refreshToken);
+  return true;
+}
+
+/**
+ * fetch with the access token attached. A 401 refreshes the session once and
+ * replays the request; if the session can't be renewed the 401 is returned
+ * and handleResponse signs the user out.
+ */
+async function authFetch(url: string, init: RequestInit): Promise<Response> {
+  const token = localStorage.getItem("token");
+  const response = await apiFetch(url, withAuthorization(init, token));
+  if (response.status !== 401) return response;
+
+  // Skip the refresh if another request renewed the token meanwhile
+  const renewed =
+    localStorage.getItem("token") !== token || (await refreshSession());
+  if (!renewed) return response;
+
+  return apiFetch(url, withAuthorization(init, localStorage.getItem("token")));
+}
+
+async function handleResponse<T>(
+  response: Response,
+  schema: z.ZodType<T>,
+  endpoint: string
+): Promise<T> {
   if (!response.ok) {
     if (response.status === 401 || response.status === 403) {
       handleAuthError();
-      return;
     }
-    const data = await response.json().catch(() => ({}));
-    throw new Error(data.message || `Request failed: ${response.status}`);
+    throw await createApiError(response, endpoint);
   }
-  return response.json();
+  return parseApiResponse(schema, await response.json(), endpoint);
+}
+
+// Identical GETs issued while one is in flight share a single network call
+function getJson<T>(
+  path: string,
+  schema: z.ZodType<T>,
+  endpoint: string,
+  signal?: AbortSignal
+): Promise<T> {
+  return dedupeRequest(
+    `GET ${path}`,
+    async (requestSignal) => {
+      const response = await authFetch(`${API_BASE_URL}${path}`, {
+        method: "GET",
+        headers: JSON_HEADERS,
+        signal: requestSignal,
+      });
+      return handleResponse(response, schema, endpoint);
+    },
+    signal
+  );
 }
 
 // Essential API functions
-export async function requestOTP(email: string) {
-  const response = await fetch(`${API_BASE_URL}/auth/signin`, {
+export async function requestOTP(
+  email: string,
+  options: RequestOptions = {}
+): Promise<RequestOtpResponse> {
+  const response = await apiFetch(`${API_BASE_URL}/auth/signin`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: JSON_HEADERS,
     body: JSON.stringify({ email }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  return handleResponse(
+    response,
+    requestOtpResponseSchema,
+    "POST /auth/signin"
+  );
 }
 
-export async function verifyOTP(email: string, enteredOtp: string) {
-  const response = await fetch(`${API_BASE_URL}/auth/verify-otp`, {
+export async function verifyOTP(
+  email: string,
+  enteredOtp: string,
+  options: RequestOptions = {}
+): Promise<VerifyOtpResponse> {
+  const response = await apiFetch(`${API_BASE_URL}/auth/verify-otp`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: JSON_HEADERS,
     body: JSON.stringify({ email, enteredOtp }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  return handleResponse(
+    response,
+    verifyOtpResponseSchema,
+    "POST /auth/verify-otp"
+  );
 }
 
-export async function getGlobalPosts() {
-  const response = await fetch(`${API_BASE_URL}/globalpost/getglobalposts`, {
-    method: "GET",
-    headers: getAuthHeaders(),
+/**
+ * Revoke the stored refresh token on the server. Clearing local state is up
+ * to the caller.
+ */
+export async function signOut(
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
+  const refreshToken = localStorage.getItem("refreshToken");
+  const response = await apiFetch(`${API_BASE_URL}/auth/logout`, {
+    method: "POST",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ refreshToken }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  return handleResponse(response, messageResponseSchema, "POST /auth/logout");
+}
+
+export async function getGlobalPosts(
+  params: FeedParams = {},
+  options: RequestOptions = {}
+): Promise<GlobalPostsResponse> {
+  return fetchGlobalPosts(params, GLOBAL_POSTS_CACHE, options);
+}
+
+function fetchGlobalPosts(
+  params: FeedParams,
+  cache: CacheOptions,
+  options: RequestOptions
+): Promise<GlobalPostsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.cursor) queryParams.append("cursor", params.cursor);
+  if (params.limit) queryParams.append("limit", params.limit.toString());
+  if (params.category) queryParams.append("category", params.category);
+  if (params.tag) queryParams.append("tag", params.tag);
+  if (params.subject) queryParams.append("subject", params.subject);
+  if (params.entity) queryParams.append("entity", params.entity);
+  if (params.q) queryParams.append("q", params.q);
+  if (params.sort) queryParams.append("sort", params.sort);
+  if (params.sort === "top" && params.period) queryParams.append("period", params.period);
+
+  const path = `/globalpost/getglobalposts${
+    queryParams.toString() ? "?" + queryParams.toString() : ""
+  }`;
+
+  return apiCache.swr(
+    createCacheKey(GLOBAL_POSTS_CACHE_KEY, params),
+    (signal) =>
+      getJson(
+        path,
+        globalPostsResponseSchema,
+        GLOBAL_POSTS_CACHE_KEY,
+        signal
+      ),
+    cache,
+    options.signal
+  );
+}
+
+/**
+ * Global posts matching the filters, newest first, following `nextCursor` for
+ * at most MAX_FEED_WALK_PAGES pages.
+ */
+async function walkGlobalPosts(
+  params: Omit<FeedParams, "cursor" | "limit">,
+  options: RequestOptions = {}
+): Promise<GlobalPost[]> {
+  const posts: GlobalPost[] = [];
+  let cursor: string | undefined;
+  let pages = 0;
+
+  do {
+    const page = await fetchGlobalPosts(
+      { ...params, cursor, limit: MAX_FEED_PAGE_SIZE },
+      FEED_WALK_CACHE,
+      options
+    );
+    posts.push(...page.posts);
+    cursor = page.hasMore && page.nextCursor ? page.nextCursor : undefined;
+  } while (cursor && ++pages < MAX_FEED_WALK_PAGES);
+
+  return posts;
+}
+
+/**
+ * Hashtags ranked by how fast they are being used right now, over the
+ * server's rolling trending window.
+ */
+export async function getTrendingTags(
+  limit: number = 10,
+  options: RequestOptions = {}
+): Promise<TrendingTagsResponse> {
+  return apiCache.swr(
+    createCacheKey(TRENDING_TAGS_CACHE_KEY, { limit }),
+    (signal) =>
+      getJson(
+        `/globalpost/trending?limit=${limit}`,
+        trendingTagsResponseSchema,
+        TRENDING_TAGS_CACHE_KEY,
+        signal
+      ),
+    TRENDING_TAGS_CACHE,
+    options.signal
+  );
+}
+
+/**
+ * Everything that has been reviewed, most reviewed first, optionally of one
+ * kind or matching a name.
+ */
+export async function getReviewEntities(
+  params: { subject?: ReviewSubject; q?: string } = {},
+  options: RequestOptions = {}
+): Promise<ReviewEntitiesResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.subject) queryParams.append("subject", params.subject);
+  if (params.q) queryParams.append("q", params.q);
+
+  const path = `/globalpost/reviews${
+    queryParams.toString() ? "?" + queryParams.toString() : ""
+  }`;
+
+  return apiCache.swr(
+    createCacheKey(REVIEW_ENTITIES_CACHE_KEY, params),
+    (signal) => getJson(path, reviewEntitiesResponseSchema, REVIEW_ENTITIES_CACHE_KEY, signal),
+    REVIEWS_CACHE,
+    options.signal
+  );
+}
+
+/**
+ * Aggregate scores of one reviewed entity. Fails with a 404 ApiError
+ * (code ENTITY_NOT_FOUND) when it has no reviews.
+ */
+export async function getReviewSummary(
+  subject: ReviewSubject,
+  entity: string,
+  options: RequestOptions = {}
+): Promise<ReviewSummaryResponse> {
+  return apiCache.swr(
+    createCacheKey(REVIEW_SUMMARY_CACHE_KEY, { subject, entity }),
+    (signal) =>
+      getJson(
+        `/globalpost/reviews/${subject}/${encodeURIComponent(entity)}`,
+        reviewSummaryResponseSchema,
+        REVIEW_SUMMARY_CACHE_KEY,
+        signal
+      ),
+    REVIEWS_CACHE,
+    options.signal
+  );
+}
+
+/**
+ * A single global post with its comments. Fails with a 404 ApiError when the
+ * post never existed and a 410 (code POST_DELETED) when it was deleted.
+ */
+export async function getPostById(
+  postId: string,
+  options: RequestOptions = {}
+): Promise<PostDetailResponse> {
+  return getJson(
+    `/globalpost/${encodeURIComponent(postId)}`,
+    postDetailResponseSchema,
+    "GET /globalpost/:id",
+    options.signal
+  );
 }
 
 export async function createGlobalPost(
-  postData: CreatePostData | { content: string; images?: File[] }
-) {
+  postData: CreatePostData,
+  options: RequestOptions = {}
+): Promise<CreatePostResponse> {
   const userData = localStorage.getItem("user");
   const user = userData ? JSON.parse(userData) : null;
 
@@ -156,42 +653,477 @@ export async function createGlobalPost(
     user.randomName || `Anonymous${Math.floor(Math.random() * 1000)}`
   );
   formData.append("content", postData.content);
+  formData.append("category", postData.category);
+  if (postData.poll) formData.append("poll", JSON.stringify(postData.poll));
+  if (postData.review) formData.append("review", JSON.stringify(postData.review));
+  if (postData.contentWarning) formData.append("contentWarning", postData.contentWarning);
+  if (postData.imageWarnings?.some(Boolean)) {
+    formData.append("imageWarnings", JSON.stringify(postData.imageWarnings));
+  }
 
   if (postData.images) {
     postData.images.forEach((image) => formData.append("images", image));
   }
 
-  const response = await fetch(`${API_BASE_URL}/globalpost/createglobalposts`, {
+  const response = await authFetch(`${API_BASE_URL}/globalpost/createglobalposts`, {
+    method: "POST",
+    body: formData,
+    signal: options.signal,
+  });
+  const result = await handleResponse(
+    response,
+    createPostResponseSchema,
+    "POST /globalpost/createglobalposts"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  apiCache.invalidate(TRENDING_TAGS_CACHE_KEY);
+  // Also covers the summaries under the same prefix
+  if (postData.review) apiCache.invalidate(REVIEW_ENTITIES_CACHE_KEY);
+  return result;
+}
+
+/**
+ * Edit the signed-in user's post while its edit window is open. The previous
+ * version is kept in the post's revision history.
+ */
+export async function updateGlobalPost(
+  postId: string,
+  data: UpdatePostData,
+  options: RequestOptions = {}
+): Promise<UpdatePostResponse> {
+  const formData = new FormData();
+  formData.append("content", data.content);
+  formData.append("keepImages", JSON.stringify(data.keepImages));
+  data.images?.forEach((image) => formData.append("images", image));
+  if (data.contentWarning !== undefined) formData.append("contentWarning", data.contentWarning);
+  if (data.imageWarnings) formData.append("imageWarnings", JSON.stringify(data.imageWarnings));
+
+  const response = await authFetch(`${API_BASE_URL}/globalpost/${postId}`, {
+    method: "PATCH",
+    body: formData,
+    signal: options.signal,
+  });
+  const result = await handleResponse(
+    response,
+    updatePostResponseSchema,
+    "PATCH /globalpost/:id"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  apiCache.invalidate(TRENDING_TAGS_CACHE_KEY);
+  return result;
+}
+
+/**
+ * Vote in a poll as the signed-in user. Fails with a 409 ApiError when the
+ * user already voted (code ALREADY_VOTED) or the poll closed (POLL_CLOSED).
+ */
+export async function votePoll(
+  postId: string,
+  optionId: string,
+  options: RequestOptions = {}
+): Promise<PollVoteResponse> {
+  const response = await authFetch(`${API_BASE_URL}/globalpost/${postId}/vote`, {
+    method: "POST",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ optionId }),
+    signal: options.signal,
+  });
+  const result = await handleResponse(
+    response,
+    pollVoteResponseSchema,
+    "POST /globalpost/:id/vote"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  return result;
+}
+
+/**
+ * Schedule a global post. It stays private to the author, listed by
+ * getScheduledPosts, until the server publishes it at `schedule`.
+ */
+export async function scheduleGlobalPost(
+  postData: SchedulePostData,
+  options: RequestOptions = {}
+): Promise<ScheduledPostResponse> {
+  const userData = localStorage.getItem("user");
+  const user = userData ? JSON.parse(userData) : null;
+
+  if (!user?.user_id) throw new Error("User not found");
+
+  const formData = new FormData();
+  formData.append("user_id", user.user_id);
+  formData.append(
+    "randomName",
+    user.randomName || `Anonymous${Math.floor(Math.random() * 1000)}`
+  );
+  formData.append("content", postData.content);
+  formData.append("category", postData.category);
+  formData.append("schedule", JSON.stringify(postData.schedule));
+  if (postData.poll) formData.append("poll", JSON.stringify(postData.poll));
+  if (postData.review) formData.append("review", JSON.stringify(postData.review));
+  if (postData.contentWarning) formData.append("contentWarning", postData.contentWarning);
+  if (postData.imageWarnings?.some(Boolean)) {
+    formData.append("imageWarnings", JSON.stringify(postData.imageWarnings));
+  }
+  postData.images?.forEach((image) => formData.append("images", image));
+
+  const response = await authFetch(`${API_BASE_URL}/globalpost/scheduled`, {
     method: "POST",
-    headers: getAuthHeadersForFormData(),
     body: formData,
+    signal: options.signal,
+  });
+  return handleResponse(
+    response,
+    scheduledPostResponseSchema,
+    "POST /globalpost/scheduled"
+  );
+}
+
+/** The signed-in user's scheduled posts that are not out yet, soonest first */
+export async function getScheduledPosts(
+  options: RequestOptions = {}
+): Promise<ScheduledPostsResponse> {
+  return getJson(
+    "/globalpost/scheduled",
+    scheduledPostsResponseSchema,
+    "GET /globalpost/scheduled",
+    options.signal
+  );
+}
+
+/**
+ * Edit a scheduled post before it goes out. Fails with a 404 ApiError
+ * (code POST_NOT_FOUND) once it has been published or cancelled.
+ */
+export async function updateScheduledPost(
+  scheduledPostId: string,
+  data: UpdateScheduledPostData,
+  options: RequestOptions = {}
+): Promise<ScheduledPostResponse> {
+  const formData = new FormData();
+  formData.append("content", data.content);
+  if (data.category) formData.append("category", data.category);
+  if (data.keepImages) formData.append("keepImages", JSON.stringify(data.keepImages));
+  if (data.schedule) formData.append("schedule", JSON.stringify(data.schedule));
+  data.images?.forEach((image) => formData.append("images", image));
+  if (data.contentWarning !== undefined) formData.append("contentWarning", data.contentWarning);
+  if (data.imageWarnings) formData.append("imageWarnings", JSON.stringify(data.imageWarnings));
+
+  const response = await authFetch(
+    `${API_BASE_URL}/globalpost/scheduled/${scheduledPostId}`,
+    {
+      method: "PATCH",
+      body: formData,
+      signal: options.signal,
+    }
+  );
+  return handleResponse(
+    response,
+    scheduledPostResponseSchema,
+    "PATCH /globalpost/scheduled/:id"
+  );
+}
+
+export async function cancelScheduledPost(
+  scheduledPostId: string,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
+  const response = await authFetch(
+    `${API_BASE_URL}/globalpost/scheduled/${scheduledPostId}`,
+    {
+      method: "DELETE",
+      headers: JSON_HEADERS,
+      signal: options.signal,
+    }
+  );
+  return handleResponse(
+    response,
+    messageResponseSchema,
+    "DELETE /globalpost/scheduled/:id"
+  );
+}
+
+/**
+ * The signed-in user's saved posts, most recently saved first. Deleted posts
+ * come back with `post: null`.
+ */
+export async function getSavedPosts(
+  params: SavedPostsParams = {},
+  options: RequestOptions = {}
+): Promise<SavedPostsResponse> {
+  const queryParams = new URLSearchParams();
+  if (params.cursor) queryParams.append("cursor", params.cursor);
+  if (params.limit) queryParams.append("limit", params.limit.toString());
+  if (params.collection) queryParams.append("collection", params.collection);
+
+  return getJson(
+    `/saved${queryParams.toString() ? "?" + queryParams.toString() : ""}`,
+    savedPostsResponseSchema,
+    "GET /saved",
+    options.signal
+  );
+}
+
+/** Ids of every post the signed-in user saved, and the collection each is in */
+export async function getSavedPostIds(
+  options: RequestOptions = {}
+): Promise<SavedPostIdsResponse> {
+  return getJson("/saved/ids", savedPostIdsResponseSchema, "GET /saved/ids", options.signal);
+}
+
+/**
+ * Save a post, or move a saved one. `collectionId` undefined keeps it where
+ * it is; null takes it out of its collection.
+ */
+export async function savePost(
+  postId: string,
+  collectionId?: string | null,
+  options: RequestOptions = {}
+): Promise<SavePostResponse> {
+  const response = await authFetch(`${API_BASE_URL}/saved/${postId}`, {
+    method: "PUT",
+    headers: JSON_HEADERS,
+    body: JSON.stringify(collectionId === undefined ? {} : { collection_id: collectionId }),
+    signal: options.signal,
+  });
+  return handleResponse(response, savePostResponseSchema, "PUT /saved/:postId");
+}
+
+export async function unsavePost(
+  postId: string,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
+  const response = await authFetch(`${API_BASE_URL}/saved/${postId}`, {
+    method: "DELETE",
+    headers: JSON_HEADERS,
+    signal: options.signal,
   });
-  return handleResponse(response);
+  return handleResponse(response, messageResponseSchema, "DELETE /saved/:postId");
 }
 
-export async function likeGlobalPost(postId: string) {
+export async function getSavedCollections(
+  options: RequestOptions = {}
+): Promise<SavedCollectionsResponse> {
+  return getJson(
+    "/saved/collections",
+    savedCollectionsResponseSchema,
+    "GET /saved/collections",
+    options.signal
+  );
+}
+
+/** Fails with a 409 ApiError (code COLLECTION_EXISTS) when the name is taken */
+export async function createSavedCollection(
+  name: string,
+  options: RequestOptions = {}
+): Promise<SavedCollectionResponse> {
+  const response = await authFetch(`${API_BASE_URL}/saved/collections`, {
+    method: "POST",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ name }),
+    signal: options.signal,
+  });
+  return handleResponse(response, savedCollectionResponseSchema, "POST /saved/collections");
+}
+
+export async function renameSavedCollection(
+  collectionId: string,
+  name: string,
+  options: RequestOptions = {}
+): Promise<SavedCollectionResponse> {
+  const response = await authFetch(`${API_BASE_URL}/saved/collections/${collectionId}`, {
+    method: "PATCH",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ name }),
+    signal: options.signal,
+  });
+  return handleResponse(
+    response,
+    savedCollectionResponseSchema,
+    "PATCH /saved/collections/:id"
+  );
+}
+
+/** The posts in it stay saved, outside any collection */
+export async function deleteSavedCollection(
+  collectionId: string,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
+  const response = await authFetch(`${API_BASE_URL}/saved/collections/${collectionId}`, {
+    method: "DELETE",
+    headers: JSON_HEADERS,
+    signal: options.signal,
+  });
+  return handleResponse(response, messageResponseSchema, "DELETE /saved/collections/:id");
+}
+
+export async function likeGlobalPost(
+  postId: string,
+  options: RequestOptions = {}
+): Promise<LikeResponse> {
   const userData = localStorage.getItem("user");
   const user = userData ? JSON.parse(userData) : null;
 
   if (!user?.user_id) throw new Error("User not found");
 
-  const response = await fetch(`${API_BASE_URL}/globalpost/${postId}/like`, {
+  const response = await authFetch(`${API_BASE_URL}/globalpost/${postId}/like`, {
     method: "POST",
-    headers: getAuthHeaders(),
+    headers: JSON_HEADERS,
     body: JSON.stringify({ user_id: user.user_id }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  const result = await handleResponse(
+    response,
+    likeResponseSchema,
+    "POST /globalpost/:id/like"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  return result;
 }
 
-export async function getCommunities() {
-  const response = await fetch(`${API_BASE_URL}/community/getcommunities`, {
-    method: "GET",
-    headers: getAuthHeaders(),
+/**
+ * Comment on a global post as the signed-in user. With `parentId` the
+ * comment is a reply; replies to replies join the same top-level thread.
+ */
+export async function commentGlobalPost(
+  postId: string,
+  comment: string,
+  parentId?: string | null,
+  options: RequestOptions = {}
+): Promise<CommentResponse> {
+  const userData = localStorage.getItem("user");
+  const user = userData ? JSON.parse(userData) : null;
+
+  if (!user?.user_id) throw new Error("User not found");
+
+  const response = await authFetch(`${API_BASE_URL}/globalpost/${postId}/comment`, {
+    method: "POST",
+    headers: JSON_HEADERS,
+    body: JSON.stringify({
+      user_id: user.user_id,
+      randomName: user.user_name || user.randomName || "Anonymous",
+      comment,
+      parentId: parentId ?? undefined,
+    }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  const result = await handleResponse(
+    response,
+    commentResponseSchema,
+    "POST /globalpost/:id/comment"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  return result;
+}
+
+/**
+ * Delete one of the signed-in user's comments. Resolves with the post's
+ * comments as they are after the delete.
+ */
+export async function deleteGlobalPostComment(
+  postId: string,
+  commentId: string,
+  options: RequestOptions = {}
+): Promise<DeleteCommentResponse> {
+  const response = await authFetch(
+    `${API_BASE_URL}/globalpost/${postId}/comments/${commentId}`,
+    {
+      method: "DELETE",
+      headers: JSON_HEADERS,
+      signal: options.signal,
+    }
+  );
+  const result = await handleResponse(
+    response,
+    deleteCommentResponseSchema,
+    "DELETE /globalpost/:id/comments/:commentId"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  return result;
 }
 
-export async function joinCommunity(communityData: string | JoinCommunityData) {
+/**
+ * A post by its public share link. Needs no sign in, so server-rendered
+ * pages can call it too.
+ */
+export async function getSharedPost(
+  shareId: string,
+  options: RequestOptions = {}
+): Promise<SharedPostResponse> {
+  const response = await apiFetch(
+    `${API_BASE_URL}/globalpost/shared/${encodeURIComponent(shareId)}`,
+    {
+      method: "GET",
+      headers: JSON_HEADERS,
+      signal: options.signal,
+    }
+  );
+  return handleResponse(
+    response,
+    sharedPostResponseSchema,
+    "GET /globalpost/shared/:shareId"
+  );
+}
+
+/** Turn on the public link of one of your posts; returns the existing one if it is on */
+export async function createShareLink(
+  postId: string,
+  options: RequestOptions = {}
+): Promise<ShareLinkResponse> {
+  const response = await authFetch(`${API_BASE_URL}/globalpost/${postId}/share`, {
+    method: "POST",
+    headers: JSON_HEADERS,
+    signal: options.signal,
+  });
+  const result = await handleResponse(
+    response,
+    shareLinkResponseSchema,
+    "POST /globalpost/:id/share"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  return result;
+}
+
+/** Turn the public link off; links shared so far stop working */
+export async function revokeShareLink(
+  postId: string,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
+  const response = await authFetch(`${API_BASE_URL}/globalpost/${postId}/share`, {
+    method: "DELETE",
+    headers: JSON_HEADERS,
+    signal: options.signal,
+  });
+  const result = await handleResponse(
+    response,
+    messageResponseSchema,
+    "DELETE /globalpost/:id/share"
+  );
+  apiCache.invalidate(GLOBAL_POSTS_CACHE_KEY);
+  return result;
+}
+
+export async function getCommunities(
+  options: RequestOptions = {}
+): Promise<CommunitiesResponse> {
+  return apiCache.swr(
+    createCacheKey(COMMUNITIES_CACHE_KEY),
+    (signal) =>
+      getJson(
+        "/community/getcommunities",
+        communitiesResponseSchema,
+        COMMUNITIES_CACHE_KEY,
+        signal
+      ),
+    COMMUNITIES_CACHE,
+    options.signal
+  );
+}
+
+export async function joinCommunity(
+  communityData: string | JoinCommunityData,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
   const userData = localStorage.getItem("user");
   const user = userData ? JSON.parse(userData) : null;
 
@@ -202,27 +1134,46 @@ export async function joinCommunity(communityData: string | JoinCommunityData) {
       ? communityData
       : communityData.community_id;
 
-  const response = await fetch(`${API_BASE_URL}/community/joincommunity`, {
+  const response = await authFetch(`${API_BASE_URL}/community/joincommunity`, {
     method: "POST",
-    headers: getAuthHeaders(),
+    headers: JSON_HEADERS,
     body: JSON.stringify({ user_id: user.user_id, community_id: communityId }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  const result = await handleResponse(
+    response,
+    messageResponseSchema,
+    "POST /community/joincommunity"
+  );
+  apiCache.invalidate(COMMUNITIES_CACHE_KEY);
+  return result;
 }
 
-export async function updateUserProfile(userId: string, profileData: unknown) {
-  const response = await fetch(
+export async function updateUserProfile(
+  userId: string,
+  profileData: unknown,
+  options: RequestOptions = {}
+): Promise<UpdateProfileResponse> {
+  const response = await authFetch(
     `${API_BASE_URL}/user/${userId}/profile/submit`,
     {
       method: "PUT",
-      headers: getAuthHeaders(),
+      headers: JSON_HEADERS,
       body: JSON.stringify(profileData),
+      signal: options.signal,
     }
   );
-  return handleResponse(response);
+  return handleResponse(
+    response,
+    updateProfileResponseSchema,
+    "PUT /user/:id/profile/submit"
+  );
 }
 
-export async function createCommunityPost(postData: CreateCommunityPostData) {
+export async function createCommunityPost(
+  postData: CreateCommunityPostData,
+  options: RequestOptions = {}
+): Promise<CreatePostResponse> {
   const userData = localStorage.getItem("user");
   const user = userData ? JSON.parse(userData) : null;
 
@@ -235,27 +1186,33 @@ export async function createCommunityPost(postData: CreateCommunityPostData) {
     user.randomName || `Anonymous${Math.floor(Math.random() * 1000)}`
   );
   formData.append("content", postData.content);
+  formData.append("category", postData.category);
   formData.append("community_id", postData.community_id);
 
   if (postData.images) {
     postData.images.forEach((image) => formData.append("images", image));
   }
 
-  const response = await fetch(
+  const response = await authFetch(
     `${API_BASE_URL}/community/${postData.community_id}/posts`,
     {
       method: "POST",
-      headers: getAuthHeadersForFormData(),
       body: formData,
+      signal: options.signal,
     }
   );
-  return handleResponse(response);
+  return handleResponse(
+    response,
+    createPostResponseSchema,
+    "POST /community/:id/posts"
+  );
 }
 
 // Additional functions for compatibility
 export async function leaveCommunity(
-  communityData: string | JoinCommunityData
-) {
+  communityData: string | JoinCommunityData,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
   const userData = localStorage.getItem("user");
   const user = userData ? JSON.parse(userData) : null;
 
@@ -266,97 +1223,115 @@ export async function leaveCommunity(
       ? communityData
       : communityData.community_id;
 
-  const response = await fetch(`${API_BASE_URL}/community/leavecommunity`, {
+  const response = await authFetch(`${API_BASE_URL}/community/leavecommunity`, {
     method: "POST",
-    headers: getAuthHeaders(),
+    headers: JSON_HEADERS,
     body: JSON.stringify({ user_id: user.user_id, community_id: communityId }),
+    signal: options.signal,
   });
-  return handleResponse(response);
+  const result = await handleResponse(
+    response,
+    messageResponseSchema,
+    "POST /community/leavecommunity"
+  );
+  apiCache.invalidate(COMMUNITIES_CACHE_KEY);
+  return result;
 }
 
 export async function getUserPosts(
   userId: string,
   page?: number,
-  limit?: number
-) {
+  limit?: number,
+  options: RequestOptions = {}
+): Promise<UserPostsResponse> {
   const queryParams = new URLSearchParams();
   if (page) queryParams.append("page", page.toString());
   if (limit) queryParams.append("limit", limit.toString());
 
-  const url = `${API_BASE_URL}/user/${userId}/posts${
+  const path = `/user/${userId}/posts${
     queryParams.toString() ? "?" + queryParams.toString() : ""
   }`;
 
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getAuthHeaders(),
-  });
-  return handleResponse(response);
+  return getJson(
+    path,
+    userPostsResponseSchema,
+    "GET /user/:id/posts",
+    options.signal
+  );
 }
 
-export async function deleteUserPost(userId: string, postId: string) {
-  const response = await fetch(
+export async function deleteUserPost(
+  userId: string,
+  postId: string,
+  options: RequestOptions = {}
+): Promise<MessageResponse> {
+  const response = await authFetch(
     `${API_BASE_URL}/user/${userId}/posts/${postId}`,
     {
       method: "DELETE",
-      headers: getAuthHeaders(),
+      headers: JSON_HEADERS,
+      signal: options.signal,
     }
   );
-  return handleResponse(response);
+  return handleResponse(
+    response,
+    messageResponseSchema,
+    "DELETE /user/:id/posts/:postId"
+  );
 }
 
 export async function getCommunityPosts(
   communityId: string,
   page?: number,
-  limit?: number
-) {
+  limit?: number,
+  options: RequestOptions = {}
+): Promise<CommunityPostsResponse> {
   const queryParams = new URLSearchParams();
   if (page) queryParams.append("page", page.toString());
   if (limit) queryParams.append("limit", limit.toString());
 
-  const url = `${API_BASE_URL}/community/${communityId}/posts${
+  const path = `/community/${communityId}/posts${
     queryParams.toString() ? "?" + queryParams.toString() : ""
   }`;
 
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getAuthHeaders(),
-  });
-  return handleResponse(response);
+  return getJson(
+    path,
+    communityPostsResponseSchema,
+    "GET /community/:id/posts",
+    options.signal
+  );
 }
 
-export async function getFilteredCommunityPosts(communityId: string) {
-  // Simple fallback - just return all posts for now
-  const posts = await getGlobalPosts();
-  const communities = await getCommunities();
+export async function getFilteredCommunityPosts(
+  communityId: string,
+  options: RequestOptions = {}
+): Promise<CommunityPostsResponse> {
+  // Simple fallback - global posts have no community, so show the newest ones
+  const [posts, communities] = await Promise.all([
+    walkGlobalPosts({}, options),
+    getCommunities(options),
+  ]);
 
   const community =
-    communities.communities?.find(
-      (c: Community) => c.community_id === communityId
-    ) || null;
+    communities.communities.find((c) => c.community_id === communityId) || null;
 
   return {
-    posts: posts.posts || [],
+    posts,
     community,
   };
 }
 
 // Search functions (simplified)
-export async function searchPosts(query: SearchQuery) {
-  // Simple fallback - filter global posts
-  const posts = await getGlobalPosts();
-  let filteredPosts = posts.posts || [];
-
-  if (query.text) {
-    const searchText = query.text.toLowerCase();
-    filteredPosts = filteredPosts.filter((post: GlobalPost) =>
-      post.content.toLowerCase().includes(searchText)
-    );
-  }
+export async function searchPosts(
+  query: SearchQuery,
+  options: RequestOptions = {}
+): Promise<SearchResponse> {
+  // The feed endpoint matches the text, so only matching posts are fetched
+  const posts = await walkGlobalPosts({ q: query.text?.trim() || undefined }, options);
 
   return {
-    posts: filteredPosts,
-    totalCount: filteredPosts.length,
+    posts,
+    totalCount: posts.length,
     page: query.page || 1,
     limit: query.limit || 10,
     hasMore: false,
@@ -369,13 +1344,18 @@ export async function searchPosts(query: SearchQuery) {
   };
 }
 
-export async function getSearchSuggestions(query: string) {
+export async function getSearchSuggestions(
+  query: string
+): Promise<{ suggestions: SearchSuggestion[] }> {
   // Simple fallback - return empty suggestions
   return {
     suggestions: [],
   };
 }
 
-export async function fallbackSearchPosts(query: SearchQuery) {
-  return searchPosts(query);
+export async function fallbackSearchPosts(
+  query: SearchQuery,
+  options: RequestOptions = {}
+): Promise<SearchResponse> {
+  return searchPosts(query, options);
 }
@@ -0,0 +1,95 @@
+import { getSavedPostIds, savePost, unsavePost, type SavePostResponse } from "./api";
+import { bookmarks } from "./bookmarks";
+
+jest.mock("./api", () => ({
+  getSavedPostIds: jest.fn(),
+  savePost: jest.fn(),
+  unsavePost: jest.fn(),
+}));
+
+jest.mock("./outbox", () => ({
+  currentUserId: () => "me",
+}));
+
+const mockSave = savePost as jest.MockedFunction<typeof savePost>;
+const mockUnsave = unsavePost as jest.MockedFunction<typeof unsavePost>;
+const mockIds = getSavedPostIds as jest.MockedFunction<typeof getSavedPostIds>;
+
+function saved(postId: string, collectionId: string | null): SavePostResponse {
+  return {
+    message: "Saved",
+    saved: { _id: "s1", post_id: postId, collection_id: collectionId, createdAt: "" },
+  };
+}
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  bookmarks.clear();
+});
+
+describe("bookmarks", () => {
+  it("shows a save straight away and settles when the server answers", async () => {
+    mockSave.mockResolvedValueOnce(saved("p1", null));
+
+    const request = bookmarks.toggle("p1");
+    expect(bookmarks.getState("p1")).toEqual({ saved: true, collectionId: null, pending: true });
+
+    await request;
+    expect(bookmarks.getState("p1")).toEqual({ saved: true, collectionId: null, pending: false });
+  });
+
+  it("goes back to the previous state when the server refuses", async () => {
+    mockSave.mockResolvedValueOnce(saved("p1", "c1"));
+    await bookmarks.save("p1", "c1");
+    mockUnsave.mockRejectedValueOnce(new Error("Server Error"));
+
+    await expect(bookmarks.toggle("p1")).rejects.toThrow("Server Error");
+
+    expect(bookmarks.getState("p1")).toEqual({ saved: true, collectionId: "c1", pending: false });
+  });
+
+  it("keeps the collection when saving again without one", async () => {
+    mockSave.mockResolvedValueOnce(saved("p1", "c1"));
+    await bookmarks.save("p1", "c1");
+    mockSave.mockResolvedValueOnce(saved("p1", "c1"));
+
+    await bookmarks.save("p1");
+
+    expect(mockSave).toHaveBeenLastCalledWith("p1", undefined);
+    expect(bookmarks.getState("p1").collectionId).toBe("c1");
+  });
+
+  it("does not let a loaded list undo a change still on its way", async () => {
+    let finish!: (response: SavePostResponse) => void;
+    mockSave.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+
+    const request = bookmarks.save("p1", "c2");
+    bookmarks.receive([{ post_id: "p1", collection_id: "c1" }]);
+    expect(bookmarks.getState("p1").collectionId).toBe("c2");
+
+    finish(saved("p1", "c2"));
+    await request;
+  });
+
+  it("loads the saved ids once per user", async () => {
+    mockIds.mockResolvedValue({ saved: [{ post_id: "p1", collection_id: null }] });
+
+    await bookmarks.load();
+    await bookmarks.load();
+
+    expect(mockIds).toHaveBeenCalledTimes(1);
+    expect(bookmarks.getState("p1").saved).toBe(true);
+  });
+
+  it("unfiles the posts of a deleted collection", () => {
+    bookmarks.receive([
+      { post_id: "p1", collection_id: "c1" },
+      { post_id: "p2", collection_id: "c2" },
+    ]);
+
+    bookmarks.forgetCollection("c1");
+
+    expect(bookmarks.getState("p1")).toMatchObject({ saved: true, collectionId: null });
+    expect(bookmarks.getState("p2").collectionId).toBe("c2");
+  });
+});
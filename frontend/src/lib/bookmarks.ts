@@ -0,0 +1,170 @@
+/**
+ * Bookmarks
+ *
+ * Which posts the signed-in user saved, and in which collection, loaded once
+ * per session from /saved/ids. Every bookmark button reads from here, so
+ * saving a post in the feed shows on its detail page too. Changes apply
+ * immediately and go back to the previous state if the server refuses them.
+ */
+
+import { getSavedPostIds, savePost, unsavePost } from "./api";
+import { currentUserId } from "./outbox";
+
+/** `collection` value of saved posts in no collection, as the server takes it */
+export const UNFILED_COLLECTION = "none";
+
+export interface BookmarkState {
+  saved: boolean;
+  /** null when saved outside any collection, or not saved */
+  collectionId: string | null;
+  /** A server call for this post is still running */
+  pending: boolean;
+}
+
+type BookmarkListener = () => void;
+
+const NOT_SAVED: BookmarkState = { saved: false, collectionId: null, pending: false };
+
+class BookmarkStore {
+  /** postId -> collection id (null: no collection) */
+  private saved = new Map<string, string | null>();
+  private pending = new Set<string>();
+  private snapshots = new Map<string, BookmarkState>();
+  private listeners = new Set<BookmarkListener>();
+  private loadedFor: string | null = null;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Current state of a post. The object only changes when the state does,
+   * as useSyncExternalStore requires.
+   */
+  getState(postId: string): BookmarkState {
+    if (!this.saved.has(postId) && !this.pending.has(postId)) return NOT_SAVED;
+
+    const state: BookmarkState = {
+      saved: this.saved.has(postId),
+      collectionId: this.saved.get(postId) ?? null,
+      pending: this.pending.has(postId),
+    };
+    const previous = this.snapshots.get(postId);
+    if (
+      previous &&
+      previous.saved === state.saved &&
+      previous.collectionId === state.collectionId &&
+      previous.pending === state.pending
+    ) {
+      return previous;
+    }
+    this.snapshots.set(postId, state);
+    return state;
+  }
+
+  subscribe = (listener: BookmarkListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /** Fetch the saved post ids of the signed-in user, once per user */
+  load(): Promise<void> {
+    const userId = currentUserId();
+    if (!userId) return Promise.resolve();
+    if (this.loadedFor === userId) return this.loading ?? Promise.resolve();
+
+    this.loadedFor = userId;
+    this.loading = getSavedPostIds()
+      .then(({ saved }) => this.receive(saved))
+      .catch((error) => {
+        this.loadedFor = null;
+        throw error;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  /** Take in saved entries the server sent, e.g. with a page of the saved list */
+  receive(entries: { post_id: string; collection_id: string | null }[]): void {
+    // Keep what was toggled while they were on their way
+    entries.forEach(({ post_id, collection_id }) => {
+      if (!this.pending.has(post_id)) this.saved.set(post_id, collection_id);
+    });
+    this.notify();
+  }
+
+  /** Save the post if it is not saved, otherwise remove it */
+  toggle(postId: string): Promise<void> {
+    return this.saved.has(postId) ? this.remove(postId) : this.save(postId);
+  }
+
+  /**
+   * Save a post, or move a saved one. `collectionId` undefined keeps it
+   * where it is; null takes it out of its collection.
+   */
+  save(postId: string, collectionId?: string | null): Promise<void> {
+    const next = collectionId === undefined ? this.saved.get(postId) ?? null : collectionId;
+    return this.change(postId, next, async () => {
+      const { saved } = await savePost(postId, collectionId);
+      this.saved.set(postId, saved.collection_id);
+    });
+  }
+
+  remove(postId: string): Promise<void> {
+    return this.change(postId, undefined, async () => {
+      await unsavePost(postId);
+    });
+  }
+
+  /** A deleted collection leaves its posts saved, outside any collection */
+  forgetCollection(collectionId: string): void {
+    this.saved.forEach((value, postId) => {
+      if (value === collectionId) this.saved.set(postId, null);
+    });
+    this.notify();
+  }
+
+  /** Forget everything, e.g. when the user signs out */
+  clear(): void {
+    this.saved.clear();
+    this.pending.clear();
+    this.snapshots.clear();
+    this.loadedFor = null;
+    this.notify();
+  }
+
+  // `next` undefined means not saved
+  private async change(
+    postId: string,
+    next: string | null | undefined,
+    request: () => Promise<void>
+  ): Promise<void> {
+    const had = this.saved.has(postId);
+    const previous = this.saved.get(postId) ?? null;
+
+    if (next === undefined) this.saved.delete(postId);
+    else this.saved.set(postId, next);
+    this.pending.add(postId);
+    this.notify();
+
+    try {
+      await request();
+    } catch (error) {
+      if (had) this.saved.set(postId, previous);
+      else this.saved.delete(postId);
+      throw error;
+    } finally {
+      this.pending.delete(postId);
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Create singleton instance
+export const bookmarks = new BookmarkStore();
+export default bookmarks;
@@ -0,0 +1,56 @@
+/**
+ * Post categories
+ *
+ * Every global post belongs to one category, chosen when it is written. The
+ * ids match the backend's list and the /dashboard/<id> pages linked from the
+ * sidebar, which show the feed of a single category.
+ */
+
+export const POST_CATEGORIES = [
+  "academics",
+  "exams",
+  "placements",
+  "campus",
+  "problems",
+  "reviews",
+] as const;
+
+export type PostCategory = (typeof POST_CATEGORIES)[number];
+
+export interface CategoryInfo {
+  label: string;
+  description: string;
+}
+
+export const CATEGORY_INFO: Record<PostCategory, CategoryInfo> = {
+  academics: {
+    label: "Academics",
+    description: "Courses, assignments, attendance and everything in between.",
+  },
+  exams: {
+    label: "Exams & Study",
+    description: "Exam schedules, past papers and study groups.",
+  },
+  placements: {
+    label: "Placements & Internships",
+    description: "Drives, interview prep, offers and stipends.",
+  },
+  campus: {
+    label: "Campus Life",
+    description: "Hostels, food, events and life around campus.",
+  },
+  problems: {
+    label: "Problems & Rants",
+    description: "Things that need fixing, and letting off steam.",
+  },
+  reviews: {
+    label: "Reviews",
+    description: "Honest takes on courses, faculty, places and services.",
+  },
+};
+
+export function isPostCategory(value: unknown): value is PostCategory {
+  return POST_CATEGORIES.includes(value as PostCategory);
+}
+
+export const categoryHref = (category: PostCategory) => `/dashboard/${category}`;
@@ -0,0 +1,73 @@
+/**
+ * Content warnings
+ *
+ * An author can label a global post, or single images of it, with a short
+ * warning such as "Spoiler" or "Distressing". Readers then see the label
+ * instead of the content until they choose to reveal it, unless they turned
+ * on auto-expand in their preferences. The length limit matches
+ * backend/src/utils/contentWarnings.js.
+ */
+
+import type { PostCategory } from "./categories";
+
+export const MAX_CONTENT_WARNING_LENGTH = 40;
+
+export const CONTENT_WARNING_PRESETS = [
+  "Spoiler",
+  "Exam answers",
+  "Distressing",
+  "Mental health",
+  "Strong language",
+] as const;
+
+// Offered first when writing in these categories
+const SUGGESTED_PRESETS: Partial<Record<PostCategory, string>> = {
+  exams: "Exam answers",
+  problems: "Distressing",
+};
+
+/** The presets, the one that suits the category first */
+export function warningPresetsFor(category?: PostCategory | null): string[] {
+  const suggested = category ? SUGGESTED_PRESETS[category] : undefined;
+  return suggested
+    ? [suggested, ...CONTENT_WARNING_PRESETS.filter((preset) => preset !== suggested)]
+    : [...CONTENT_WARNING_PRESETS];
+}
+
+/** Same clean-up as the server: collapsed whitespace, "" for no warning */
+export const normalizeWarning = (label: string): string => label.replace(/\s+/g, " ").trim();
+
+// Auto-expand preference, kept per browser like the theme
+
+const AUTO_EXPAND_KEY = "content-warnings-expanded";
+
+type PreferenceListener = () => void;
+
+const listeners = new Set<PreferenceListener>();
+
+export function getAutoExpandWarnings(): boolean {
+  if (typeof window === "undefined") return false;
+  return localStorage.getItem(AUTO_EXPAND_KEY) === "true";
+}
+
+export function setAutoExpandWarnings(expand: boolean): void {
+  if (expand) {
+    localStorage.setItem(AUTO_EXPAND_KEY, "true");
+  } else {
+    localStorage.removeItem(AUTO_EXPAND_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Called on changes from this tab and from other tabs */
+export function subscribeAutoExpandWarnings(listener: PreferenceListener): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === AUTO_EXPAND_KEY || event.key === null) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
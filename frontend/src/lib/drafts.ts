@@ -0,0 +1,149 @@
+/**
+ * Post drafts
+ *
+ * CreatePost autosaves what is being written to IndexedDB, one draft per
+ * target ("global" or a community_id) per user, images included. A draft
+ * outlives an expired session or a closed tab; it is removed once the post is
+ * published or the user discards it.
+ */
+
+import type { NewReview } from "./api";
+import type { PostCategory } from "./categories";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+import { currentUserId } from "./outbox";
+
+const DB_NAME = "blindcu-drafts";
+const DB_VERSION = 1;
+const STORE = "drafts";
+
+export const DRAFTS_CHANGE_EVENT = "draftsChange";
+
+export const GLOBAL_DRAFT_TARGET = "global";
+
+/** Poll fields as they are in the editor, not yet validated */
+export interface DraftPoll {
+  options: string[];
+  /** datetime-local value; empty keeps the poll open */
+  closesAt: string;
+}
+
+export interface DraftContent {
+  content: string;
+  category: PostCategory | null;
+  images: File[];
+  poll: DraftPoll | null;
+  /** Missing from drafts saved before reviews existed */
+  review?: NewReview | null;
+  /** Missing from drafts saved before content warnings existed; null when off */
+  contentWarning?: string | null;
+  /** Warning label of each of `images`, "" for none */
+  imageWarnings?: string[];
+}
+
+export interface Draft extends DraftContent {
+  /** `${ownerId}:${target}` */
+  id: string;
+  ownerId: string;
+  /** "global" or the community_id the post is meant for */
+  target: string;
+  updatedAt: number;
+}
+
+function openDrafts(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+      db.createObjectStore(STORE, { keyPath: "id" });
+    }
+  });
+}
+
+const draftId = (ownerId: string, target: string) => `${ownerId}:${target}`;
+
+/** Whether there is anything in the editor worth keeping */
+export function hasDraftContent(draft: DraftContent): boolean {
+  return (
+    draft.content.trim().length > 0 ||
+    draft.images.length > 0 ||
+    (draft.poll?.options.some((option) => option.trim()) ?? false) ||
+    (draft.review?.entityName.trim().length ?? 0) > 0
+  );
+}
+
+function notifyChange(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new CustomEvent(DRAFTS_CHANGE_EVENT));
+}
+
+class DraftStore {
+  /**
+   * Drafts of the signed-in user, most recently edited first.
+   */
+  async list(): Promise<Draft[]> {
+    const ownerId = currentUserId();
+    if (!ownerId) return [];
+
+    const db = await openDrafts();
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const drafts = await requestToPromise(store.getAll() as IDBRequest<Draft[]>);
+    return drafts
+      .filter((draft) => draft.ownerId === ownerId)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async get(target: string): Promise<Draft | null> {
+    const ownerId = currentUserId();
+    if (!ownerId) return null;
+
+    const db = await openDrafts();
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const draft = await requestToPromise(
+      store.get(draftId(ownerId, target)) as IDBRequest<Draft | undefined>
+    );
+    return draft ?? null;
+  }
+
+  /**
+   * Save the draft for `target`. An empty editor removes it instead, so
+   * clearing the text by hand also clears the draft.
+   */
+  async save(target: string, content: DraftContent): Promise<Draft | null> {
+    if (!hasDraftContent(content)) {
+      await this.discard(target);
+      return null;
+    }
+
+    const ownerId = currentUserId();
+    if (!ownerId) return null;
+
+    const draft: Draft = {
+      ...content,
+      id: draftId(ownerId, target),
+      ownerId,
+      target,
+      updatedAt: Date.now(),
+    };
+
+    const db = await openDrafts();
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).put(draft);
+    await transactionDone(transaction);
+    notifyChange();
+    return draft;
+  }
+
+  async discard(target: string): Promise<void> {
+    const ownerId = currentUserId();
+    if (!ownerId) return;
+
+    const db = await openDrafts();
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).delete(draftId(ownerId, target));
+    await transactionDone(transaction);
+    notifyChange();
+  }
+}
+
+// Create singleton instance
+export const drafts = new DraftStore();
+
+export default drafts;
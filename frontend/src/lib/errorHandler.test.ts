@@ -0,0 +1,97 @@
+import { z } from "zod";
+
+import { ApiError } from "./api-error";
+import { ApiSchemaError } from "./api-schemas";
+import { NETWORK_ERROR_MESSAGE, parseError } from "./errorHandler";
+
+const apiError = (status: number, details: ConstructorParameters<typeof ApiError>[3] = {}) =>
+  new ApiError("GET /x", status, "Failed", details);
+
+function schemaError(): ApiSchemaError {
+  const result = z.object({ posts: z.array(z.string()) }).safeParse({});
+  return new ApiSchemaError("GET /x", result.error!);
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("parseError", () => {
+  it("classifies API errors by status", () => {
+    const types = [400, 401, 403, 404, 409, 410, 422, 429, 500, 503].map(
+      (status) => parseError(apiError(status)).type
+    );
+
+    expect(types).toEqual([
+      "validation",
+      "auth",
+      "auth",
+      "not_found",
+      "validation",
+      "not_found",
+      "validation",
+      "rate_limit",
+      "server",
+      "server",
+    ]);
+  });
+
+  it("only retries server errors and rate limits", () => {
+    expect(parseError(apiError(503)).retryable).toBe(true);
+    expect(parseError(apiError(429)).retryable).toBe(true);
+    expect(parseError(apiError(400)).retryable).toBe(false);
+    expect(parseError(apiError(404)).retryable).toBe(false);
+  });
+
+  it("keeps the code, field errors and Retry-After", () => {
+    const parsed = parseError(
+      apiError(429, { code: "RATE_LIMITED", fieldErrors: { content: "Too fast" }, retryAfter: 12 })
+    );
+
+    expect(parsed).toMatchObject({
+      status: 429,
+      code: "RATE_LIMITED",
+      fieldErrors: { content: "Too fast" },
+      retryAfter: 12,
+    });
+  });
+
+  it("sends auth failures to sign in", () => {
+    expect(parseError(apiError(401)).shouldRedirectToAuth).toBe(true);
+    expect(parseError(apiError(500)).shouldRedirectToAuth).toBe(false);
+  });
+
+  it("reports a cancelled request as aborted", () => {
+    expect(parseError(new DOMException("The user aborted a request.", "AbortError")).type).toBe(
+      "aborted"
+    );
+  });
+
+  it("treats fetch's network failure as a network error", () => {
+    expect(parseError(new TypeError("Failed to fetch"))).toEqual({
+      message: NETWORK_ERROR_MESSAGE,
+      type: "network",
+      retryable: true,
+    });
+  });
+
+  it("does not treat other TypeErrors as network errors", () => {
+    const parsed = parseError(new TypeError("Cannot read properties of undefined (reading 'map')"));
+
+    expect(parsed.type).toBe("unknown");
+    expect(parsed.message).not.toBe(NETWORK_ERROR_MESSAGE);
+  });
+
+  it("reports a malformed response as a server error, even offline", () => {
+    jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+
+    expect(parseError(schemaError())).toMatchObject({ type: "server", retryable: false });
+    expect(parseError(new Error("boom")).type).toBe("network");
+  });
+
+  it("keeps the message of plain errors and strings", () => {
+    expect(parseError(new Error("boom"))).toMatchObject({ type: "unknown", message: "boom" });
+    expect(parseError("Nope")).toMatchObject({ type: "unknown", message: "Nope" });
+    expect(parseError(42).message).toBe("An unknown error occurred");
+  });
+});
@@ -1,23 +1,98 @@
 // Simple error handling utilities
 
-export interface ParsedError {
-  message: string;
-  type: string;
-  shouldRedirectToAuth?: boolean;
-}
+import { ApiError, type FieldErrors } from "./api-error";
+import { isAbortError } from "./api-dedupe";
+import { ApiSchemaError } from "./api-schemas";
+import { isOfflineError } from "./outbox";
 
 export type ErrorType =
   | "network"
   | "validation"
   | "auth"
+  | "not_found"
+  | "rate_limit"
   | "server"
+  | "aborted"
   | "unknown";
 
+export interface ParsedError {
+  message: string;
+  type: ErrorType;
+  /** HTTP status for API errors */
+  status?: number;
+  /** Backend error code for API errors */
+  code?: string;
+  fieldErrors?: FieldErrors;
+  /** Seconds to wait before retrying, when the server said so */
+  retryAfter?: number | null;
+  /** Whether trying the same thing again may succeed */
+  retryable: boolean;
+  shouldRedirectToAuth?: boolean;
+}
+
+export const NETWORK_ERROR_MESSAGE =
+  "Unable to connect to the server. Please check your internet connection.";
+
+function classifyStatus(status: number): ErrorType {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404 || status === 410) return "not_found";
+  if (status === 429) return "rate_limit";
+  if (status >= 500) return "server";
+  if (status >= 400) return "validation";
+  return "unknown";
+}
+
+function parseApiError(error: ApiError): ParsedError {
+  const type = classifyStatus(error.status);
+
+  return {
+    message: error.message,
+    type,
+    status: error.status,
+    code: error.code,
+    fieldErrors: error.fieldErrors,
+    retryAfter: error.retryAfter,
+    retryable: type === "server" || type === "rate_limit",
+    shouldRedirectToAuth: type === "auth",
+  };
+}
+
 export function parseError(error: unknown): ParsedError {
+  if (error instanceof ApiError) {
+    return parseApiError(error);
+  }
+
+  if (isAbortError(error)) {
+    return {
+      message: "The request was cancelled",
+      type: "aborted",
+      retryable: true,
+    };
+  }
+
+  // The server answered, but not in the shape the client expects
+  if (error instanceof ApiSchemaError) {
+    return {
+      message: "The server sent an unexpected response. Please try again later.",
+      type: "server",
+      retryable: false,
+    };
+  }
+
+  // The request never reached the server. Other TypeErrors are bugs
+  if (isOfflineError(error)) {
+    return {
+      message: NETWORK_ERROR_MESSAGE,
+      type: "network",
+      retryable: true,
+    };
+  }
+
   if (error instanceof Error) {
     return {
       message: error.message,
       type: "unknown",
+      retryable: true,
     };
   }
 
@@ -25,12 +100,14 @@ export function parseError(error: unknown): ParsedError {
     return {
       message: error,
       type: "unknown",
+      retryable: true,
     };
   }
 
   return {
     message: "An unknown error occurred",
     type: "unknown",
+    retryable: true,
   };
 }
 
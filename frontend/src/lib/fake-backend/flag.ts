@@ -0,0 +1,10 @@
+/**
+ * Set NEXT_PUBLIC_FAKE_BACKEND=true to run the frontend against the in-memory
+ * fake in lib/fake-backend instead of the Express/socket.io server.
+ *
+ * Kept in its own module so checking the flag never pulls the fake into the
+ * production bundle.
+ */
+
+export const FAKE_BACKEND_ENABLED =
+  process.env.NEXT_PUBLIC_FAKE_BACKEND === "true";
@@ -0,0 +1,173 @@
+/**
+ * In-process fake backend
+ *
+ * Serves every route lib/api.ts calls, plus the community chat socket, from
+ * an in-memory store so the dashboard runs with no network and no database.
+ * Enabled with NEXT_PUBLIC_FAKE_BACKEND=true (see ./flag). State lives for
+ * the lifetime of the page; reloading starts again from the seed data.
+ *
+ * Tests can use it directly: `fakeBackend.fetch` has the same signature as
+ * `fetch`, and `reset()` restores the seed.
+ */
+
+import { matchRoute, type FakeRequest } from "./routes";
+import { publishDuePosts } from "./scheduler";
+import { FakeSocketServer, type FakeSocket } from "./socket";
+import { createSeedStore, type FakeStore } from "./store";
+import { readFakeToken, type FakeTokenPayload } from "./token";
+
+export { FAKE_BACKEND_ENABLED } from "./flag";
+export { FAKE_OTP } from "./store";
+export type {
+  FakeStore,
+  FakeCommunityPost,
+  FakeGlobalPost,
+  FakeScheduledPost,
+  FakeSavedPost,
+  FakeSavedCollection,
+} from "./store";
+export type { FakeSocket } from "./socket";
+
+export interface FakeBackendOptions {
+  /** Artificial delay per request so loading states stay visible */
+  latency?: number;
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function readBody(
+  body: BodyInit | null | undefined
+): Pick<FakeRequest, "body" | "files"> {
+  if (body instanceof FormData) {
+    const fields: Record<string, unknown> = {};
+    const files: File[] = [];
+    body.forEach((value, key) => {
+      if (typeof value === "string") fields[key] = value;
+      else if (key === "images") files.push(value);
+    });
+    return { body: fields, files };
+  }
+
+  if (typeof body === "string" && body) {
+    return { body: JSON.parse(body), files: [] };
+  }
+
+  return { body: {}, files: [] };
+}
+
+export class FakeBackend {
+  private store: FakeStore = createSeedStore();
+  private sockets = new FakeSocketServer(() => this.store);
+  private latency: number;
+
+  constructor(options: FakeBackendOptions = {}) {
+    this.latency = options.latency ?? 150;
+  }
+
+  /**
+   * Drop-in replacement for `fetch` against the API base URL. Only the path
+   * and query of `input` are used.
+   */
+  async fetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const signal = init.signal ?? undefined;
+    await this.delay(signal);
+    publishDuePosts(this.store);
+
+    const url = new URL(input, "http://fake-backend.local");
+    const method = (init.method ?? "GET").toUpperCase();
+    const match = matchRoute(method, url.pathname);
+
+    if (!match) {
+      return jsonResponse(404, { message: `Cannot ${method} ${url.pathname}` });
+    }
+
+    const authorization = new Headers(init.headers).get("Authorization");
+    const auth = readFakeToken(authorization);
+    if (match.route.auth && !auth) {
+      return jsonResponse(401, {
+        message: "Authorization failed",
+        code: authorization ? "TOKEN_INVALID" : "AUTH_REQUIRED",
+      });
+    }
+    if (auth) this.restoreUser(auth);
+
+    try {
+      const request: FakeRequest = {
+        params: match.params,
+        query: url.searchParams,
+        auth,
+        ...readBody(init.body),
+      };
+      const { status, body } = match.route.handler(this.store, request);
+      // Serialize so callers never share objects with the store
+      return jsonResponse(status, body);
+    } catch (error) {
+      console.error("[fake-backend] Route failed:", error);
+      return jsonResponse(500, { message: "Server Error" });
+    }
+  }
+
+  /** A connected stand-in for `io(serverUrl)` */
+  createSocket(): FakeSocket {
+    return this.sockets.connect();
+  }
+
+  /** Simulate the socket server dropping every connection */
+  disconnectSockets(): void {
+    this.sockets.disconnectAll();
+  }
+
+  setLatency(latency: number): void {
+    this.latency = latency;
+  }
+
+  /** Direct access to the data, for seeding and assertions in tests */
+  getStore(): FakeStore {
+    return this.store;
+  }
+
+  reset(): void {
+    this.sockets.disconnectAll();
+    this.store = createSeedStore();
+  }
+
+  // The store resets on reload while the token survives in localStorage
+  private restoreUser({ email, user_id }: FakeTokenPayload): void {
+    if (this.store.users.has(user_id)) return;
+    this.store.users.set(user_id, {
+      email,
+      user_id,
+      isverified: true,
+      joinedCommunities: [],
+    });
+  }
+
+  private delay(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, this.latency);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+// Create singleton instance
+export const fakeBackend = new FakeBackend();
+export default fakeBackend;
@@ -0,0 +1,85 @@
+import {
+  decodeScoreCursor,
+  encodeScoreCursor,
+  engagementOf,
+  hotScoreOf,
+  TOP_PERIOD_MS,
+} from "./ranking";
+
+const ID = "65a1b2c3d4e5f6a7b8c9d0e1";
+
+const post = (createdAt: string, likes: number, commentsCount: number) => ({
+  _id: ID,
+  createdAt,
+  likes,
+  commentsCount,
+});
+
+describe("engagementOf", () => {
+  it("counts a comment as two likes and ignores negative counts", () => {
+    expect(engagementOf(post("2025-01-01T00:00:00.000Z", 3, 2))).toBe(7);
+    expect(engagementOf(post("2025-01-01T00:00:00.000Z", -4, -1))).toBe(0);
+  });
+});
+
+describe("hotScoreOf", () => {
+  const at = "2025-01-01T00:00:00.000Z";
+
+  it("gives a post with no engagement its age score", () => {
+    const seconds = Date.parse(at) / 1000 - 1704067200;
+
+    expect(hotScoreOf(post(at, 0, 0))).toBeCloseTo(seconds / 45000);
+  });
+
+  it("adds one point per tenfold engagement", () => {
+    expect(hotScoreOf(post(at, 100, 0)) - hotScoreOf(post(at, 10, 0))).toBeCloseTo(1);
+  });
+
+  it("ranks a newer post above an older one with ten times the engagement", () => {
+    const older = post(at, 10, 0);
+    const newer = post(new Date(Date.parse(at) + 46000 * 1000).toISOString(), 1, 0);
+
+    expect(hotScoreOf(newer)).toBeGreaterThan(hotScoreOf(older));
+  });
+});
+
+describe("score cursors", () => {
+  it("round-trips the score, id and top period start", () => {
+    const since = "2025-01-03T10:00:00.000Z";
+
+    expect(decodeScoreCursor(encodeScoreCursor(12.345, { _id: ID }, since))).toEqual({
+      score: 12.345,
+      _id: ID,
+      since,
+    });
+    expect(decodeScoreCursor(encodeScoreCursor(-0.5, { _id: ID }, null))).toEqual({
+      score: -0.5,
+      _id: ID,
+      since: null,
+    });
+  });
+
+  it("is URL safe", () => {
+    for (let score = 0; score < 50; score += 0.37) {
+      expect(encodeScoreCursor(score, { _id: ID }, null)).toMatch(/^[A-Za-z0-9_-]+$/);
+    }
+  });
+
+  it("rejects cursors it did not make", () => {
+    const encode = (raw: string) => btoa(raw).replace(/=+$/, "");
+
+    expect(decodeScoreCursor("not a cursor")).toBeNull();
+    expect(decodeScoreCursor(encode(`abc_${ID}_`))).toBeNull();
+    expect(decodeScoreCursor(encode("1_not-an-id_"))).toBeNull();
+    expect(decodeScoreCursor(encode(`1_${ID}_yesterday`))).toBeNull();
+  });
+});
+
+describe("TOP_PERIOD_MS", () => {
+  it("looks back a day, a week and a month, or over everything", () => {
+    expect(TOP_PERIOD_MS.day).toBe(24 * 60 * 60 * 1000);
+    expect(TOP_PERIOD_MS.week).toBe(7 * TOP_PERIOD_MS.day!);
+    expect(TOP_PERIOD_MS.month).toBe(30 * TOP_PERIOD_MS.day!);
+    expect(TOP_PERIOD_MS.all).toBeNull();
+  });
+});
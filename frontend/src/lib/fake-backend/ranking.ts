@@ -0,0 +1,63 @@
+/**
+ * Hot and top ranking for the fake backend, the same formulas and cursors as
+ * backend/src/utils/ranking.js and backend/src/utils/pagination.js. The real
+ * server stores the scores on each post; here they are worked out when asked
+ * for, which gives the same numbers.
+ */
+
+import type { GlobalPost } from "../api-schemas";
+import type { TopPeriod } from "../feedSort";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TOP_PERIOD_MS: Record<TopPeriod, number | null> = {
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  all: null,
+};
+
+const COMMENT_WEIGHT = 2;
+const HOT_EPOCH_SECONDS = 1704067200; // 2024-01-01
+const HOT_DECAY_SECONDS = 45000;
+
+type Rankable = Pick<GlobalPost, "_id" | "createdAt" | "likes" | "commentsCount">;
+
+export const engagementOf = (post: Rankable): number =>
+  Math.max(post.likes || 0, 0) + COMMENT_WEIGHT * Math.max(post.commentsCount || 0, 0);
+
+export const hotScoreOf = (post: Rankable): number =>
+  Math.log10(Math.max(engagementOf(post), 1)) +
+  (new Date(post.createdAt).getTime() / 1000 - HOT_EPOCH_SECONDS) / HOT_DECAY_SECONDS;
+
+export interface ScoreCursor {
+  score: number;
+  _id: string;
+  /** Start of the top period on the first page */
+  since: string | null;
+}
+
+export function encodeScoreCursor(score: number, post: Pick<GlobalPost, "_id">, since: string | null): string {
+  return btoa(`${score}_${post._id}_${since ?? ""}`)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeScoreCursor(cursor: string): ScoreCursor | null {
+  try {
+    const [score, id, since] = atob(cursor.replace(/-/g, "+").replace(/_/g, "/")).split("_");
+    const value = Number(score);
+    if (
+      !score ||
+      !Number.isFinite(value) ||
+      !/^[0-9a-f]{24}$/.test(id ?? "") ||
+      (since && Number.isNaN(new Date(since).getTime()))
+    ) {
+      return null;
+    }
+    return { score: value, _id: id, since: since ? new Date(since).toISOString() : null };
+  } catch {
+    return null;
+  }
+}
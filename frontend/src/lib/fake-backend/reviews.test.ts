@@ -0,0 +1,145 @@
+import type { Review } from "../api-schemas";
+import { parseReview, semesterOf, summarizeReviews } from "./reviews";
+
+const COURSE_RATINGS = { content: 5, teaching: 4, workload: 2, grading: 3 };
+
+const parse = (input: object) => parseReview(JSON.stringify(input));
+
+function review(overall: number, scores: number[] = [overall, overall, overall, overall]): Review {
+  return {
+    subject: "course",
+    entity: "data-structures-cse-201",
+    entityName: "Data Structures (CSE-201)",
+    ratings: ["content", "teaching", "workload", "grading"].map((dimension, i) => ({
+      dimension,
+      score: scores[i],
+    })),
+    overall,
+  };
+}
+
+describe("parseReview", () => {
+  it("slugs the name and averages the ratings", () => {
+    expect(
+      parse({ subject: "course", entityName: "  Data   Structures (CSE-201) ", ratings: COURSE_RATINGS })
+    ).toEqual({
+      review: {
+        subject: "course",
+        entity: "data-structures-cse-201",
+        entityName: "Data Structures (CSE-201)",
+        ratings: [
+          { dimension: "content", score: 5 },
+          { dimension: "teaching", score: 4 },
+          { dimension: "workload", score: 2 },
+          { dimension: "grading", score: 3 },
+        ],
+        overall: 3.5,
+      },
+    });
+  });
+
+  it("rejects anything but a known subject with a name", () => {
+    expect(parseReview("{")).toEqual({ error: "review must be a JSON object" });
+    expect(parseReview(JSON.stringify(null))).toEqual({ error: "review must be a JSON object" });
+    expect(parse({ subject: "library", entityName: "x", ratings: {} })).toEqual({
+      error: "subject must be one of course, faculty, hostel, mess",
+    });
+    expect(parse({ subject: "course", entityName: " -- ", ratings: COURSE_RATINGS })).toEqual({
+      error: "Name what you are reviewing",
+    });
+    expect(parse({ subject: "course", entityName: "x".repeat(81), ratings: COURSE_RATINGS })).toEqual({
+      error: "The name must be at most 80 characters",
+    });
+  });
+
+  it("needs a whole rating from 1 to 5 for every dimension", () => {
+    for (const workload of [0, 6, 2.5, "high", undefined]) {
+      expect(
+        parse({ subject: "course", entityName: "DS", ratings: { ...COURSE_RATINGS, workload } })
+      ).toEqual({ error: "Rate workload from 1 to 5" });
+    }
+  });
+
+  it("keeps only the subject's dimensions", () => {
+    const parsed = parse({
+      subject: "mess",
+      entityName: "Block C",
+      ratings: { taste: 1, hygiene: 2, variety: 3, value: 4, teaching: 5 },
+    });
+
+    expect("review" in parsed && parsed.review.ratings.map((rating) => rating.dimension)).toEqual([
+      "taste",
+      "hygiene",
+      "variety",
+      "value",
+    ]);
+  });
+});
+
+describe("semesterOf", () => {
+  it("splits the year at July", () => {
+    expect(semesterOf(new Date(2025, 0, 1))).toBe("2025-1");
+    expect(semesterOf(new Date(2025, 5, 30))).toBe("2025-1");
+    expect(semesterOf(new Date(2025, 6, 1))).toBe("2025-2");
+    expect(semesterOf(new Date(2025, 11, 31))).toBe("2025-2");
+  });
+});
+
+describe("summarizeReviews", () => {
+  it("averages overall and per dimension", () => {
+    const summary = summarizeReviews([
+      { review: review(3.5, [5, 4, 2, 3]), createdAt: "2025-03-01T00:00:00.000Z" },
+      { review: review(2, [1, 2, 2, 3]), createdAt: "2025-02-01T00:00:00.000Z" },
+    ]);
+
+    expect(summary).toMatchObject({
+      subject: "course",
+      entity: "data-structures-cse-201",
+      count: 2,
+      overall: 2.75,
+    });
+    expect(summary.dimensions).toEqual([
+      { dimension: "content", average: 3, distribution: [1, 0, 0, 0, 1] },
+      { dimension: "teaching", average: 3, distribution: [0, 1, 0, 1, 0] },
+      { dimension: "workload", average: 2, distribution: [0, 2, 0, 0, 0] },
+      { dimension: "grading", average: 3, distribution: [0, 0, 2, 0, 0] },
+    ]);
+  });
+
+  it("buckets each review's overall to the nearest star", () => {
+    const summary = summarizeReviews(
+      [1, 1.25, 2.5, 3.75, 4.25, 5].map((overall) => ({
+        review: review(overall),
+        createdAt: "2025-03-01T00:00:00.000Z",
+      }))
+    );
+
+    expect(summary.distribution).toEqual([2, 0, 1, 2, 1]);
+  });
+
+  it("splits the overall by semester, oldest first", () => {
+    const summary = summarizeReviews([
+      { review: review(5), createdAt: "2025-08-10T00:00:00.000Z" },
+      { review: review(4), createdAt: "2025-02-10T00:00:00.000Z" },
+      { review: review(2), createdAt: "2025-01-10T00:00:00.000Z" },
+      { review: review(1), createdAt: "2024-11-10T00:00:00.000Z" },
+    ]);
+
+    expect(summary.semesters).toEqual([
+      { semester: "2024-2", count: 1, overall: 1 },
+      { semester: "2025-1", count: 2, overall: 3 },
+      { semester: "2025-2", count: 1, overall: 5 },
+    ]);
+  });
+
+  it("takes the name as the newest review wrote it", () => {
+    const older = { ...review(4), entityName: "data structures" };
+
+    const summary = summarizeReviews([
+      { review: review(4), createdAt: "2025-03-01T00:00:00.000Z" },
+      { review: older, createdAt: "2025-02-01T00:00:00.000Z" },
+    ]);
+
+    expect(summary.entityName).toBe("Data Structures (CSE-201)");
+  });
+});
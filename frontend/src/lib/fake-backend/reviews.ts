@@ -0,0 +1,115 @@
+/**
+ * Review parsing and aggregates for the fake backend, the same rules as
+ * backend/src/utils/reviews.js.
+ */
+
+import type { Review, ReviewSummary } from "../api-schemas";
+import {
+  MAX_REVIEW_NAME_LENGTH,
+  REVIEW_SUBJECTS,
+  REVIEW_SUBJECT_INFO,
+  isReviewSubject,
+  slugifyEntity,
+} from "../reviews";
+
+export function parseReview(raw: unknown): { review: Review } | { error: string } {
+  let input: { subject?: unknown; entityName?: unknown; ratings?: unknown } | null;
+  try {
+    input = typeof raw === "string" ? JSON.parse(raw) : null;
+  } catch {
+    return { error: "review must be a JSON object" };
+  }
+  if (!input || typeof input !== "object") {
+    return { error: "review must be a JSON object" };
+  }
+
+  const { subject } = input;
+  if (!isReviewSubject(subject)) {
+    return { error: `subject must be one of ${REVIEW_SUBJECTS.join(", ")}` };
+  }
+
+  const entityName = String(input.entityName ?? "").trim().replace(/\s+/g, " ");
+  const entity = slugifyEntity(entityName);
+  if (!entity) return { error: "Name what you are reviewing" };
+  if (entityName.length > MAX_REVIEW_NAME_LENGTH) {
+    return { error: `The name must be at most ${MAX_REVIEW_NAME_LENGTH} characters` };
+  }
+
+  const scores = (input.ratings ?? {}) as Record<string, unknown>;
+  const ratings: Review["ratings"] = [];
+  for (const { id } of REVIEW_SUBJECT_INFO[subject].dimensions) {
+    const score = Number(scores[id]);
+    if (!Number.isInteger(score) || score < 1 || score > 5) {
+      return { error: `Rate ${id} from 1 to 5` };
+    }
+    ratings.push({ dimension: id, score });
+  }
+
+  const overall = ratings.reduce((sum, rating) => sum + rating.score, 0) / ratings.length;
+  return { review: { subject, entity, entityName, ratings, overall } };
+}
+
+/** Semesters run January–June ("2025-1") and July–December ("2025-2") */
+export function semesterOf(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() < 6 ? 1 : 2}`;
+}
+
+const starOf = (score: number) => Math.min(5, Math.max(1, Math.round(score)));
+
+const average = (sum: number, count: number) => (count ? sum / count : 0);
+
+/** Aggregates of one entity from its review posts, newest first */
+export function summarizeReviews(
+  posts: Array<{ review: Review; createdAt: string }>
+): ReviewSummary {
+  const [latest] = posts;
+  const dimensions = new Map(
+    REVIEW_SUBJECT_INFO[latest.review.subject].dimensions.map(({ id }) => [
+      id,
+      { sum: 0, count: 0, distribution: [0, 0, 0, 0, 0] },
+    ])
+  );
+  const distribution = [0, 0, 0, 0, 0];
+  const semesters = new Map<string, { sum: number; count: number }>();
+  let total = 0;
+
+  posts.forEach(({ review, createdAt }) => {
+    total += review.overall;
+    distribution[starOf(review.overall) - 1]++;
+
+    review.ratings.forEach(({ dimension, score }) => {
+      const stats = dimensions.get(dimension);
+      if (!stats) return;
+      stats.sum += score;
+      stats.count++;
+      stats.distribution[score - 1]++;
+    });
+
+    const semester = semesterOf(new Date(createdAt));
+    const stats = semesters.get(semester) ?? { sum: 0, count: 0 };
+    stats.sum += review.overall;
+    stats.count++;
+    semesters.set(semester, stats);
+  });
+
+  return {
+    subject: latest.review.subject,
+    entity: latest.review.entity,
+    entityName: latest.review.entityName,
+    count: posts.length,
+    overall: average(total, posts.length),
+    distribution,
+    dimensions: [...dimensions].map(([dimension, stats]) => ({
+      dimension,
+      average: average(stats.sum, stats.count),
+      distribution: stats.distribution,
+    })),
+    semesters: [...semesters]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([semester, stats]) => ({
+        semester,
+        count: stats.count,
+        overall: average(stats.sum, stats.count),
+      })),
+  };
+}
@@ -0,0 +1,1599 @@
+/**
+ * Route handlers for the fake backend. Each mirrors the status codes and
+ * response bodies of its Express controller, and also covers the routes
+ * lib/api.ts calls that the real server does not implement yet
+ * (`/community/:id/posts`, `/user/:id/posts`).
+ */
+
+import type { GlobalPost, ImageWarning, Poll, PostComment, Review, User } from "../api-schemas";
+import { isPostCategory } from "../categories";
+import { MAX_CONTENT_WARNING_LENGTH } from "../contentWarnings";
+import { DEFAULT_TOP_PERIOD, isFeedSort, isTopPeriod } from "../feedSort";
+import { extractHashtags, normalizeTag } from "../hashtags";
+import { isReviewSubject, slugifyEntity } from "../reviews";
+import {
+  TOP_PERIOD_MS,
+  decodeScoreCursor,
+  encodeScoreCursor,
+  engagementOf,
+  hotScoreOf,
+} from "./ranking";
+import { parseReview, summarizeReviews } from "./reviews";
+import {
+  FAKE_OTP,
+  createId,
+  createRandomName,
+  createShareId,
+  createUserId,
+  editableUntil,
+  type FakeCommunityPost,
+  type FakeGlobalPost,
+  type FakePoll,
+  type FakeSavedCollection,
+  type FakeSavedPost,
+  type FakeScheduledPost,
+  type FakeStore,
+} from "./store";
+import {
+  REFRESH_TOKEN_TTL_MS,
+  createFakeToken,
+  createRefreshToken,
+  type FakeTokenPayload,
+} from "./token";
+
+export interface FakeRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  /** JSON body, or the text fields of a multipart body */
+  body: Record<string, unknown>;
+  /** Files sent in the `images` field of a multipart body */
+  files: File[];
+  auth: FakeTokenPayload | null;
+}
+
+export interface FakeResponse {
+  status: number;
+  body: unknown;
+}
+
+type Handler = (store: FakeStore, request: FakeRequest) => FakeResponse;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  /** Whether the real route sits behind authmiddleware */
+  auth: boolean;
+  handler: Handler;
+}
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 50;
+const MAX_IMAGES = 4;
+const MAX_POST_LENGTH = 2000;
+const MAX_COMMENT_LENGTH = 1000;
+const MAX_SEARCH_LENGTH = 100;
+const TRENDING_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_TRENDING_LIMIT = 25;
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+const MAX_POLL_OPTION_LENGTH = 100;
+const MAX_REVIEW_ENTITIES = 50;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_SCHEDULE_DAYS = 30;
+const MAX_RANDOM_DELAY_HOURS = 72;
+const POLL_CLOSES_EARLY = "The poll must close after the post is published";
+const MAX_COLLECTIONS = 20;
+const MAX_COLLECTION_NAME_LENGTH = 40;
+// `collection` query value for saved posts in no collection
+const UNFILED = "none";
+
+const json = (status: number, body: unknown): FakeResponse => ({ status, body });
+
+function compile(path: string): Pick<Route, "pattern" | "keys"> {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  return { pattern: new RegExp(`^${source}$`), keys };
+}
+
+function route(method: string, path: string, auth: boolean, handler: Handler): Route {
+  return { method, auth, handler, ...compile(path) };
+}
+
+const text = (value: unknown): string => (typeof value === "string" ? value : "");
+
+// Newest first, _id breaks ties (same order as the real feed)
+type Sortable = Pick<GlobalPost, "_id" | "createdAt">;
+
+function newestFirst(a: Sortable, b: Sortable): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  return a._id < b._id ? 1 : -1;
+}
+
+function parseLimit(value: string | null): number {
+  const parsed = parseInt(value ?? "", 10);
+  if (Number.isNaN(parsed) || parsed < 1) return DEFAULT_PAGE_LIMIT;
+  return Math.min(parsed, MAX_PAGE_LIMIT);
+}
+
+function parsePage(value: string | null): number {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) || parsed < 1 ? 1 : parsed;
+}
+
+// Same encoding as backend/src/utils/pagination.js
+function encodeCursor(post: Sortable): string {
+  return btoa(`${post.createdAt}_${post._id}`)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): { createdAt: string; _id: string } | null {
+  try {
+    const [createdAt, id] = atob(cursor.replace(/-/g, "+").replace(/_/g, "/")).split("_");
+    if (Number.isNaN(new Date(createdAt).getTime()) || !/^[0-9a-f]{24}$/.test(id ?? "")) {
+      return null;
+    }
+    return { createdAt: new Date(createdAt).toISOString(), _id: id };
+  } catch {
+    return null;
+  }
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): T[] {
+  const page = parsePage(query.get("page"));
+  const limit = parseLimit(query.get("limit"));
+  return items.slice((page - 1) * limit, page * limit);
+}
+
+// Same as tooLongError in backend/src/utils/contentLimits.js
+function tooLong(field: string, value: string, max: number): FakeResponse | null {
+  if (value.length <= max) return null;
+  const error = `${field} must be at most ${max} characters`;
+  return json(400, { message: error, code: "VALIDATION_FAILED", errors: { [field]: error } });
+}
+
+function imageUrls(files: File[]): string[] {
+  return files.map((file) =>
+    typeof URL.createObjectURL === "function"
+      ? URL.createObjectURL(file)
+      : `/fake-uploads/${encodeURIComponent(file.name)}`
+  );
+}
+
+function newPost(request: FakeRequest): GlobalPost | FakeResponse {
+  // The real upload middleware rejects the request before the controller runs
+  if (request.files.length > MAX_IMAGES) {
+    return json(400, {
+      message: "A post can have at most 4 images",
+      code: "VALIDATION_FAILED",
+      errors: { images: "A post can have at most 4 images" },
+    });
+  }
+
+  const user_id = text(request.body.user_id);
+  const randomName = text(request.body.randomName);
+  const content = text(request.body.content);
+
+  if (!user_id || !randomName || !content) {
+    const errors: Record<string, string> = {};
+    if (!user_id) errors.user_id = "user_id is required";
+    if (!randomName) errors.randomName = "randomName is required";
+    if (!content) errors.content = "content is required";
+    return json(400, {
+      message: "user_id, randomName and content are required.",
+      code: "VALIDATION_FAILED",
+      errors,
+    });
+  }
+  const contentTooLong = tooLong("content", content, MAX_POST_LENGTH);
+  if (contentTooLong) return contentTooLong;
+
+  const category = request.body.category;
+  if (!isPostCategory(category)) {
+    const error = category ? "Unknown category" : "category is required";
+    return json(400, { message: error, code: "VALIDATION_FAILED", errors: { category: error } });
+  }
+
+  // Same checks as validateNewPost
+  let review: Review | null = null;
+  if (request.body.review) {
+    const parsed = parseReview(request.body.review);
+    let error = "error" in parsed ? parsed.error : null;
+    if (!error && category !== "reviews") error = "Reviews belong in the reviews category";
+    if (!error && request.body.poll) error = "A post cannot be both a poll and a review";
+    if (error || "error" in parsed) {
+      return json(400, { message: error, code: "VALIDATION_FAILED", errors: { review: error } });
+    }
+    review = parsed.review;
+  }
+
+  const warnings = parseWarnings(request.body);
+  if ("status" in warnings) return warnings;
+  const images = imageUrls(request.files);
+
+  const now = new Date();
+  return {
+    _id: createId(now),
+    user_id,
+    randomName,
+    content,
+    category,
+    tags: extractHashtags(content),
+    images,
+    likes: 0,
+    likedBy: [],
+    commentsCount: 0,
+    shareId: null,
+    contentWarning: warnings.contentWarning ?? null,
+    imageWarnings: imageWarningsFor(images, warnings.imageWarningLabels ?? []),
+    editedAt: null,
+    editableUntil: editableUntil(now),
+    poll: null,
+    review,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+// Same rules as backend/src/utils/contentWarnings.js
+function parseWarningLabel(value: unknown): { label: string | null } | { error: string } {
+  if (value === undefined || value === null) return { label: null };
+  if (typeof value !== "string") return { error: "A content warning must be text" };
+  const label = value.replace(/\s+/g, " ").trim();
+  if (!label) return { label: null };
+  if (label.length > MAX_CONTENT_WARNING_LENGTH) {
+    return { error: `A content warning can be at most ${MAX_CONTENT_WARNING_LENGTH} characters` };
+  }
+  return { label };
+}
+
+// Either field left out comes back undefined
+function parseWarnings(
+  body: FakeRequest["body"]
+): { contentWarning?: string | null; imageWarningLabels?: (string | null)[] } | FakeResponse {
+  let contentWarning: string | null | undefined;
+  if (body.contentWarning !== undefined) {
+    const parsed = parseWarningLabel(body.contentWarning);
+    if ("error" in parsed) {
+      return json(400, {
+        message: parsed.error,
+        code: "VALIDATION_FAILED",
+        errors: { contentWarning: parsed.error },
+      });
+    }
+    contentWarning = parsed.label;
+  }
+
+  let imageWarningLabels: (string | null)[] | undefined;
+  if (body.imageWarnings !== undefined) {
+    let requested: unknown;
+    try {
+      requested = JSON.parse(text(body.imageWarnings));
+    } catch {
+      requested = null;
+    }
+    const parsed = Array.isArray(requested) ? requested.map(parseWarningLabel) : null;
+    const error = parsed
+      ? parsed.find((item) => "error" in item)
+      : { error: "imageWarnings must be a JSON array" };
+    if (error && "error" in error) {
+      return json(400, {
+        message: error.error,
+        code: "VALIDATION_FAILED",
+        errors: { imageWarnings: error.error },
+      });
+    }
+    imageWarningLabels = parsed!.map((item) => ("label" in item ? item.label : null));
+  }
+
+  return { contentWarning, imageWarningLabels };
+}
+
+// Stored by URL, only for the images that have a label
+const imageWarningsFor = (images: string[], labels: (string | null)[]): ImageWarning[] =>
+  images.flatMap((url, index) => (labels[index] ? [{ url, label: labels[index] }] : []));
+
+// Labels given are for the new image list; without them the images that stayed keep theirs
+const updatedImageWarnings = (
+  current: ImageWarning[],
+  images: string[],
+  labels: (string | null)[] | undefined
+): ImageWarning[] =>
+  labels === undefined
+    ? current.filter((warning) => images.includes(warning.url))
+    : imageWarningsFor(images, labels);
+
+// Same rules as backend/src/utils/polls.js
+function parsePoll(raw: unknown, now: Date = new Date()): { poll: FakePoll } | { error: string } {
+  let input: { options?: unknown; closesAt?: unknown } | null;
+  try {
+    input = typeof raw === "string" ? JSON.parse(raw) : null;
+  } catch {
+    return { error: "poll must be a JSON object" };
+  }
+  if (!input || !Array.isArray(input.options)) {
+    return { error: "poll must have a list of options" };
+  }
+
+  const options = input.options.map((option) => String(option ?? "").trim());
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return { error: `A poll needs ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options` };
+  }
+  if (options.some((option) => !option)) {
+    return { error: "Poll options cannot be empty" };
+  }
+  if (options.some((option) => option.length > MAX_POLL_OPTION_LENGTH)) {
+    return { error: `Poll options must be at most ${MAX_POLL_OPTION_LENGTH} characters` };
+  }
+  if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+    return { error: "Poll options must all be different" };
+  }
+
+  let closesAt: string | null = null;
+  if (input.closesAt) {
+    const date = new Date(String(input.closesAt));
+    if (Number.isNaN(date.getTime())) return { error: "closesAt must be a date" };
+    if (date <= now) return { error: "closesAt must be in the future" };
+    closesAt = date.toISOString();
+  }
+
+  return {
+    poll: {
+      options: options.map((text) => ({ _id: createId(now), text, votes: 0 })),
+      closesAt,
+      voters: [],
+    },
+  };
+}
+
+// Same rules as backend/src/utils/schedule.js
+function parseSchedule(
+  raw: unknown,
+  now: Date = new Date()
+): { publishAt: string; randomDelay: boolean } | { error: string } {
+  let input: { publishAt?: unknown; randomDelayHours?: unknown } | null;
+  try {
+    input = typeof raw === "string" ? JSON.parse(raw) : null;
+  } catch {
+    return { error: "schedule must be a JSON object" };
+  }
+  if (!input || typeof input !== "object") {
+    return { error: "schedule must be a JSON object" };
+  }
+
+  if (input.randomDelayHours !== undefined) {
+    const [min, max] = Array.isArray(input.randomDelayHours)
+      ? input.randomDelayHours.map(Number)
+      : [];
+    if (
+      !Number.isFinite(min) ||
+      !Number.isFinite(max) ||
+      min < 0 ||
+      max <= min ||
+      max > MAX_RANDOM_DELAY_HOURS
+    ) {
+      return {
+        error: `randomDelayHours must be [min, max] with 0 <= min < max <= ${MAX_RANDOM_DELAY_HOURS}`,
+      };
+    }
+    const delayMs = (min + Math.random() * (max - min)) * HOUR_MS;
+    return { publishAt: new Date(now.getTime() + delayMs).toISOString(), randomDelay: true };
+  }
+
+  const publishAt = new Date(String(input.publishAt ?? ""));
+  if (!input.publishAt || Number.isNaN(publishAt.getTime())) {
+    return { error: "publishAt must be a date" };
+  }
+  if (publishAt <= now) return { error: "publishAt must be in the future" };
+  if (publishAt.getTime() - now.getTime() > MAX_SCHEDULE_DAYS * 24 * HOUR_MS) {
+    return { error: `Posts can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead` };
+  }
+  return { publishAt: publishAt.toISOString(), randomDelay: false };
+}
+
+const pollClosesTooEarly = (poll: { closesAt: string | null } | null, publishAt: string) =>
+  Boolean(poll?.closesAt) && Date.parse(poll!.closesAt!) <= Date.parse(publishAt);
+
+const isPollClosed = (poll: FakePoll, now: number = Date.now()) =>
+  poll.closesAt !== null && Date.parse(poll.closesAt) <= now;
+
+// Like toClientPost in the controller: voters stay here, the client only
+// learns whether it voted
+const toClientPost = (post: FakeGlobalPost, userId: string | undefined) => ({
+  ...post,
+  poll: post.poll && {
+    options: post.poll.options,
+    closesAt: post.poll.closesAt,
+    hasVoted: post.poll.voters.includes(userId ?? ""),
+  } satisfies Poll,
+});
+
+// Lists leave out comments and history, like `.select("-comments -revisions")`;
+// JSON drops the undefined keys
+const toListItem = (post: FakeGlobalPost, userId: string | undefined) => ({
+  ...toClientPost(post, userId),
+  comments: undefined,
+  revisions: undefined,
+});
+
+const isLive = (post: FakeGlobalPost) => post.deletedAt === null;
+
+// Placeholders left by deleted comments are not counted
+const countComments = (post: FakeGlobalPost) =>
+  post.comments.filter((comment) => !comment.deletedAt).length;
+
+const hasReplies = (post: FakeGlobalPost, comment: PostComment) =>
+  post.comments.some((reply) => reply.parentId === comment._id && !reply.deletedAt);
+
+function parseCollectionName(raw: unknown): { name: string } | { error: string } {
+  const name = text(raw).trim();
+  if (!name) return { error: "Give the collection a name" };
+  if (name.length > MAX_COLLECTION_NAME_LENGTH) {
+    return { error: `Collection names must be at most ${MAX_COLLECTION_NAME_LENGTH} characters` };
+  }
+  return { name };
+}
+
+const collectionNotFound = () =>
+  json(404, { message: "Collection not found", code: "COLLECTION_NOT_FOUND" });
+
+const collectionExists = () =>
+  json(409, { message: "You already have a collection with that name", code: "COLLECTION_EXISTS" });
+
+const hasCollectionNamed = (store: FakeStore, userId: string, name: string, exceptId?: string) =>
+  store.savedCollections.some(
+    (collection) =>
+      collection.user_id === userId &&
+      collection._id !== exceptId &&
+      collection.name.toLowerCase() === name.toLowerCase()
+  );
+
+const withCount = (store: FakeStore, collection: FakeSavedCollection) => ({
+  ...collection,
+  count: store.savedPosts.filter((saved) => saved.collection_id === collection._id).length,
+});
+
+function issueTokens(store: FakeStore, user: User): { token: string; refreshToken: string } {
+  const refreshToken = createRefreshToken();
+  store.refreshTokens.set(refreshToken, {
+    user_id: user.user_id,
+    expiresAt: Date.now() + REFRESH_TOKEN_TTL_MS,
+  });
+  return { token: createFakeToken(user), refreshToken };
+}
+
+function toggleLike(
+  post: Pick<GlobalPost, "likes" | "likedBy" | "updatedAt">,
+  userId: string
+): FakeResponse {
+  const hasLiked = post.likedBy.includes(userId);
+
+  if (hasLiked) {
+    post.likes--;
+    post.likedBy = post.likedBy.filter((uid) => uid !== userId);
+  } else {
+    post.likes++;
+    post.likedBy.push(userId);
+  }
+  post.updatedAt = new Date().toISOString();
+
+  return json(200, {
+    message: hasLiked ? "Unliked" : "Liked",
+    likes: post.likes,
+    updatedAt: post.updatedAt,
+  });
+}
+
+function updateMembership(
+  store: FakeStore,
+  request: FakeRequest,
+  join: boolean
+): FakeResponse {
+  const user = store.users.get(text(request.body.user_id));
+  if (!user) return json(400, { message: "User not found" });
+
+  const communityId = text(request.body.community_id);
+  user.joinedCommunities = join
+    ? [...user.joinedCommunities, communityId]
+    : user.joinedCommunities.filter((id) => id !== communityId);
+
+  const community = store.communities.find((c) => c.community_id === communityId);
+  if (community) community.memberCount += join ? 1 : -1;
+
+  return json(200, {
+    message: join ? "Joined Community Successfully" : "Left Community Successfully",
+  });
+}
+
+export const routes: Route[] = [
+  // Auth
+  route("POST", "/auth/signin", false, (store, { body }) => {
+    const email = text(body.email);
+    if (!email) {
+      return json(400, {
+        message: "Email is required",
+        code: "VALIDATION_FAILED",
+        errors: { email: "Email is required" },
+      });
+    }
+    if (!email.endsWith("@cuchd.in")) {
+      return json(400, {
+        message: "Please use your CU college emailID",
+        code: "VALIDATION_FAILED",
+        errors: { email: "Use your @cuchd.in email" },
+      });
+    }
+
+    store.otps.set(email, FAKE_OTP);
+    console.info(`[fake-backend] OTP for ${email}: ${FAKE_OTP}`);
+    return json(200, { message: "OTP is sent to ", email });
+  }),
+
+  route("POST", "/auth/verify-otp", false, (store, { body }) => {
+    const email = text(body.email);
+    const otp = store.otps.get(email);
+    if (!otp) return json(400, { message: "OTP expired", code: "OTP_EXPIRED" });
+    if (otp !== text(body.enteredOtp)) {
+      return json(400, {
+        message: "Invalid OTP",
+        code: "OTP_INVALID",
+        errors: { enteredOtp: "Invalid OTP" },
+      });
+    }
+
+    let user = [...store.users.values()].find((u) => u.email === email);
+    if (!user) {
+      user = {
+        email,
+        user_id: createUserId(),
+        user_name: createRandomName(),
+        isverified: true,
+        joinedCommunities: [],
+      };
+      store.users.set(user.user_id, user);
+    }
+    user.isverified = true;
+    store.otps.delete(email);
+
+    return json(200, { message: "OTP verified", user, ...issueTokens(store, user) });
+  }),
+
+  route("POST", "/auth/refresh", false, (store, { body }) => {
+    const refreshToken = text(body.refreshToken);
+    if (!refreshToken) return json(400, { message: "Refresh token is required" });
+
+    // Single use, as on the real server
+    const entry = store.refreshTokens.get(refreshToken);
+    store.refreshTokens.delete(refreshToken);
+
+    const user = entry && entry.expiresAt > Date.now() && store.users.get(entry.user_id);
+    if (!user) {
+      return json(401, { message: "Invalid refresh token", code: "REFRESH_TOKEN_INVALID" });
+    }
+
+    return json(200, { message: "Token refreshed", ...issueTokens(store, user) });
+  }),
+
+  route("POST", "/auth/logout", false, (store, { body }) => {
+    store.refreshTokens.delete(text(body.refreshToken));
+    return json(200, { message: "Logged out" });
+  }),
+
+  // Global feed
+  route("GET", "/globalpost/getglobalposts", true, (store, { query, auth }) => {
+    const limit = parseLimit(query.get("limit"));
+    let posts = store.globalPosts.filter(isLive).sort(newestFirst);
+
+    const sort = query.get("sort") || "new";
+    if (!isFeedSort(sort)) {
+      return json(400, {
+        message: "Unknown sort",
+        code: "VALIDATION_FAILED",
+        errors: { sort: "Unknown sort" },
+      });
+    }
+    // Only "top" looks back over a period
+    const period = query.get("period") || DEFAULT_TOP_PERIOD;
+    if (sort === "top" && !isTopPeriod(period)) {
+      return json(400, {
+        message: "Unknown period",
+        code: "VALIDATION_FAILED",
+        errors: { period: "Unknown period" },
+      });
+    }
+
+    const category = query.get("category");
+    if (category) {
+      if (!isPostCategory(category)) {
+        return json(400, {
+          message: "Unknown category",
+          code: "VALIDATION_FAILED",
+          errors: { category: "Unknown category" },
+        });
+      }
+      posts = posts.filter((post) => post.category === category);
+    }
+
+    const rawTag = query.get("tag");
+    if (rawTag) {
+      const tag = normalizeTag(rawTag);
+      if (!tag) {
+        return json(400, {
+          message: "Invalid tag",
+          code: "VALIDATION_FAILED",
+          errors: { tag: "Invalid tag" },
+        });
+      }
+      posts = posts.filter((post) => post.tags.includes(tag));
+    }
+
+    // Reviews of one entity; subject alone lists every review of that kind
+    const subject = query.get("subject");
+    const entity = query.get("entity");
+    if (subject || entity) {
+      if (!isReviewSubject(subject)) {
+        return json(400, {
+          message: "Unknown review subject",
+          code: "VALIDATION_FAILED",
+          errors: { subject: "Unknown review subject" },
+        });
+      }
+      posts = posts.filter(
+        (post) => post.review?.subject === subject && (!entity || post.review.entity === entity)
+      );
+    }
+
+    // Content containing `q`, ignoring case
+    const q = query.get("q");
+    if (q) {
+      const qTooLong = tooLong("q", q, MAX_SEARCH_LENGTH);
+      if (qTooLong) return qTooLong;
+      const needle = q.toLowerCase();
+      posts = posts.filter((post) => post.content.toLowerCase().includes(needle));
+    }
+
+    const cursor = query.get("cursor");
+    if (sort !== "new") {
+      const scoreOf = sort === "hot" ? hotScoreOf : engagementOf;
+      const decoded = cursor ? decodeScoreCursor(cursor) : null;
+      if (cursor && !decoded) {
+        return json(400, {
+          message: "Invalid cursor",
+          code: "INVALID_CURSOR",
+          errors: { cursor: "Invalid cursor" },
+        });
+      }
+
+      // The top period starts when the first page was asked for
+      const periodMs = sort === "top" && isTopPeriod(period) ? TOP_PERIOD_MS[period] : null;
+      const since =
+        periodMs === null ? null : decoded?.since ?? new Date(Date.now() - periodMs).toISOString();
+
+      // Highest score first, _id breaks ties (same order as the real feed)
+      const ranked = posts
+        .filter((post) => since === null || post.createdAt >= since)
+        .map((post) => ({ post, score: scoreOf(post) }))
+        .filter(
+          ({ post, score }) =>
+            !decoded || score < decoded.score || (score === decoded.score && post._id < decoded._id)
+        )
+        .sort((a, b) => b.score - a.score || (a.post._id < b.post._id ? 1 : -1));
+
+      const hasMore = ranked.length > limit;
+      const page = ranked.slice(0, limit);
+      const last = page[page.length - 1];
+
+      return json(200, {
+        posts: page.map(({ post }) => toListItem(post, auth?.user_id)),
+        nextCursor: hasMore ? encodeScoreCursor(last.score, last.post, since) : null,
+        hasMore,
+      });
+    }
+
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      if (!decoded) {
+        return json(400, {
+          message: "Invalid cursor",
+          code: "INVALID_CURSOR",
+          errors: { cursor: "Invalid cursor" },
+        });
+      }
+      posts = posts.filter(
+        (post) =>
+          post.createdAt < decoded.createdAt ||
+          (post.createdAt === decoded.createdAt && post._id < decoded._id)
+      );
+    }
+
+    const hasMore = posts.length > limit;
+    const page = posts.slice(0, limit);
+    const nextCursor = hasMore ? encodeCursor(page[page.length - 1]) : null;
+
+    return json(200, {
+      posts: page.map((post) => toListItem(post, auth?.user_id)),
+      nextCursor,
+      hasMore,
+    });
+  }),
+
+  route("POST", "/globalpost/createglobalposts", true, (store, request) => {
+    const post = newPost(request);
+    if ("status" in post) return post;
+
+    let poll: FakePoll | null = null;
+    if (request.body.poll) {
+      const parsed = parsePoll(request.body.poll);
+      if ("error" in parsed) {
+        return json(400, {
+          message: parsed.error,
+          code: "VALIDATION_FAILED",
+          errors: { poll: parsed.error },
+        });
+      }
+      poll = parsed.poll;
+    }
+
+    const stored: FakeGlobalPost = { ...post, poll, comments: [], revisions: [], deletedAt: null };
+    store.globalPosts.push(stored);
+    return json(201, {
+      message: "Global post created successfully",
+      post: toClientPost(stored, post.user_id),
+    });
+  }),
+
+  // Same ranking as getTrendingTags: mentions weighted from 0 at the start of
+  // the window to 1 now, per hour of window
+  route("GET", "/globalpost/trending", true, (store, { query }) => {
+    const limit = Math.min(parseInt(query.get("limit") ?? "", 10) || 10, MAX_TRENDING_LIMIT);
+    const since = Date.now() - TRENDING_WINDOW_MS;
+    const windowHours = TRENDING_WINDOW_MS / (60 * 60 * 1000);
+
+    const stats = new Map<string, { count: number; weight: number; lastPostAt: string }>();
+    store.globalPosts
+      .filter((post) => isLive(post) && Date.parse(post.createdAt) >= since)
+      .forEach((post) => {
+        const weight = (Date.parse(post.createdAt) - since) / TRENDING_WINDOW_MS;
+        post.tags.forEach((tag) => {
+          const entry = stats.get(tag) ?? { count: 0, weight: 0, lastPostAt: post.createdAt };
+          entry.count++;
+          entry.weight += weight;
+          if (post.createdAt > entry.lastPostAt) entry.lastPostAt = post.createdAt;
+          stats.set(tag, entry);
+        });
+      });
+
+    const tags = [...stats.entries()]
+      .map(([tag, { count, weight, lastPostAt }]) => ({
+        tag,
+        count,
+        velocity: weight / windowHours,
+        lastPostAt,
+      }))
+      .sort(
+        (a, b) =>
+          b.velocity - a.velocity || b.count - a.count || a.tag.localeCompare(b.tag)
+      )
+      .slice(0, limit);
+
+    return json(200, { tags, windowHours });
+  }),
+
+  // Scheduled posts are private to their author until ./scheduler publishes them
+  route("POST", "/globalpost/scheduled", true, (store, request) => {
+    const post = newPost(request);
+    if ("status" in post) return post;
+
+    const { body } = request;
+    if (!body.schedule) {
+      return json(400, {
+        message: "schedule is required",
+        code: "VALIDATION_FAILED",
+        errors: { schedule: "schedule is required" },
+      });
+    }
+    const schedule = parseSchedule(body.schedule);
+    if ("error" in schedule) {
+      return json(400, {
+        message: schedule.error,
+        code: "VALIDATION_FAILED",
+        errors: { schedule: schedule.error },
+      });
+    }
+
+    let poll: FakeScheduledPost["poll"] = null;
+    if (body.poll) {
+      const parsed = parsePoll(body.poll);
+      if ("error" in parsed) {
+        return json(400, {
+          message: parsed.error,
+          code: "VALIDATION_FAILED",
+          errors: { poll: parsed.error },
+        });
+      }
+      poll = {
+        options: parsed.poll.options.map((option) => option.text),
+        closesAt: parsed.poll.closesAt,
+      };
+    }
+    if (pollClosesTooEarly(poll, schedule.publishAt)) {
+      return json(400, {
+        message: POLL_CLOSES_EARLY,
+        code: "VALIDATION_FAILED",
+        errors: { poll: POLL_CLOSES_EARLY },
+      });
+    }
+
+    const scheduledPost: FakeScheduledPost = {
+      _id: post._id,
+      user_id: post.user_id,
+      randomName: post.randomName,
+      content: post.content,
+      // newPost has already rejected a missing category
+      category: post.category!,
+      poll,
+      review: post.review,
+      images: post.images,
+      contentWarning: post.contentWarning,
+      imageWarnings: post.imageWarnings,
+      publishAt: schedule.publishAt,
+      randomDelay: schedule.randomDelay,
+      createdAt: post.createdAt,
+      updatedAt: post.updatedAt,
+    };
+    store.scheduledPosts.push(scheduledPost);
+    return json(201, { message: "Post scheduled", scheduledPost });
+  }),
+
+  route("GET", "/globalpost/scheduled", true, (store, { auth }) => {
+    const scheduledPosts = store.scheduledPosts
+      .filter((scheduled) => scheduled.user_id === auth?.user_id)
+      .sort((a, b) =>
+        a.publishAt !== b.publishAt ? (a.publishAt < b.publishAt ? -1 : 1) : a._id < b._id ? -1 : 1
+      );
+    return json(200, { scheduledPosts });
+  }),
+
+  route("PATCH", "/globalpost/scheduled/:id", true, (store, { params, body, files, auth }) => {
+    const content = text(body.content);
+    if (!content.trim()) {
+      return json(400, {
+        message: "content is required",
+        code: "VALIDATION_FAILED",
+        errors: { content: "content is required" },
+      });
+    }
+    const contentTooLong = tooLong("content", content, MAX_POST_LENGTH);
+    if (contentTooLong) return contentTooLong;
+    if (body.category !== undefined && !isPostCategory(body.category)) {
+      return json(400, {
+        message: "Unknown category",
+        code: "VALIDATION_FAILED",
+        errors: { category: "Unknown category" },
+      });
+    }
+
+    // Only the author may edit; anything else looks like a missing post
+    const scheduledPost = store.scheduledPosts.find(
+      (scheduled) => scheduled._id === params.id && scheduled.user_id === auth?.user_id
+    );
+    if (!scheduledPost) {
+      return json(404, { message: "Scheduled post not found", code: "POST_NOT_FOUND" });
+    }
+    if (scheduledPost.review && body.category !== undefined && body.category !== "reviews") {
+      return json(400, {
+        message: "Reviews belong in the reviews category",
+        code: "VALIDATION_FAILED",
+        errors: { category: "Reviews belong in the reviews category" },
+      });
+    }
+
+    let { publishAt, randomDelay } = scheduledPost;
+    if (body.schedule) {
+      const schedule = parseSchedule(body.schedule);
+      if ("error" in schedule) {
+        return json(400, {
+          message: schedule.error,
+          code: "VALIDATION_FAILED",
+          errors: { schedule: schedule.error },
+        });
+      }
+      ({ publishAt, randomDelay } = schedule);
+    }
+    if (pollClosesTooEarly(scheduledPost.poll, publishAt)) {
+      return json(400, {
+        message: POLL_CLOSES_EARLY,
+        code: "VALIDATION_FAILED",
+        errors: { schedule: POLL_CLOSES_EARLY },
+      });
+    }
+
+    let keptImages = scheduledPost.images;
+    if (body.keepImages !== undefined) {
+      let requested: unknown;
+      try {
+        requested = JSON.parse(text(body.keepImages));
+      } catch {
+        requested = null;
+      }
+      if (!Array.isArray(requested)) {
+        return json(400, {
+          message: "keepImages must be a JSON array",
+          code: "VALIDATION_FAILED",
+          errors: { keepImages: "keepImages must be a JSON array" },
+        });
+      }
+      keptImages = scheduledPost.images.filter((url) => requested.includes(url));
+    }
+    if (keptImages.length + files.length > MAX_IMAGES) {
+      return json(400, {
+        message: "A post can have at most 4 images",
+        code: "VALIDATION_FAILED",
+        errors: { images: "A post can have at most 4 images" },
+      });
+    }
+
+    const warnings = parseWarnings(body);
+    if ("status" in warnings) return warnings;
+    const images = [...keptImages, ...imageUrls(files)];
+
+    Object.assign(scheduledPost, {
+      content,
+      category: isPostCategory(body.category) ? body.category : scheduledPost.category,
+      images,
+      contentWarning:
+        warnings.contentWarning === undefined ? scheduledPost.contentWarning : warnings.contentWarning,
+      imageWarnings: updatedImageWarnings(scheduledPost.imageWarnings, images, warnings.imageWarningLabels),
+      publishAt,
+      randomDelay,
+      updatedAt: new Date().toISOString(),
+    });
+    return json(200, { message: "Scheduled post updated", scheduledPost });
+  }),
+
+  route("DELETE", "/globalpost/scheduled/:id", true, (store, { params, auth }) => {
+    const before = store.scheduledPosts.length;
+    store.scheduledPosts = store.scheduledPosts.filter(
+      (scheduled) => !(scheduled._id === params.id && scheduled.user_id === auth?.user_id)
+    );
+    if (store.scheduledPosts.length === before) {
+      return json(404, { message: "Scheduled post not found", code: "POST_NOT_FOUND" });
+    }
+    return json(200, { message: "Scheduled post cancelled" });
+  }),
+
+  // Same grouping as getReviewEntities: most reviewed first
+  route("GET", "/globalpost/reviews", true, (store, { query }) => {
+    const subject = query.get("subject");
+    if (subject && !isReviewSubject(subject)) {
+      return json(400, {
+        message: "Unknown review subject",
+        code: "VALIDATION_FAILED",
+        errors: { subject: "Unknown review subject" },
+      });
+    }
+    const search = (query.get("q") ?? "").trim().toLowerCase();
+
+    const entities = new Map<
+      string,
+      { subject: Review["subject"]; entity: string; entityName: string; count: number; total: number; lastReviewAt: string }
+    >();
+    store.globalPosts
+      .filter(isLive)
+      .sort(newestFirst)
+      .forEach(({ review, createdAt }) => {
+        if (!review || (subject && review.subject !== subject)) return;
+        if (search && !review.entityName.toLowerCase().includes(search)) return;
+
+        const key = `${review.subject}:${review.entity}`;
+        // Newest first, so the name is as the latest reviewer wrote it
+        const entry = entities.get(key) ?? {
+          subject: review.subject,
+          entity: review.entity,
+          entityName: review.entityName,
+          count: 0,
+          total: 0,
+          lastReviewAt: createdAt,
+        };
+        entry.count++;
+        entry.total += review.overall;
+        entities.set(key, entry);
+      });
+
+    return json(200, {
+      entities: [...entities.values()]
+        .map(({ total, ...entry }) => ({ ...entry, overall: total / entry.count }))
+        .sort((a, b) => b.count - a.count || (a.lastReviewAt < b.lastReviewAt ? 1 : -1))
+        .slice(0, MAX_REVIEW_ENTITIES),
+    });
+  }),
+
+  route("GET", "/globalpost/reviews/:subject/:entity", true, (store, { params }) => {
+    if (!isReviewSubject(params.subject)) {
+      return json(400, {
+        message: "Unknown review subject",
+        code: "VALIDATION_FAILED",
+        errors: { subject: "Unknown review subject" },
+      });
+    }
+    const entity = slugifyEntity(params.entity);
+    const reviews = store.globalPosts
+      .filter(isLive)
+      .sort(newestFirst)
+      .flatMap(({ review, createdAt }) =>
+        review && review.subject === params.subject && review.entity === entity
+          ? [{ review, createdAt }]
+          : []
+      );
+    if (reviews.length === 0) {
+      return json(404, { message: "No reviews yet", code: "ENTITY_NOT_FOUND" });
+    }
+    return json(200, { summary: summarizeReviews(reviews) });
+  }),
+
+  // Public, like the backend: what anyone with the link may see
+  route("GET", "/globalpost/shared/:shareId", false, (store, { params }) => {
+    const post = store.globalPosts.find((p) => isLive(p) && p.shareId === params.shareId);
+    if (!post) {
+      return json(404, { message: "This link is not shared anymore", code: "SHARE_NOT_FOUND" });
+    }
+    const {
+      _id,
+      shareId,
+      content,
+      category,
+      tags,
+      images,
+      poll,
+      review,
+      contentWarning,
+      imageWarnings,
+      likes,
+      commentsCount,
+      editedAt,
+      createdAt,
+    } = toClientPost(post, undefined);
+    return json(200, {
+      post: {
+        _id,
+        shareId,
+        content,
+        category,
+        tags,
+        images,
+        poll,
+        review,
+        contentWarning,
+        imageWarnings,
+        likes,
+        commentsCount,
+        editedAt,
+        createdAt,
+      },
+    });
+  }),
+
+  route("POST", "/globalpost/:id/share", true, (store, { params, auth }) => {
+    // Only the author may share; anything else looks like a missing post
+    const post = store.globalPosts.find(
+      (p) => p._id === params.id && isLive(p) && p.user_id === auth?.user_id
+    );
+    if (!post) return json(404, { message: "Post not found", code: "POST_NOT_FOUND" });
+    post.shareId ??= createShareId();
+    return json(200, { shareId: post.shareId });
+  }),
+
+  route("DELETE", "/globalpost/:id/share", true, (store, { params, auth }) => {
+    const post = store.globalPosts.find(
+      (p) => p._id === params.id && isLive(p) && p.user_id === auth?.user_id
+    );
+    if (!post) return json(404, { message: "Post not found", code: "POST_NOT_FOUND" });
+    post.shareId = null;
+    return json(200, { message: "Share link turned off" });
+  }),
+
+  route("GET", "/globalpost/:id", true, (store, { params, auth }) => {
+    const post = store.globalPosts.find((p) => p._id === params.id);
+    if (!post) return json(404, { message: "Post not found", code: "POST_NOT_FOUND" });
+    if (post.deletedAt) {
+      return json(410, {
+        message: "This post was deleted",
+        code: "POST_DELETED",
+        deletedAt: post.deletedAt,
+      });
+    }
+    return json(200, { post: toClientPost(post, auth?.user_id) });
+  }),
+
+  route("PATCH", "/globalpost/:id", true, (store, { params, body, files, auth }) => {
+    const content = text(body.content);
+    if (!content.trim()) {
+      return json(400, {
+        message: "content is required",
+        code: "VALIDATION_FAILED",
+        errors: { content: "content is required" },
+      });
+    }
+    const contentTooLong = tooLong("content", content, MAX_POST_LENGTH);
+    if (contentTooLong) return contentTooLong;
+
+    // Only the author may edit; anything else looks like a missing post
+    const post = store.globalPosts.find(
+      (p) => p._id === params.id && isLive(p) && p.user_id === auth?.user_id
+    );
+    if (!post) return json(404, { message: "Post not found", code: "POST_NOT_FOUND" });
+    if (post.editableUntil && Date.now() > Date.parse(post.editableUntil)) {
+      return json(409, {
+        message: "This post can no longer be edited",
+        code: "EDIT_WINDOW_CLOSED",
+      });
+    }
+
+    let keptImages = post.images;
+    if (body.keepImages !== undefined) {
+      let requested: unknown;
+      try {
+        requested = JSON.parse(text(body.keepImages));
+      } catch {
+        requested = null;
+      }
+      if (!Array.isArray(requested)) {
+        return json(400, {
+          message: "keepImages must be a JSON array",
+          code: "VALIDATION_FAILED",
+          errors: { keepImages: "keepImages must be a JSON array" },
+        });
+      }
+      keptImages = post.images.filter((url) => requested.includes(url));
+    }
+
+    if (keptImages.length + files.length > MAX_IMAGES) {
+      return json(400, {
+        message: "A post can have at most 4 images",
+        code: "VALIDATION_FAILED",
+        errors: { images: "A post can have at most 4 images" },
+      });
+    }
+    const warnings = parseWarnings(body);
+    if ("status" in warnings) return warnings;
+    const images = [...keptImages, ...imageUrls(files)];
+    const contentWarning =
+      warnings.contentWarning === undefined ? post.contentWarning : warnings.contentWarning;
+    const imageWarnings = updatedImageWarnings(post.imageWarnings, images, warnings.imageWarningLabels);
+
+    const sameWarnings =
+      contentWarning === post.contentWarning &&
+      imageWarnings.length === post.imageWarnings.length &&
+      imageWarnings.every(
+        (warning, index) =>
+          warning.url === post.imageWarnings[index].url && warning.label === post.imageWarnings[index].label
+      );
+    const unchanged =
+      content === post.content &&
+      images.length === post.images.length &&
+      images.every((url, index) => url === post.images[index]) &&
+      sameWarnings;
+    if (unchanged) {
+      return json(200, { message: "Nothing to update", post: toClientPost(post, auth?.user_id) });
+    }
+
+    const now = new Date().toISOString();
+    post.revisions.push({
+      content: post.content,
+      images: post.images,
+      contentWarning: post.contentWarning,
+      imageWarnings: post.imageWarnings,
+      editedAt: now,
+    });
+    Object.assign(post, {
+      content,
+      tags: extractHashtags(content),
+      images,
+      contentWarning,
+      imageWarnings,
+      editedAt: now,
+      updatedAt: now,
+    });
+    return json(200, {
+      message: "Post updated successfully",
+      post: toClientPost(post, auth?.user_id),
+    });
+  }),
+
+  route("POST", "/globalpost/:id/vote", true, (store, { params, body, auth }) => {
+    const userId = auth?.user_id ?? "";
+    const optionId = text(body.optionId);
+    if (!optionId) {
+      return json(400, {
+        message: "optionId is required",
+        code: "VALIDATION_FAILED",
+        errors: { optionId: "optionId is required" },
+      });
+    }
+
+    const post = store.globalPosts.find((p) => p._id === params.id && isLive(p));
+    if (!post?.poll) return json(404, { message: "Post not found", code: "POST_NOT_FOUND" });
+
+    const option = post.poll.options.find((o) => o._id === optionId);
+    if (!option) {
+      return json(400, {
+        message: "Unknown poll option",
+        code: "VALIDATION_FAILED",
+        errors: { optionId: "Unknown poll option" },
+      });
+    }
+    if (post.poll.voters.includes(userId)) {
+      return json(409, { message: "You already voted in this poll", code: "ALREADY_VOTED" });
+    }
+    if (isPollClosed(post.poll)) {
+      return json(409, { message: "This poll is closed", code: "POLL_CLOSED" });
+    }
+
+    option.votes++;
+    post.poll.voters.push(userId);
+    return json(200, { message: "Vote recorded", poll: toClientPost(post, userId).poll });
+  }),
+
+  route("POST", "/globalpost/:id/like", true, (store, { params, body }) => {
+    const post = store.globalPosts.find((p) => p._id === params.id && isLive(p));
+    if (!post) return json(404, { message: "Post not found" });
+    return toggleLike(post, text(body.user_id));
+  }),
+
+  route("POST", "/globalpost/:id/comment", true, (store, { params, body }) => {
+    const content = text(body.comment).trim();
+    if (!content) {
+      return json(400, {
+        message: "comment cannot be empty",
+        code: "VALIDATION_FAILED",
+        errors: { comment: "comment cannot be empty" },
+      });
+    }
+    const commentTooLong = tooLong("comment", content, MAX_COMMENT_LENGTH);
+    if (commentTooLong) return commentTooLong;
+
+    const post = store.globalPosts.find((p) => p._id === params.id && isLive(p));
+    if (!post) return json(404, { message: "Post not found" });
+
+    // A reply to a reply joins the same top-level thread
+    let threadId: string | null = null;
+    const parentId = text(body.parentId);
+    if (parentId) {
+      const parent = post.comments.find((c) => c._id === parentId && !c.deletedAt);
+      if (!parent) return json(404, { message: "Comment not found", code: "COMMENT_NOT_FOUND" });
+      threadId = parent.parentId ?? parent._id;
+    }
+
+    const now = new Date();
+    const comment: PostComment = {
+      _id: createId(now),
+      user_id: text(body.user_id),
+      randomName: text(body.randomName),
+      content,
+      parentId: threadId,
+      deletedAt: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    post.comments.push(comment);
+    post.commentsCount = countComments(post);
+    return json(201, { message: "Comment added successfully", comment });
+  }),
+
+  route("DELETE", "/globalpost/:id/comments/:commentId", true, (store, { params, auth }) => {
+    const post = store.globalPosts.find((p) => p._id === params.id && isLive(p));
+    if (!post) return json(404, { message: "Post not found" });
+
+    // Only the author may delete; anything else looks like a missing comment
+    const comment = post.comments.find(
+      (c) => c._id === params.commentId && !c.deletedAt && c.user_id === auth?.user_id
+    );
+    if (!comment) return json(404, { message: "Comment not found", code: "COMMENT_NOT_FOUND" });
+
+    if (hasReplies(post, comment)) {
+      Object.assign(comment, { content: "", deletedAt: new Date().toISOString() });
+    } else {
+      const parent = post.comments.find((c) => c._id === comment.parentId);
+      post.comments = post.comments.filter((c) => c !== comment);
+      if (parent?.deletedAt && !hasReplies(post, parent)) {
+        post.comments = post.comments.filter((c) => c !== parent);
+      }
+    }
+
+    post.commentsCount = countComments(post);
+    return json(200, { message: "Comment deleted successfully", comments: post.comments });
+  }),
+
+  // Communities
+  // Most recently saved first; deleted posts come back as `post: null`
+  route("GET", "/saved", true, (store, { query, auth }) => {
+    const limit = parseLimit(query.get("limit"));
+    let saved = store.savedPosts.filter((item) => item.user_id === auth?.user_id).sort(newestFirst);
+
+    const collection = query.get("collection");
+    if (collection === UNFILED) {
+      saved = saved.filter((item) => item.collection_id === null);
+    } else if (collection) {
+      saved = saved.filter((item) => item.collection_id === collection);
+    }
+
+    const cursor = query.get("cursor");
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      if (!decoded) {
+        return json(400, {
+          message: "Invalid cursor",
+          code: "INVALID_CURSOR",
+          errors: { cursor: "Invalid cursor" },
+        });
+      }
+      saved = saved.filter(
+        (item) =>
+          item.createdAt < decoded.createdAt ||
+          (item.createdAt === decoded.createdAt && item._id < decoded._id)
+      );
+    }
+
+    const hasMore = saved.length > limit;
+    const page = saved.slice(0, limit);
+    const nextCursor = hasMore ? encodeCursor(page[page.length - 1]) : null;
+
+    const items = page.map((item) => {
+      const post = store.globalPosts.find((candidate) => candidate._id === item.post_id);
+      return {
+        ...item,
+        post: post && isLive(post) ? toListItem(post, auth?.user_id) : null,
+      };
+    });
+    return json(200, { items, nextCursor, hasMore });
+  }),
+
+  route("GET", "/saved/ids", true, (store, { auth }) =>
+    json(200, {
+      saved: store.savedPosts
+        .filter((item) => item.user_id === auth?.user_id)
+        .map(({ post_id, collection_id }) => ({ post_id, collection_id })),
+    })
+  ),
+
+  route("GET", "/saved/collections", true, (store, { auth }) => {
+    const saved = store.savedPosts.filter((item) => item.user_id === auth?.user_id);
+    const collections = store.savedCollections
+      .filter((collection) => collection.user_id === auth?.user_id)
+      .sort((a, b) =>
+        a.createdAt !== b.createdAt ? (a.createdAt < b.createdAt ? -1 : 1) : a._id < b._id ? -1 : 1
+      )
+      .map((collection) => withCount(store, collection));
+    return json(200, {
+      collections,
+      total: saved.length,
+      unfiled: saved.filter((item) => item.collection_id === null).length,
+    });
+  }),
+
+  route("POST", "/saved/collections", true, (store, { body, auth }) => {
+    const userId = auth!.user_id;
+    const input = parseCollectionName(body.name);
+    if ("error" in input) {
+      return json(400, { message: input.error, code: "VALIDATION_FAILED", errors: { name: input.error } });
+    }
+    if (store.savedCollections.filter((collection) => collection.user_id === userId).length >= MAX_COLLECTIONS) {
+      const message = `You can have at most ${MAX_COLLECTIONS} collections`;
+      return json(400, { message, code: "VALIDATION_FAILED", errors: { name: message } });
+    }
+    if (hasCollectionNamed(store, userId, input.name)) return collectionExists();
+
+    const now = new Date();
+    const collection: FakeSavedCollection = {
+      _id: createId(now),
+      user_id: userId,
+      name: input.name,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    store.savedCollections.push(collection);
+    return json(201, { message: "Collection created", collection: withCount(store, collection) });
+  }),
+
+  route("PATCH", "/saved/collections/:id", true, (store, { params, body, auth }) => {
+    const userId = auth!.user_id;
+    const input = parseCollectionName(body.name);
+    if ("error" in input) {
+      return json(400, { message: input.error, code: "VALIDATION_FAILED", errors: { name: input.error } });
+    }
+    const collection = store.savedCollections.find(
+      (candidate) => candidate._id === params.id && candidate.user_id === userId
+    );
+    if (!collection) return collectionNotFound();
+    if (hasCollectionNamed(store, userId, input.name, collection._id)) return collectionExists();
+
+    collection.name = input.name;
+    collection.updatedAt = new Date().toISOString();
+    return json(200, { message: "Collection renamed", collection: withCount(store, collection) });
+  }),
+
+  // The posts in it stay saved, outside any collection
+  route("DELETE", "/saved/collections/:id", true, (store, { params, auth }) => {
+    const collection = store.savedCollections.find(
+      (candidate) => candidate._id === params.id && candidate.user_id === auth?.user_id
+    );
+    if (!collection) return collectionNotFound();
+
+    store.savedPosts.forEach((item) => {
+      if (item.collection_id === collection._id) item.collection_id = null;
+    });
+    store.savedCollections = store.savedCollections.filter((candidate) => candidate !== collection);
+    return json(200, { message: "Collection deleted" });
+  }),
+
+  // Saves a post or moves a saved one; collection_id left out keeps it where it is
+  route("PUT", "/saved/:postId", true, (store, { params, body, auth }) => {
+    const userId = auth!.user_id;
+    const collectionId = body.collection_id as string | null | undefined;
+    if (
+      collectionId &&
+      !store.savedCollections.some(
+        (collection) => collection._id === collectionId && collection.user_id === userId
+      )
+    ) {
+      return collectionNotFound();
+    }
+
+    let saved: FakeSavedPost | undefined = store.savedPosts.find(
+      (item) => item.user_id === userId && item.post_id === params.postId
+    );
+    // A post deleted after it was saved can still be moved, but not saved anew
+    if (!saved) {
+      const post = store.globalPosts.find((candidate) => candidate._id === params.postId);
+      if (!post || !isLive(post)) {
+        return json(404, { message: "Post not found", code: "POST_NOT_FOUND" });
+      }
+      const now = new Date();
+      saved = {
+        _id: createId(now),
+        user_id: userId,
+        post_id: post._id,
+        collection_id: null,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+      };
+      store.savedPosts.push(saved);
+    }
+    if (collectionId !== undefined) {
+      saved.collection_id = collectionId || null;
+      saved.updatedAt = new Date().toISOString();
+    }
+    return json(200, { message: "Post saved", saved });
+  }),
+
+  // Removing a post that is not saved is not an error
+  route("DELETE", "/saved/:postId", true, (store, { params, auth }) => {
+    store.savedPosts = store.savedPosts.filter(
+      (item) => !(item.user_id === auth?.user_id && item.post_id === params.postId)
+    );
+    return json(200, { message: "Post removed from saved" });
+  }),
+
+  route("GET", "/community/getcommunities", true, (store) =>
+    json(200, { communities: store.communities })
+  ),
+
+  route("POST", "/community/joincommunity", true, (store, request) =>
+    updateMembership(store, request, true)
+  ),
+
+  route("POST", "/community/leavecommunity", true, (store, request) =>
+    updateMembership(store, request, false)
+  ),
+
+  route("GET", "/community/:id/posts", true, (store, { params, query }) => {
+    const community = store.communities.find((c) => c.community_id === params.id);
+    if (!community) return json(404, { message: "Community not found" });
+
+    const posts = store.communityPosts
+      .filter((post) => post.community_id === params.id)
+      .sort(newestFirst);
+
+    return json(200, { posts: paginate(posts, query), community });
+  }),
+
+  route("POST", "/community/:id/posts", true, (store, request) => {
+    const community = store.communities.find((c) => c.community_id === request.params.id);
+    if (!community) return json(404, { message: "Community not found" });
+
+    const post = newPost(request);
+    if ("status" in post) return post;
+
+    const communityPost: FakeCommunityPost = { ...post, community_id: community.community_id };
+    store.communityPosts.push(communityPost);
+    return json(201, { message: "Community post created successfully", post: communityPost });
+  }),
+
+  // Users
+  route("PUT", "/user/:id/profile/submit", false, (store, { params, body }) => {
+    const user = store.users.get(params.id);
+    if (!user) return json(404, { message: "User not found" });
+
+    const userName = text(body.user_name);
+    const graduationYear = Number(body.graduation_year);
+    const updated: User = {
+      ...user,
+      ...(userName && { user_name: userName }),
+      ...(graduationYear && { graduation_year: graduationYear }),
+    };
+    store.users.set(user.user_id, updated);
+
+    return json(200, { message: "Profile updated", user: updated });
+  }),
+
+  route("GET", "/user/:id/posts", true, (store, { params, query, auth }) => {
+    const posts = [
+      ...store.globalPosts.filter(isLive).map((post) => toListItem(post, auth?.user_id)),
+      ...store.communityPosts,
+    ]
+      .filter((post) => post.user_id === params.id)
+      .sort(newestFirst);
+
+    return json(200, { posts: paginate(posts, query), totalCount: posts.length });
+  }),
+
+  route("DELETE", "/user/:id/posts/:postId", true, (store, { params, auth }) => {
+    // Only the author may delete; anything else looks like a missing post
+    const owns = (post: Pick<GlobalPost, "_id" | "user_id">) =>
+      post._id === params.postId &&
+      post.user_id === params.id &&
+      post.user_id === auth?.user_id;
+
+    // Global posts leave a tombstone so links to them can say "deleted"
+    const globalPost = store.globalPosts.find((post) => isLive(post) && owns(post));
+    if (globalPost) {
+      Object.assign(globalPost, {
+        content: "",
+        images: [],
+        tags: [],
+        poll: null,
+        review: null,
+        comments: [],
+        revisions: [],
+        commentsCount: 0,
+        shareId: null,
+        contentWarning: null,
+        imageWarnings: [],
+        deletedAt: new Date().toISOString(),
+      });
+      return json(200, { message: "Post deleted successfully" });
+    }
+
+    const before = store.communityPosts.length;
+    store.communityPosts = store.communityPosts.filter((post) => !owns(post));
+
+    if (store.communityPosts.length === before) {
+      return json(404, { message: "Post not found" });
+    }
+    return json(200, { message: "Post deleted successfully" });
+  }),
+];
+
+export function matchRoute(
+  method: string,
+  pathname: string
+): { route: Route; params: Record<string, string> } | null {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+
+    const match = candidate.pattern.exec(pathname);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    candidate.keys.forEach((key, index) => {
+      params[key] = decodeURIComponent(match[index + 1]);
+    });
+    return { route: candidate, params };
+  }
+  return null;
+}
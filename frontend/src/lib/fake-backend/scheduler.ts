@@ -0,0 +1,52 @@
+/**
+ * Stand-in for backend/src/services/scheduler.js. There is no timer: every
+ * request first publishes what has come due, which looks the same to the
+ * client as a job running in the background.
+ */
+
+import { extractHashtags } from "../hashtags";
+import { createId, editableUntil, type FakeGlobalPost, type FakeStore } from "./store";
+
+/** Move every due scheduled post into the feed; returns how many went out */
+export function publishDuePosts(store: FakeStore, now: Date = new Date()): number {
+  const due = store.scheduledPosts
+    .filter((scheduled) => Date.parse(scheduled.publishAt) <= now.getTime())
+    .sort((a, b) => (a.publishAt < b.publishAt ? -1 : 1));
+  if (due.length === 0) return 0;
+
+  due.forEach((scheduled) => {
+    // Id and timestamps are the publish time, not when it was scheduled
+    const post: FakeGlobalPost = {
+      _id: createId(now),
+      user_id: scheduled.user_id,
+      randomName: scheduled.randomName,
+      content: scheduled.content,
+      category: scheduled.category,
+      tags: extractHashtags(scheduled.content),
+      poll: scheduled.poll && {
+        options: scheduled.poll.options.map((text) => ({ _id: createId(now), text, votes: 0 })),
+        closesAt: scheduled.poll.closesAt,
+        voters: [],
+      },
+      review: scheduled.review,
+      images: scheduled.images,
+      likes: 0,
+      likedBy: [],
+      commentsCount: 0,
+      comments: [],
+      revisions: [],
+      deletedAt: null,
+      shareId: null,
+      contentWarning: scheduled.contentWarning,
+      imageWarnings: scheduled.imageWarnings,
+      editedAt: null,
+      editableUntil: editableUntil(now),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    store.globalPosts.push(post);
+  });
+
+  store.scheduledPosts = store.scheduledPosts.filter((scheduled) => !due.includes(scheduled));
+  return due.length;
+}
@@ -0,0 +1,144 @@
+/**
+ * socket.io stand-in for the fake backend. Implements the subset of the
+ * client Socket API that socketService uses, and the server side of the
+ * join_community / send_message / received_message protocol from
+ * backend/src/socket.js.
+ */
+
+import type { CommunityMessage, SendMessageData } from "../socketService";
+import { createId, type FakeStore } from "./store";
+
+// Same limit as backend/src/socket.js, which drops longer messages
+const MAX_MESSAGE_LENGTH = 1000;
+
+// Handlers declare their own argument types, as with socket.io
+type Listener = (...args: never[]) => void;
+
+export class FakeSocketServer {
+  private sockets = new Set<FakeSocket>();
+
+  constructor(private getStore: () => FakeStore) {}
+
+  connect(): FakeSocket {
+    const socket = new FakeSocket(this);
+    this.sockets.add(socket);
+    // socket.io connects asynchronously; listeners are attached first
+    setTimeout(() => socket.open(), 0);
+    return socket;
+  }
+
+  /** Drop every client, as if the server went away */
+  disconnectAll(): void {
+    this.sockets.forEach((socket) => socket.close("io server disconnect"));
+  }
+
+  remove(socket: FakeSocket): void {
+    this.sockets.delete(socket);
+  }
+
+  handle(socket: FakeSocket, event: string, data: unknown): void {
+    switch (event) {
+      case "join_community":
+        socket.rooms.add(String(data));
+        return;
+
+      case "send_message":
+        this.sendMessage(data as SendMessageData);
+        return;
+    }
+  }
+
+  private sendMessage(data: SendMessageData): void {
+    if (data.message.length > MAX_MESSAGE_LENGTH) return;
+
+    const now = new Date();
+    const message: CommunityMessage = {
+      _id: createId(now),
+      community_id: data.community_id,
+      user_id: data.user_id,
+      randomName: data.randomName,
+      message: data.message,
+      // The real server uploads these to Cloudinary; data URLs render as-is
+      images: data.images ?? [],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    this.getStore().messages.push(message);
+
+    // io.to(community_id).emit(...)
+    this.sockets.forEach((socket) => {
+      if (socket.rooms.has(message.community_id)) {
+        socket.deliver("received_message", message);
+      }
+    });
+  }
+}
+
+export class FakeSocket {
+  connected = false;
+  private closed = false;
+  readonly rooms = new Set<string>();
+  private listeners = new Map<string, Set<Listener>>();
+  private sendBuffer: Array<[string, unknown]> = [];
+
+  constructor(private server: FakeSocketServer) {}
+
+  on(event: string, listener: Listener): this {
+    if (!this.listeners.has(event)) this.listeners.set(event, new Set());
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event: string, listener?: Listener): this {
+    if (listener) this.listeners.get(event)?.delete(listener);
+    else this.listeners.delete(event);
+    return this;
+  }
+
+  removeAllListeners(event?: string): this {
+    if (event) this.listeners.delete(event);
+    else this.listeners.clear();
+    return this;
+  }
+
+  /**
+   * Client -> server. Delivered on a later tick, like a real round trip;
+   * emits made before the connection opens are buffered as socket.io does.
+   */
+  emit(event: string, data?: unknown): this {
+    if (this.connected) {
+      setTimeout(() => this.server.handle(this, event, data), 0);
+    } else if (!this.closed) {
+      this.sendBuffer.push([event, data]);
+    }
+    return this;
+  }
+
+  disconnect(): this {
+    this.close("io client disconnect");
+    return this;
+  }
+
+  /** Server -> client */
+  deliver(event: string, ...args: unknown[]): void {
+    this.listeners
+      .get(event)
+      ?.forEach((listener) => (listener as (...values: unknown[]) => void)(...args));
+  }
+
+  open(): void {
+    if (this.connected || this.closed) return;
+    this.connected = true;
+    this.deliver("connect");
+    this.sendBuffer.splice(0).forEach(([event, data]) => this.emit(event, data));
+  }
+
+  close(reason: string): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.closed = true;
+    this.rooms.clear();
+    this.server.remove(this);
+    if (wasConnected) this.deliver("disconnect", reason);
+  }
+}
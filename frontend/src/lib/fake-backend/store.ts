@@ -0,0 +1,387 @@
+/**
+ * In-memory data for the fake backend, shaped like the Mongo documents the
+ * real controllers return.
+ */
+
+import type {
+  Community,
+  GlobalPost,
+  Poll,
+  PostComment,
+  PostRevision,
+  ScheduledPost,
+  User,
+} from "../api-schemas";
+import type { PostCategory } from "../categories";
+import { extractHashtags } from "../hashtags";
+import { REVIEW_SUBJECT_INFO, slugifyEntity, type ReviewSubject } from "../reviews";
+import type { CommunityMessage } from "../socketService";
+
+export type FakeCommunityPost = GlobalPost & { community_id: string };
+
+/** A poll as stored: who voted is kept so each user votes once, what they voted for is not */
+export type FakePoll = Omit<Poll, "hasVoted"> & { voters: string[] };
+
+/** Global posts carry their comments and history and are soft-deleted, as in Mongo */
+export type FakeGlobalPost = Omit<GlobalPost, "poll"> & {
+  poll: FakePoll | null;
+  comments: PostComment[];
+  revisions: PostRevision[];
+  deletedAt: string | null;
+};
+
+/** Publishing happens in one step here, so there is no publishedPostId to claim */
+export type FakeScheduledPost = ScheduledPost;
+
+/** A bookmark; it stays when the post is deleted */
+export interface FakeSavedPost {
+  _id: string;
+  user_id: string;
+  post_id: string;
+  collection_id: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeSavedCollection {
+  _id: string;
+  user_id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FakeStore {
+  users: Map<string, User>;
+  /** email -> pending OTP */
+  otps: Map<string, string>;
+  /** refresh token -> owner and expiry (ms) */
+  refreshTokens: Map<string, { user_id: string; expiresAt: number }>;
+  communities: Community[];
+  globalPosts: FakeGlobalPost[];
+  /** Posts waiting for their publish time, see ./scheduler */
+  scheduledPosts: FakeScheduledPost[];
+  communityPosts: FakeCommunityPost[];
+  messages: CommunityMessage[];
+  savedPosts: FakeSavedPost[];
+  savedCollections: FakeSavedCollection[];
+}
+
+/** Every OTP request is answered with this code */
+export const FAKE_OTP = "123456";
+
+// Default POST_EDIT_WINDOW_MINUTES of the real backend
+export const EDIT_WINDOW_MS = 60 * 60 * 1000;
+
+export const editableUntil = (createdAt: Date): string =>
+  new Date(createdAt.getTime() + EDIT_WINDOW_MS).toISOString();
+
+let idCounter = 0;
+
+/**
+ * 24-hex-character id in the same shape as a Mongo ObjectId: a seconds
+ * timestamp followed by a counter, so ids sort by creation time.
+ */
+export function createId(date: Date = new Date()): string {
+  const seconds = Math.floor(date.getTime() / 1000).toString(16).padStart(8, "0");
+  idCounter = (idCounter + 1) % 0xffffff;
+  return seconds + idCounter.toString(16).padStart(16, "0");
+}
+
+export function createUserId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `fake-user-${createId()}`;
+}
+
+/** Random id for a public share link, like the backend's 16 base64url characters */
+export function createShareId(): string {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+const ADJECTIVES = ["Quiet", "Brave", "Sleepy", "Curious", "Witty", "Gentle", "Swift"];
+const ANIMALS = ["Otter", "Falcon", "Panda", "Lynx", "Heron", "Badger", "Gecko"];
+
+export function createRandomName(): string {
+  const pick = (words: string[]) => words[Math.floor(Math.random() * words.length)];
+  return `${pick(ADJECTIVES)}${pick(ANIMALS)}`;
+}
+
+// Same communities as backend/communitiesDataInsertion.js
+const SEED_COMMUNITIES: Array<Pick<Community, "community_id" | "name" | "description">> = [
+  {
+    community_id: "placements",
+    name: "Placements",
+    description: "Discuss interviews, companies, salaries, referrals",
+  },
+  {
+    community_id: "exams",
+    name: "Exams & Academics",
+    description: "Share notes, doubts, exam tips",
+  },
+  {
+    community_id: "gossip",
+    name: "CU Gossip",
+    description: "Fun, anonymous talks",
+  },
+  {
+    community_id: "marketplace",
+    name: "buy/sell marketplace",
+    description: "Buy/sell books, gadgets, services",
+  },
+  {
+    community_id: "hostel",
+    name: "Hostel Life",
+    description: "Roommates, food, issues",
+  },
+];
+
+const SEED_USERS: Array<Pick<User, "email" | "user_id" | "user_name">> = [
+  { email: "demo@cuchd.in", user_id: "fake-user-demo", user_name: "QuietOtter" },
+  { email: "falcon@cuchd.in", user_id: "fake-user-falcon", user_name: "SwiftFalcon" },
+  { email: "panda@cuchd.in", user_id: "fake-user-panda", user_name: "SleepyPanda" },
+];
+
+interface SeedPoll {
+  options: string[];
+  votes: number[];
+  /** Minutes from seeding; negative for a poll that already closed */
+  closesIn: number | null;
+}
+
+const SEED_POSTS: Array<{
+  content: string;
+  category: PostCategory;
+  poll?: SeedPoll;
+  contentWarning?: string;
+}> = [
+  { content: "Anyone else's mid-sem timetable clash with the lab schedule? #timetable", category: "academics" },
+  {
+    content: "Which elective is easier this semester? #electives",
+    category: "academics",
+    poll: {
+      options: ["Cloud Computing", "Data Visualization", "Cyber Law"],
+      votes: [3, 5, 1],
+      closesIn: 60 * 24 * 2,
+    },
+  },
+  { content: "Mess food was actually good today. Screenshot for proof.", category: "campus" },
+  { content: "Which companies are visiting for the next placement drive? #placements", category: "placements" },
+  { content: "Library extended hours during exams would be amazing. #library #exams", category: "exams" },
+  { content: "Lost a blue water bottle near Block D, ping if found.", category: "campus" },
+  { content: "Tips for the DSA round? Got an interview next week. #placements #dsa", category: "placements" },
+  { content: "Is the gym open on Sundays now?", category: "campus" },
+  { content: "Selling my old engineering drawing kit, barely used.", category: "campus" },
+  { content: "The wifi in hostel 3 keeps dropping after midnight. #hostel #wifi", category: "problems" },
+  {
+    content: "Best place on campus to study when the library is full?",
+    category: "campus",
+    poll: {
+      options: ["Central lawn", "Block C reading room", "Hostel common room", "Night canteen"],
+      votes: [4, 6, 2, 3],
+      closesIn: -60,
+    },
+  },
+  { content: "Got my first offer letter! Thanks to everyone who shared prep notes. #placements", category: "placements" },
+  { content: "How strict is attendance for the elective courses?", category: "academics" },
+  { content: "Cultural fest volunteers, where do we sign up?", category: "campus" },
+  { content: "Does anyone have last year's compiler design papers? #exams", category: "exams" },
+  { content: "Roommate wanted for next semester, non-smoker please.", category: "campus" },
+  { content: "The new cafe near the main gate is overpriced.", category: "reviews" },
+  { content: "Reminder: project submissions close Friday at 5pm.", category: "academics" },
+  { content: "What's the process for changing electives after week two?", category: "academics" },
+  { content: "Shuttle timings changed again without notice. #shuttle", category: "problems" },
+  { content: "Study group for operating systems, anyone? #exams", category: "exams" },
+  { content: "Internship stipend ranges this year look better than last year. #internships", category: "placements" },
+  { content: "Who else is stuck on the networking assignment?", category: "academics" },
+  { content: "Found a set of keys near the auditorium.", category: "campus" },
+  { content: "Hostel curfew rules need a rethink. #hostel", category: "problems" },
+  { content: "Placement cell shared a new list of mock interviews. #placements #internships", category: "placements" },
+  { content: "Looking for a used calculator for the exams.", category: "exams" },
+  { content: "The sports complex renovation is finally done.", category: "campus" },
+  { content: "Any good YouTube channels for discrete maths?", category: "academics" },
+  { content: "Night canteen menu just got longer.", category: "reviews" },
+  { content: "Exam seating plan is out on the portal. #exams", category: "exams" },
+  {
+    content: "Q3 of today's OS paper was the banker's algorithm example from lecture 12, same numbers. #exams",
+    category: "exams",
+    contentWarning: "Exam answers",
+  },
+];
+
+interface SeedReview {
+  content: string;
+  subject: ReviewSubject;
+  entityName: string;
+  /** One score per dimension, in REVIEW_SUBJECT_INFO order */
+  scores: number[];
+  daysAgo: number;
+}
+
+// Spread over a year and a half so entity pages have a semester trend
+const SEED_REVIEWS: SeedReview[] = [
+  { content: "Tough but worth it. Do the lab sheets yourself.", subject: "course", entityName: "Data Structures (CSE-201)", scores: [5, 4, 2, 3], daysAgo: 3 },
+  { content: "Assignments every week, grading got fairer this time.", subject: "course", entityName: "Data Structures (CSE-201)", scores: [4, 4, 2, 4], daysAgo: 120 },
+  { content: "Slides were outdated and the quizzes were random.", subject: "course", entityName: "Data Structures (CSE-201)", scores: [3, 2, 2, 2], daysAgo: 300 },
+  { content: "Half the syllabus was rushed in the last month.", subject: "course", entityName: "Data Structures (CSE-201)", scores: [3, 2, 3, 2], daysAgo: 480 },
+  { content: "Light workload, interesting case studies.", subject: "course", entityName: "Cyber Law", scores: [4, 3, 5, 4], daysAgo: 40 },
+  { content: "Explains everything twice and answers mails at night.", subject: "faculty", entityName: "Dr. A. Sharma", scores: [5, 5, 4, 3], daysAgo: 10 },
+  { content: "Strict with attendance but a great teacher.", subject: "faculty", entityName: "Dr. A. Sharma", scores: [4, 5, 3, 3], daysAgo: 200 },
+  { content: "Rooms are fine, washrooms need work.", subject: "hostel", entityName: "Zakir Hall A", scores: [3, 2, 3, 4], daysAgo: 15 },
+  { content: "Paneer on Fridays is the highlight. Breakfast is repetitive.", subject: "mess", entityName: "Block C Mess", scores: [4, 3, 2, 4], daysAgo: 6 },
+  { content: "Much cleaner since the new contractor took over.", subject: "mess", entityName: "Block C Mess", scores: [3, 4, 2, 3], daysAgo: 190 },
+];
+
+export function createSeedStore(now: number = Date.now()): FakeStore {
+  const at = (minutesAgo: number) => new Date(now - minutesAgo * 60 * 1000);
+
+  const users = new Map<string, User>();
+  SEED_USERS.forEach((user, index) => {
+    users.set(user.user_id, {
+      ...user,
+      isverified: true,
+      graduation_year: 2026 + index,
+      joinedCommunities: SEED_COMMUNITIES.slice(0, index + 2).map((c) => c.community_id),
+    });
+  });
+
+  const communities: Community[] = SEED_COMMUNITIES.map((community, index) => ({
+    ...community,
+    memberCount: [...users.values()].filter((user) =>
+      user.joinedCommunities.includes(community.community_id)
+    ).length,
+    createdAt: at(60 * 24 * 90 + index).toISOString(),
+  }));
+
+  // Spread over several days so the feed has more than one page
+  const globalPosts: FakeGlobalPost[] = SEED_POSTS.map(({ content, category, poll, contentWarning }, index) => {
+    const author = SEED_USERS[index % SEED_USERS.length];
+    const createdAt = at(index * 47 + 5);
+    const likedBy = SEED_USERS.slice(0, index % (SEED_USERS.length + 1)).map(
+      (user) => user.user_id
+    );
+    return {
+      _id: createId(createdAt),
+      user_id: author.user_id,
+      randomName: author.user_name ?? "Anonymous",
+      content,
+      category,
+      tags: extractHashtags(content),
+      // Seed voters are made up so the demo users can still vote
+      review: null,
+      poll: poll
+        ? {
+            options: poll.options.map((text, option) => ({
+              _id: createId(createdAt),
+              text,
+              votes: poll.votes[option],
+            })),
+            closesAt: poll.closesIn === null ? null : at(-poll.closesIn).toISOString(),
+            voters: poll.votes.flatMap((votes, option) =>
+              Array.from({ length: votes }, (_, vote) => `fake-voter-${option}-${vote}`)
+            ),
+          }
+        : null,
+      images: [],
+      likes: likedBy.length,
+      likedBy,
+      commentsCount: 0,
+      comments: [],
+      revisions: [],
+      deletedAt: null,
+      shareId: null,
+      contentWarning: contentWarning ?? null,
+      imageWarnings: [],
+      editedAt: null,
+      editableUntil: editableUntil(createdAt),
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+    };
+  });
+
+  SEED_REVIEWS.forEach(({ content, subject, entityName, scores, daysAgo }, index) => {
+    const author = SEED_USERS[index % SEED_USERS.length];
+    const createdAt = at(daysAgo * 24 * 60 + index);
+    globalPosts.push({
+      _id: createId(createdAt),
+      user_id: author.user_id,
+      randomName: author.user_name ?? "Anonymous",
+      content,
+      category: "reviews",
+      tags: extractHashtags(content),
+      review: {
+        subject,
+        entity: slugifyEntity(entityName),
+        entityName,
+        ratings: REVIEW_SUBJECT_INFO[subject].dimensions.map(({ id }, dimension) => ({
+          dimension: id,
+          score: scores[dimension],
+        })),
+        overall: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+      },
+      poll: null,
+      images: [],
+      likes: 0,
+      likedBy: [],
+      commentsCount: 0,
+      comments: [],
+      revisions: [],
+      deletedAt: null,
+      shareId: null,
+      contentWarning: null,
+      imageWarnings: [],
+      editedAt: null,
+      editableUntil: editableUntil(createdAt),
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+    });
+  });
+
+  const communityPosts: FakeCommunityPost[] = SEED_COMMUNITIES.flatMap(
+    (community, communityIndex) =>
+      SEED_POSTS.slice(communityIndex * 3, communityIndex * 3 + 3).map(({ content, category }, index) => {
+        const author = SEED_USERS[(communityIndex + index) % SEED_USERS.length];
+        const createdAt = at(communityIndex * 30 + index * 90 + 12);
+        return {
+          _id: createId(createdAt),
+          community_id: community.community_id,
+          user_id: author.user_id,
+          randomName: author.user_name ?? "Anonymous",
+          content,
+          category,
+          tags: extractHashtags(content),
+          poll: null,
+          review: null,
+          images: [],
+          likes: 0,
+          likedBy: [],
+          commentsCount: 0,
+          shareId: null,
+          contentWarning: null,
+          imageWarnings: [],
+          editedAt: null,
+          editableUntil: null,
+          createdAt: createdAt.toISOString(),
+          updatedAt: createdAt.toISOString(),
+        };
+      })
+  );
+
+  return {
+    users,
+    otps: new Map(),
+    refreshTokens: new Map(),
+    communities,
+    globalPosts,
+    scheduledPosts: [],
+    communityPosts,
+    messages: [],
+    savedPosts: [],
+    savedCollections: [],
+  };
+}
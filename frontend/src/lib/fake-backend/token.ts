@@ -0,0 +1,54 @@
+/**
+ * Unsigned JWT-shaped tokens for the fake backend. The client only ever
+ * decodes the payload, so a real signature is not needed.
+ */
+
+import type { User } from "../api-schemas";
+
+export interface FakeTokenPayload {
+  email: string;
+  user_id: string;
+  iat: number;
+  exp: number;
+}
+
+// Match the real backend: 1h access tokens, 30 day refresh tokens
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const HEADER = btoa(JSON.stringify({ alg: "none", typ: "JWT" }));
+
+export function createFakeToken(user: Pick<User, "email" | "user_id">): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: FakeTokenPayload = {
+    email: user.email,
+    user_id: user.user_id,
+    iat,
+    exp: iat + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  return `${HEADER}.${btoa(JSON.stringify(payload))}.fake`;
+}
+
+/** Opaque, single-use refresh token */
+export function createRefreshToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Payload of a `Bearer <token>` header, or null when the header is missing,
+ * malformed or expired.
+ */
+export function readFakeToken(authorization: string | null): FakeTokenPayload | null {
+  const token = authorization?.split(" ")[1];
+  if (!token) return null;
+
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1])) as FakeTokenPayload;
+    if (!payload.user_id || payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Feed sort orders
+ *
+ * How a feed of global posts is ordered. The server ranks the posts, so every
+ * page continues the same order. The choice is kept in the page URL
+ * (`?sort=top&t=month`), which means it survives reloads and can be shared.
+ */
+
+export const FEED_SORTS = ["new", "hot", "top"] as const;
+export type FeedSort = (typeof FEED_SORTS)[number];
+
+/** How far back "top" looks */
+export const TOP_PERIODS = ["day", "week", "month", "all"] as const;
+export type TopPeriod = (typeof TOP_PERIODS)[number];
+
+export const DEFAULT_FEED_SORT: FeedSort = "new";
+export const DEFAULT_TOP_PERIOD: TopPeriod = "week";
+
+/** URL search parameters holding the sort and the top period */
+export const SORT_PARAM = "sort";
+export const PERIOD_PARAM = "t";
+
+export const FEED_SORT_INFO: Record<FeedSort, { label: string; description: string }> = {
+  new: { label: "New", description: "Newest posts first" },
+  hot: { label: "Hot", description: "Recent posts getting likes and comments" },
+  top: { label: "Top", description: "Most liked and discussed posts" },
+};
+
+export const TOP_PERIOD_LABELS: Record<TopPeriod, string> = {
+  day: "Today",
+  week: "This week",
+  month: "This month",
+  all: "All time",
+};
+
+export function isFeedSort(value: unknown): value is FeedSort {
+  return FEED_SORTS.includes(value as FeedSort);
+}
+
+export function isTopPeriod(value: unknown): value is TopPeriod {
+  return TOP_PERIODS.includes(value as TopPeriod);
+}
+
+export interface FeedOrder {
+  sort: FeedSort;
+  /** Only used by "top" */
+  period: TopPeriod;
+}
+
+/** The order in a page URL; anything unknown falls back to the defaults */
+export function parseFeedOrder(params: { get(name: string): string | null }): FeedOrder {
+  const sort = params.get(SORT_PARAM);
+  const period = params.get(PERIOD_PARAM);
+  return {
+    sort: isFeedSort(sort) ? sort : DEFAULT_FEED_SORT,
+    period: isTopPeriod(period) ? period : DEFAULT_TOP_PERIOD,
+  };
+}
@@ -0,0 +1,54 @@
+import { extractHashtags, MAX_TAGS_PER_POST, normalizeTag, tagHref } from "./hashtags";
+
+describe("extractHashtags", () => {
+  it("finds tags lowercased, without #, in first-seen order", () => {
+    expect(extractHashtags("#Placements are open. Ask in #CSE_2026 or #placements")).toEqual([
+      "placements",
+      "cse_2026",
+    ]);
+  });
+
+  it("takes tags after punctuation and at line starts", () => {
+    expect(extractHashtags("(#exams)\n#results, #hostel.")).toEqual(["exams", "results", "hostel"]);
+  });
+
+  it("skips tags inside words and doubled #", () => {
+    expect(extractHashtags("mail a#b, C# or ##twice")).toEqual([]);
+  });
+
+  it("needs a letter first and rejects tags running on too long", () => {
+    expect(extractHashtags("#2026 #_x #a1")).toEqual(["a1"]);
+    expect(extractHashtags(`#${"a".repeat(50)}`)).toEqual(["a".repeat(50)]);
+    expect(extractHashtags(`#${"a".repeat(51)}`)).toEqual([]);
+  });
+
+  it("keeps at most MAX_TAGS_PER_POST tags", () => {
+    const content = Array.from({ length: 15 }, (_, i) => `#tag${i}`).join(" ");
+
+    const tags = extractHashtags(content);
+
+    expect(tags).toHaveLength(MAX_TAGS_PER_POST);
+    expect(tags[0]).toBe("tag0");
+  });
+});
+
+describe("normalizeTag", () => {
+  it("strips # and whitespace and lowercases", () => {
+    expect(normalizeTag(" #Placements ")).toBe("placements");
+    expect(normalizeTag("mess")).toBe("mess");
+  });
+
+  it("returns null for anything that is not a tag", () => {
+    expect(normalizeTag("")).toBeNull();
+    expect(normalizeTag("#")).toBeNull();
+    expect(normalizeTag("9lives")).toBeNull();
+    expect(normalizeTag("two words")).toBeNull();
+    expect(normalizeTag("a-b")).toBeNull();
+  });
+});
+
+describe("tagHref", () => {
+  it("links to the tag feed", () => {
+    expect(tagHref("exams")).toBe("/dashboard/tag/exams");
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Hashtags
+ *
+ * The server extracts the hashtags of a post when it is written and sends
+ * them as `tags`: lowercase, without "#". These helpers follow the same rules
+ * as backend/src/utils/hashtags.js, so links built here hit the same tag feed.
+ */
+
+export const MAX_TAGS_PER_POST = 10;
+
+const HASHTAG = /(?:^|[^\w#])#([a-z][a-z0-9_]{0,49})(?!\w)/gi;
+
+/** "#Placements" and "placements" both become "placements"; null if not a valid tag */
+export function normalizeTag(tag: string): string | null {
+  const normalized = tag.trim().replace(/^#/, "").toLowerCase();
+  return /^[a-z][a-z0-9_]{0,49}$/.test(normalized) ? normalized : null;
+}
+
+/** Tags in a post's content, in the order they first appear */
+export function extractHashtags(content: string): string[] {
+  const tags = new Set<string>();
+  for (const match of content.matchAll(HASHTAG)) {
+    tags.add(match[1].toLowerCase());
+    if (tags.size === MAX_TAGS_PER_POST) break;
+  }
+  return [...tags];
+}
+
+export const tagHref = (tag: string) => `/dashboard/tag/${encodeURIComponent(tag)}`;
@@ -0,0 +1,54 @@
+/**
+ * Minimal promise wrappers around IndexedDB
+ */
+
+export type UpgradeHandler = (db: IDBDatabase) => void;
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Open (and cache) a database connection. `upgrade` runs whenever `version`
+ * is higher than the stored one, so it must be idempotent.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: UpgradeHandler
+): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  const connection = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  connection.catch(() => connections.delete(name));
+  connections.set(name, connection);
+  return connection;
+}
@@ -0,0 +1,140 @@
+import {
+  formatBytes,
+  imageSavings,
+  MAX_SOURCE_IMAGE_SIZE,
+  processImage,
+  validateSourceImage,
+} from "./imagePipeline";
+
+// jsdom has no image decoding or canvas encoding; these stand in for the browser
+interface FakeCanvasContext {
+  drawImage: jest.Mock;
+  fillRect: jest.Mock;
+  clearRect: jest.Mock;
+  fillStyle: string;
+  imageSmoothingQuality: string;
+}
+
+let bitmapSize = { width: 4000, height: 3000 };
+let writesWebp = true;
+let context: FakeCanvasContext;
+const close = jest.fn();
+
+beforeEach(() => {
+  bitmapSize = { width: 4000, height: 3000 };
+  writesWebp = true;
+  close.mockReset();
+  context = {
+    drawImage: jest.fn(),
+    fillRect: jest.fn(),
+    clearRect: jest.fn(),
+    fillStyle: "",
+    imageSmoothingQuality: "low",
+  };
+
+  globalThis.createImageBitmap = jest.fn(async () => ({ ...bitmapSize, close })) as never;
+  jest
+    .spyOn(HTMLCanvasElement.prototype, "getContext")
+    .mockImplementation(() => context as unknown as CanvasRenderingContext2D);
+  jest
+    .spyOn(HTMLCanvasElement.prototype, "toBlob")
+    .mockImplementation(function (this: HTMLCanvasElement, callback, type) {
+      const written = type === "image/webp" && !writesWebp ? "image/png" : type!;
+      callback(new Blob([`${this.width}x${this.height}`], { type: written }));
+    });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete (globalThis as { createImageBitmap?: unknown }).createImageBitmap;
+});
+
+const photo = (name = "IMG_2041.jpg", size = 3_000_000) =>
+  new File([new Uint8Array(size)], name, { type: "image/jpeg", lastModified: 1_600_000_000_000 });
+
+describe("processImage", () => {
+  it("scales the longest side down to 2048 pixels", async () => {
+    const { width, height } = await processImage(photo());
+
+    expect({ width, height }).toEqual({ width: 2048, height: 1536 });
+  });
+
+  it("keeps small images at their size and never goes below one pixel", async () => {
+    bitmapSize = { width: 800, height: 600 };
+    expect(await processImage(photo())).toMatchObject({ width: 800, height: 600 });
+
+    bitmapSize = { width: 10000, height: 1 };
+    expect(await processImage(photo(), { maxDimension: 100 })).toMatchObject({ width: 100, height: 1 });
+  });
+
+  it("always uploads a newly encoded file, never the original", async () => {
+    const original = photo();
+
+    const { file, originalSize } = await processImage(original);
+
+    expect(file).not.toBe(original);
+    expect(file.name).toBe("image.webp");
+    expect(file.type).toBe("image/webp");
+    expect(file.lastModified).not.toBe(original.lastModified);
+    expect(file.size).toBe("2048x1536".length);
+    expect(originalSize).toBe(original.size);
+    expect(context.drawImage).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to JPEG on a white background where WebP cannot be written", async () => {
+    writesWebp = false;
+
+    const { file } = await processImage(photo());
+
+    expect(file.name).toBe("image.jpg");
+    expect(file.type).toBe("image/jpeg");
+    expect(context.fillStyle).toBe("#ffffff");
+    expect(context.fillRect).toHaveBeenCalledWith(0, 0, 2048, 1536);
+  });
+
+  it("reports each stage and frees the decoded image", async () => {
+    const stages: string[] = [];
+
+    await processImage(photo(), { onStage: (stage) => stages.push(stage) });
+
+    expect(stages).toEqual(["decoding", "resizing", "encoding"]);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses files that are not images before decoding them", async () => {
+    const text = new File(["hi"], "notes.txt", { type: "text/plain" });
+
+    await expect(processImage(text)).rejects.toThrow("notes.txt is not an image");
+    expect(globalThis.createImageBitmap).not.toHaveBeenCalled();
+  });
+});
+
+describe("imageSavings", () => {
+  it("compares a processed file with the original size", async () => {
+    const { file } = await processImage(photo());
+
+    expect(imageSavings(file)).toEqual({ originalSize: 3_000_000, size: file.size });
+  });
+
+  it("knows nothing about files it did not produce", () => {
+    expect(imageSavings(photo())).toBeNull();
+  });
+});
+
+describe("validateSourceImage", () => {
+  it("takes images up to the decode limit", () => {
+    const huge = new File([], "huge.png", { type: "image/png" });
+    Object.defineProperty(huge, "size", { value: MAX_SOURCE_IMAGE_SIZE + 1 });
+
+    expect(validateSourceImage(photo("a.jpg", 10))).toBeNull();
+    expect(validateSourceImage(huge)).toBe("huge.png is too large. Maximum size is 25.0 MB");
+  });
+});
+
+describe("formatBytes", () => {
+  it("picks a readable unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2 KB");
+    expect(formatBytes(3.5 * 1024 * 1024)).toBe("3.5 MB");
+  });
+});
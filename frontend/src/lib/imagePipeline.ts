@@ -0,0 +1,184 @@
+/**
+ * Image pipeline
+ *
+ * Every image is drawn onto a canvas and encoded again before it is uploaded
+ * or sent in chat. That shrinks large photos, and it removes all metadata:
+ * EXIF GPS coordinates, camera model, capture time and the original file
+ * name, any of which could tell readers who posted. Only the pixels are kept.
+ * The photo's rotation is applied first, so it still shows the right way up.
+ *
+ * Animated images come out as their first frame.
+ */
+
+/** Longest side of an uploaded image, in pixels */
+export const MAX_IMAGE_DIMENSION = 2048;
+/** Largest file we try to decode; the upload itself is far smaller */
+export const MAX_SOURCE_IMAGE_SIZE = 25 * 1024 * 1024;
+
+const IMAGE_QUALITY = 0.82;
+
+export type ImageStage = "queued" | "decoding" | "resizing" | "encoding";
+
+/** Rough share of the work done once a stage starts, for progress bars */
+export const IMAGE_STAGE_PROGRESS: Record<ImageStage, number> = {
+  queued: 0,
+  decoding: 0.1,
+  resizing: 0.45,
+  encoding: 0.7,
+};
+
+export const IMAGE_STAGE_LABELS: Record<ImageStage, string> = {
+  queued: "Waiting",
+  decoding: "Reading",
+  resizing: "Resizing",
+  encoding: "Compressing",
+};
+
+export interface ProcessedImage {
+  file: File;
+  /** Size of the file the user picked, in bytes */
+  originalSize: number;
+  width: number;
+  height: number;
+}
+
+export interface ProcessImageOptions {
+  maxDimension?: number;
+  onStage?: (stage: ImageStage) => void;
+}
+
+// Original sizes of files this module produced, so previews can show savings
+const originalSizes = new WeakMap<File, number>();
+
+/** Why a file cannot go through the pipeline, or null if it can */
+export function validateSourceImage(file: File): string | null {
+  if (!file.type.startsWith("image/")) return `${file.name} is not an image`;
+  if (file.size > MAX_SOURCE_IMAGE_SIZE) {
+    return `${file.name} is too large. Maximum size is ${formatBytes(MAX_SOURCE_IMAGE_SIZE)}`;
+  }
+  return null;
+}
+
+/**
+ * Decode, downsize and re-encode one image as WebP, or JPEG where the
+ * browser cannot write WebP. Throws an Error with a message for the user
+ * when the image cannot be read.
+ */
+export async function processImage(file: File, options: ProcessImageOptions = {}): Promise<ProcessedImage> {
+  const { maxDimension = MAX_IMAGE_DIMENSION, onStage } = options;
+  const invalid = validateSourceImage(file);
+  if (invalid) throw new Error(invalid);
+
+  onStage?.("decoding");
+  const source = await decodeImage(file);
+
+  try {
+    onStage?.("resizing");
+    const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error(`Could not process ${file.name}`);
+    context.imageSmoothingQuality = "high";
+
+    onStage?.("encoding");
+    let blob = await toBlob(canvas, context, source.image, "image/webp");
+    // Browsers that cannot write WebP hand back a PNG instead
+    if (blob.type !== "image/webp") {
+      blob = await toBlob(canvas, context, source.image, "image/jpeg");
+    }
+
+    const extension = blob.type === "image/webp" ? "webp" : "jpg";
+    // A fresh name and timestamp: neither says anything about the original
+    const processed = new File([blob], `image.${extension}`, { type: blob.type });
+    originalSizes.set(processed, file.size);
+    return { file: processed, originalSize: file.size, width, height };
+  } finally {
+    source.release();
+  }
+}
+
+/** Bytes saved on a file processImage produced; null for any other file */
+export function imageSavings(file: File): { originalSize: number; size: number } | null {
+  const originalSize = originalSizes.get(file);
+  return originalSize === undefined ? null : { originalSize, size: file.size };
+}
+
+/** Read a file as a data: URL, as chat messages carry their images */
+export function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface DecodedImage {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+}
+
+// createImageBitmap applies the EXIF rotation itself; <img> is the fallback
+// for browsers without it, and also rotates by default
+async function decodeImage(file: File): Promise<DecodedImage> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+      return { image: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+      // fall through to <img>, which reads some formats createImageBitmap does not
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return {
+      image,
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+      release: () => URL.revokeObjectURL(url),
+    };
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new Error(`${file.name} could not be read as an image`);
+  }
+}
+
+function toBlob(
+  canvas: HTMLCanvasElement,
+  context: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  type: "image/webp" | "image/jpeg"
+): Promise<Blob> {
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  // JPEG has no transparency; without a background it turns black
+  if (type === "image/jpeg") {
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not compress the image"))),
+      type,
+      IMAGE_QUALITY
+    );
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Image URLs
+ *
+ * Uploaded images are stored on Cloudinary, which resizes them on the fly
+ * when the URL asks for it. Feeds load a version sized for where the image is
+ * shown; the lightbox loads the original. Other URLs (chat images are data:
+ * URLs, the fake backend uses blob: URLs) are used as they are.
+ */
+
+// https://res.cloudinary.com/<cloud>/image/upload/<version and id>
+const CLOUDINARY_UPLOAD = /^(https:\/\/res\.cloudinary\.com\/[^/]+\/image\/upload\/)(.+)$/;
+
+/** The image at most `width` pixels wide, in the best format the browser takes */
+export function thumbnailUrl(url: string, width: number): string {
+  const match = CLOUDINARY_UPLOAD.exec(url);
+  if (!match) return url;
+  return `${match[1]}c_limit,w_${Math.round(width)},q_auto,f_auto/${match[2]}`;
+}
+
+/** A file name for saving the image, e.g. "blindcu-image-2.webp" */
+export function downloadName(url: string, index: number, type?: string): string {
+  const fromType = type?.startsWith("image/")
+    ? type.slice("image/".length).replace("jpeg", "jpg").replace("+xml", "")
+    : null;
+  const fromUrl = /\.([a-z0-9]{3,4})(?:$|\?)/i.exec(url)?.[1]?.toLowerCase();
+  return `blindcu-image-${index + 1}.${fromType ?? fromUrl ?? "jpg"}`;
+}
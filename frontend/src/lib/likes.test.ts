@@ -0,0 +1,130 @@
+import type { GlobalPost } from "./api";
+import { likeEngine } from "./likes";
+import { likePostOrQueue, type QueuedLikeResponse } from "./outbox";
+
+jest.mock("./outbox", () => ({
+  currentUserId: () => "me",
+  likePostOrQueue: jest.fn(),
+}));
+
+const mockLike = likePostOrQueue as jest.MockedFunction<typeof likePostOrQueue>;
+
+const T0 = "2025-01-10T12:00:00.000Z";
+const T1 = "2025-01-10T12:01:00.000Z";
+const T2 = "2025-01-10T12:02:00.000Z";
+
+function postAt(updatedAt: string, likes: number, likedByMe: boolean): GlobalPost {
+  return {
+    _id: "p1",
+    likes,
+    likedBy: likedByMe ? ["me"] : [],
+    updatedAt,
+  } as GlobalPost;
+}
+
+function respond(response: QueuedLikeResponse) {
+  mockLike.mockResolvedValueOnce(response);
+}
+
+beforeEach(() => {
+  mockLike.mockReset();
+  likeEngine.clear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe("likeEngine.toggle", () => {
+  it("shows the like straight away and settles on the server's count", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    respond({ message: "Liked", likes: 5, updatedAt: T1 });
+
+    const sync = likeEngine.toggle(postAt(T0, 3, false));
+    expect(likeEngine.getState("p1")).toEqual({ likes: 4, liked: true, pending: true });
+
+    await expect(sync).resolves.toBe("synced");
+    expect(likeEngine.getState("p1")).toEqual({ likes: 5, liked: true, pending: false });
+  });
+
+  it("keeps toggling the server until it matches the last click", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    respond({ message: "Liked", likes: 4, updatedAt: T1 });
+    respond({ message: "Unliked", likes: 3, updatedAt: T2 });
+
+    const sync = likeEngine.toggle(postAt(T0, 3, false));
+    await expect(likeEngine.toggle(postAt(T0, 3, false))).resolves.toBe("joined");
+
+    await sync;
+    expect(mockLike).toHaveBeenCalledTimes(2);
+    expect(likeEngine.getState("p1")).toEqual({ likes: 3, liked: false, pending: false });
+  });
+
+  it("rolls back when the server refuses", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    mockLike.mockRejectedValueOnce(new Error("Post not found"));
+
+    await expect(likeEngine.toggle(postAt(T0, 3, false))).rejects.toThrow("Post not found");
+    expect(likeEngine.getState("p1")).toEqual({ likes: 3, liked: false, pending: false });
+  });
+});
+
+describe("likeEngine.receive", () => {
+  it("ignores a stale copy of the post after a like", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    respond({ message: "Liked", likes: 4, updatedAt: T1 });
+    await likeEngine.toggle(postAt(T0, 3, false));
+
+    likeEngine.receive(postAt(T0, 3, false), "me");
+
+    expect(likeEngine.getState("p1")).toMatchObject({ likes: 4, liked: true });
+  });
+
+  it("takes a newer copy of the post", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    respond({ message: "Liked", likes: 4, updatedAt: T1 });
+    await likeEngine.toggle(postAt(T0, 3, false));
+
+    likeEngine.receive(postAt(T2, 7, false), "me");
+
+    expect(likeEngine.getState("p1")).toMatchObject({ likes: 7, liked: false });
+  });
+
+  it("ignores copies while a sync is running", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    let finish!: (response: QueuedLikeResponse) => void;
+    mockLike.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+
+    const sync = likeEngine.toggle(postAt(T0, 3, false));
+    likeEngine.receive(postAt(T2, 9, false), "me");
+    expect(likeEngine.getState("p1")).toMatchObject({ likes: 4, liked: true });
+
+    finish({ message: "Liked", likes: 4, updatedAt: T1 });
+    await sync;
+  });
+
+  it("does not depend on the client clock", async () => {
+    // A clock a year ahead must not make newer server data look stale
+    jest.useFakeTimers({ now: new Date("2026-01-10T12:00:00.000Z") });
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    respond({ message: "Liked", likes: 4, updatedAt: T1 });
+    await likeEngine.toggle(postAt(T0, 3, false));
+
+    likeEngine.receive(postAt(T2, 6, true), "me");
+
+    expect(likeEngine.getState("p1")).toMatchObject({ likes: 6, liked: true });
+  });
+
+  it("keeps a queued like until the server has newer data", async () => {
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    respond({ message: "Liked", likes: 4, queued: true });
+    await expect(likeEngine.toggle(postAt(T0, 3, false))).resolves.toBe("queued");
+
+    likeEngine.receive(postAt(T0, 3, false), "me");
+    expect(likeEngine.getState("p1")).toMatchObject({ likes: 4, liked: true });
+
+    likeEngine.receive(postAt(T1, 4, true), "me");
+    likeEngine.receive(postAt(T1, 3, false), "me");
+    expect(likeEngine.getState("p1")).toMatchObject({ likes: 3, liked: false });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Optimistic likes
+ *
+ * Every view of a post (feed card, community card, detail page) reads its
+ * like count and liked state from here, so a like made in one view shows up
+ * in all of them at once. A toggle updates the state immediately and syncs
+ * with the server in the background; if the server call fails the post goes
+ * back to its last confirmed state.
+ *
+ * The like endpoint toggles rather than sets, so requests for a post are
+ * never sent in parallel. Clicks only flip the state the user wants, and a
+ * single sync per post keeps toggling the server until it matches.
+ */
+
+import type { GlobalPost } from "./api";
+import { currentUserId, likePostOrQueue } from "./outbox";
+
+export interface LikeState {
+  likes: number;
+  liked: boolean;
+  /** A server sync for this post is still running */
+  pending: boolean;
+}
+
+/**
+ * How a toggle ended. "joined" means the click landed while an earlier sync
+ * was running; that sync picks it up and reports the outcome.
+ */
+export type LikeResult = "synced" | "queued" | "joined";
+
+type LikeListener = (postId: string) => void;
+
+interface LikeEntry {
+  /** Last state the server confirmed, or the outbox accepted */
+  likes: number;
+  liked: boolean;
+  /** What the user's clicks ask for */
+  wanted: boolean;
+  /**
+   * Server updatedAt of the freshest data seen for the post, from a copy of
+   * it or a like response. Never a client clock reading.
+   */
+  updatedAt: string;
+  /**
+   * The last change came back without a server timestamp, e.g. a like
+   * waiting in the outbox, so it is newer than `updatedAt` says
+   */
+  unstamped: boolean;
+  sync: Promise<LikeResult> | null;
+  snapshot: LikeState;
+}
+
+/** Like state of a post as the server last sent it */
+export function likeStateOf(post: GlobalPost, userId: string | null): LikeState {
+  return {
+    likes: post.likes,
+    liked: userId ? post.likedBy.includes(userId) : false,
+    pending: false,
+  };
+}
+
+function snapshotOf(entry: LikeEntry): LikeState {
+  const delta = entry.wanted === entry.liked ? 0 : entry.wanted ? 1 : -1;
+  return {
+    likes: Math.max(0, entry.likes + delta),
+    liked: entry.wanted,
+    pending: entry.sync !== null,
+  };
+}
+
+class LikeEngine {
+  private entries = new Map<string, LikeEntry>();
+  private listeners = new Set<LikeListener>();
+
+  /**
+   * Current state of a post, or undefined until a view has reported it.
+   * The object only changes when the state does, as useSyncExternalStore
+   * requires.
+   */
+  getState(postId: string): LikeState | undefined {
+    return this.entries.get(postId)?.snapshot;
+  }
+
+  subscribe = (listener: LikeListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Take in server data for a post. Ignored while a sync is running, and
+   * when it is older than what is already known, so a view that still holds
+   * a stale copy cannot undo a like made elsewhere. After an unstamped change
+   * only strictly newer data counts.
+   */
+  receive(post: GlobalPost, userId: string): void {
+    const existing = this.entries.get(post._id);
+    if (
+      existing &&
+      (existing.sync ||
+        post.updatedAt < existing.updatedAt ||
+        (existing.unstamped && post.updatedAt === existing.updatedAt))
+    ) {
+      return;
+    }
+
+    const liked = post.likedBy.includes(userId);
+    if (existing && existing.likes === post.likes && existing.liked === liked) {
+      existing.updatedAt = post.updatedAt;
+      existing.unstamped = false;
+      return;
+    }
+
+    const entry: LikeEntry = {
+      likes: post.likes,
+      liked,
+      wanted: liked,
+      updatedAt: post.updatedAt,
+      unstamped: false,
+      sync: null,
+      snapshot: likeStateOf(post, userId),
+    };
+    this.entries.set(post._id, entry);
+    this.notify(post._id);
+  }
+
+  /**
+   * Flip the liked state of a post for the signed-in user. Rejects, after
+   * rolling back, when the server refuses the change.
+   */
+  toggle(post: GlobalPost): Promise<LikeResult> {
+    const userId = currentUserId();
+    if (!userId) return Promise.reject(new Error("User not found"));
+
+    if (!this.entries.has(post._id)) this.receive(post, userId);
+    const entry = this.entries.get(post._id)!;
+
+    entry.wanted = !entry.wanted;
+    if (entry.sync) {
+      this.update(post._id, entry);
+      return Promise.resolve("joined");
+    }
+
+    const sync = this.sync(post._id, entry).finally(() => {
+      entry.sync = null;
+      this.update(post._id, entry);
+    });
+    entry.sync = sync;
+    this.update(post._id, entry);
+    return sync;
+  }
+
+  /** Forget everything, e.g. when the user signs out */
+  clear(): void {
+    const postIds = [...this.entries.keys()];
+    this.entries.clear();
+    postIds.forEach((postId) => this.notify(postId));
+  }
+
+  private async sync(postId: string, entry: LikeEntry): Promise<LikeResult> {
+    let queued = false;
+
+    try {
+      while (entry.liked !== entry.wanted) {
+        const response = await likePostOrQueue(
+          { _id: postId, likes: entry.likes },
+          entry.wanted
+        );
+        entry.liked = response.message === "Liked";
+        entry.likes = response.likes;
+        if (response.updatedAt) entry.updatedAt = response.updatedAt;
+        entry.unstamped = !response.updatedAt;
+        queued = queued || Boolean(response.queued);
+        this.update(postId, entry);
+      }
+      return queued ? "queued" : "synced";
+    } catch (error) {
+      entry.wanted = entry.liked;
+      throw error;
+    }
+  }
+
+  private update(postId: string, entry: LikeEntry): void {
+    const snapshot = snapshotOf(entry);
+    const previous = entry.snapshot;
+    if (
+      previous.likes === snapshot.likes &&
+      previous.liked === snapshot.liked &&
+      previous.pending === snapshot.pending
+    ) {
+      return;
+    }
+    entry.snapshot = snapshot;
+    this.notify(postId);
+  }
+
+  private notify(postId: string): void {
+    this.listeners.forEach((listener) => listener(postId));
+  }
+}
+
+// Create singleton instance
+export const likeEngine = new LikeEngine();
+export default likeEngine;
@@ -0,0 +1,162 @@
+import { parseInline, parseMarkdown, safeHref, toPlainText, trimUrl } from "./markdown";
+
+const text = (value: string) => ({ type: "text", text: value });
+
+describe("safeHref", () => {
+  it("keeps absolute http and https URLs", () => {
+    expect(safeHref("https://cuchd.in/notices")).toBe("https://cuchd.in/notices");
+    expect(safeHref("HTTP://cuchd.in")).toBe("http://cuchd.in/");
+  });
+
+  it("refuses every other scheme and relative URLs", () => {
+    expect(safeHref("javascript:alert(1)")).toBeNull();
+    expect(safeHref("JaVaScRiPt:alert(1)")).toBeNull();
+    expect(safeHref("data:text/html,<script>alert(1)</script>")).toBeNull();
+    expect(safeHref("vbscript:msgbox(1)")).toBeNull();
+    expect(safeHref("/dashboard")).toBeNull();
+    expect(safeHref("not a url")).toBeNull();
+  });
+});
+
+describe("trimUrl", () => {
+  it("drops trailing punctuation", () => {
+    expect(trimUrl("https://x.com/a.")).toBe("https://x.com/a");
+    expect(trimUrl("https://x.com/a?!")).toBe("https://x.com/a");
+  });
+
+  it("drops a closing bracket only when it is unbalanced", () => {
+    expect(trimUrl("https://x.com/a).")).toBe("https://x.com/a");
+    expect(trimUrl("https://en.wikipedia.org/wiki/C_(language)")).toBe(
+      "https://en.wikipedia.org/wiki/C_(language)"
+    );
+    expect(trimUrl("https://en.wikipedia.org/wiki/C_(language))")).toBe(
+      "https://en.wikipedia.org/wiki/C_(language)"
+    );
+  });
+});
+
+describe("parseInline", () => {
+  it("parses strong, emphasis and code spans", () => {
+    expect(parseInline("**bold** *it* __also__ _too_ `x*y*`")).toEqual([
+      { type: "strong", children: [text("bold")] },
+      text(" "),
+      { type: "em", children: [text("it")] },
+      text(" "),
+      { type: "strong", children: [text("also")] },
+      text(" "),
+      { type: "em", children: [text("too")] },
+      text(" "),
+      { type: "code", text: "x*y*" },
+    ]);
+  });
+
+  it("nests emphasis inside strong", () => {
+    expect(parseInline("**a *b* c**")).toEqual([
+      {
+        type: "strong",
+        children: [text("a "), { type: "em", children: [text("b")] }, text(" c")],
+      },
+    ]);
+  });
+
+  it("leaves unclosed and space-padded markers as text", () => {
+    expect(parseInline("**open")).toEqual([text("**open")]);
+    expect(parseInline("a * b * c")).toEqual([text("a * b * c")]);
+    expect(parseInline("`no close")).toEqual([text("`no close")]);
+    expect(parseInline("`across\nlines`")).toEqual([text("`across\nlines`")]);
+  });
+
+  it("keeps underscores inside words", () => {
+    expect(parseInline("snake_case_name and file__v2__final")).toEqual([
+      text("snake_case_name and file__v2__final"),
+    ]);
+  });
+
+  it("does not parse markers inside code spans", () => {
+    expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }]);
+  });
+
+  it("leaves emphasis as text past the maximum depth", () => {
+    expect(parseInline("*x* `y`", 3)).toEqual([
+      { type: "em", children: [text("x")] },
+      text(" "),
+      { type: "code", text: "y" },
+    ]);
+    expect(parseInline("*x* `y`", 4)).toEqual([text("*x* "), { type: "code", text: "y" }]);
+  });
+
+  it("links bare http(s) URLs without trailing punctuation", () => {
+    expect(parseInline("see (https://x.com/a).")).toEqual([
+      text("see ("),
+      { type: "link", href: "https://x.com/a", text: "https://x.com/a" },
+      text(")."),
+    ]);
+  });
+
+  it("never links other schemes", () => {
+    for (const content of [
+      "javascript:alert(1)",
+      "[x](javascript:alert(1))",
+      "data:text/html;base64,PHNjcmlwdD4=",
+      "<a href=\"javascript:alert(1)\">x</a>",
+    ]) {
+      expect(parseInline(content).some((node) => node.type === "link")).toBe(false);
+    }
+  });
+
+  it("stays fast on long runs of unclosed markers", () => {
+    for (const unit of ["**a ", "*a ", "__a ", "_a ", "`a\n"]) {
+      const content = unit.repeat(12_000);
+      const started = performance.now();
+
+      const nodes = parseInline(content);
+
+      expect(performance.now() - started).toBeLessThan(1000);
+      expect(toPlainText(content).length).toBeGreaterThan(0);
+      expect(nodes.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("splits paragraphs, lists, quotes and fenced code", () => {
+    const blocks = parseMarkdown(
+      ["Intro", "", "- one", "- two", "", "3. three", "", "> quoted", "", "```js", "let a = **1**;", "```"].join(
+        "\n"
+      )
+    );
+
+    expect(blocks).toEqual([
+      { type: "paragraph", children: [text("Intro")] },
+      { type: "list", ordered: false, start: 1, items: [[text("one")], [text("two")]] },
+      { type: "list", ordered: true, start: 3, items: [[text("three")]] },
+      { type: "blockquote", children: [{ type: "paragraph", children: [text("quoted")] }] },
+      { type: "code", language: "js", text: "let a = **1**;" },
+    ]);
+  });
+
+  it("runs an unclosed fence to the end", () => {
+    expect(parseMarkdown("```\ncode\n**more**")).toEqual([
+      { type: "code", language: null, text: "code\n**more**" },
+    ]);
+  });
+
+  it("keeps hashtags and raw HTML as text", () => {
+    expect(parseMarkdown("#placements <b>hi</b>")).toEqual([
+      { type: "paragraph", children: [text("#placements <b>hi</b>")] },
+    ]);
+  });
+
+  it("normalizes Windows line endings", () => {
+    expect(parseMarkdown("a\r\n\r\nb")).toEqual([
+      { type: "paragraph", children: [text("a")] },
+      { type: "paragraph", children: [text("b")] },
+    ]);
+  });
+});
+
+describe("toPlainText", () => {
+  it("drops the markers and keeps the text", () => {
+    expect(toPlainText("**Exam** on *Monday*, room `B-204`")).toBe("Exam on Monday, room B-204");
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Markdown subset
+ *
+ * Posts and chat messages are stored as plain text and rendered with a small
+ * Markdown subset: **bold**, *italics*, `inline code`, fenced code blocks,
+ * "- " and "1. " lists, "> " blockquotes and bare http(s) URLs, which become
+ * links. Everything else is shown as written, so "#placements" stays a hashtag.
+ *
+ * The parser returns a tree of plain objects that <Markdown> turns into React
+ * elements. Text only ever ends up as React text children and raw HTML is
+ * never interpreted, so there is no markup to sanitize; link targets are the
+ * one thing taken from the text, and only http and https URLs are allowed.
+ */
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "link"; href: string; text: string };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "code"; language: string | null; text: string }
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: InlineNode[][] };
+
+// Blockquotes and emphasis nest at most this deep; deeper markers stay as text
+const MAX_DEPTH = 4;
+
+const FENCE = /^\s{0,3}```\s*([\w+-]*)\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const BULLET_ITEM = /^\s{0,3}[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s{0,3}(\d{1,9})[.)]\s+(.*)$/;
+
+const URL_CHAR = /[^\s<>"'`]/;
+
+const isSpace = (char: string | undefined) => char !== undefined && /\s/.test(char);
+const isWord = (char: string | undefined) => char !== undefined && /\w/.test(char);
+// Present and not whitespace
+const isVisible = (char: string | undefined) => char !== undefined && !isSpace(char);
+
+/**
+ * Finds the first position from `start` on where `isCloser` holds, or -1.
+ * Callers ask with increasing `start`, so no position is looked at twice and
+ * a text full of unclosed markers is still scanned once.
+ */
+function closerFinder(text: string, isCloser: (at: number) => boolean) {
+  let found = -1;
+  let scanned = 0;
+  return (start: number): number => {
+    if (found >= start) return found;
+    let at = Math.max(start, scanned);
+    while (at < text.length && !isCloser(at)) at++;
+    scanned = at + 1;
+    found = at < text.length ? at : -1;
+    return found;
+  };
+}
+
+/** The URL to link to, or null for anything but an absolute http(s) URL */
+export function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// "(see https://x.com/a)." links https://x.com/a, not the ")." after it
+export function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const char = url[end - 1];
+    if (".,;:!?'\"".includes(char)) {
+      end--;
+    } else if (char === ")" && countOf(url.slice(0, end), "(") < countOf(url.slice(0, end), ")")) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}
+
+const countOf = (text: string, char: string) => text.split(char).length - 1;
+
+function pushText(nodes: InlineNode[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+type InlineMatch =
+  | { type: "code" | "strong" | "em"; end: number; inner: string }
+  | { type: "link"; end: number; url: string };
+
+/**
+ * Inline markers are matched left to right; at each position the first that
+ * fits wins: code span, **strong**, __strong__, *em*, _em_, URL. Emphasis
+ * closes at the nearest marker that can close it.
+ */
+function inlineMatcher(text: string) {
+  const char = (at: number): string | undefined => text[at];
+  const isEmChar = (at: number, marker: string) =>
+    isVisible(char(at)) && char(at) !== marker;
+
+  const nextBacktick = closerFinder(text, (at) => char(at) === "`");
+  const nextNewline = closerFinder(text, (at) => char(at) === "\n");
+  const strongStarsEnd = closerFinder(
+    text,
+    (at) => char(at) === "*" && char(at + 1) === "*" && isVisible(char(at - 1))
+  );
+  const strongUnderscoresEnd = closerFinder(
+    text,
+    (at) =>
+      char(at) === "_" &&
+      char(at + 1) === "_" &&
+      isVisible(char(at - 1)) &&
+      !isWord(char(at + 2))
+  );
+  const emStarsEnd = closerFinder(text, (at) => char(at) === "*" && isEmChar(at - 1, "*"));
+  const emUnderscoresEnd = closerFinder(
+    text,
+    (at) => char(at) === "_" && isEmChar(at - 1, "_") && !isWord(char(at + 1))
+  );
+
+  return (at: number): InlineMatch | null => {
+    const marker = char(at);
+
+    if (marker === "`") {
+      const close = nextBacktick(at + 1);
+      const newline = nextNewline(at + 1);
+      if (close > at + 1 && (newline === -1 || newline > close)) {
+        return { type: "code", end: close + 1, inner: text.slice(at + 1, close) };
+      }
+    }
+
+    if (marker === "*" && char(at + 1) === "*" && isVisible(char(at + 2))) {
+      const close = strongStarsEnd(at + 3);
+      if (close !== -1) return { type: "strong", end: close + 2, inner: text.slice(at + 2, close) };
+    }
+
+    const wordBefore = isWord(char(at - 1));
+    if (marker === "_" && !wordBefore && char(at + 1) === "_" && isVisible(char(at + 2))) {
+      const close = strongUnderscoresEnd(at + 3);
+      if (close !== -1) return { type: "strong", end: close + 2, inner: text.slice(at + 2, close) };
+    }
+
+    if (marker === "*" && isEmChar(at + 1, "*")) {
+      const close = emStarsEnd(at + 2);
+      if (close !== -1) return { type: "em", end: close + 1, inner: text.slice(at + 1, close) };
+    }
+
+    if (marker === "_" && !wordBefore && isEmChar(at + 1, "_")) {
+      const close = emUnderscoresEnd(at + 2);
+      if (close !== -1) return { type: "em", end: close + 1, inner: text.slice(at + 1, close) };
+    }
+
+    if (marker === "h" || marker === "H") {
+      const scheme = text.slice(at, at + 8).toLowerCase();
+      let end = at + (scheme.startsWith("https://") ? 8 : scheme.startsWith("http://") ? 7 : 0);
+      if (end > at && URL_CHAR.test(char(end) ?? "")) {
+        while (end < text.length && URL_CHAR.test(text[end])) end++;
+        return { type: "link", end, url: text.slice(at, end) };
+      }
+    }
+
+    return null;
+  };
+}
+
+export function parseInline(text: string, depth: number = 0): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  const matchAt = inlineMatcher(text);
+  let cursor = 0;
+  let at = 0;
+
+  while (at < text.length) {
+    const match = matchAt(at);
+    if (!match) {
+      at++;
+      continue;
+    }
+
+    if (match.type === "link") {
+      const trimmed = trimUrl(match.url);
+      const href = safeHref(trimmed);
+      pushText(nodes, text.slice(cursor, at));
+      if (href) {
+        nodes.push({ type: "link", href, text: trimmed });
+      } else {
+        pushText(nodes, trimmed);
+      }
+      cursor = at + trimmed.length;
+    } else if (match.type === "code") {
+      pushText(nodes, text.slice(cursor, at));
+      nodes.push({ type: "code", text: match.inner });
+      cursor = match.end;
+    } else if (depth < MAX_DEPTH) {
+      pushText(nodes, text.slice(cursor, at));
+      nodes.push({ type: match.type, children: parseInline(match.inner, depth + 1) });
+      cursor = match.end;
+    }
+    // Too deep: the markers stay as text
+    at = match.end;
+  }
+
+  pushText(nodes, text.slice(cursor));
+  return nodes;
+}
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || QUOTE.test(line) || BULLET_ITEM.test(line) || ORDERED_ITEM.test(line);
+
+function parseBlocks(lines: string[], depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code runs to the closing fence, or to the end if there is none
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", language: fence[1] || null, text: body.join("\n") });
+      continue;
+    }
+
+    if (QUOTE.test(line) && depth < MAX_DEPTH) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(body, depth + 1) });
+      continue;
+    }
+
+    const bullet = BULLET_ITEM.test(line);
+    const ordered = line.match(ORDERED_ITEM);
+    if (bullet || ordered) {
+      const itemPattern = bullet ? BULLET_ITEM : ORDERED_ITEM;
+      const items: string[] = [];
+      // Lines that do not start a new item continue the current one
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(itemPattern);
+        if (item) {
+          items.push(item[item.length - 1]);
+        } else if (startsBlock(lines[i])) {
+          break;
+        } else {
+          items[items.length - 1] += "\n" + lines[i].trim();
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered: !bullet,
+        start: ordered ? Number(ordered[1]) : 1,
+        items: items.map((item) => parseInline(item)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(content: string): BlockNode[] {
+  return parseBlocks(content.replace(/\r\n?/g, "\n").split("\n"), 0);
+}
+
+/** Content with the Markdown markers removed, for one-line previews and share text */
+export function toPlainText(content: string): string {
+  const inlineText = (nodes: InlineNode[]): string =>
+    nodes
+      .map((node) =>
+        node.type === "strong" || node.type === "em" ? inlineText(node.children) : node.text
+      )
+      .join("");
+
+  const blockText = (block: BlockNode): string => {
+    switch (block.type) {
+      case "paragraph":
+        return inlineText(block.children);
+      case "code":
+        return block.text;
+      case "blockquote":
+        return block.children.map(blockText).join("\n");
+      case "list":
+        return block.items.map(inlineText).join("\n");
+    }
+  };
+
+  return parseMarkdown(content).map(blockText).join("\n\n");
+}
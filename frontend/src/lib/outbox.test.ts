@@ -0,0 +1,192 @@
+import { createGlobalPost, likeGlobalPost, updateUserProfile } from "./api";
+import { ApiError } from "./api-error";
+import { isOfflineError, likePostOrQueue, outbox, PROFILE_SYNC_COMPLETE_EVENT } from "./outbox";
+
+jest.mock("./api", () => ({
+  createCommunityPost: jest.fn(),
+  createGlobalPost: jest.fn(),
+  likeGlobalPost: jest.fn(),
+  scheduleGlobalPost: jest.fn(),
+  updateUserProfile: jest.fn(),
+}));
+
+// IndexedDB is not in jsdom; one in-memory object store stands in for it
+jest.mock("./idb", () => {
+  const rows = new Map<number, { id: number }>();
+  let nextId = 1;
+  const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+  const store = {
+    getAll: () => [...rows.values()].map(clone),
+    add: (item: object) => {
+      const id = nextId++;
+      rows.set(id, { ...clone(item), id });
+    },
+    put: (item: { id: number }) => rows.set(item.id, clone(item)),
+    delete: (id: number) => rows.delete(id),
+    clear: () => rows.clear(),
+  };
+  return {
+    openDatabase: async () => ({ transaction: () => ({ objectStore: () => store }) }),
+    requestToPromise: async <T,>(value: T) => value,
+    transactionDone: async () => undefined,
+  };
+});
+
+const mockLike = likeGlobalPost as jest.MockedFunction<typeof likeGlobalPost>;
+const mockCreate = createGlobalPost as jest.MockedFunction<typeof createGlobalPost>;
+const mockUpdateProfile = updateUserProfile as jest.MockedFunction<typeof updateUserProfile>;
+
+const networkFailure = () => new TypeError("Failed to fetch");
+
+function setOnline(online: boolean) {
+  jest.spyOn(navigator, "onLine", "get").mockReturnValue(online);
+}
+
+beforeEach(async () => {
+  jest.resetAllMocks();
+  localStorage.setItem("user", JSON.stringify({ user_id: "u1" }));
+  await outbox.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("isOfflineError", () => {
+  it("treats fetch's network failures as offline", () => {
+    expect(isOfflineError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isOfflineError(new TypeError("NetworkError when attempting to fetch resource."))).toBe(true);
+    expect(isOfflineError(new TypeError("Load failed"))).toBe(true);
+    expect(isOfflineError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  it("does not treat other errors as offline while online", () => {
+    expect(isOfflineError(new TypeError("Cannot read properties of undefined"))).toBe(false);
+    expect(isOfflineError(new ApiError("POST /x", 500, "Server Error"))).toBe(false);
+    expect(isOfflineError(new Error("Failed to fetch"))).toBe(false);
+  });
+
+  it("treats any failure as offline when the browser says it is offline", () => {
+    setOnline(false);
+    expect(isOfflineError(new ApiError("POST /x", 500, "Server Error"))).toBe(true);
+  });
+});
+
+describe("outbox.enqueue", () => {
+  it("merges pending profile edits field by field", async () => {
+    await outbox.enqueue({ kind: "updateProfile", userId: "u1", data: { bio: "a", year: 1 } });
+    await outbox.enqueue({ kind: "updateProfile", userId: "u1", data: { bio: "b" } });
+
+    const items = await outbox.list();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ data: { bio: "b", year: 1 } });
+  });
+
+  it("cancels a pending like with its reversal", async () => {
+    await outbox.enqueue({ kind: "likePost", postId: "p1", liked: true });
+    await outbox.enqueue({ kind: "likePost", postId: "p1", liked: false });
+
+    expect(await outbox.list()).toHaveLength(0);
+  });
+
+  it("only lists the signed-in user's items", async () => {
+    await outbox.enqueue({ kind: "likePost", postId: "p1", liked: true });
+    localStorage.setItem("user", JSON.stringify({ user_id: "u2" }));
+
+    expect(await outbox.list()).toHaveLength(0);
+  });
+});
+
+describe("outbox.replay", () => {
+  it("sends pending items oldest first and removes them", async () => {
+    const sent: string[] = [];
+    mockCreate.mockImplementation(async ({ content }) => {
+      sent.push(content);
+      return {} as Awaited<ReturnType<typeof createGlobalPost>>;
+    });
+    await outbox.enqueue({ kind: "createPost", content: "first", category: "campus" });
+    await outbox.enqueue({ kind: "createPost", content: "second", category: "campus" });
+
+    await outbox.replay();
+
+    expect(sent).toEqual(["first", "second"]);
+    expect(await outbox.list()).toHaveLength(0);
+  });
+
+  it("stops at a network failure so later items never overtake", async () => {
+    mockCreate.mockRejectedValueOnce(networkFailure());
+    await outbox.enqueue({ kind: "createPost", content: "first", category: "campus" });
+    await outbox.enqueue({ kind: "createPost", content: "second", category: "campus" });
+
+    await outbox.replay();
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    const items = await outbox.list();
+    expect(items.map((item) => item.status)).toEqual(["pending", "pending"]);
+  });
+
+  it("keeps items the server rejects as failed and carries on", async () => {
+    mockCreate
+      .mockRejectedValueOnce(new ApiError("POST /globalpost", 400, "Content is required"))
+      .mockResolvedValueOnce({} as Awaited<ReturnType<typeof createGlobalPost>>);
+    await outbox.enqueue({ kind: "createPost", content: "", category: "campus" });
+    await outbox.enqueue({ kind: "createPost", content: "second", category: "campus" });
+
+    await outbox.replay();
+
+    const items = await outbox.list();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ status: "failed", attempts: 1, error: "Content is required" });
+  });
+
+  it("does not queue a bug as if it were offline", async () => {
+    mockCreate.mockRejectedValueOnce(new TypeError("post.map is not a function"));
+    await outbox.enqueue({ kind: "createPost", content: "first", category: "campus" });
+
+    await outbox.replay();
+
+    expect((await outbox.list())[0]).toMatchObject({ status: "failed" });
+  });
+
+  it("toggles a like back when it landed on the wrong side", async () => {
+    mockLike
+      .mockResolvedValueOnce({ message: "Unliked", likes: 0 })
+      .mockResolvedValueOnce({ message: "Liked", likes: 1 });
+    await outbox.enqueue({ kind: "likePost", postId: "p1", liked: true });
+
+    await outbox.replay();
+
+    expect(mockLike).toHaveBeenCalledTimes(2);
+  });
+
+  it("announces synced profiles", async () => {
+    const listener = jest.fn();
+    window.addEventListener(PROFILE_SYNC_COMPLETE_EVENT, listener);
+    mockUpdateProfile.mockResolvedValueOnce({} as Awaited<ReturnType<typeof updateUserProfile>>);
+    await outbox.enqueue({ kind: "updateProfile", userId: "u1", data: { bio: "a" } });
+
+    await outbox.replay();
+
+    window.removeEventListener(PROFILE_SYNC_COMPLETE_EVENT, listener);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect((listener.mock.calls[0][0] as CustomEvent).detail).toEqual({ syncedUsers: ["u1"] });
+  });
+});
+
+describe("likePostOrQueue", () => {
+  it("queues the like when offline and predicts the count", async () => {
+    mockLike.mockRejectedValueOnce(networkFailure());
+
+    const response = await likePostOrQueue({ _id: "p1", likes: 3 }, true);
+
+    expect(response).toEqual({ message: "Liked", likes: 4, queued: true });
+    expect(await outbox.list()).toMatchObject([{ kind: "likePost", postId: "p1", liked: true }]);
+  });
+
+  it("rethrows server errors", async () => {
+    mockLike.mockRejectedValueOnce(new ApiError("POST /like", 404, "Post not found"));
+
+    await expect(likePostOrQueue({ _id: "p1", likes: 3 }, true)).rejects.toThrow("Post not found");
+    expect(await outbox.list()).toHaveLength(0);
+  });
+});
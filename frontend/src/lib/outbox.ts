@@ -0,0 +1,338 @@
+/**
+ * Offline mutation outbox
+ *
+ * Mutations that fail because the device is offline are stored in IndexedDB
+ * and replayed in the order they were made once the browser comes back
+ * online. Items the server rejects are kept as "failed" so the user can retry
+ * or discard them instead of silently losing work.
+ */
+
+import {
+  createCommunityPost,
+  createGlobalPost,
+  likeGlobalPost,
+  scheduleGlobalPost,
+  updateUserProfile,
+  type GlobalPost,
+  type LikeResponse,
+  type NewPoll,
+  type NewReview,
+  type PostSchedule,
+} from "./api";
+import type { PostCategory } from "./categories";
+import { openDatabase, requestToPromise, transactionDone } from "./idb";
+
+const DB_NAME = "blindcu-outbox";
+const DB_VERSION = 1;
+const STORE = "mutations";
+
+export const OUTBOX_CHANGE_EVENT = "outboxChange";
+export const PROFILE_SYNC_COMPLETE_EVENT = "profileSyncComplete";
+
+export type OutboxMutation =
+  | { kind: "updateProfile"; userId: string; data: Record<string, unknown> }
+  | { kind: "likePost"; postId: string; liked: boolean }
+  | {
+      kind: "createPost";
+      content: string;
+      category: PostCategory;
+      images?: File[];
+      poll?: NewPoll;
+      review?: NewReview;
+      contentWarning?: string;
+      imageWarnings?: (string | null)[];
+      /** Publish later instead of straight away; global posts only */
+      schedule?: PostSchedule;
+      communityId?: string;
+    };
+
+export type OutboxStatus = "pending" | "failed";
+
+export type OutboxItem = OutboxMutation & {
+  id: number;
+  /** user_id of whoever queued it; only their session replays it */
+  ownerId: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  error?: string;
+};
+
+type NewOutboxItem = Omit<OutboxItem, "id">;
+
+function openOutbox(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE)) {
+      db.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+    }
+  });
+}
+
+// What fetch's TypeError says when no response came back, per engine:
+// Chrome, Firefox, Safari and Node
+const NETWORK_FAILURE = /failed to fetch|networkerror|load failed|fetch failed/i;
+
+/**
+ * Whether an error means the request never reached the server: the browser
+ * says it is offline, or fetch rejected with its network-failure TypeError.
+ * Other TypeErrors are bugs and must not be queued for replay.
+ */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  return error instanceof TypeError && NETWORK_FAILURE.test(error.message);
+}
+
+/** user_id of the signed-in user, from the stored user document */
+export function currentUserId(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const userData = localStorage.getItem("user");
+    return userData ? JSON.parse(userData).user_id ?? null : null;
+  } catch {
+    return null;
+  }
+}
+
+function notifyChange(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGE_EVENT));
+}
+
+class Outbox {
+  private replaying: Promise<void> | null = null;
+  private syncStarted = false;
+
+  /**
+   * Items queued by the signed-in user, oldest first.
+   */
+  async list(): Promise<OutboxItem[]> {
+    const ownerId = currentUserId();
+    if (!ownerId) return [];
+
+    const db = await openOutbox();
+    const store = db.transaction(STORE, "readonly").objectStore(STORE);
+    const items = await requestToPromise(store.getAll() as IDBRequest<OutboxItem[]>);
+    return items
+      .filter((item) => item.ownerId === ownerId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Queue a mutation. Pending items that conflict with it are resolved here:
+   * profile edits merge field-by-field (latest value wins) and a like that
+   * reverses a still-pending like cancels both out.
+   */
+  async enqueue(mutation: OutboxMutation): Promise<void> {
+    const ownerId = currentUserId();
+    if (!ownerId) throw new Error("User not found");
+
+    const pending = (await this.list()).filter((item) => item.status === "pending");
+    const db = await openOutbox();
+    const transaction = db.transaction(STORE, "readwrite");
+    const store = transaction.objectStore(STORE);
+
+    if (mutation.kind === "updateProfile") {
+      const existing = pending.find(
+        (item) => item.kind === "updateProfile" && item.userId === mutation.userId
+      );
+      if (existing && existing.kind === "updateProfile") {
+        store.put({ ...existing, data: { ...existing.data, ...mutation.data } });
+        await transactionDone(transaction);
+        notifyChange();
+        return;
+      }
+    }
+
+    if (mutation.kind === "likePost") {
+      const existing = pending.find(
+        (item) => item.kind === "likePost" && item.postId === mutation.postId
+      );
+      if (existing && existing.kind === "likePost") {
+        if (existing.liked !== mutation.liked) {
+          store.delete(existing.id);
+        }
+        await transactionDone(transaction);
+        notifyChange();
+        return;
+      }
+    }
+
+    const item: NewOutboxItem = {
+      ...mutation,
+      ownerId,
+      status: "pending",
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+    store.add(item);
+    await transactionDone(transaction);
+    notifyChange();
+  }
+
+  async discard(id: number): Promise<void> {
+    const db = await openOutbox();
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).delete(id);
+    await transactionDone(transaction);
+    notifyChange();
+  }
+
+  async retry(id: number): Promise<void> {
+    const item = (await this.list()).find((entry) => entry.id === id);
+    if (!item) return;
+
+    await this.put({ ...item, status: "pending", error: undefined });
+    await this.replay();
+  }
+
+  /**
+   * Replay pending items oldest first. Stops at the first network failure so
+   * later items never overtake earlier ones. Concurrent calls share one run.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Replay whenever the browser comes back online. Safe to call repeatedly.
+   */
+  startSync(): void {
+    if (this.syncStarted || typeof window === "undefined") return;
+    this.syncStarted = true;
+
+    window.addEventListener("online", () => {
+      this.replay().catch((error) => console.error("Outbox replay failed:", error));
+    });
+
+    if (navigator.onLine) {
+      this.replay().catch((error) => console.error("Outbox replay failed:", error));
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await openOutbox();
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).clear();
+    await transactionDone(transaction);
+    notifyChange();
+  }
+
+  private async runReplay(): Promise<void> {
+    const syncedUsers = new Set<string>();
+
+    for (const item of await this.list()) {
+      if (item.status !== "pending") continue;
+
+      try {
+        await this.send(item);
+        await this.discard(item.id);
+        if (item.kind === "updateProfile") syncedUsers.add(item.userId);
+      } catch (error) {
+        if (isOfflineError(error)) break;
+
+        await this.put({
+          ...item,
+          status: "failed",
+          attempts: item.attempts + 1,
+          error: error instanceof Error ? error.message : "Request failed",
+        });
+      }
+    }
+
+    if (syncedUsers.size > 0) {
+      window.dispatchEvent(
+        new CustomEvent(PROFILE_SYNC_COMPLETE_EVENT, {
+          detail: { syncedUsers: [...syncedUsers] },
+        })
+      );
+    }
+  }
+
+  private async send(item: OutboxItem): Promise<void> {
+    switch (item.kind) {
+      case "updateProfile":
+        await updateUserProfile(item.userId, item.data);
+        return;
+
+      case "likePost": {
+        // The endpoint toggles, so if the post changed state elsewhere in the
+        // meantime the first call lands on the wrong side; toggle back
+        const response = await likeGlobalPost(item.postId);
+        if ((response.message === "Liked") !== item.liked) {
+          await likeGlobalPost(item.postId);
+        }
+        return;
+      }
+
+      case "createPost": {
+        const postData = {
+          content: item.content,
+          category: item.category,
+          images: item.images,
+          poll: item.poll,
+          review: item.review,
+          contentWarning: item.contentWarning,
+          imageWarnings: item.imageWarnings,
+        };
+        if (item.schedule) {
+          await scheduleGlobalPost({ ...postData, schedule: item.schedule });
+          return;
+        }
+        if (!item.communityId) {
+          await createGlobalPost(postData);
+          return;
+        }
+        try {
+          await createCommunityPost({ ...postData, community_id: item.communityId });
+        } catch (error) {
+          if (isOfflineError(error)) throw error;
+          // Same fallback as CreatePost while community posting is unavailable
+          await createGlobalPost(postData);
+        }
+        return;
+      }
+    }
+  }
+
+  private async put(item: OutboxItem): Promise<void> {
+    const db = await openOutbox();
+    const transaction = db.transaction(STORE, "readwrite");
+    transaction.objectStore(STORE).put(item);
+    await transactionDone(transaction);
+    notifyChange();
+  }
+}
+
+// Create singleton instance
+export const outbox = new Outbox();
+
+export type QueuedLikeResponse = LikeResponse & { queued?: boolean };
+
+/**
+ * Toggle a like towards `liked`, queueing it when offline. A queued like
+ * resolves with the count the post will have once the outbox replays it.
+ */
+export async function likePostOrQueue(
+  post: Pick<GlobalPost, "_id" | "likes">,
+  liked: boolean
+): Promise<QueuedLikeResponse> {
+  try {
+    return await likeGlobalPost(post._id);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+
+    await outbox.enqueue({ kind: "likePost", postId: post._id, liked });
+    return {
+      message: liked ? "Liked" : "Unliked",
+      likes: Math.max(0, post.likes + (liked ? 1 : -1)),
+      queued: true,
+    };
+  }
+}
+
+export default outbox;
@@ -1,5 +1,7 @@
 // Simple profile service
 
+import { isOfflineError, outbox } from "./outbox";
+
 export interface ProfileUpdateResult {
   success: boolean;
   message: string;
@@ -20,6 +22,20 @@ export const profileService = {
         user: result.user,
       };
     } catch (error) {
+      if (isOfflineError(error)) {
+        try {
+          await outbox.enqueue({ kind: "updateProfile", userId, data });
+          return {
+            success: true,
+            message:
+              "You're offline. Your changes are saved and will sync when you reconnect.",
+            wasOffline: true,
+          };
+        } catch (queueError) {
+          console.error("Failed to queue profile update:", queueError);
+        }
+      }
+
       return {
         success: false,
         message:
@@ -28,13 +44,18 @@ export const profileService = {
     }
   },
 
-  hasUserPendingUpdates(userId: string): boolean {
-    // Simple implementation - always return false
-    return false;
+  async hasUserPendingUpdates(userId: string): Promise<boolean> {
+    try {
+      const items = await outbox.list();
+      return items.some(
+        (item) => item.kind === "updateProfile" && item.userId === userId
+      );
+    } catch {
+      return false;
+    }
   },
 
   async syncPendingUpdates(): Promise<void> {
-    // Simple implementation - do nothing
-    return Promise.resolve();
+    await outbox.replay();
   },
 };
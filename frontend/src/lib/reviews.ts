@@ -0,0 +1,104 @@
+/**
+ * Structured reviews
+ *
+ * A review is a post in the "reviews" category that rates one course,
+ * faculty member, hostel or mess from 1 to 5 on a few dimensions, next to
+ * the written review in its content. Reviews naming the same thing (compared
+ * by slug) are aggregated on its page under /dashboard/reviews. The subjects
+ * and dimensions match backend/src/utils/reviews.js.
+ */
+
+export const REVIEW_SUBJECTS = ["course", "faculty", "hostel", "mess"] as const;
+
+export type ReviewSubject = (typeof REVIEW_SUBJECTS)[number];
+
+export interface ReviewDimensionInfo {
+  id: string;
+  label: string;
+}
+
+export interface ReviewSubjectInfo {
+  label: string;
+  /** Plural, for lists and tabs */
+  pluralLabel: string;
+  /** Placeholder for the name input */
+  example: string;
+  dimensions: ReviewDimensionInfo[];
+}
+
+export const REVIEW_SUBJECT_INFO: Record<ReviewSubject, ReviewSubjectInfo> = {
+  course: {
+    label: "Course",
+    pluralLabel: "Courses",
+    example: "e.g. Data Structures (CSE-201)",
+    dimensions: [
+      { id: "content", label: "Content" },
+      { id: "teaching", label: "Teaching" },
+      { id: "workload", label: "Workload" },
+      { id: "grading", label: "Grading" },
+    ],
+  },
+  faculty: {
+    label: "Faculty",
+    pluralLabel: "Faculty",
+    example: "e.g. Dr. A. Sharma",
+    dimensions: [
+      { id: "teaching", label: "Teaching" },
+      { id: "clarity", label: "Clarity" },
+      { id: "approachability", label: "Approachability" },
+      { id: "grading", label: "Grading" },
+    ],
+  },
+  hostel: {
+    label: "Hostel",
+    pluralLabel: "Hostels",
+    example: "e.g. Zakir Hall A",
+    dimensions: [
+      { id: "rooms", label: "Rooms" },
+      { id: "cleanliness", label: "Cleanliness" },
+      { id: "facilities", label: "Facilities" },
+      { id: "safety", label: "Safety" },
+    ],
+  },
+  mess: {
+    label: "Mess",
+    pluralLabel: "Messes",
+    example: "e.g. Block C Mess",
+    dimensions: [
+      { id: "taste", label: "Taste" },
+      { id: "hygiene", label: "Hygiene" },
+      { id: "variety", label: "Variety" },
+      { id: "value", label: "Value" },
+    ],
+  },
+};
+
+export const MAX_REVIEW_NAME_LENGTH = 80;
+
+export function isReviewSubject(value: unknown): value is ReviewSubject {
+  return REVIEW_SUBJECTS.includes(value as ReviewSubject);
+}
+
+/** "Data Structures (CSE-201)" -> "data-structures-cse-201", as the backend does */
+export function slugifyEntity(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_REVIEW_NAME_LENGTH);
+}
+
+export const reviewEntityHref = (subject: ReviewSubject, entity: string) =>
+  `/dashboard/reviews/${subject}/${encodeURIComponent(entity)}`;
+
+export const dimensionLabel = (subject: ReviewSubject, dimension: string) =>
+  REVIEW_SUBJECT_INFO[subject].dimensions.find((info) => info.id === dimension)?.label ?? dimension;
+
+/** "2025-1" -> "Jan–Jun 2025"; semesters are half years */
+export function semesterLabel(semester: string): string {
+  const [year, half] = semester.split("-");
+  return `${half === "1" ? "Jan–Jun" : "Jul–Dec"} ${year}`;
+}
+
+/** One decimal, e.g. 4.3 */
+export const formatScore = (score: number) => score.toFixed(1);
@@ -0,0 +1,71 @@
+import {
+  buildSchedule,
+  latestPublishTime,
+  MAX_SCHEDULE_DAYS,
+  RANDOM_DELAY_PRESETS,
+  scheduleBounds,
+  toDateTimeLocal,
+} from "./scheduling";
+
+const NOW = new Date(2025, 0, 10, 12, 0);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("toDateTimeLocal", () => {
+  it("formats local time with zero padding", () => {
+    expect(toDateTimeLocal(new Date(2025, 2, 4, 9, 5))).toBe("2025-03-04T09:05");
+  });
+});
+
+describe("scheduleBounds", () => {
+  it("runs from a minute from now to MAX_SCHEDULE_DAYS ahead", () => {
+    expect(scheduleBounds(NOW)).toEqual({
+      min: "2025-01-10T12:01",
+      max: toDateTimeLocal(new Date(NOW.getTime() + MAX_SCHEDULE_DAYS * DAY_MS)),
+    });
+  });
+});
+
+describe("buildSchedule", () => {
+  it("has no schedule for posting now", () => {
+    expect(buildSchedule("now", "", 0, NOW)).toEqual({ schedule: undefined });
+  });
+
+  it("sends a set time as an ISO date", () => {
+    expect(buildSchedule("at", "2025-01-10T13:30", 0, NOW)).toEqual({
+      schedule: { publishAt: new Date(2025, 0, 10, 13, 30).toISOString() },
+    });
+  });
+
+  it("refuses a missing, past or too distant time", () => {
+    const tooLate = toDateTimeLocal(new Date(NOW.getTime() + MAX_SCHEDULE_DAYS * DAY_MS + 60 * 1000));
+
+    expect(buildSchedule("at", "", 0, NOW)).toEqual({ error: "Choose when to publish the post" });
+    expect(buildSchedule("at", "soon", 0, NOW)).toEqual({ error: "Choose when to publish the post" });
+    expect(buildSchedule("at", "2025-01-10T12:00", 0, NOW)).toEqual({
+      error: "The publish time must be in the future",
+    });
+    expect(buildSchedule("at", tooLate, 0, NOW)).toEqual({
+      error: `Posts can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead`,
+    });
+  });
+
+  it("sends the hours of a random delay preset", () => {
+    expect(buildSchedule("random", "", 1, NOW)).toEqual({
+      schedule: { randomDelayHours: RANDOM_DELAY_PRESETS[1].hours },
+    });
+    expect(buildSchedule("random", "", RANDOM_DELAY_PRESETS.length, NOW)).toEqual({
+      error: "Choose when the post may go out",
+    });
+  });
+});
+
+describe("latestPublishTime", () => {
+  it("is the set time, or the end of the random window", () => {
+    const publishAt = new Date(2025, 0, 11, 8, 0).toISOString();
+
+    expect(latestPublishTime({ publishAt }, NOW).toISOString()).toBe(publishAt);
+    expect(latestPublishTime({ randomDelayHours: [6, 12] }, NOW)).toEqual(
+      new Date(NOW.getTime() + 12 * 60 * 60 * 1000)
+    );
+  });
+});
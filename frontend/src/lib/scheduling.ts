@@ -0,0 +1,87 @@
+/**
+ * Scheduled posts
+ *
+ * A global post can go out at a time the author picks, or at a random time
+ * inside a window of hours so the publish time says nothing about when it
+ * was written. The server keeps scheduled posts private to their author and
+ * publishes them when they come due; the limits here match
+ * backend/src/utils/schedule.js.
+ */
+
+import type { PostSchedule } from "./api";
+
+export const MAX_SCHEDULE_DAYS = 30;
+
+export type PublishMode = "now" | "at" | "random";
+
+export interface RandomDelayPreset {
+  label: string;
+  hours: [number, number];
+}
+
+export const RANDOM_DELAY_PRESETS: RandomDelayPreset[] = [
+  { label: "Within 1–6 hours", hours: [1, 6] },
+  { label: "Within 6–12 hours", hours: [6, 12] },
+  { label: "Within 12–24 hours", hours: [12, 24] },
+  { label: "Within 1–3 days", hours: [24, 72] },
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** A date as a datetime-local input value, in local time */
+export function toDateTimeLocal(date: Date): string {
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/** Earliest and latest values for a publish-time input */
+export function scheduleBounds(now: Date = new Date()): { min: string; max: string } {
+  return {
+    min: toDateTimeLocal(new Date(now.getTime() + 60 * 1000)),
+    max: toDateTimeLocal(new Date(now.getTime() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000)),
+  };
+}
+
+/**
+ * The schedule to send for a datetime-local `publishAt` or a random delay
+ * preset, or what is wrong with it. "now" has no schedule.
+ */
+export function buildSchedule(
+  mode: PublishMode,
+  publishAt: string,
+  presetIndex: number,
+  now: Date = new Date()
+): { schedule: PostSchedule | undefined } | { error: string } {
+  if (mode === "now") return { schedule: undefined };
+
+  if (mode === "random") {
+    const preset = RANDOM_DELAY_PRESETS[presetIndex];
+    if (!preset) return { error: "Choose when the post may go out" };
+    return { schedule: { randomDelayHours: preset.hours } };
+  }
+
+  const date = new Date(publishAt);
+  if (!publishAt || Number.isNaN(date.getTime())) {
+    return { error: "Choose when to publish the post" };
+  }
+  if (date <= now) return { error: "The publish time must be in the future" };
+  if (date.getTime() - now.getTime() > MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `Posts can be scheduled at most ${MAX_SCHEDULE_DAYS} days ahead` };
+  }
+  return { schedule: { publishAt: date.toISOString() } };
+}
+
+/**
+ * The latest time a schedule can publish at, to check that a poll is still
+ * open when its post goes out.
+ */
+export function latestPublishTime(schedule: PostSchedule, now: Date = new Date()): Date {
+  return "publishAt" in schedule
+    ? new Date(schedule.publishAt)
+    : new Date(now.getTime() + schedule.randomDelayHours[1] * 60 * 60 * 1000);
+}
+
+export const formatPublishTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
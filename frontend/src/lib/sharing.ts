@@ -0,0 +1,57 @@
+/**
+ * Public share links
+ *
+ * Posts are only readable inside the app until their author turns on a
+ * public link, /share/<shareId>. That page and its link previews show the
+ * post without its pseudonym or comments; signed-in readers see both once
+ * the post has loaded for them. Previews of a post with a content warning
+ * show the warning instead of the text.
+ */
+
+import type { GlobalPost, SharedPost } from "./api-schemas";
+import { CATEGORY_INFO } from "./categories";
+import { toPlainText } from "./markdown";
+import { REVIEW_SUBJECT_INFO } from "./reviews";
+
+export const SITE_NAME = "Blind CU";
+
+// Longest description link previews show before cutting it off
+const DESCRIPTION_LENGTH = 200;
+const TITLE_LENGTH = 70;
+
+export const sharePath = (shareId: string) => `/share/${encodeURIComponent(shareId)}`;
+
+/**
+ * The link to hand out for a post: its public link while that is on,
+ * otherwise the in-app page, which needs a sign in.
+ */
+export function postShareUrl(post: Pick<GlobalPost, "_id" | "shareId">): string {
+  const path = post.shareId ? sharePath(post.shareId) : `/dashboard/post/${post._id}`;
+  return window.location.origin + path;
+}
+
+/** Cut text to `length` characters on a word boundary, marking the cut */
+export function excerpt(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= length) return flat;
+  const cut = flat.slice(0, length - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/** Headline of a shared post in link previews and the page title */
+export function sharedPostTitle(
+  post: Pick<SharedPost, "content" | "category" | "poll" | "review" | "contentWarning">
+): string {
+  if (post.review) {
+    return `${REVIEW_SUBJECT_INFO[post.review.subject].label} review: ${post.review.entityName}`;
+  }
+  if (post.poll && !post.contentWarning) return `Poll: ${excerpt(toPlainText(post.content), TITLE_LENGTH)}`;
+  const label = post.category ? CATEGORY_INFO[post.category].label : "Anonymous";
+  return `${label} post on ${SITE_NAME}`;
+}
+
+export function sharedPostDescription(post: Pick<SharedPost, "content" | "contentWarning">): string {
+  if (post.contentWarning) return `Content warning: ${post.contentWarning}. Open the link to read the post.`;
+  return excerpt(toPlainText(post.content), DESCRIPTION_LENGTH);
+}
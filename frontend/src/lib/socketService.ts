@@ -1,4 +1,5 @@
 import { io, Socket } from "socket.io-client";
+import { FAKE_BACKEND_ENABLED } from "./fake-backend/flag";
 
 export interface CommunityMessage {
   _id: string;
@@ -19,6 +20,9 @@ export interface SendMessageData {
   images?: string[];
 }
 
+// The server drops longer messages without telling the sender
+export const MAX_MESSAGE_LENGTH = 1000;
+
 export enum ConnectionStatus {
   DISCONNECTED = "disconnected",
   CONNECTING = "connecting",
@@ -43,6 +47,7 @@ class SocketService {
   private maxReconnectDelay = 30000; // Max 30 seconds
   private reconnectTimer: NodeJS.Timeout | null = null;
   private currentCommunityId: string | null = null;
+  private connectionId = 0; // lets a newer connect/disconnect supersede a pending fake connect
 
   constructor() {
     // Bind methods to preserve context
@@ -68,6 +73,11 @@ class SocketService {
 
     this.setConnectionStatus(ConnectionStatus.CONNECTING);
 
+    if (FAKE_BACKEND_ENABLED) {
+      this.connectToFakeBackend();
+      return;
+    }
+
     try {
       this.socket = io(serverUrl, {
         transports: ["websocket", "polling"],
@@ -106,6 +116,7 @@ class SocketService {
     this.setConnectionStatus(ConnectionStatus.DISCONNECTED);
     this.currentCommunityId = null;
     this.reconnectAttempts = 0;
+    this.connectionId++;
   }
 
   /**
@@ -151,6 +162,11 @@ class SocketService {
         return;
       }
 
+      if (messageData.message.length > MAX_MESSAGE_LENGTH) {
+        reject(new Error(`Messages can be at most ${MAX_MESSAGE_LENGTH} characters`));
+        return;
+      }
+
       try {
         this.socket.emit("send_message", messageData);
         resolve();
@@ -200,6 +216,27 @@ class SocketService {
     this.connect();
   }
 
+  /**
+   * Connect to the in-memory fake backend instead of a socket.io server
+   */
+  private connectToFakeBackend(): void {
+    const connectionId = ++this.connectionId;
+
+    import("./fake-backend")
+      .then(({ fakeBackend }) => {
+        if (connectionId !== this.connectionId) return;
+
+        this.socket?.removeAllListeners();
+        this.socket = fakeBackend.createSocket() as unknown as Socket;
+        this.setupEventListeners();
+      })
+      .catch((error) => {
+        console.error("Failed to initialize fake socket connection:", error);
+        this.setConnectionStatus(ConnectionStatus.ERROR);
+        this.callbacks.onError?.(error as Error);
+      });
+  }
+
   /**
    * Setup socket event listeners
    */